@@ -18,6 +18,10 @@ import { NotificationsModule } from './notifications/notifications.module';
 import { PresenceModule } from './presence/presence.module';
 import { WorkspacesModule } from './workspaces/workspaces.module';
 import { RealtimeModule } from './realtime/realtime.module';
+import { ScimModule } from './scim/scim.module';
+import { AuditModule } from './audit/audit.module';
+import { DataExportsModule } from './data-exports/data-exports.module';
+import { UserImportsModule } from './user-imports/user-imports.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -44,6 +48,10 @@ import configuration from './config/configuration';
     PresenceModule,
     WorkspacesModule,
     RealtimeModule,
+    ScimModule,
+    AuditModule,
+    DataExportsModule,
+    UserImportsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,10 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { auditContext } from './audit-context';
+
+@Injectable()
+export class AuditContextMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction) {
+    auditContext.run(request, next);
+  }
+}
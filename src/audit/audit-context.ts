@@ -0,0 +1,5 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request } from 'express';
+
+// Lets services attribute audit entries to the request that triggered them
+export const auditContext = new AsyncLocalStorage<Request>();
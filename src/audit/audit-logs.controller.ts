@@ -0,0 +1,46 @@
+import { Controller, Get, Header, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogPageDto, AuditLogQueryDto } from '../dto/audit-log.dto';
+import { UserRole } from '../entities';
+
+@ApiTags('Audit Logs')
+@Controller('audit-logs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  @ApiOperation({
+    summary: 'List audit log entries, newest first (Admin only)',
+  })
+  @ApiResponse({ status: 200, type: AuditLogPageDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @Get()
+  async findAll(@Query() query: AuditLogQueryDto): Promise<AuditLogPageDto> {
+    return await this.auditLogsService.findAll(query);
+  }
+
+  @ApiOperation({
+    summary: 'Export matching audit log entries as CSV (Admin only)',
+  })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @Get('export')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="audit-logs.csv"')
+  async export(@Query() query: AuditLogQueryDto): Promise<string> {
+    return await this.auditLogsService.exportCsv(query);
+  }
+}
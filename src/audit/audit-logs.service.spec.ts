@@ -0,0 +1,136 @@
+import { DataSource } from 'typeorm';
+import type { Request } from 'express';
+import { AuditLogsService } from './audit-logs.service';
+import { auditContext } from './audit-context';
+import {
+  AuditAction,
+  AuditLog,
+  AuditTargetType,
+} from '../entities/audit-log.entity';
+
+describe('AuditLogsService', () => {
+  const buildService = () => {
+    const queryBuilder = {
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn(),
+    };
+    const auditLogRepository = {
+      insert: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+    };
+    const userRepository = { find: jest.fn().mockResolvedValue([]) };
+
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest
+        .fn()
+        .mockImplementation((entity) =>
+          entity === AuditLog ? auditLogRepository : userRepository,
+        ),
+    };
+
+    const service = new AuditLogsService(dataSource as DataSource);
+
+    return { service, auditLogRepository, userRepository, queryBuilder };
+  };
+
+  const createLog = (overrides: Partial<AuditLog> = {}): AuditLog => ({
+    id: 'log-1',
+    actorId: 'admin-1',
+    action: AuditAction.USER_DEACTIVATED,
+    targetType: AuditTargetType.USER,
+    targetId: 'user-1',
+    before: JSON.stringify({ status: 'active' }),
+    after: JSON.stringify({ status: 'inactive' }),
+    ipAddress: '10.0.0.1',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  it('attributes entries to the user and IP of the current request', async () => {
+    const { service, auditLogRepository } = buildService();
+    const request = {
+      user: { id: 'admin-1' },
+      ip: '10.0.0.1',
+    } as unknown as Request;
+
+    await auditContext.run(request, () =>
+      service.record({
+        action: AuditAction.USER_DEACTIVATED,
+        targetType: AuditTargetType.USER,
+        targetId: 'user-1',
+        before: { status: 'active' },
+      }),
+    );
+
+    expect(auditLogRepository.insert).toHaveBeenCalledWith({
+      actorId: 'admin-1',
+      action: AuditAction.USER_DEACTIVATED,
+      targetType: AuditTargetType.USER,
+      targetId: 'user-1',
+      before: '{"status":"active"}',
+      after: null,
+      ipAddress: '10.0.0.1',
+    });
+  });
+
+  it('does not fail the audited operation when recording fails', async () => {
+    const { service, auditLogRepository } = buildService();
+    auditLogRepository.insert.mockRejectedValue(new Error('database down'));
+
+    await expect(
+      service.record({
+        action: AuditAction.WORKSPACE_DELETED,
+        targetType: AuditTargetType.WORKSPACE,
+        targetId: 'workspace-1',
+        actorId: 'owner-1',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('returns a cursor when more entries are available', async () => {
+    const { service, queryBuilder } = buildService();
+    queryBuilder.getMany.mockResolvedValue([
+      createLog({ id: 'log-2' }),
+      createLog({ id: 'log-1' }),
+    ]);
+
+    const page = await service.findAll({
+      action: AuditAction.USER_DEACTIVATED,
+      limit: 1,
+    });
+
+    expect(queryBuilder.take).toHaveBeenCalledWith(2);
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.action = :action', {
+      action: AuditAction.USER_DEACTIVATED,
+    });
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0].before).toEqual({ status: 'active' });
+    expect(page).toMatchObject({ hasMore: true, nextCursor: 'log-2' });
+  });
+
+  it('exports escaped CSV rows that spreadsheets will not evaluate', async () => {
+    const { service, queryBuilder, userRepository } = buildService();
+    userRepository.find.mockResolvedValue([
+      {
+        id: 'admin-1',
+        email: '=cmd@example.com',
+        firstName: 'Ada',
+        lastName: 'Admin',
+      },
+    ]);
+    queryBuilder.getMany.mockResolvedValue([createLog()]);
+
+    const csv = await service.exportCsv({});
+    const [header, row] = csv.trim().split('\r\n');
+
+    expect(header).toBe(
+      'createdAt,actorId,actorEmail,action,targetType,targetId,ipAddress,before,after',
+    );
+    expect(row).toBe(
+      `2026-01-01T00:00:00.000Z,admin-1,'=cmd@example.com,user.deactivated,user,user-1,10.0.0.1,"{""status"":""active""}","{""status"":""inactive""}"`,
+    );
+  });
+});
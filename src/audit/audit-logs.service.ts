@@ -0,0 +1,219 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { DataSource, In, Repository } from 'typeorm';
+import { AuditAction, AuditLog, AuditTargetType, User } from '../entities';
+import {
+  AuditLogPageDto,
+  AuditLogQueryDto,
+  AuditLogResponseDto,
+} from '../dto/audit-log.dto';
+import { auditContext } from './audit-context';
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  // Defaults to the signed-in user of the current request
+  actorId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'actorId',
+  'actorEmail',
+  'action',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'before',
+  'after',
+];
+
+export const toCsvCell = (value: string | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  // Keep spreadsheet applications from evaluating cells as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+@Injectable()
+export class AuditLogsService {
+  private readonly logger = new Logger(AuditLogsService.name);
+  private auditLogRepository: Repository<AuditLog>;
+  private userRepository: Repository<User>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+  ) {
+    this.auditLogRepository = this.dataSource.getRepository(AuditLog);
+    this.userRepository = this.dataSource.getRepository(User);
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    const request = auditContext.getStore();
+    const requestUser = request?.user as { id?: string } | undefined;
+
+    try {
+      await this.auditLogRepository.insert({
+        actorId:
+          entry.actorId !== undefined
+            ? entry.actorId
+            : (requestUser?.id ?? null),
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? null,
+        before: entry.before ? JSON.stringify(entry.before) : null,
+        after: entry.after ? JSON.stringify(entry.after) : null,
+        ipAddress: request?.ip ?? null,
+      });
+    } catch (error) {
+      // The audited change already happened, so it is not rolled back
+      this.logger.error(
+        `Failed to record ${entry.action} for ${entry.targetType} ${entry.targetId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  async findAll(query: AuditLogQueryDto): Promise<AuditLogPageDto> {
+    const limit = query.limit ?? 50;
+    const queryBuilder = this.auditLogRepository
+      .createQueryBuilder('log')
+      .orderBy('log.createdAt', 'DESC')
+      .addOrderBy('log.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.actorId) {
+      queryBuilder.andWhere('log.actorId = :actorId', {
+        actorId: query.actorId,
+      });
+    }
+    if (query.action) {
+      queryBuilder.andWhere('log.action = :action', { action: query.action });
+    }
+    if (query.targetType) {
+      queryBuilder.andWhere('log.targetType = :targetType', {
+        targetType: query.targetType,
+      });
+    }
+    if (query.targetId) {
+      queryBuilder.andWhere('log.targetId = :targetId', {
+        targetId: query.targetId,
+      });
+    }
+    if (query.from) {
+      queryBuilder.andWhere('log.createdAt >= :from', {
+        from: new Date(query.from),
+      });
+    }
+    if (query.to) {
+      queryBuilder.andWhere('log.createdAt <= :to', {
+        to: new Date(query.to),
+      });
+    }
+    if (query.cursor) {
+      // Compare against the stored timestamp so no precision is lost
+      queryBuilder.andWhere(
+        `(log.createdAt < (SELECT cursorLog.createdAt FROM audit_logs cursorLog WHERE cursorLog.id = :cursor)
+          OR (log.createdAt = (SELECT cursorLog.createdAt FROM audit_logs cursorLog WHERE cursorLog.id = :cursor)
+            AND log.id < :cursor))`,
+        { cursor: query.cursor },
+      );
+    }
+
+    const logs = await queryBuilder.getMany();
+    const hasMore = logs.length > limit;
+    if (hasMore) {
+      logs.pop();
+    }
+
+    return {
+      items: await this.formatLogs(logs),
+      hasMore,
+      nextCursor: hasMore ? logs[logs.length - 1].id : undefined,
+    };
+  }
+
+  async exportCsv(query: AuditLogQueryDto): Promise<string> {
+    const rows = [CSV_COLUMNS.join(',')];
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.findAll({
+        ...query,
+        cursor,
+        limit: EXPORT_BATCH_SIZE,
+      });
+      page.items.forEach((log) =>
+        rows.push(
+          [
+            log.createdAt.toISOString(),
+            log.actorId,
+            log.actor?.email,
+            log.action,
+            log.targetType,
+            log.targetId,
+            log.ipAddress,
+            log.before ? JSON.stringify(log.before) : null,
+            log.after ? JSON.stringify(log.after) : null,
+          ]
+            .map((value) => toCsvCell(value))
+            .join(','),
+        ),
+      );
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return `${rows.join('\r\n')}\r\n`;
+  }
+
+  private async formatLogs(logs: AuditLog[]): Promise<AuditLogResponseDto[]> {
+    const actorIds = [
+      ...new Set(
+        logs
+          .map((log) => log.actorId)
+          .filter((actorId): actorId is string => !!actorId),
+      ),
+    ];
+    const actors = actorIds.length
+      ? await this.userRepository.find({
+          where: { id: In(actorIds) },
+          select: ['id', 'email', 'firstName', 'lastName'],
+        })
+      : [];
+    const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+    return logs.map((log) => {
+      const actor = log.actorId ? actorsById.get(log.actorId) : undefined;
+      return {
+        id: log.id,
+        actor: actor
+          ? {
+              id: actor.id,
+              email: actor.email,
+              firstName: actor.firstName,
+              lastName: actor.lastName,
+            }
+          : null,
+        actorId: log.actorId,
+        action: log.action,
+        targetType: log.targetType,
+        targetId: log.targetId,
+        before: log.before
+          ? (JSON.parse(log.before) as Record<string, unknown>)
+          : null,
+        after: log.after
+          ? (JSON.parse(log.after) as Record<string, unknown>)
+          : null,
+        ipAddress: log.ipAddress,
+        createdAt: log.createdAt,
+      };
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { UserActionToken, UserActionTokenType } from '../entities';
+
+@Injectable()
+export class ActionTokensService {
+  private tokenRepository: Repository<UserActionToken>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+  ) {
+    this.tokenRepository = this.dataSource.getRepository(UserActionToken);
+  }
+
+  /**
+   * Issues a single-use token and invalidates any outstanding token of the
+   * same type. Only the hash is stored; the raw value is returned once.
+   */
+  async issue(
+    userId: string,
+    type: UserActionTokenType,
+    ttlMinutes: number,
+  ): Promise<string> {
+    await this.tokenRepository.update(
+      { userId, type, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId,
+        type,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+        usedAt: null,
+      }),
+    );
+
+    return token;
+  }
+
+  /**
+   * Marks a valid token as used and returns its owner, or null when the
+   * token is unknown, expired or already consumed.
+   */
+  async consume(
+    token: string,
+    type: UserActionTokenType,
+  ): Promise<string | null> {
+    const tokenHash = this.hashToken(token);
+    const record = await this.tokenRepository.findOne({
+      where: {
+        tokenHash,
+        type,
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const result = await this.tokenRepository.update(
+      { id: record.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    return (result.affected ?? 0) > 0 ? record.userId : null;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -6,6 +6,13 @@ import {
   Get,
   Request,
   UnauthorizedException,
+  HttpCode,
+  HttpStatus,
+  Headers,
+  Ip,
+  Delete,
+  Param,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,6 +22,9 @@ import {
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { UserRole } from '../entities';
 
 interface AuthenticatedRequest extends Request {
   user: {
@@ -24,6 +34,7 @@ interface AuthenticatedRequest extends Request {
     lastName: string;
     role: string;
     workspaceId: number;
+    sessionId?: string;
   };
 }
 import {
@@ -31,7 +42,15 @@ import {
   RegisterDto,
   AuthResponseDto,
   RefreshTokenDto,
+  TokenPairDto,
+  SessionResponseDto,
 } from '../dto/auth.dto';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorChallengeTokenDto,
+  TwoFactorEnrollmentDto,
+  TwoFactorLoginDto,
+} from '../dto/two-factor.dto';
 
 @ApiTags('Authentication')
 @Controller('auth')
@@ -44,10 +63,57 @@ export class AuthController {
     description: 'Login successful',
     type: AuthResponseDto,
   })
+  @ApiResponse({
+    status: 201,
+    description: 'Two-factor authentication required',
+    type: TwoFactorChallengeDto,
+  })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts' })
   @Post('login')
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    return this.authService.login(loginDto, { userAgent, ipAddress });
+  }
+
+  @ApiOperation({ summary: 'Complete login with a two-factor code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid challenge or code' })
+  @Post('login/2fa')
+  async loginWithTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.loginWithTwoFactor(twoFactorLoginDto, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Start mandatory two-factor enrollment during login',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Enrollment secret generated',
+    type: TwoFactorEnrollmentDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid challenge' })
+  @Post('login/2fa/setup')
+  async beginChallengeEnrollment(
+    @Body() challengeTokenDto: TwoFactorChallengeTokenDto,
+  ): Promise<TwoFactorEnrollmentDto> {
+    return this.authService.beginChallengeEnrollment(
+      challengeTokenDto.challenge_token,
+    );
   }
 
   @ApiOperation({ summary: 'User registration' })
@@ -58,17 +124,25 @@ export class AuthController {
   })
   @ApiResponse({ status: 409, description: 'User already exists' })
   @Post('register')
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto, { userAgent, ipAddress });
   }
 
   @ApiOperation({ summary: 'Refresh access token' })
-  @ApiResponse({ status: 200, description: 'Token refreshed successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Token refreshed successfully',
+    type: TokenPairDto,
+  })
   @ApiResponse({ status: 401, description: 'Invalid refresh token' })
   @Post('refresh')
   async refresh(
     @Body() refreshTokenDto: RefreshTokenDto,
-  ): Promise<{ access_token: string }> {
+  ): Promise<TokenPairDto> {
     const result = await this.authService.refreshToken(
       refreshTokenDto.refresh_token,
     );
@@ -78,6 +152,67 @@ export class AuthController {
     return result;
   }
 
+  @ApiOperation({ summary: 'Log out the session of a refresh token' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.authService.logout(refreshTokenDto.refresh_token);
+  }
+
+  @ApiOperation({ summary: 'Log out every session of the current user' })
+  @ApiResponse({ status: 204, description: 'All sessions revoked' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@Request() req: AuthenticatedRequest): Promise<void> {
+    await this.authService.logoutAll(req.user.id);
+  }
+
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions',
+    type: [SessionResponseDto],
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async listSessions(
+    @Request() req: AuthenticatedRequest,
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.listSessions(req.user.id, req.user.sessionId);
+  }
+
+  @ApiOperation({ summary: 'Revoke one session of the current user' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    await this.authService.revokeSession(req.user.id, id);
+  }
+
+  @ApiOperation({ summary: 'Lift a login lockout early (Admin only)' })
+  @ApiResponse({ status: 204, description: 'Account unlocked' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Delete('lockouts/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unlockAccount(
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<void> {
+    await this.authService.unlockAccount(userId);
+  }
+
   @ApiOperation({ summary: 'Get current user profile' })
   @ApiResponse({
     status: 200,
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -7,16 +7,40 @@ import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
 import { LocalStrategy } from './local.strategy';
 import { JwtStrategy } from './jwt.strategy';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { ActionTokensService } from './action-tokens.service';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetController } from './password-reset.controller';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailVerificationController } from './email-verification.controller';
 import { DatabaseModule } from '../config/database.module';
 import { PresenceModule } from '../presence/presence.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { LoginThrottleService } from './login-throttle.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { PersonalAccessTokenStrategy } from './personal-access-token.strategy';
+import { OidcService } from './oidc.service';
+import { OidcController } from './oidc.controller';
 
 @Module({
   imports: [
-    UsersModule,
+    forwardRef(() => UsersModule),
     PassportModule,
     ConfigModule,
     DatabaseModule,
+    AuditModule,
     PresenceModule,
+    forwardRef(() => RealtimeModule),
+    MailModule,
+    forwardRef(() => NotificationsModule),
+    forwardRef(() => WorkspacesModule),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
@@ -28,8 +52,28 @@ import { PresenceModule } from '../presence/presence.module';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, LocalStrategy, JwtStrategy],
-  exports: [AuthService],
+  controllers: [
+    AuthController,
+    TwoFactorController,
+    PasswordResetController,
+    EmailVerificationController,
+    PersonalAccessTokensController,
+    OidcController,
+  ],
+  providers: [
+    AuthService,
+    SessionsService,
+    TwoFactorService,
+    ActionTokensService,
+    PasswordResetService,
+    EmailVerificationService,
+    LoginThrottleService,
+    PersonalAccessTokensService,
+    OidcService,
+    LocalStrategy,
+    JwtStrategy,
+    PersonalAccessTokenStrategy,
+  ],
+  exports: [AuthService, SessionsService, ActionTokensService],
 })
 export class AuthModule {}
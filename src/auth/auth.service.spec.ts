@@ -1,4 +1,10 @@
-import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { PresenceStatus } from '../entities/presence.entity';
 import { UserRole, UserStatus, User } from '../entities/user.entity';
@@ -7,6 +13,19 @@ import type { UsersService } from '../users/users.service';
 import type { JwtService } from '@nestjs/jwt';
 import type { ConfigService } from '@nestjs/config';
 import type { PresenceService } from '../presence/presence.service';
+import type { SessionsService } from './sessions.service';
+import type { ChatGateway } from '../realtime/chat.gateway';
+import type { TwoFactorService } from './two-factor.service';
+import type { EmailVerificationService } from './email-verification.service';
+import type { LoginThrottleService } from './login-throttle.service';
+import type { WorkspaceInvitationsService } from '../workspaces/workspace-invitations.service';
+import type { AuditLogsService } from '../audit/audit-logs.service';
+import type { TwoFactorChallengeDto } from '../dto/two-factor.dto';
+import {
+  AuthSession,
+  AuthSessionRevocationReason,
+} from '../entities/auth-session.entity';
+import type { WorkspaceInvitation } from '../entities/workspace-invitation.entity';
 const createUserStub = (overrides: Partial<User> = {}): User => ({
   id: 'user-1',
   email: 'test@example.com',
@@ -19,6 +38,20 @@ const createUserStub = (overrides: Partial<User> = {}): User => ({
   department: '',
   position: '',
   lastLoginAt: new Date(),
+  isEmailVerified: true,
+  emailVerifiedAt: new Date(),
+  twoFactorEnabled: false,
+  twoFactorSecret: null,
+  twoFactorLastUsedStep: null,
+  oidcSubject: null,
+  scimExternalId: null,
+  avatarUrl: null,
+  timezone: 'UTC',
+  locale: 'en-US',
+  workingHours: null,
+  deletedAt: null,
+  guestExpiresAt: null,
+  tokenVersion: 0,
   createdAt: new Date(),
   updatedAt: new Date(),
   ownedProjects: [],
@@ -49,9 +82,12 @@ describe('AuthService', () => {
     findById: jest.fn(),
   };
 
-  const mockJwtService: jest.Mocked<Pick<JwtService, 'sign' | 'verify'>> = {
+  const mockJwtService: jest.Mocked<
+    Pick<JwtService, 'sign' | 'verify' | 'decode'>
+  > = {
     sign: jest.fn(),
     verify: jest.fn(),
+    decode: jest.fn(),
   };
 
   const mockConfigService: jest.Mocked<Pick<ConfigService, 'get'>> = {
@@ -64,12 +100,91 @@ describe('AuthService', () => {
     setAutomaticStatus: jest.fn(),
   };
 
+  const mockSessionsService: jest.Mocked<
+    Pick<
+      SessionsService,
+      | 'create'
+      | 'findActive'
+      | 'storeRefreshToken'
+      | 'rotateRefreshToken'
+      | 'matchesRefreshToken'
+      | 'revoke'
+      | 'revokeAllForUser'
+      | 'findActiveByUser'
+    >
+  > = {
+    create: jest.fn(),
+    findActive: jest.fn(),
+    storeRefreshToken: jest.fn(),
+    rotateRefreshToken: jest.fn(),
+    matchesRefreshToken: jest.fn(),
+    revoke: jest.fn(),
+    revokeAllForUser: jest.fn(),
+    findActiveByUser: jest.fn(),
+  };
+
+  const mockChatGateway: jest.Mocked<
+    Pick<ChatGateway, 'disconnectSession' | 'disconnectUser'>
+  > = {
+    disconnectSession: jest.fn(),
+    disconnectUser: jest.fn(),
+  };
+
+  const mockTwoFactorService: jest.Mocked<
+    Pick<
+      TwoFactorService,
+      'isRequiredFor' | 'verifyCode' | 'confirmEnrollment' | 'beginEnrollment'
+    >
+  > = {
+    isRequiredFor: jest.fn(),
+    verifyCode: jest.fn(),
+    confirmEnrollment: jest.fn(),
+    beginEnrollment: jest.fn(),
+  };
+
+  const mockEmailVerificationService: jest.Mocked<
+    Pick<EmailVerificationService, 'sendVerification'>
+  > = {
+    sendVerification: jest.fn(),
+  };
+
+  const mockLoginThrottleService: jest.Mocked<
+    Pick<
+      LoginThrottleService,
+      'assertAllowed' | 'recordFailure' | 'reset' | 'unlock'
+    >
+  > = {
+    assertAllowed: jest.fn(),
+    recordFailure: jest.fn(),
+    reset: jest.fn(),
+    unlock: jest.fn(),
+  };
+
+  const mockWorkspaceInvitationsService: jest.Mocked<
+    Pick<WorkspaceInvitationsService, 'claim' | 'joinClaimed' | 'releaseUse'>
+  > = {
+    claim: jest.fn(),
+    joinClaimed: jest.fn(),
+    releaseUse: jest.fn(),
+  };
+
+  const mockAuditLogsService: jest.Mocked<Pick<AuditLogsService, 'record'>> = {
+    record: jest.fn(),
+  };
+
   const createService = (): AuthService =>
     new AuthService(
       mockUsersService as unknown as UsersService,
       mockJwtService as unknown as JwtService,
       mockConfigService as unknown as ConfigService,
       mockPresenceService as unknown as PresenceService,
+      mockSessionsService as unknown as SessionsService,
+      mockChatGateway as unknown as ChatGateway,
+      mockTwoFactorService as unknown as TwoFactorService,
+      mockEmailVerificationService as unknown as EmailVerificationService,
+      mockLoginThrottleService as unknown as LoginThrottleService,
+      mockWorkspaceInvitationsService as unknown as WorkspaceInvitationsService,
+      mockAuditLogsService as unknown as AuditLogsService,
     );
 
   beforeEach(() => {
@@ -91,6 +206,11 @@ describe('AuthService', () => {
       (payload: unknown, options?: unknown) =>
         options ? 'refresh-token' : 'access-token',
     );
+    mockJwtService.decode.mockReturnValue({ exp: 1_900_000_000 });
+    mockSessionsService.create.mockResolvedValue({
+      id: 'session-1',
+    } as AuthSession);
+    mockTwoFactorService.isRequiredFor.mockResolvedValue(false);
   });
 
   it('logs in a user and updates presence', async () => {
@@ -104,7 +224,7 @@ describe('AuthService', () => {
       password: 'secret',
     };
 
-    const result: AuthResponseDto = await service.login(loginDto);
+    const result = (await service.login(loginDto)) as AuthResponseDto;
 
     expect(mockUsersService.findByEmail).toHaveBeenCalledWith(
       'test@example.com',
@@ -137,6 +257,27 @@ describe('AuthService', () => {
       UnauthorizedException,
     );
     expect(mockUsersService.updateLastLogin).not.toHaveBeenCalled();
+    expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+      'missing@example.com',
+      undefined,
+      null,
+    );
+  });
+
+  it('clears failed attempts after a successful password check', async () => {
+    const service = createService();
+    const user = createUserStub();
+    mockUsersService.findByEmail.mockResolvedValue(user);
+
+    await expect(
+      service.validateUser(user.email, 'secret', '10.0.0.1'),
+    ).resolves.toBe(user);
+    expect(mockLoginThrottleService.assertAllowed).toHaveBeenCalledWith(
+      user.email,
+      '10.0.0.1',
+    );
+    expect(mockLoginThrottleService.reset).toHaveBeenCalledWith(user.email);
+    expect(mockLoginThrottleService.recordFailure).not.toHaveBeenCalled();
   });
 
   it('returns null when refresh token verification fails', async () => {
@@ -186,9 +327,451 @@ describe('AuthService', () => {
     const result = await service.register(registerDto);
 
     expect(bcrypt.hash).toHaveBeenCalledWith('secret', 10);
-    expect(mockUsersService.create).toHaveBeenCalled();
+    expect(mockUsersService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'new@example.com' }),
+      false,
+    );
+    expect(mockEmailVerificationService.sendVerification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'new-user' }),
+    );
     expect(result.access_token).toBe('access-token');
     expect(result.refresh_token).toBe('refresh-token');
     expect(result.user.id).toBe('new-user');
   });
+
+  it('joins the invited workspace when registering with an invitation', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValueOnce(null);
+    mockUsersService.create.mockResolvedValue(
+      createUserStub({ id: 'invited-user', email: 'invited@example.com' }),
+    );
+    const invitation = {
+      id: 'invitation-1',
+      email: 'invited@example.com',
+    } as WorkspaceInvitation;
+    mockWorkspaceInvitationsService.claim.mockResolvedValue(invitation);
+    mockWorkspaceInvitationsService.joinClaimed.mockResolvedValue({
+      workspaceId: 'workspace-1',
+    });
+
+    const result = await service.register({
+      email: 'invited@example.com',
+      password: 'secret',
+      firstName: 'Invited',
+      lastName: 'User',
+      invitationToken: 'invite-token',
+    });
+
+    expect(mockUsersService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'invited@example.com' }),
+      true,
+    );
+    expect(
+      mockEmailVerificationService.sendVerification,
+    ).not.toHaveBeenCalled();
+    expect(mockWorkspaceInvitationsService.claim).toHaveBeenCalledWith(
+      'invite-token',
+      'invited@example.com',
+    );
+    expect(
+      mockWorkspaceInvitationsService.claim.mock.invocationCallOrder[0],
+    ).toBeLessThan(mockUsersService.create.mock.invocationCallOrder[0]);
+    expect(mockWorkspaceInvitationsService.joinClaimed).toHaveBeenCalledWith(
+      invitation,
+      'invited-user',
+    );
+    expect(result.workspaceId).toBe('workspace-1');
+  });
+
+  it('creates no account when the invitation cannot be claimed', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValueOnce(null);
+    mockWorkspaceInvitationsService.claim.mockRejectedValueOnce(
+      new BadRequestException('Invalid or expired invitation'),
+    );
+
+    await expect(
+      service.register({
+        email: 'invited@example.com',
+        password: 'secret',
+        firstName: 'Invited',
+        lastName: 'User',
+        invitationToken: 'spent-token',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(mockUsersService.create).not.toHaveBeenCalled();
+  });
+
+  it('gives the invitation use back when the account cannot be created', async () => {
+    const service = createService();
+    const invitation = { id: 'invitation-1' } as WorkspaceInvitation;
+    mockUsersService.findByEmail.mockResolvedValueOnce(null);
+    mockUsersService.create.mockRejectedValueOnce(new Error('duplicate key'));
+    mockWorkspaceInvitationsService.claim.mockResolvedValue(invitation);
+
+    await expect(
+      service.register({
+        email: 'invited@example.com',
+        password: 'secret',
+        firstName: 'Invited',
+        lastName: 'User',
+        invitationToken: 'invite-token',
+      }),
+    ).rejects.toThrow('duplicate key');
+    expect(mockWorkspaceInvitationsService.releaseUse).toHaveBeenCalledWith(
+      invitation,
+    );
+    expect(mockWorkspaceInvitationsService.joinClaimed).not.toHaveBeenCalled();
+  });
+
+  it('stores the hashed refresh token on a new session at login', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValue(createUserStub());
+
+    await service.login({ email: 'test@example.com', password: 'secret' });
+
+    expect(mockSessionsService.create).toHaveBeenCalledWith('user-1', {
+      deviceLabel: undefined,
+    });
+    expect(mockJwtService.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: 'user-1', sid: 'session-1' }),
+    );
+    expect(mockSessionsService.storeRefreshToken).toHaveBeenCalledWith(
+      'session-1',
+      'refresh-token',
+      new Date(1_900_000_000 * 1000),
+    );
+  });
+
+  it('rotates the refresh token of an active session', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      email: 'test@example.com',
+      sub: 'user-1',
+      role: UserRole.TEAM_MEMBER,
+      sid: 'session-1',
+    });
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+    } as AuthSession);
+    mockSessionsService.matchesRefreshToken.mockReturnValue(true);
+    mockSessionsService.rotateRefreshToken.mockResolvedValueOnce(true);
+    mockUsersService.findById.mockResolvedValue(createUserStub());
+
+    await expect(service.refreshToken('old-refresh')).resolves.toEqual({
+      access_token: 'access-token',
+      refresh_token: 'refresh-token',
+    });
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+    expect(mockSessionsService.rotateRefreshToken).toHaveBeenCalledWith(
+      'session-1',
+      'old-refresh',
+      'refresh-token',
+      expect.any(Date),
+    );
+  });
+
+  it('treats a refresh token rotated by a concurrent request as reused', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      email: 'test@example.com',
+      sub: 'user-1',
+      role: UserRole.TEAM_MEMBER,
+      sid: 'session-1',
+    });
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+    } as AuthSession);
+    mockSessionsService.matchesRefreshToken.mockReturnValue(true);
+    mockSessionsService.rotateRefreshToken.mockResolvedValueOnce(false);
+    mockUsersService.findById.mockResolvedValue(createUserStub());
+
+    await expect(service.refreshToken('old-refresh')).resolves.toBeNull();
+    expect(mockSessionsService.revoke).toHaveBeenCalledWith(
+      'session-1',
+      AuthSessionRevocationReason.REUSE_DETECTED,
+    );
+    expect(mockChatGateway.disconnectSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it('revokes the session when a rotated refresh token is reused', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      email: 'test@example.com',
+      sub: 'user-1',
+      role: UserRole.TEAM_MEMBER,
+      sid: 'session-1',
+    });
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+    } as AuthSession);
+    mockSessionsService.matchesRefreshToken.mockReturnValue(false);
+
+    await expect(service.refreshToken('stale-refresh')).resolves.toBeNull();
+    expect(mockSessionsService.revoke).toHaveBeenCalledWith(
+      'session-1',
+      AuthSessionRevocationReason.REUSE_DETECTED,
+    );
+    expect(mockSessionsService.rotateRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('refuses to log a deactivated user back in', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValue(
+      createUserStub({ status: UserStatus.INACTIVE }),
+    );
+
+    await expect(
+      service.login({ email: 'test@example.com', password: 'secret' }),
+    ).rejects.toThrow('Account is deactivated');
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to refresh tokens of a deactivated user', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      email: 'test@example.com',
+      sub: 'user-1',
+      role: UserRole.TEAM_MEMBER,
+      sid: 'session-1',
+    });
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+    } as AuthSession);
+    mockSessionsService.matchesRefreshToken.mockReturnValue(true);
+    mockUsersService.findById.mockResolvedValue(
+      createUserStub({ status: UserStatus.INACTIVE }),
+    );
+
+    await expect(service.refreshToken('old-refresh')).resolves.toBeNull();
+    expect(mockSessionsService.rotateRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('revokes every session of a user on logout-all', async () => {
+    const service = createService();
+
+    await service.logoutAll('user-1');
+
+    expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(
+      'user-1',
+      AuthSessionRevocationReason.LOGOUT_ALL,
+    );
+  });
+
+  it('lists active sessions and flags the current one', async () => {
+    const service = createService();
+    const createdAt = new Date();
+    mockSessionsService.findActiveByUser.mockResolvedValue([
+      {
+        id: 'session-1',
+        deviceLabel: 'Phone',
+        userAgent: 'Crewdo/1.0',
+        ipAddress: '10.0.0.1',
+        createdAt,
+        lastUsedAt: null,
+      },
+      {
+        id: 'session-2',
+        deviceLabel: null,
+        userAgent: null,
+        ipAddress: null,
+        createdAt,
+        lastUsedAt: null,
+      },
+    ] as AuthSession[]);
+
+    const sessions = await service.listSessions('user-1', 'session-2');
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        id: 'session-1',
+        deviceLabel: 'Phone',
+        current: false,
+      }),
+      expect.objectContaining({ id: 'session-2', current: true }),
+    ]);
+  });
+
+  it('revokes a single session and disconnects its sockets', async () => {
+    const service = createService();
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+    } as AuthSession);
+
+    await service.revokeSession('user-1', 'session-1');
+
+    expect(mockSessionsService.revoke).toHaveBeenCalledWith(
+      'session-1',
+      AuthSessionRevocationReason.LOGOUT,
+    );
+    expect(mockChatGateway.disconnectSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it("refuses to revoke another user's session", async () => {
+    const service = createService();
+    mockSessionsService.findActive.mockResolvedValue({
+      id: 'session-1',
+      userId: 'someone-else',
+    } as AuthSession);
+
+    await expect(
+      service.revokeSession('user-1', 'session-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(mockSessionsService.revoke).not.toHaveBeenCalled();
+  });
+
+  it('returns a challenge instead of tokens when two-factor is enabled', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValue(
+      createUserStub({ twoFactorEnabled: true }),
+    );
+
+    const result = (await service.login({
+      email: 'test@example.com',
+      password: 'secret',
+    })) as TwoFactorChallengeDto;
+
+    expect(result).toEqual({
+      challenge_token: expect.any(String),
+      twoFactorRequired: true,
+    });
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+    expect(mockUsersService.updateLastLogin).not.toHaveBeenCalled();
+  });
+
+  it('flags mandatory enrollment for privileged users without two-factor', async () => {
+    const service = createService();
+    mockUsersService.findByEmail.mockResolvedValue(
+      createUserStub({ role: UserRole.ADMIN }),
+    );
+    mockTwoFactorService.isRequiredFor.mockResolvedValue(true);
+
+    const result = (await service.login({
+      email: 'test@example.com',
+      password: 'secret',
+    })) as TwoFactorChallengeDto;
+
+    expect(result.twoFactorSetupRequired).toBe(true);
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+  });
+
+  it('exchanges a challenge and valid code for tokens', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      sub: 'user-1',
+      purpose: '2fa_challenge',
+      deviceLabel: 'Phone',
+    });
+    mockUsersService.findById.mockResolvedValue(
+      createUserStub({ twoFactorEnabled: true }),
+    );
+    mockTwoFactorService.verifyCode.mockResolvedValue(true);
+
+    const result = await service.loginWithTwoFactor({
+      challenge_token: 'challenge',
+      code: '123456',
+    });
+
+    expect(mockTwoFactorService.verifyCode).toHaveBeenCalledWith(
+      'user-1',
+      '123456',
+    );
+    expect(mockSessionsService.create).toHaveBeenCalledWith('user-1', {
+      deviceLabel: 'Phone',
+    });
+    expect(mockLoginThrottleService.reset).toHaveBeenCalledWith(
+      'test@example.com',
+    );
+    expect(result.access_token).toBe('access-token');
+  });
+
+  it('refuses a two-factor login once guest access has expired', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      sub: 'user-1',
+      purpose: '2fa_challenge',
+    });
+    mockUsersService.findById.mockResolvedValue(
+      createUserStub({
+        role: UserRole.GUEST,
+        twoFactorEnabled: true,
+        guestExpiresAt: new Date(Date.now() - 1000),
+      }),
+    );
+
+    await expect(
+      service.loginWithTwoFactor({
+        challenge_token: 'challenge',
+        code: '123456',
+      }),
+    ).rejects.toThrow('Guest access has expired');
+    expect(mockTwoFactorService.verifyCode).not.toHaveBeenCalled();
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps failed attempts of two-factor accounts until a code is verified', async () => {
+    const service = createService();
+    const user = createUserStub({ twoFactorEnabled: true });
+    mockUsersService.findByEmail.mockResolvedValue(user);
+
+    await expect(
+      service.validateUser(user.email, 'secret', '10.0.0.1'),
+    ).resolves.toBe(user);
+    expect(mockLoginThrottleService.reset).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid two-factor code', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      sub: 'user-1',
+      purpose: '2fa_challenge',
+    });
+    mockUsersService.findById.mockResolvedValue(
+      createUserStub({ twoFactorEnabled: true }),
+    );
+    mockTwoFactorService.verifyCode.mockResolvedValue(false);
+
+    await expect(
+      service.loginWithTwoFactor(
+        {
+          challenge_token: 'challenge',
+          code: '000000',
+        },
+        { ipAddress: '10.0.0.1' },
+      ),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+      'test@example.com',
+      '10.0.0.1',
+      expect.objectContaining({ id: 'user-1' }),
+    );
+    expect(mockSessionsService.create).not.toHaveBeenCalled();
+  });
+
+  it('stops checking two-factor codes once the account is throttled', async () => {
+    const service = createService();
+    mockJwtService.verify.mockReturnValue({
+      sub: 'user-1',
+      purpose: '2fa_challenge',
+    });
+    mockUsersService.findById.mockResolvedValue(
+      createUserStub({ twoFactorEnabled: true }),
+    );
+    mockLoginThrottleService.assertAllowed.mockRejectedValueOnce(
+      new HttpException('Too many failed login attempts', 429),
+    );
+
+    await expect(
+      service.loginWithTwoFactor({
+        challenge_token: 'challenge',
+        code: '123456',
+      }),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect(mockTwoFactorService.verifyCode).not.toHaveBeenCalled();
+  });
 });
@@ -2,20 +2,56 @@ import {
   Injectable,
   UnauthorizedException,
   ConflictException,
+  NotFoundException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
-import { UsersService } from '../users/users.service';
-import { User } from '../entities';
+import { randomUUID } from 'crypto';
+import { UsersService, isGuestAccessExpired } from '../users/users.service';
+import {
+  User,
+  UserStatus,
+  AuthSessionRevocationReason,
+  AuditAction,
+  AuditTargetType,
+} from '../entities';
 import { PresenceService } from '../presence/presence.service';
 import { PresenceStatus } from '../entities/presence.entity';
-import { LoginDto, RegisterDto, AuthResponseDto } from '../dto/auth.dto';
+import {
+  LoginDto,
+  RegisterDto,
+  AuthResponseDto,
+  TokenPairDto,
+  SessionResponseDto,
+} from '../dto/auth.dto';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorEnrollmentDto,
+  TwoFactorLoginDto,
+} from '../dto/two-factor.dto';
+import { SessionsService, SessionClientInfo } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { EmailVerificationService } from './email-verification.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { WorkspaceInvitationsService } from '../workspaces/workspace-invitations.service';
+import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
 
 interface JwtPayload {
   email: string;
   sub: string;
   role: string;
+  sid?: string;
+  tv?: number;
+}
+
+interface TwoFactorChallengePayload {
+  sub: string;
+  purpose: '2fa_challenge';
+  deviceLabel?: string;
 }
 
 @Injectable()
@@ -25,78 +61,216 @@ export class AuthService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private readonly presenceService: PresenceService,
+    private readonly sessionsService: SessionsService,
+    private readonly chatGateway: ChatGateway,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly loginThrottleService: LoginThrottleService,
+    @Inject(forwardRef(() => WorkspaceInvitationsService))
+    private readonly workspaceInvitationsService: WorkspaceInvitationsService,
+    private readonly auditLogsService: AuditLogsService,
   ) {}
 
-  async validateUser(email: string, password: string): Promise<User | null> {
+  async validateUser(
+    email: string,
+    password: string,
+    ipAddress?: string,
+  ): Promise<User | null> {
+    await this.loginThrottleService.assertAllowed(email, ipAddress);
+
     const user = await this.usersService.findByEmail(email);
     if (user && (await bcrypt.compare(password, user.password))) {
+      if (user.status !== UserStatus.ACTIVE) {
+        throw new UnauthorizedException('Account is deactivated');
+      }
+      // With two-factor on, the counter is only cleared by a valid code so
+      // signing in again cannot reset failed code guesses
+      if (!user.twoFactorEnabled) {
+        await this.loginThrottleService.reset(email);
+      }
       return user;
     }
+
+    await this.loginThrottleService.recordFailure(email, ipAddress, user);
+    await this.auditLogsService.record({
+      action: AuditAction.AUTH_LOGIN_FAILED,
+      targetType: AuditTargetType.USER,
+      targetId: user?.id ?? null,
+      actorId: null,
+      after: { email },
+    });
     return null;
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
-    const user = await this.validateUser(loginDto.email, loginDto.password);
+  async login(
+    loginDto: LoginDto,
+    clientInfo: SessionClientInfo = {},
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    const user = await this.validateUser(
+      loginDto.email,
+      loginDto.password,
+      clientInfo.ipAddress,
+    );
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
+    if (isGuestAccessExpired(user)) {
+      throw new UnauthorizedException('Guest access has expired');
+    }
 
-    const payload = { email: user.email, sub: user.id, role: user.role };
-    const access_token = this.jwtService.sign(payload);
-    const refresh_token = this.generateRefreshToken(payload);
+    const setupRequired =
+      !user.twoFactorEnabled &&
+      (await this.twoFactorService.isRequiredFor(user));
 
-    // Update last login
-    await this.usersService.updateLastLogin(user.id);
+    if (user.twoFactorEnabled || setupRequired) {
+      return {
+        challenge_token: this.signChallengeToken(user, loginDto.deviceLabel),
+        twoFactorRequired: true,
+        ...(setupRequired ? { twoFactorSetupRequired: true } : {}),
+      };
+    }
 
-    try {
-      await this.presenceService.setAutomaticStatus(
-        user.id,
-        PresenceStatus.ONLINE,
+    return await this.completeLogin(user, {
+      ...clientInfo,
+      deviceLabel: loginDto.deviceLabel,
+    });
+  }
+
+  async loginWithTwoFactor(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    clientInfo: SessionClientInfo = {},
+  ): Promise<AuthResponseDto> {
+    const challenge = this.verifyChallengeToken(
+      twoFactorLoginDto.challenge_token,
+    );
+    const user = await this.usersService.findById(challenge.sub);
+    if (!user) {
+      throw new UnauthorizedException('Invalid two-factor challenge');
+    }
+    // The account may have been deactivated or expired since the password step
+    if (user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+    if (isGuestAccessExpired(user)) {
+      throw new UnauthorizedException('Guest access has expired');
+    }
+
+    const sessionInfo = { ...clientInfo, deviceLabel: challenge.deviceLabel };
+
+    if (user.twoFactorEnabled) {
+      // Codes and recovery codes share the password login throttle
+      await this.loginThrottleService.assertAllowed(
+        user.email,
+        clientInfo.ipAddress,
       );
-    } catch (error) {
-      console.warn(
-        `Failed to set presence online for user ${user.id}: ${String(error)}`,
+      const valid = await this.twoFactorService.verifyCode(
+        user.id,
+        twoFactorLoginDto.code,
       );
+      if (!valid) {
+        await this.loginThrottleService.recordFailure(
+          user.email,
+          clientInfo.ipAddress,
+          user,
+        );
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+      await this.loginThrottleService.reset(user.email);
+      return await this.completeLogin(user, sessionInfo);
     }
 
-    return {
-      access_token,
-      refresh_token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      },
-    };
+    if (!(await this.twoFactorService.isRequiredFor(user))) {
+      throw new UnauthorizedException('Invalid two-factor challenge');
+    }
+
+    // Mandatory enrollment finishes with the first valid code
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      user.id,
+      twoFactorLoginDto.code,
+    );
+    const response = await this.completeLogin(user, sessionInfo);
+
+    return { ...response, recoveryCodes };
   }
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
-    const existingUser = await this.usersService.findByEmail(registerDto.email);
+  async beginChallengeEnrollment(
+    challengeToken: string,
+  ): Promise<TwoFactorEnrollmentDto> {
+    const challenge = this.verifyChallengeToken(challengeToken);
+    const user = await this.usersService.findById(challenge.sub);
+    if (
+      !user ||
+      user.twoFactorEnabled ||
+      !(await this.twoFactorService.isRequiredFor(user))
+    ) {
+      throw new UnauthorizedException('Invalid two-factor challenge');
+    }
+
+    return await this.twoFactorService.beginEnrollment(user.id);
+  }
+
+  async register(
+    registerDto: RegisterDto,
+    clientInfo: SessionClientInfo = {},
+  ): Promise<AuthResponseDto> {
+    const { deviceLabel, invitationToken, ...profile } = registerDto;
+    const existingUser = await this.usersService.findByEmail(profile.email);
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
 
+    // Claim the invitation before the account exists so a spent or revoked
+    // invitation never leaves behind an account outside the workspace
+    const invitation = invitationToken
+      ? await this.workspaceInvitationsService.claim(
+          invitationToken,
+          profile.email,
+        )
+      : null;
+    // An emailed invitation already proves the address belongs to the user
+    const emailConfirmed = !!invitation?.email;
+
     // Hash password
     const saltRounds = 10;
-    const hashedPassword = await bcrypt.hash(registerDto.password, saltRounds);
+    const hashedPassword = await bcrypt.hash(profile.password, saltRounds);
 
     const userData = {
-      ...registerDto,
+      ...profile,
       password: hashedPassword,
     };
 
-    const user = await this.usersService.create(userData);
+    let user: User;
+    try {
+      user = await this.usersService.create(userData, emailConfirmed);
+    } catch (error) {
+      if (invitation) {
+        await this.workspaceInvitationsService.releaseUse(invitation);
+      }
+      throw error;
+    }
+
+    if (!emailConfirmed) {
+      try {
+        await this.emailVerificationService.sendVerification(user);
+      } catch (error) {
+        console.warn(
+          `Failed to send verification email to user ${user.id}: ${String(error)}`,
+        );
+      }
+    }
+
+    const joined = invitation
+      ? await this.workspaceInvitationsService.joinClaimed(invitation, user.id)
+      : null;
 
     // Generate tokens
-    const payload = { email: user.email, sub: user.id, role: user.role };
-    const access_token = this.jwtService.sign(payload);
-    const refresh_token = this.generateRefreshToken(payload);
+    const tokens = await this.issueTokens(user, {
+      ...clientInfo,
+      deviceLabel,
+    });
 
     return {
-      access_token,
-      refresh_token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
@@ -104,6 +278,7 @@ export class AuthService {
         lastName: user.lastName,
         role: user.role,
       },
+      ...(joined ? { workspaceId: joined.workspaceId } : {}),
     };
   }
 
@@ -117,35 +292,283 @@ export class AuthService {
       '7d',
     );
 
+    // The jti keeps every rotated token unique, even within the same second
+    return this.jwtService.sign(
+      { ...payload, jti: randomUUID() },
+      {
+        secret,
+        expiresIn,
+      },
+    );
+  }
+
+  async refreshToken(refreshToken: string): Promise<TokenPairDto | null> {
+    const payload = this.verifyRefreshToken(refreshToken);
+    if (!payload?.sid) {
+      return null;
+    }
+
+    const session = await this.sessionsService.findActive(payload.sid);
+    if (!session || session.userId !== payload.sub) {
+      return null;
+    }
+
+    if (!this.sessionsService.matchesRefreshToken(session, refreshToken)) {
+      await this.revokeReusedSession(session.id);
+      return null;
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (
+      !user ||
+      user.status !== UserStatus.ACTIVE ||
+      isGuestAccessExpired(user) ||
+      (payload.tv ?? 0) !== user.tokenVersion
+    ) {
+      return null;
+    }
+
+    const tokens = this.createTokenPair(user, session.id);
+    const rotated = await this.sessionsService.rotateRefreshToken(
+      session.id,
+      refreshToken,
+      tokens.refresh_token,
+      this.getTokenExpiry(tokens.refresh_token),
+    );
+    if (!rotated) {
+      // Another refresh already rotated this token since it was read
+      await this.revokeReusedSession(session.id);
+      return null;
+    }
+
+    return tokens;
+  }
+
+  private async revokeReusedSession(sessionId: string): Promise<void> {
+    // A validly signed but already rotated token means the family leaked
+    console.warn(
+      `Refresh token reuse detected for session ${sessionId}, revoking`,
+    );
+    await this.sessionsService.revoke(
+      sessionId,
+      AuthSessionRevocationReason.REUSE_DETECTED,
+    );
+    this.chatGateway.disconnectSession(sessionId);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const payload = this.verifyRefreshToken(refreshToken);
+    if (!payload?.sid) {
+      return;
+    }
+
+    await this.sessionsService.revoke(
+      payload.sid,
+      AuthSessionRevocationReason.LOGOUT,
+    );
+    this.chatGateway.disconnectSession(payload.sid);
+  }
+
+  async logoutAll(userId: string): Promise<void> {
+    await this.sessionsService.revokeAllForUser(
+      userId,
+      AuthSessionRevocationReason.LOGOUT_ALL,
+    );
+    this.chatGateway.disconnectUser(userId);
+    await this.auditLogsService.record({
+      action: AuditAction.AUTH_SESSIONS_REVOKED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      actorId: userId,
+    });
+  }
+
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsService.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceLabel: session.deviceLabel ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      ipAddress: session.ipAddress ?? undefined,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt ?? undefined,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionsService.findActive(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.sessionsService.revoke(
+      session.id,
+      AuthSessionRevocationReason.LOGOUT,
+    );
+    this.chatGateway.disconnectSession(session.id);
+    await this.auditLogsService.record({
+      action: AuditAction.AUTH_SESSION_REVOKED,
+      targetType: AuditTargetType.SESSION,
+      targetId: session.id,
+      actorId: userId,
+      before: {
+        deviceLabel: session.deviceLabel,
+        ipAddress: session.ipAddress,
+      },
+    });
+  }
+
+  async completeSsoLogin(
+    user: User,
+    clientInfo: SessionClientInfo = {},
+  ): Promise<AuthResponseDto> {
+    return await this.completeLogin(user, clientInfo);
+  }
+
+  async unlockAccount(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.loginThrottleService.unlock(user.email);
+    await this.auditLogsService.record({
+      action: AuditAction.AUTH_ACCOUNT_UNLOCKED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+    });
+  }
+
+  private async completeLogin(
+    user: User,
+    clientInfo: SessionClientInfo,
+  ): Promise<AuthResponseDto> {
+    const tokens = await this.issueTokens(user, clientInfo);
+
+    // Update last login
+    await this.usersService.updateLastLogin(user.id);
+    await this.auditLogsService.record({
+      action: AuditAction.AUTH_LOGIN,
+      targetType: AuditTargetType.USER,
+      targetId: user.id,
+      actorId: user.id,
+    });
+
+    try {
+      await this.presenceService.setAutomaticStatus(
+        user.id,
+        PresenceStatus.ONLINE,
+      );
+    } catch (error) {
+      console.warn(
+        `Failed to set presence online for user ${user.id}: ${String(error)}`,
+      );
+    }
+
+    return {
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+      },
+    };
+  }
+
+  private signChallengeToken(user: User, deviceLabel?: string): string {
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      purpose: '2fa_challenge',
+      deviceLabel,
+    };
+
     return this.jwtService.sign(payload, {
-      secret,
-      expiresIn,
+      secret: this.configService.get<string>(
+        'jwt.challengeSecret',
+        'jwt_challenge_secret',
+      ),
+      expiresIn: this.configService.get<string>('jwt.challengeExpiresIn', '5m'),
     });
   }
 
-  async refreshToken(
-    refreshToken: string,
-  ): Promise<{ access_token: string } | null> {
+  private verifyChallengeToken(token: string): TwoFactorChallengePayload {
     try {
-      const payload = this.jwtService.verify<JwtPayload>(refreshToken, {
+      const payload = this.jwtService.verify<TwoFactorChallengePayload>(token, {
         secret: this.configService.get<string>(
-          'jwt.refreshSecret',
-          'jwt_refresh_secret',
+          'jwt.challengeSecret',
+          'jwt_challenge_secret',
         ),
       });
-
-      const user = await this.usersService.findById(payload.sub);
-      if (!user) {
-        throw new UnauthorizedException('Invalid refresh token');
+      if (payload.purpose === '2fa_challenge') {
+        return payload;
       }
+    } catch {
+      // Falls through to the rejection below
+    }
 
-      const newPayload = { email: user.email, sub: user.id, role: user.role };
-      const access_token = this.jwtService.sign(newPayload);
+    throw new UnauthorizedException('Invalid two-factor challenge');
+  }
 
-      return { access_token };
+  private async issueTokens(
+    user: User,
+    clientInfo: SessionClientInfo,
+  ): Promise<TokenPairDto> {
+    const session = await this.sessionsService.create(user.id, clientInfo);
+    return await this.signTokens(user, session.id);
+  }
+
+  private async signTokens(
+    user: User,
+    sessionId: string,
+  ): Promise<TokenPairDto> {
+    const tokens = this.createTokenPair(user, sessionId);
+
+    await this.sessionsService.storeRefreshToken(
+      sessionId,
+      tokens.refresh_token,
+      this.getTokenExpiry(tokens.refresh_token),
+    );
+
+    return tokens;
+  }
+
+  private createTokenPair(user: User, sessionId: string): TokenPairDto {
+    const payload: JwtPayload = {
+      email: user.email,
+      sub: user.id,
+      role: user.role,
+      sid: sessionId,
+      tv: user.tokenVersion ?? 0,
+    };
+    const access_token = this.jwtService.sign(payload);
+    const refresh_token = this.generateRefreshToken(payload);
+
+    return { access_token, refresh_token };
+  }
+
+  private verifyRefreshToken(refreshToken: string): JwtPayload | null {
+    try {
+      return this.jwtService.verify<JwtPayload>(refreshToken, {
+        secret: this.configService.get<string>(
+          'jwt.refreshSecret',
+          'jwt_refresh_secret',
+        ),
+      });
     } catch {
       // Invalid token
       return null;
     }
   }
+
+  private getTokenExpiry(token: string): Date {
+    const decoded = this.jwtService.decode<{ exp?: number } | null>(token);
+    return decoded?.exp ? new Date(decoded.exp * 1000) : new Date();
+  }
 }
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { PersonalAccessTokenScope } from '../../entities';
+
+export const SCOPES_KEY = 'scopes';
+export const Scopes = (...scopes: PersonalAccessTokenScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
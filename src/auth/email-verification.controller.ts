@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { EmailVerificationService } from './email-verification.service';
+import { VerifyEmailDto } from '../dto/auth.dto';
+import { User } from '../entities';
+
+@ApiTags('Authentication')
+@Controller('auth/verify-email')
+export class EmailVerificationController {
+  constructor(
+    private readonly emailVerificationService: EmailVerificationService,
+  ) {}
+
+  @ApiOperation({ summary: 'Confirm an email address with its token' })
+  @ApiResponse({ status: 200, description: 'Email address verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  async confirm(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    await this.emailVerificationService.confirm(verifyEmailDto.token);
+    return { message: 'Email address verified' };
+  }
+
+  @ApiOperation({ summary: 'Send a new verification email' })
+  @ApiResponse({ status: 200, description: 'Verification email sent' })
+  @ApiResponse({ status: 400, description: 'Email already verified' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post('resend')
+  @HttpCode(HttpStatus.OK)
+  async resend(@CurrentUser() user: User): Promise<{ message: string }> {
+    await this.emailVerificationService.resend(user.id);
+    return { message: 'Verification email sent' };
+  }
+}
@@ -0,0 +1,106 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EmailVerificationService } from './email-verification.service';
+import { UserActionTokenType } from '../entities';
+import type { User } from '../entities';
+import type { UsersService } from '../users/users.service';
+import type { ActionTokensService } from './action-tokens.service';
+import type { MailService } from '../mail/mail.service';
+import type { ConfigService } from '@nestjs/config';
+
+describe('EmailVerificationService', () => {
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    firstName: 'Test',
+    isEmailVerified: false,
+  } as User;
+
+  const usersService = {
+    findById: jest.fn(),
+    markEmailVerified: jest.fn(),
+  };
+  const actionTokensService = {
+    issue: jest.fn(),
+    consume: jest.fn(),
+  };
+  const mailService = {
+    sendEmailVerification: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'frontendUrl' ? 'https://app.crewdo.test' : defaultValue,
+    ),
+  };
+
+  const service = new EmailVerificationService(
+    usersService as unknown as UsersService,
+    actionTokensService as unknown as ActionTokensService,
+    mailService as unknown as MailService,
+    configService as unknown as ConfigService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('emails a verification link with a single-use token', async () => {
+    actionTokensService.issue.mockResolvedValue('raw/token');
+
+    await service.sendVerification(user);
+
+    expect(actionTokensService.issue).toHaveBeenCalledWith(
+      'user-1',
+      UserActionTokenType.EMAIL_VERIFICATION,
+      48 * 60,
+    );
+    expect(mailService.sendEmailVerification).toHaveBeenCalledWith(
+      'user@example.com',
+      'Test',
+      'https://app.crewdo.test/verify-email?token=raw%2Ftoken',
+      48,
+    );
+  });
+
+  it('marks the address verified when the token is consumed', async () => {
+    actionTokensService.consume.mockResolvedValue('user-1');
+
+    await service.confirm('raw-token');
+
+    expect(actionTokensService.consume).toHaveBeenCalledWith(
+      'raw-token',
+      UserActionTokenType.EMAIL_VERIFICATION,
+    );
+    expect(usersService.markEmailVerified).toHaveBeenCalledWith('user-1');
+  });
+
+  it('rejects unknown, expired or already used tokens', async () => {
+    actionTokensService.consume.mockResolvedValue(null);
+
+    await expect(service.confirm('raw-token')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('resends the link only while the address is unverified', async () => {
+    actionTokensService.issue.mockResolvedValue('raw-token');
+    usersService.findById.mockResolvedValueOnce(user);
+
+    await service.resend('user-1');
+    expect(mailService.sendEmailVerification).toHaveBeenCalledTimes(1);
+
+    usersService.findById.mockResolvedValueOnce({
+      ...user,
+      isEmailVerified: true,
+    });
+    await expect(service.resend('user-1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+
+    usersService.findById.mockResolvedValueOnce(null);
+    await expect(service.resend('user-2')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(mailService.sendEmailVerification).toHaveBeenCalledTimes(1);
+  });
+});
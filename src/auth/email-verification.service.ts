@@ -0,0 +1,71 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { ActionTokensService } from './action-tokens.service';
+import { User, UserActionTokenType } from '../entities';
+
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly actionTokensService: ActionTokensService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async sendVerification(
+    user: Pick<User, 'id' | 'email' | 'firstName'>,
+  ): Promise<void> {
+    const ttlHours = this.configService.get<number>(
+      'auth.emailVerificationTtlHours',
+      48,
+    );
+    const token = await this.actionTokensService.issue(
+      user.id,
+      UserActionTokenType.EMAIL_VERIFICATION,
+      ttlHours * 60,
+    );
+
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    const verificationUrl = `${frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.mailService.sendEmailVerification(
+      user.email,
+      user.firstName,
+      verificationUrl,
+      ttlHours,
+    );
+  }
+
+  async resend(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.isEmailVerified) {
+      throw new BadRequestException('Email address is already verified');
+    }
+
+    await this.sendVerification(user);
+  }
+
+  async confirm(token: string): Promise<void> {
+    const userId = await this.actionTokensService.consume(
+      token,
+      UserActionTokenType.EMAIL_VERIFICATION,
+    );
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.usersService.markEmailVerified(userId);
+  }
+}
@@ -0,0 +1,76 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { PersonalAccessTokenScope } from '../../entities';
+
+describe('JwtAuthGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const guard = new JwtAuthGuard(reflector as unknown as Reflector);
+
+  const createContext = (user: object): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+      getHandler: () => undefined,
+      getClass: () => undefined,
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+  });
+
+  it('lets session users through without checking scopes', async () => {
+    await expect(
+      guard.canActivate(createContext({ id: 'user-1' })),
+    ).resolves.toBe(true);
+    expect(reflector.getAllAndOverride).not.toHaveBeenCalled();
+  });
+
+  it('allows a personal access token holding the route scopes', async () => {
+    reflector.getAllAndOverride.mockReturnValue([
+      PersonalAccessTokenScope.TASKS_WRITE,
+    ]);
+
+    await expect(
+      guard.canActivate(
+        createContext({
+          id: 'user-1',
+          tokenScopes: [
+            PersonalAccessTokenScope.TASKS_READ,
+            PersonalAccessTokenScope.TASKS_WRITE,
+          ],
+        }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects a personal access token missing a route scope', async () => {
+    reflector.getAllAndOverride.mockReturnValue([
+      PersonalAccessTokenScope.TASKS_WRITE,
+    ]);
+
+    await expect(
+      guard.canActivate(
+        createContext({
+          id: 'user-1',
+          tokenScopes: [PersonalAccessTokenScope.TASKS_READ],
+        }),
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('rejects personal access tokens on routes without declared scopes', async () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    await expect(
+      guard.canActivate(
+        createContext({
+          id: 'user-1',
+          tokenScopes: [PersonalAccessTokenScope.MESSAGES_WRITE],
+        }),
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
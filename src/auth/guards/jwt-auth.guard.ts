@@ -1,5 +1,51 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { PersonalAccessTokenScope } from '../../entities';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+
+interface AuthenticatedRequest extends Request {
+  user?: { id: string; tokenScopes?: PersonalAccessTokenScope[] };
+}
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard(['jwt', 'personal-access-token']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    await super.canActivate(context);
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const tokenScopes = request.user?.tokenScopes;
+    if (!tokenScopes) {
+      return true;
+    }
+
+    // Personal access tokens only reach routes that declare their scopes
+    const requiredScopes = this.reflector.getAllAndOverride<
+      PersonalAccessTokenScope[]
+    >(SCOPES_KEY, [context.getHandler(), context.getClass()]);
+    if (!requiredScopes?.length) {
+      throw new ForbiddenException(
+        'This endpoint is not available to personal access tokens',
+      );
+    }
+
+    const missing = requiredScopes.filter(
+      (scope) => !tokenScopes.includes(scope),
+    );
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Access token is missing scopes: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -2,13 +2,16 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
-import { UsersService } from '../users/users.service';
+import { UsersService, isGuestAccessExpired } from '../users/users.service';
+import { SessionsService } from './sessions.service';
+import { UserStatus } from '../entities';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -17,11 +20,32 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: { email: string; sub: string; role: string }) {
+  async validate(payload: {
+    email: string;
+    sub: string;
+    role: string;
+    sid?: string;
+    tv?: number;
+  }) {
+    if (payload.sid) {
+      const session = await this.sessionsService.findActive(payload.sid);
+      if (!session) {
+        throw new UnauthorizedException();
+      }
+    }
+
     const user = await this.usersService.findById(payload.sub);
-    if (!user) {
+    // Tokens minted before a password, status or role change are stale
+    if (
+      !user ||
+      user.status !== UserStatus.ACTIVE ||
+      (payload.tv ?? 0) !== user.tokenVersion
+    ) {
       throw new UnauthorizedException();
     }
-    return user;
+    if (isGuestAccessExpired(user)) {
+      throw new UnauthorizedException('Guest access has expired');
+    }
+    return Object.assign(user, { sessionId: payload.sid });
   }
 }
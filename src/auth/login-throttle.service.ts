@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  Inject,
+  HttpException,
+  HttpStatus,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, IsNull } from 'typeorm';
+import {
+  LoginThrottle,
+  LoginThrottleScope,
+  NotificationType,
+  User,
+  UserRole,
+  UserStatus,
+} from '../entities';
+import { NotificationService } from '../notifications/notification.service';
+
+interface LoginThrottleSettings {
+  freeAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  lockoutThreshold: number;
+  ipLockoutThreshold: number;
+  lockoutMinutes: number;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  private throttleRepository: Repository<LoginThrottle>;
+  private userRepository: Repository<User>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    @Inject(forwardRef(() => NotificationService))
+    private readonly notificationService: NotificationService,
+  ) {
+    this.throttleRepository = this.dataSource.getRepository(LoginThrottle);
+    this.userRepository = this.dataSource.getRepository(User);
+  }
+
+  async assertAllowed(email: string, ipAddress?: string): Promise<void> {
+    const now = Date.now();
+    let retryAfterMs = 0;
+
+    for (const key of this.keysFor(email, ipAddress)) {
+      const record = await this.throttleRepository.findOne({ where: { key } });
+      if (!record) {
+        continue;
+      }
+
+      if (record.lockedUntil && record.lockedUntil.getTime() <= now) {
+        await this.throttleRepository.delete({ key });
+        continue;
+      }
+
+      const blockedUntil = this.getBlockedUntil(record);
+      if (blockedUntil > now) {
+        retryAfterMs = Math.max(retryAfterMs, blockedUntil - now);
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, try again later',
+          retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  async recordFailure(
+    email: string,
+    ipAddress: string | undefined,
+    user: User | null,
+  ): Promise<void> {
+    const settings = this.getSettings();
+    const now = new Date();
+
+    for (const key of this.keysFor(email, ipAddress)) {
+      const scope = key.startsWith(`${LoginThrottleScope.IP}:`)
+        ? LoginThrottleScope.IP
+        : LoginThrottleScope.ACCOUNT;
+
+      // Count in the database so concurrent failures are never lost
+      if (!(await this.incrementFailures(key, now))) {
+        try {
+          await this.throttleRepository.insert({
+            key,
+            scope,
+            failedCount: 1,
+            lastFailedAt: now,
+          });
+        } catch (error) {
+          // A concurrent failure created the row first
+          if (!(await this.incrementFailures(key, now))) {
+            throw error;
+          }
+        }
+      }
+
+      const record = await this.throttleRepository.findOneOrFail({
+        where: { key },
+      });
+      const threshold =
+        scope === LoginThrottleScope.IP
+          ? settings.ipLockoutThreshold
+          : settings.lockoutThreshold;
+      if (record.lockedUntil || record.failedCount < threshold) {
+        continue;
+      }
+
+      // Only the request that sets the lock notifies the admins
+      const lockedUntil = new Date(
+        now.getTime() + settings.lockoutMinutes * 60 * 1000,
+      );
+      const locked = await this.throttleRepository
+        .createQueryBuilder()
+        .update(LoginThrottle)
+        .set({ lockedUntil })
+        .where({ key, lockedUntil: IsNull() })
+        .execute();
+      if (locked.affected) {
+        record.lockedUntil = lockedUntil;
+        await this.notifyAdmins(
+          record,
+          scope === LoginThrottleScope.ACCOUNT ? user : null,
+        );
+      }
+    }
+  }
+
+  async reset(email: string): Promise<void> {
+    await this.throttleRepository.delete({ key: this.accountKey(email) });
+  }
+
+  async unlock(email: string): Promise<boolean> {
+    const result = await this.throttleRepository.delete({
+      key: this.accountKey(email),
+    });
+    return (result.affected ?? 0) > 0;
+  }
+
+  private async incrementFailures(key: string, now: Date): Promise<boolean> {
+    const result = await this.throttleRepository
+      .createQueryBuilder()
+      .update(LoginThrottle)
+      .set({ failedCount: () => 'failedCount + 1', lastFailedAt: now })
+      .where({ key })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  private getBlockedUntil(record: LoginThrottle): number {
+    if (record.lockedUntil) {
+      return record.lockedUntil.getTime();
+    }
+
+    const settings = this.getSettings();
+    const excess = record.failedCount - settings.freeAttempts;
+    if (excess <= 0 || !record.lastFailedAt) {
+      return 0;
+    }
+
+    const delaySeconds = Math.min(
+      settings.baseDelaySeconds * 2 ** (excess - 1),
+      settings.maxDelaySeconds,
+    );
+    return record.lastFailedAt.getTime() + delaySeconds * 1000;
+  }
+
+  private async notifyAdmins(
+    record: LoginThrottle,
+    user: User | null,
+  ): Promise<void> {
+    const admins = await this.userRepository.find({
+      where: { role: UserRole.ADMIN, status: UserStatus.ACTIVE },
+      select: ['id'],
+    });
+
+    const subject =
+      record.scope === LoginThrottleScope.IP
+        ? `IP address ${record.key.slice(LoginThrottleScope.IP.length + 1)}`
+        : `Account ${record.key.slice(LoginThrottleScope.ACCOUNT.length + 1)}`;
+
+    for (const admin of admins) {
+      try {
+        await this.notificationService.create({
+          title: 'Login Locked Out',
+          message: `${subject} was locked after ${record.failedCount} failed login attempts`,
+          type: NotificationType.ACCOUNT_LOCKED,
+          userId: admin.id,
+          relatedEntityId: user?.id,
+          relatedEntityType: user ? 'user' : undefined,
+        });
+      } catch (error) {
+        console.warn(
+          '[LoginThrottleService] Failed to notify admin about lockout:',
+          error,
+        );
+      }
+    }
+  }
+
+  private keysFor(email: string, ipAddress?: string): string[] {
+    const keys = [this.accountKey(email)];
+    if (ipAddress) {
+      keys.push(`${LoginThrottleScope.IP}:${ipAddress}`);
+    }
+    return keys;
+  }
+
+  private accountKey(email: string): string {
+    return `${LoginThrottleScope.ACCOUNT}:${email.trim().toLowerCase()}`;
+  }
+
+  private getSettings(): LoginThrottleSettings {
+    return this.configService.get<LoginThrottleSettings>('auth.loginThrottle', {
+      freeAttempts: 3,
+      baseDelaySeconds: 1,
+      maxDelaySeconds: 30,
+      lockoutThreshold: 10,
+      ipLockoutThreshold: 50,
+      lockoutMinutes: 15,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { Controller, Get, Post, Body, Headers, Ip } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { OidcService } from './oidc.service';
+import { AuthResponseDto } from '../dto/auth.dto';
+import { OidcAuthorizationDto, OidcCallbackDto } from '../dto/oidc.dto';
+
+@ApiTags('Authentication')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oidcService: OidcService,
+  ) {}
+
+  @ApiOperation({ summary: 'Start a single sign-on login' })
+  @ApiResponse({ status: 200, type: OidcAuthorizationDto })
+  @ApiResponse({ status: 404, description: 'Single sign-on is not configured' })
+  @Get('authorize')
+  async authorize(): Promise<OidcAuthorizationDto> {
+    return {
+      authorizationUrl: await this.oidcService.createAuthorizationUrl(),
+    };
+  }
+
+  @ApiOperation({ summary: 'Finish a single sign-on login' })
+  @ApiResponse({
+    status: 201,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Single sign-on login failed' })
+  @Post('callback')
+  async callback(
+    @Body() callbackDto: OidcCallbackDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ): Promise<AuthResponseDto> {
+    const user = await this.oidcService.authenticate(
+      callbackDto.code,
+      callbackDto.state,
+    );
+    return this.authService.completeSsoLogin(user, {
+      deviceLabel: callbackDto.deviceLabel,
+      userAgent,
+      ipAddress,
+    });
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { DataSource, Repository } from 'typeorm';
+import axios from 'axios';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import { UsersService } from '../users/users.service';
+import {
+  OidcAuthorizationRequest,
+  User,
+  UserRole,
+  UserStatus,
+} from '../entities';
+
+interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scope: string;
+  groupsClaim: string;
+  roleMapping: string;
+  stateTtlMinutes: number;
+}
+
+interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcIdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+const ROLE_PRECEDENCE = [
+  UserRole.ADMIN,
+  UserRole.PROJECT_MANAGER,
+  UserRole.TEAM_MEMBER,
+];
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private requestRepository: Repository<OidcAuthorizationRequest>;
+  private providerMetadata?: Promise<OidcProviderMetadata>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    private jwtService: JwtService,
+    private usersService: UsersService,
+  ) {
+    this.requestRepository = this.dataSource.getRepository(
+      OidcAuthorizationRequest,
+    );
+  }
+
+  async createAuthorizationUrl(): Promise<string> {
+    const settings = this.getSettings();
+    const metadata = await this.getProviderMetadata();
+
+    const state = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(24).toString('base64url');
+    const codeVerifier = randomBytes(48).toString('base64url');
+
+    await this.requestRepository.save(
+      this.requestRepository.create({
+        stateHash: this.hash(state),
+        codeVerifier,
+        nonce,
+        expiresAt: new Date(Date.now() + settings.stateTtlMinutes * 60 * 1000),
+      }),
+    );
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: settings.clientId,
+      redirect_uri: settings.redirectUri,
+      scope: settings.scope,
+      state,
+      nonce,
+      code_challenge: createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return url.toString();
+  }
+
+  async authenticate(code: string, state: string): Promise<User> {
+    const request = await this.requestRepository.findOne({
+      where: { stateHash: this.hash(state) },
+    });
+    if (!request) {
+      throw new UnauthorizedException('Unknown or already used login state');
+    }
+    await this.requestRepository.delete(request.id);
+    if (request.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Single sign-on login expired');
+    }
+
+    const idToken = await this.exchangeCode(code, request.codeVerifier);
+    const claims = await this.verifyIdToken(idToken);
+    if (claims.nonce !== request.nonce) {
+      throw new UnauthorizedException('Invalid ID token nonce');
+    }
+
+    return await this.resolveUser(claims);
+  }
+
+  private async resolveUser(claims: OidcIdTokenClaims): Promise<User> {
+    const mappedRole = this.mapGroupsToRole(claims);
+
+    let user = await this.usersService.findByOidcSubject(claims.sub);
+    if (!user) {
+      // Only an email the IdP vouches for may take over an existing account
+      if (!claims.email || claims.email_verified !== true) {
+        throw new UnauthorizedException(
+          'Identity provider did not supply a verified email',
+        );
+      }
+
+      user = await this.usersService.findByEmail(claims.email);
+      if (!user) {
+        const [firstName, ...rest] = (claims.name ?? claims.email).split(' ');
+        user = await this.usersService.create(
+          {
+            email: claims.email,
+            firstName: claims.given_name ?? firstName,
+            lastName: claims.family_name ?? (rest.join(' ') || '-'),
+            // Never used: SSO accounts sign in through the IdP
+            password: randomBytes(32).toString('base64url'),
+            role: mappedRole ?? UserRole.TEAM_MEMBER,
+          },
+          true,
+        );
+        this.logger.log(`Provisioned user ${user.email} from single sign-on`);
+      } else if (!user.isEmailVerified) {
+        // Anyone can register an address they do not own, so an unverified
+        // account may belong to someone else and must not be adopted
+        throw new UnauthorizedException(
+          'Verify the email of your existing account before using single sign-on',
+        );
+      }
+
+      await this.usersService.linkOidcSubject(user.id, claims.sub);
+    }
+
+    if (user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    if (mappedRole && mappedRole !== user.role) {
+      await this.usersService.setRole(user.id, mappedRole);
+      user.role = mappedRole;
+      // setRole bumped the stored version; tokens minted below must match it
+      user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+    }
+
+    return user;
+  }
+
+  private mapGroupsToRole(claims: OidcIdTokenClaims): UserRole | null {
+    const settings = this.getSettings();
+    const rawGroups = claims[settings.groupsClaim];
+    const groups = Array.isArray(rawGroups)
+      ? rawGroups.map(String)
+      : typeof rawGroups === 'string'
+        ? [rawGroups]
+        : [];
+
+    const mapping = new Map<string, UserRole>();
+    for (const pair of settings.roleMapping.split(',')) {
+      const [group, role] = pair.split('=').map((part) => part.trim());
+      if (group && Object.values(UserRole).includes(role as UserRole)) {
+        mapping.set(group, role as UserRole);
+      }
+    }
+
+    const roles = groups
+      .map((group) => mapping.get(group))
+      .filter((role): role is UserRole => !!role);
+
+    return ROLE_PRECEDENCE.find((role) => roles.includes(role)) ?? null;
+  }
+
+  private async exchangeCode(
+    code: string,
+    codeVerifier: string,
+  ): Promise<string> {
+    const settings = this.getSettings();
+    const metadata = await this.getProviderMetadata();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: settings.redirectUri,
+      client_id: settings.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (settings.clientSecret) {
+      body.set('client_secret', settings.clientSecret);
+    }
+
+    try {
+      const { data } = await axios.post<{ id_token?: string }>(
+        metadata.token_endpoint,
+        body.toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+      );
+      if (!data.id_token) {
+        throw new Error('Token response did not include an id_token');
+      }
+      return data.id_token;
+    } catch (error) {
+      this.logger.warn(`Authorization code exchange failed: ${String(error)}`);
+      throw new UnauthorizedException('Single sign-on login failed');
+    }
+  }
+
+  private async verifyIdToken(idToken: string): Promise<OidcIdTokenClaims> {
+    const settings = this.getSettings();
+    const metadata = await this.getProviderMetadata();
+
+    const header = this.jwtService.decode<{ header?: { kid?: string } }>(
+      idToken,
+      { complete: true },
+    )?.header;
+    const { data: jwks } = await axios.get<{
+      keys: (JsonWebKey & { kid?: string })[];
+    }>(metadata.jwks_uri);
+    const jwk = jwks.keys.find((key) => !header?.kid || key.kid === header.kid);
+    if (!jwk) {
+      throw new UnauthorizedException('Unknown ID token signing key');
+    }
+
+    try {
+      return this.jwtService.verify<OidcIdTokenClaims>(idToken, {
+        secret: createPublicKey({ key: jwk, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithms: ['RS256'],
+        issuer: metadata.issuer,
+        audience: settings.clientId,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  private getProviderMetadata(): Promise<OidcProviderMetadata> {
+    const settings = this.getSettings();
+    if (!settings.enabled) {
+      throw new NotFoundException('Single sign-on is not configured');
+    }
+
+    if (!this.providerMetadata) {
+      const discoveryUrl = `${settings.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.providerMetadata = axios
+        .get<OidcProviderMetadata>(discoveryUrl)
+        .then(({ data }) => data)
+        .catch((error) => {
+          this.providerMetadata = undefined;
+          this.logger.warn(`OIDC discovery failed: ${String(error)}`);
+          throw new ServiceUnavailableException(
+            'Identity provider is unavailable',
+          );
+        });
+    }
+    return this.providerMetadata;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private getSettings(): OidcSettings {
+    return this.configService.get<OidcSettings>('oidc') as OidcSettings;
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PasswordResetService } from './password-reset.service';
+import { ForgotPasswordDto, ResetPasswordDto } from '../dto/auth.dto';
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class PasswordResetController {
+  constructor(private readonly passwordResetService: PasswordResetService) {}
+
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiResponse({
+    status: 200,
+    description: 'A reset link is sent if the account exists',
+  })
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+    return {
+      message: 'If an account exists for this email, a reset link was sent',
+    };
+  }
+
+  @ApiOperation({ summary: 'Set a new password with a reset token' })
+  @ApiResponse({ status: 200, description: 'Password reset successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired reset token' })
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+    return { message: 'Password reset successfully' };
+  }
+}
@@ -0,0 +1,116 @@
+import { BadRequestException } from '@nestjs/common';
+import { PasswordResetService } from './password-reset.service';
+import { UserActionTokenType, UserStatus } from '../entities';
+import type { User } from '../entities';
+import type { UsersService } from '../users/users.service';
+import type { ActionTokensService } from './action-tokens.service';
+import type { MailService } from '../mail/mail.service';
+import type { AuthService } from './auth.service';
+import type { ConfigService } from '@nestjs/config';
+
+describe('PasswordResetService', () => {
+  const usersService = {
+    findByEmail: jest.fn(),
+    setPassword: jest.fn(),
+    markEmailVerified: jest.fn(),
+  };
+  const actionTokensService = {
+    issue: jest.fn(),
+    consume: jest.fn(),
+  };
+  const mailService = {
+    sendPasswordReset: jest.fn(),
+  };
+  const authService = {
+    logoutAll: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'frontendUrl' ? 'https://app.crewdo.test' : defaultValue,
+    ),
+  };
+
+  const service = new PasswordResetService(
+    usersService as unknown as UsersService,
+    actionTokensService as unknown as ActionTokensService,
+    mailService as unknown as MailService,
+    authService as unknown as AuthService,
+    configService as unknown as ConfigService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('emails a reset link for an active account', async () => {
+    usersService.findByEmail.mockResolvedValue({
+      id: 'user-1',
+      email: 'user@example.com',
+      firstName: 'Test',
+      status: UserStatus.ACTIVE,
+    } as User);
+    actionTokensService.issue.mockResolvedValue('raw-token');
+
+    await service.requestReset('user@example.com');
+
+    expect(actionTokensService.issue).toHaveBeenCalledWith(
+      'user-1',
+      UserActionTokenType.PASSWORD_RESET,
+      60,
+    );
+    expect(mailService.sendPasswordReset).toHaveBeenCalledWith(
+      'user@example.com',
+      'Test',
+      'https://app.crewdo.test/reset-password?token=raw-token',
+      60,
+    );
+  });
+
+  it('stays silent for unknown accounts', async () => {
+    usersService.findByEmail.mockResolvedValue(null);
+
+    await expect(
+      service.requestReset('missing@example.com'),
+    ).resolves.toBeUndefined();
+    expect(actionTokensService.issue).not.toHaveBeenCalled();
+    expect(mailService.sendPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it('answers the same way when the reset email cannot be sent', async () => {
+    usersService.findByEmail.mockResolvedValue({
+      id: 'user-1',
+      email: 'user@example.com',
+      firstName: 'Test',
+      status: UserStatus.ACTIVE,
+    } as User);
+    actionTokensService.issue.mockResolvedValue('raw-token');
+    mailService.sendPasswordReset.mockRejectedValueOnce(
+      new Error('SMTP unavailable'),
+    );
+
+    await expect(
+      service.requestReset('user@example.com'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('sets the new password and revokes every session', async () => {
+    actionTokensService.consume.mockResolvedValue('user-1');
+
+    await service.resetPassword('raw-token', 'new-secret');
+
+    expect(usersService.setPassword).toHaveBeenCalledWith(
+      'user-1',
+      'new-secret',
+    );
+    expect(authService.logoutAll).toHaveBeenCalledWith('user-1');
+  });
+
+  it('rejects unknown, expired or used tokens', async () => {
+    actionTokensService.consume.mockResolvedValue(null);
+
+    await expect(
+      service.resetPassword('bad-token', 'new-secret'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(usersService.setPassword).not.toHaveBeenCalled();
+  });
+});
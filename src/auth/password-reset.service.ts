@@ -0,0 +1,75 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { ActionTokensService } from './action-tokens.service';
+import { AuthService } from './auth.service';
+import { UserActionTokenType, UserStatus } from '../entities';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly actionTokensService: ActionTokensService,
+    private readonly mailService: MailService,
+    private readonly authService: AuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    // Unknown or inactive accounts get the same response to avoid enumeration.
+    // The address is caller-supplied, so it is not logged either
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      return;
+    }
+
+    const ttlMinutes = this.configService.get<number>(
+      'auth.passwordResetTtlMinutes',
+      60,
+    );
+    const token = await this.actionTokensService.issue(
+      user.id,
+      UserActionTokenType.PASSWORD_RESET,
+      ttlMinutes,
+    );
+
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    const resetUrl = `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    // A mail failure must not change the response either
+    try {
+      await this.mailService.sendPasswordReset(
+        user.email,
+        user.firstName,
+        resetUrl,
+        ttlMinutes,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to send password reset to user ${user.id}: ${String(error)}`,
+      );
+    }
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await this.actionTokensService.consume(
+      token,
+      UserActionTokenType.PASSWORD_RESET,
+    );
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.usersService.setPassword(userId, newPassword);
+    // Following the emailed link proves ownership of the address
+    await this.usersService.markEmailVerified(userId);
+    await this.authService.logoutAll(userId);
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { UsersService, isGuestAccessExpired } from '../users/users.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { UserStatus } from '../entities';
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(
+  Strategy,
+  'personal-access-token',
+) {
+  constructor(
+    private usersService: UsersService,
+    private personalAccessTokensService: PersonalAccessTokensService,
+  ) {
+    super();
+  }
+
+  async validate(token: string) {
+    const accessToken =
+      await this.personalAccessTokensService.authenticate(token);
+    if (!accessToken) {
+      return false;
+    }
+
+    const user = await this.usersService.findById(accessToken.userId);
+    if (
+      !user ||
+      user.status !== UserStatus.ACTIVE ||
+      isGuestAccessExpired(user)
+    ) {
+      return false;
+    }
+    return Object.assign(user, {
+      personalAccessTokenId: accessToken.id,
+      tokenScopes: accessToken.scopes,
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from '../dto/personal-access-token.dto';
+import { User } from '../entities';
+
+@ApiTags('Authentication')
+@Controller('auth/tokens')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PersonalAccessTokensController {
+  constructor(
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+  ) {}
+
+  @ApiOperation({ summary: 'Create a personal access token' })
+  @ApiResponse({
+    status: 201,
+    description: 'Token created; the secret is only returned once',
+    type: CreatedPersonalAccessTokenDto,
+  })
+  @Post()
+  async create(
+    @Body() createTokenDto: CreatePersonalAccessTokenDto,
+    @CurrentUser() user: User,
+  ): Promise<CreatedPersonalAccessTokenDto> {
+    return await this.personalAccessTokensService.create(
+      user.id,
+      createTokenDto,
+    );
+  }
+
+  @ApiOperation({ summary: 'List active personal access tokens' })
+  @ApiResponse({ status: 200, type: [PersonalAccessTokenResponseDto] })
+  @Get()
+  async findAll(
+    @CurrentUser() user: User,
+  ): Promise<PersonalAccessTokenResponseDto[]> {
+    return await this.personalAccessTokensService.findByUser(user.id);
+  }
+
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  @ApiResponse({ status: 204, description: 'Token revoked' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    await this.personalAccessTokensService.revoke(user.id, id);
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DataSource, IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { PersonalAccessToken } from '../entities';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from '../dto/personal-access-token.dto';
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'crewdo_pat_';
+
+@Injectable()
+export class PersonalAccessTokensService {
+  private tokenRepository: Repository<PersonalAccessToken>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+  ) {
+    this.tokenRepository = this.dataSource.getRepository(PersonalAccessToken);
+  }
+
+  async create(
+    userId: string,
+    createTokenDto: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessTokenDto> {
+    const expiresAt = createTokenDto.expiresAt
+      ? new Date(createTokenDto.expiresAt)
+      : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const token =
+      PERSONAL_ACCESS_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+    const record = this.tokenRepository.create({
+      userId,
+      name: createTokenDto.name,
+      tokenHash: this.hashToken(token),
+      tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 4),
+      scopes: createTokenDto.scopes,
+      expiresAt,
+      lastUsedAt: null,
+      revokedAt: null,
+    });
+    const saved = await this.tokenRepository.save(record);
+
+    return { ...this.formatTokenResponse(saved), token };
+  }
+
+  async findByUser(userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    const tokens = await this.tokenRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+
+    return tokens.map((token) => this.formatTokenResponse(token));
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.tokenRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Access token not found');
+    }
+  }
+
+  async authenticate(token: string): Promise<PersonalAccessToken | null> {
+    if (!token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const record = await this.tokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token), revokedAt: IsNull() },
+    });
+    if (
+      !record ||
+      (record.expiresAt && record.expiresAt.getTime() <= Date.now())
+    ) {
+      return null;
+    }
+
+    await this.tokenRepository.update(record.id, { lastUsedAt: new Date() });
+    return record;
+  }
+
+  private formatTokenResponse(
+    token: PersonalAccessToken,
+  ): PersonalAccessTokenResponseDto {
+    return {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      expiresAt: token.expiresAt ?? undefined,
+      lastUsedAt: token.lastUsedAt ?? undefined,
+      createdAt: token.createdAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
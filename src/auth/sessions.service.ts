@@ -0,0 +1,121 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthSession, AuthSessionRevocationReason } from '../entities';
+
+export interface SessionClientInfo {
+  deviceLabel?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+@Injectable()
+export class SessionsService {
+  private sessionRepository: Repository<AuthSession>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+  ) {
+    this.sessionRepository = this.dataSource.getRepository(AuthSession);
+  }
+
+  async create(
+    userId: string,
+    clientInfo: SessionClientInfo = {},
+  ): Promise<AuthSession> {
+    const session = this.sessionRepository.create({
+      userId,
+      refreshTokenHash: '',
+      deviceLabel: clientInfo.deviceLabel?.slice(0, 120) ?? null,
+      userAgent: clientInfo.userAgent?.slice(0, 512) ?? null,
+      ipAddress: clientInfo.ipAddress ?? null,
+      expiresAt: new Date(),
+      revokedAt: null,
+      revokedReason: null,
+      lastUsedAt: null,
+    });
+
+    return await this.sessionRepository.save(session);
+  }
+
+  async findActive(id: string): Promise<AuthSession | null> {
+    return await this.sessionRepository.findOne({
+      where: { id, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async findActiveByUser(userId: string): Promise<AuthSession[]> {
+    return await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+  }
+
+  async storeRefreshToken(
+    id: string,
+    refreshToken: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.sessionRepository.update(id, {
+      refreshTokenHash: this.hashToken(refreshToken),
+      expiresAt,
+      lastUsedAt: new Date(),
+    });
+  }
+
+  /**
+   * Swaps the refresh token only while the session still holds the previous
+   * one, so of two concurrent refreshes with the same token only one wins.
+   */
+  async rotateRefreshToken(
+    id: string,
+    previousRefreshToken: string,
+    refreshToken: string,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    const result = await this.sessionRepository.update(
+      {
+        id,
+        refreshTokenHash: this.hashToken(previousRefreshToken),
+        revokedAt: IsNull(),
+      },
+      {
+        refreshTokenHash: this.hashToken(refreshToken),
+        expiresAt,
+        lastUsedAt: new Date(),
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  matchesRefreshToken(session: AuthSession, refreshToken: string): boolean {
+    const expected = Buffer.from(session.refreshTokenHash, 'hex');
+    const actual = Buffer.from(this.hashToken(refreshToken), 'hex');
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  async revoke(id: string, reason: AuthSessionRevocationReason): Promise<void> {
+    await this.sessionRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    reason: AuthSessionRevocationReason,
+  ): Promise<void> {
+    await this.sessionRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
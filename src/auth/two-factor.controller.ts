@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { TwoFactorService } from './two-factor.service';
+import {
+  TwoFactorCodeDto,
+  TwoFactorEnrollmentDto,
+  TwoFactorPolicyDto,
+  TwoFactorRecoveryCodesDto,
+} from '../dto/two-factor.dto';
+import { User, UserRole } from '../entities';
+
+@ApiTags('Authentication')
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @ApiOperation({ summary: 'Start two-factor enrollment' })
+  @ApiResponse({
+    status: 201,
+    description: 'Enrollment secret generated',
+    type: TwoFactorEnrollmentDto,
+  })
+  @ApiResponse({ status: 400, description: 'Two-factor already enabled' })
+  @Post('setup')
+  async setup(@CurrentUser() user: User): Promise<TwoFactorEnrollmentDto> {
+    return await this.twoFactorService.beginEnrollment(user.id);
+  }
+
+  @ApiOperation({ summary: 'Confirm enrollment and enable two-factor' })
+  @ApiResponse({
+    status: 201,
+    description: 'Two-factor enabled, recovery codes returned once',
+    type: TwoFactorRecoveryCodesDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid two-factor code' })
+  @Post('enable')
+  async enable(
+    @CurrentUser() user: User,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<TwoFactorRecoveryCodesDto> {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      user.id,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 204, description: 'Two-factor disabled' })
+  @ApiResponse({ status: 403, description: 'Two-factor required for role' })
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disable(
+    @CurrentUser() user: User,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<void> {
+    await this.twoFactorService.disable(user.id, codeDto.code);
+  }
+
+  @ApiOperation({ summary: 'Replace the one-time recovery codes' })
+  @ApiResponse({
+    status: 201,
+    description: 'New recovery codes',
+    type: TwoFactorRecoveryCodesDto,
+  })
+  @Post('recovery-codes')
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: User,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<TwoFactorRecoveryCodesDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @ApiOperation({ summary: 'Get the two-factor policy (Admin only)' })
+  @ApiResponse({ status: 200, type: TwoFactorPolicyDto })
+  @Get('policy')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPolicy(): Promise<TwoFactorPolicyDto> {
+    return await this.twoFactorService.getPolicy();
+  }
+
+  @ApiOperation({ summary: 'Update the two-factor policy (Admin only)' })
+  @ApiResponse({ status: 200, type: TwoFactorPolicyDto })
+  @Put('policy')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async updatePolicy(
+    @Body() policyDto: TwoFactorPolicyDto,
+  ): Promise<TwoFactorPolicyDto> {
+    return await this.twoFactorService.updatePolicy(policyDto);
+  }
+}
@@ -0,0 +1,122 @@
+import { DataSource } from 'typeorm';
+import type { ConfigService } from '@nestjs/config';
+import { TwoFactorService } from './two-factor.service';
+import { User, UserRole } from '../entities/user.entity';
+
+describe('TwoFactorService', () => {
+  // RFC 6238 SHA-1 seed "12345678901234567890" in base32
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  const buildService = () => {
+    const updateQuery = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    const userRepository = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(() => updateQuery),
+    };
+    const recoveryCodeRepository = {
+      create: jest.fn((value: unknown) => value),
+      save: jest.fn(),
+      delete: jest.fn(),
+      update: jest.fn(),
+    };
+    const settingRepository = {
+      findOne: jest.fn(),
+      save: jest.fn(),
+    };
+
+    const repositories = new Map<string, unknown>([
+      ['User', userRepository],
+      ['TwoFactorRecoveryCode', recoveryCodeRepository],
+      ['SystemSetting', settingRepository],
+    ]);
+
+    const dataSource = {
+      getRepository: jest.fn((entity: { name: string }) =>
+        repositories.get(entity.name),
+      ),
+    };
+    const configService: Partial<ConfigService> = {
+      get: jest.fn().mockReturnValue('Crewdo'),
+    };
+
+    const service = new TwoFactorService(
+      dataSource as unknown as DataSource,
+      configService as ConfigService,
+    );
+
+    return {
+      service,
+      updateQuery,
+      userRepository,
+      recoveryCodeRepository,
+      settingRepository,
+    };
+  };
+
+  it('generates RFC 6238 reference codes', () => {
+    const { service } = buildService();
+
+    expect(service.generateCode(rfcSecret, 59 * 1000)).toBe('287082');
+    expect(service.generateCode(rfcSecret, 1111111109 * 1000)).toBe('081804');
+  });
+
+  it('accepts a current code once and rejects its replay', async () => {
+    const { service, updateQuery, userRepository } = buildService();
+    userRepository.findOne.mockResolvedValue({
+      id: 'user-1',
+      twoFactorEnabled: true,
+      twoFactorSecret: rfcSecret,
+      twoFactorLastUsedStep: null,
+    } as User);
+
+    const code = service.generateCode(rfcSecret);
+
+    await expect(service.verifyCode('user-1', code)).resolves.toBe(true);
+    expect(updateQuery.andWhere).toHaveBeenCalledWith(
+      '(twoFactorLastUsedStep IS NULL OR twoFactorLastUsedStep < :step)',
+      { step: Math.floor(Date.now() / 1000 / 30) },
+    );
+
+    // A concurrent login already stored the step of this code
+    updateQuery.execute.mockResolvedValueOnce({ affected: 0 });
+    await expect(service.verifyCode('user-1', code)).resolves.toBe(false);
+  });
+
+  it('consumes recovery codes through a single conditional update', async () => {
+    const { service, userRepository, recoveryCodeRepository } = buildService();
+    userRepository.findOne.mockResolvedValue({
+      id: 'user-1',
+      twoFactorEnabled: true,
+      twoFactorSecret: rfcSecret,
+      twoFactorLastUsedStep: null,
+    } as User);
+    recoveryCodeRepository.update.mockResolvedValueOnce({ affected: 1 });
+    recoveryCodeRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+    await expect(service.verifyCode('user-1', 'abcde-12345')).resolves.toBe(
+      true,
+    );
+    await expect(service.verifyCode('user-1', 'abcde-12345')).resolves.toBe(
+      false,
+    );
+  });
+
+  it('requires two-factor for privileged roles only when the policy is on', async () => {
+    const { service, settingRepository } = buildService();
+    settingRepository.findOne.mockResolvedValue({ value: 'true' });
+
+    await expect(
+      service.isRequiredFor({ role: UserRole.PROJECT_MANAGER }),
+    ).resolves.toBe(true);
+    await expect(
+      service.isRequiredFor({ role: UserRole.TEAM_MEMBER }),
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull, Repository } from 'typeorm';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import {
+  SystemSetting,
+  TwoFactorRecoveryCode,
+  User,
+  UserRole,
+} from '../entities';
+import {
+  TwoFactorEnrollmentDto,
+  TwoFactorPolicyDto,
+} from '../dto/two-factor.dto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const REQUIRE_PRIVILEGED_SETTING_KEY = 'auth.twoFactor.requirePrivilegedRoles';
+const PRIVILEGED_ROLES = [UserRole.ADMIN, UserRole.PROJECT_MANAGER];
+
+@Injectable()
+export class TwoFactorService {
+  private userRepository: Repository<User>;
+  private recoveryCodeRepository: Repository<TwoFactorRecoveryCode>;
+  private settingRepository: Repository<SystemSetting>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {
+    this.userRepository = this.dataSource.getRepository(User);
+    this.recoveryCodeRepository = this.dataSource.getRepository(
+      TwoFactorRecoveryCode,
+    );
+    this.settingRepository = this.dataSource.getRepository(SystemSetting);
+  }
+
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollmentDto> {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is enabled');
+    }
+
+    const secret = this.generateSecret();
+    await this.userRepository.update(user.id, {
+      twoFactorSecret: secret,
+      twoFactorLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: this.buildOtpauthUri(user.email, secret),
+    };
+  }
+
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor enrollment was not started');
+    }
+
+    const step = this.matchStep(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.userRepository.update(user.id, {
+      twoFactorEnabled: true,
+      twoFactorLastUsedStep: step,
+    });
+
+    return await this.replaceRecoveryCodes(user.id);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is disabled');
+    }
+    if (await this.isRequiredFor(user)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for your role',
+      );
+    }
+    if (!(await this.verifyUserCode(user, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.userRepository.update(user.id, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastUsedStep: null,
+    });
+    await this.recoveryCodeRepository.delete({ userId: user.id });
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is disabled');
+    }
+    if (!(await this.verifyUserCode(user, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    return await this.replaceRecoveryCodes(user.id);
+  }
+
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.getUser(userId);
+    return await this.verifyUserCode(user, code);
+  }
+
+  async isRequiredFor(user: Pick<User, 'role'>): Promise<boolean> {
+    if (!PRIVILEGED_ROLES.includes(user.role)) {
+      return false;
+    }
+
+    const policy = await this.getPolicy();
+    return policy.requirePrivilegedRoles;
+  }
+
+  async getPolicy(): Promise<TwoFactorPolicyDto> {
+    const setting = await this.settingRepository.findOne({
+      where: { key: REQUIRE_PRIVILEGED_SETTING_KEY },
+    });
+
+    return { requirePrivilegedRoles: setting?.value === 'true' };
+  }
+
+  async updatePolicy(policy: TwoFactorPolicyDto): Promise<TwoFactorPolicyDto> {
+    await this.settingRepository.save({
+      key: REQUIRE_PRIVILEGED_SETTING_KEY,
+      value: String(policy.requirePrivilegedRoles),
+    });
+
+    return await this.getPolicy();
+  }
+
+  generateCode(secret: string, timestamp: number = Date.now()): string {
+    const step = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    return this.generateCodeForStep(secret, step);
+  }
+
+  private async verifyUserCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '');
+
+    if (normalized.length === TOTP_DIGITS && /^\d+$/.test(normalized)) {
+      const step = this.matchStep(user.twoFactorSecret, normalized);
+      if (step === null) {
+        return false;
+      }
+
+      // Only one of two concurrent logins with the same code may move the step
+      const result = await this.userRepository
+        .createQueryBuilder()
+        .update(User)
+        .set({ twoFactorLastUsedStep: step })
+        .where('id = :id', { id: user.id })
+        .andWhere(
+          '(twoFactorLastUsedStep IS NULL OR twoFactorLastUsedStep < :step)',
+          { step },
+        )
+        .execute();
+
+      return (result.affected ?? 0) > 0;
+    }
+
+    const result = await this.recoveryCodeRepository.update(
+      {
+        userId: user.id,
+        codeHash: this.hashRecoveryCode(normalized),
+        usedAt: IsNull(),
+      },
+      { usedAt: new Date() },
+    );
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  private matchStep(
+    secret: string,
+    code: string,
+    timestamp: number = Date.now(),
+  ): number | null {
+    if (code.length !== TOTP_DIGITS) {
+      return null;
+    }
+
+    const currentStep = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    for (
+      let offset = -TOTP_WINDOW_STEPS;
+      offset <= TOTP_WINDOW_STEPS;
+      offset++
+    ) {
+      const step = currentStep + offset;
+      if (this.generateCodeForStep(secret, step) === code) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  private generateCodeForStep(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const digest = createHmac('sha1', this.decodeBase32(secret))
+      .update(counter)
+      .digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+  }
+
+  private generateSecret(): string {
+    return this.encodeBase32(randomBytes(20));
+  }
+
+  private buildOtpauthUri(email: string, secret: string): string {
+    const issuer = this.configService.get<string>('twoFactor.issuer', 'Crewdo');
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.recoveryCodeRepository.save(
+      codes.map((code) =>
+        this.recoveryCodeRepository.create({
+          userId,
+          codeHash: this.hashRecoveryCode(code.replace('-', '')),
+          usedAt: null,
+        }),
+      ),
+    );
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.toLowerCase()).digest('hex');
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private decodeBase32(input: string): Buffer {
+    const cleaned = input.replace(/=+$/, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new BadRequestException('Invalid two-factor secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -27,6 +27,7 @@ import {
 import { NotificationService } from '../notifications/notification.service';
 import { LivekitService } from './livekit.service';
 import { ChatGateway } from '../realtime/chat.gateway';
+import { isWithinWorkingHours } from '../users/working-hours';
 
 interface CallSettings {
   description?: string;
@@ -838,6 +839,10 @@ export class CallService implements OnModuleInit {
 
     const settings = this.parseCallSettings(call.settings);
     const roomName = settings.roomName || call.id;
+    const scheduledStart =
+      call.status === CallStatus.SCHEDULED && settings.scheduledStartTime
+        ? new Date(settings.scheduledStartTime)
+        : null;
 
     return {
       id: call.id,
@@ -868,8 +873,12 @@ export class CallService implements OnModuleInit {
             id: participant.user.id,
             firstName: participant.user.firstName,
             lastName: participant.user.lastName,
+            timezone: participant.user.timezone,
           },
           status: participant.status,
+          withinWorkingHours: scheduledStart
+            ? isWithinWorkingHours(participant.user, scheduledStart)
+            : undefined,
           joinedAt:
             participant.status === ParticipantStatus.JOINED
               ? participant.joinedAt
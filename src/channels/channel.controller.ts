@@ -27,7 +27,6 @@ import {
 import { ChannelService } from './channel.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../entities';
 
 interface AuthenticatedRequest {
@@ -175,7 +174,6 @@ export class ChannelController {
     status: 403,
     description: 'Forbidden - insufficient permissions',
   })
-  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async addMember(
     @Param('id') id: string,
     @Param('userId') userId: string,
@@ -201,7 +199,6 @@ export class ChannelController {
     description: 'Forbidden - insufficient permissions',
   })
   @HttpCode(HttpStatus.NO_CONTENT)
-  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async removeMember(
     @Param('id') id: string,
     @Param('userId') userId: string,
@@ -17,6 +17,9 @@ import {
   Workspace,
   UserRole,
   UserPresence,
+  WorkspaceRole,
+  AuditAction,
+  AuditTargetType,
 } from '../entities';
 import {
   CreateChannelDto,
@@ -25,6 +28,13 @@ import {
   ChannelResponseDto,
 } from '../dto/channel.dto';
 import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  WorkspaceMembersService,
+  assertWorkspaceWritable,
+  hasWorkspaceRole,
+  notInTrashedWorkspace,
+} from '../workspaces/workspace-members.service';
 
 @Injectable()
 export class ChannelService {
@@ -40,6 +50,9 @@ export class ChannelService {
     private dataSource: DataSource,
     @Inject(forwardRef(() => ChatGateway))
     private readonly chatGateway: ChatGateway,
+    @Inject(forwardRef(() => WorkspaceMembersService))
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly auditLogsService: AuditLogsService,
   ) {
     this.channelRepository = this.dataSource.getRepository(Channel);
     this.userRepository = this.dataSource.getRepository(User);
@@ -61,26 +74,29 @@ export class ChannelService {
     if (!creator) {
       throw new NotFoundException('Creator not found');
     }
+    if (userRole === UserRole.GUEST) {
+      throw new ForbiddenException('Guest accounts cannot create channels');
+    }
 
     let workspace: Workspace | null = null;
     if (createChannelDto.workspaceId) {
       workspace = await this.workspaceRepository.findOne({
         where: { id: createChannelDto.workspaceId },
-        relations: ['owner', 'members'],
+        relations: ['owner'],
       });
 
       if (!workspace) {
         throw new NotFoundException('Workspace not found');
       }
 
-      const isAdmin = userRole === UserRole.ADMIN;
-      const isWorkspaceOwner = workspace.owner?.id === userId;
-
-      if (!isAdmin && !isWorkspaceOwner) {
-        throw new ForbiddenException(
-          'Only workspace owner or admin can create channels',
-        );
-      }
+      await this.workspaceMembersService.assertRole(
+        workspace.id,
+        userId,
+        userRole,
+        WorkspaceRole.ADMIN,
+        'Only workspace owners or admins can create channels',
+      );
+      assertWorkspaceWritable(workspace);
     }
 
     // Get initial members
@@ -122,9 +138,8 @@ export class ChannelService {
   async createDirectMessage(
     createDmDto: CreateDirectMessageDto,
     userId: string,
-    _userRole: UserRole,
+    userRole: UserRole,
   ): Promise<ChannelResponseDto> {
-    void _userRole;
     const currentUser = await this.userRepository.findOne({
       where: { id: userId },
     });
@@ -134,6 +149,15 @@ export class ChannelService {
 
     // Get all users for DM - deduplicate to avoid counting the same user twice
     const allUserIds = [...new Set([...createDmDto.userIds, userId])];
+
+    if (userRole === UserRole.GUEST) {
+      const reachableIds = await this.getChannelPeerIds(userId);
+      if (allUserIds.some((id) => id !== userId && !reachableIds.has(id))) {
+        throw new ForbiddenException(
+          'Guests can only message members of their channels',
+        );
+      }
+    }
     const users = await this.userRepository.find({
       where: { id: In(allUserIds) },
     });
@@ -221,6 +245,17 @@ export class ChannelService {
     userId: string,
     userRole: UserRole,
   ): Promise<ChannelResponseDto[]> {
+    const workspaceRole = workspaceId
+      ? await this.workspaceMembersService.getEffectiveRole(
+          workspaceId,
+          userId,
+          userRole,
+        )
+      : null;
+    if (workspaceId && !workspaceRole) {
+      throw new ForbiddenException('Access denied to this workspace');
+    }
+
     try {
       // First, check if the workspace exists
       if (!workspaceId) {
@@ -235,7 +270,13 @@ export class ChannelService {
         .where('channel.workspaceId = :workspaceId', { workspaceId })
         .andWhere('channel.isArchived = :isArchived', { isArchived: false });
 
-      if (userRole !== UserRole.ADMIN) {
+      if (
+        workspaceRole === WorkspaceRole.GUEST ||
+        userRole === UserRole.GUEST
+      ) {
+        // Guests only see the channels they were added to
+        queryBuilder.andWhere('members.id = :userId', { userId });
+      } else if (userRole !== UserRole.ADMIN) {
         // For non-admins: show public channels OR private channels where user is a member
         queryBuilder.andWhere(
           '(channel.visibility = :publicVisibility OR (channel.visibility = :privateVisibility AND members.id = :userId))',
@@ -313,6 +354,7 @@ export class ChannelService {
       .leftJoinAndSelect('channel.workspace', 'workspace')
       .leftJoinAndSelect('channel.project', 'project')
       .where('channel.id = :id', { id })
+      .andWhere(notInTrashedWorkspace('channel.workspaceId'))
       .getOne();
 
     if (!channel) {
@@ -322,12 +364,24 @@ export class ChannelService {
     // Check if user has access
     const isMember = channel.members.some((member) => member.id === userId);
     const isAdmin = userRole === UserRole.ADMIN;
-    if (
-      !isAdmin &&
-      !isMember &&
-      channel.visibility === ChannelVisibility.PRIVATE
-    ) {
-      throw new ForbiddenException('Access denied to this channel');
+    if (!isAdmin && !isMember) {
+      // Public channels are open to the workspace's non-guest members only,
+      // matching what findByWorkspace lists
+      const workspaceRole = channel.workspaceId
+        ? await this.workspaceMembersService.getEffectiveRole(
+            channel.workspaceId,
+            userId,
+            userRole,
+          )
+        : null;
+      if (
+        channel.visibility === ChannelVisibility.PRIVATE ||
+        userRole === UserRole.GUEST ||
+        (channel.workspaceId &&
+          (!workspaceRole || workspaceRole === WorkspaceRole.GUEST))
+      ) {
+        throw new ForbiddenException('Access denied to this channel');
+      }
     }
 
     return this.formatChannelResponse(channel, userId);
@@ -346,7 +400,6 @@ export class ChannelService {
         'creator',
         'workspace',
         'workspace.owner',
-        'workspace.members',
         'project',
       ],
     });
@@ -354,10 +407,11 @@ export class ChannelService {
     if (!channel) {
       throw new NotFoundException('Channel not found');
     }
+    await this.workspaceMembersService.assertWritable(channel.workspaceId);
 
     // Check permissions - only creator or workspace admin can update
     const isCreator = channel.creatorId === userId;
-    const isAdmin = userRole === UserRole.ADMIN;
+    const isAdmin = await this.isWorkspaceAdmin(channel, userId, userRole);
 
     const isMember = channel.members.some((member) => member.id === userId);
     const isGroupConversation = channel.type === ChannelType.GROUP_DM;
@@ -409,21 +463,16 @@ export class ChannelService {
   async remove(id: string, userId: string, userRole: UserRole): Promise<void> {
     const channel = await this.channelRepository.findOne({
       where: { id },
-      relations: [
-        'creator',
-        'members',
-        'workspace',
-        'workspace.owner',
-        'workspace.members',
-      ],
+      relations: ['creator', 'members', 'workspace', 'workspace.owner'],
     });
 
     if (!channel) {
       throw new NotFoundException('Channel not found');
     }
+    await this.workspaceMembersService.assertWritable(channel.workspaceId);
 
     const isCreator = channel.creatorId === userId;
-    const isAdmin = userRole === UserRole.ADMIN;
+    const isAdmin = await this.isWorkspaceAdmin(channel, userId, userRole);
     const isMember = channel.members.some((member) => member.id === userId);
 
     if (channel.type === ChannelType.DM) {
@@ -451,6 +500,7 @@ export class ChannelService {
       if (isCreator || isAdmin) {
         channel.isArchived = true;
         await this.channelRepository.save(channel);
+        await this.recordChannelDeleted(channel, userId);
 
         await this.emitChannelEvent('channel_deleted', channel, {
           channelId: channel.id,
@@ -488,6 +538,7 @@ export class ChannelService {
 
     channel.isArchived = true;
     await this.channelRepository.save(channel);
+    await this.recordChannelDeleted(channel, userId);
 
     await this.emitChannelEvent('channel_deleted', channel, {
       channelId: channel.id,
@@ -503,26 +554,20 @@ export class ChannelService {
   ): Promise<void> {
     const channel = await this.channelRepository.findOne({
       where: { id: channelId },
-      relations: [
-        'members',
-        'creator',
-        'workspace',
-        'workspace.owner',
-        'workspace.members',
-      ],
+      relations: ['members', 'creator', 'workspace', 'workspace.owner'],
     });
 
     if (!channel) {
       throw new NotFoundException('Channel not found');
     }
+    await this.workspaceMembersService.assertWritable(channel.workspaceId);
 
     const isCreator = channel.creatorId === requesterId;
-    const isAdmin = userRole === UserRole.ADMIN;
-    const isWorkspaceOwner = channel.workspace?.owner?.id === requesterId;
+    const isAdmin = await this.isWorkspaceAdmin(channel, requesterId, userRole);
 
-    if (!isCreator && !isAdmin && !isWorkspaceOwner) {
+    if (!isCreator && !isAdmin) {
       throw new ForbiddenException(
-        'Only channel creator, workspace owner, or admin can add members',
+        'Only channel creator, workspace owner or admin can add members',
       );
     }
 
@@ -544,6 +589,13 @@ export class ChannelService {
 
     channel.members.push(userToAdd);
     await this.channelRepository.save(channel);
+    await this.auditLogsService.record({
+      action: AuditAction.CHANNEL_MEMBER_ADDED,
+      targetType: AuditTargetType.CHANNEL,
+      targetId: channel.id,
+      actorId: requesterId,
+      after: { userId },
+    });
 
     await this.emitChannelEvent('channel_updated', channel, {
       channelId: channel.id,
@@ -559,25 +611,19 @@ export class ChannelService {
   ): Promise<void> {
     const channel = await this.channelRepository.findOne({
       where: { id: channelId },
-      relations: [
-        'members',
-        'creator',
-        'workspace',
-        'workspace.owner',
-        'workspace.members',
-      ],
+      relations: ['members', 'creator', 'workspace', 'workspace.owner'],
     });
 
     if (!channel) {
       throw new NotFoundException('Channel not found');
     }
+    await this.workspaceMembersService.assertWritable(channel.workspaceId);
 
     const isCreator = channel.creatorId === requesterId;
-    const isAdmin = userRole === UserRole.ADMIN;
-    const isWorkspaceOwner = channel.workspace?.owner?.id === requesterId;
+    const isAdmin = await this.isWorkspaceAdmin(channel, requesterId, userRole);
     const isSelfRemoval = userId === requesterId;
 
-    if (!isCreator && !isAdmin && !isWorkspaceOwner && !isSelfRemoval) {
+    if (!isCreator && !isAdmin && !isSelfRemoval) {
       throw new ForbiddenException('Access denied');
     }
 
@@ -588,6 +634,13 @@ export class ChannelService {
 
     channel.members = channel.members.filter((member) => member.id !== userId);
     await this.channelRepository.save(channel);
+    await this.auditLogsService.record({
+      action: AuditAction.CHANNEL_MEMBER_REMOVED,
+      targetType: AuditTargetType.CHANNEL,
+      targetId: channel.id,
+      actorId: requesterId,
+      before: { userId },
+    });
 
     this.chatGateway.sendToUser(userId, 'channel_deleted', {
       channelId: channel.id,
@@ -907,27 +960,57 @@ export class ChannelService {
   }
 
   private async getWorkspaceMemberIds(workspaceId: string): Promise<string[]> {
-    const workspace = await this.workspaceRepository.findOne({
-      where: { id: workspaceId },
-      relations: ['owner', 'members'],
-    });
-
-    if (!workspace) {
-      return [];
-    }
+    return this.workspaceMembersService.getMemberIds(workspaceId);
+  }
 
-    const recipients = new Set<string>();
+  private async getChannelPeerIds(userId: string): Promise<Set<string>> {
+    const peers = await this.channelRepository
+      .createQueryBuilder('channel')
+      .innerJoin('channel.members', 'self', 'self.id = :userId', { userId })
+      .innerJoin('channel.members', 'peer')
+      .where('channel.isArchived = :isArchived', { isArchived: false })
+      .select('DISTINCT peer.id', 'id')
+      .getRawMany<{ id: string }>();
 
-    if (workspace.owner?.id) {
-      recipients.add(workspace.owner.id);
-    }
+    return new Set(peers.map((peer) => peer.id));
+  }
 
-    workspace.members?.forEach((member) => {
-      if (member?.id) {
-        recipients.add(member.id);
-      }
+  private async recordChannelDeleted(
+    channel: Channel,
+    actorId: string,
+  ): Promise<void> {
+    await this.auditLogsService.record({
+      action: AuditAction.CHANNEL_DELETED,
+      targetType: AuditTargetType.CHANNEL,
+      targetId: channel.id,
+      actorId,
+      before: {
+        name: channel.name,
+        type: channel.type,
+        workspaceId: channel.workspaceId ?? null,
+      },
     });
+  }
 
-    return Array.from(recipients);
+  private async isWorkspaceAdmin(
+    channel: Channel,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<boolean> {
+    if (userRole === UserRole.ADMIN) {
+      return true;
+    }
+    if (!channel.workspaceId) {
+      return false;
+    }
+
+    return hasWorkspaceRole(
+      await this.workspaceMembersService.getEffectiveRole(
+        channel.workspaceId,
+        userId,
+        userRole,
+      ),
+      WorkspaceRole.ADMIN,
+    );
   }
 }
@@ -1,11 +1,18 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { DatabaseModule } from '../config/database.module';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { AuditModule } from '../audit/audit.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 import { ChannelController } from './channel.controller';
 import { ChannelService } from './channel.service';
 
 @Module({
-  imports: [DatabaseModule, forwardRef(() => RealtimeModule)],
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    forwardRef(() => RealtimeModule),
+    forwardRef(() => WorkspacesModule),
+  ],
   controllers: [ChannelController],
   providers: [ChannelService],
   exports: [ChannelService],
@@ -20,13 +20,14 @@ import {
 import { CommentsService } from './comments.service';
 import { ChatGateway } from '../realtime/chat.gateway';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Scopes } from '../auth/decorators/scopes.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import {
   CreateCommentDto,
   UpdateCommentDto,
   CommentResponseDto,
 } from '../dto/comment.dto';
-import { User } from '../entities';
+import { User, PersonalAccessTokenScope } from '../entities';
 import { Comment as CommentEntity } from '../entities/comment.entity';
 
 @ApiTags('Comments')
@@ -55,6 +56,7 @@ export class CommentsController {
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Access denied to this task' })
   @Post()
+  @Scopes(PersonalAccessTokenScope.COMMENTS_WRITE)
   async create(
     @Body() createCommentDto: CreateCommentDto,
     @CurrentUser() user: User,
@@ -84,6 +86,7 @@ export class CommentsController {
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Access denied to this task' })
   @Get()
+  @Scopes(PersonalAccessTokenScope.COMMENTS_READ)
   async findByTaskId(
     @Query('taskId', ParseUUIDPipe) taskId: string,
     @CurrentUser() user: User,
@@ -100,6 +103,7 @@ export class CommentsController {
   @ApiResponse({ status: 404, description: 'Comment not found' })
   @ApiResponse({ status: 403, description: 'Access denied to this comment' })
   @Get(':id')
+  @Scopes(PersonalAccessTokenScope.COMMENTS_READ)
   async findOne(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -119,6 +123,7 @@ export class CommentsController {
     description: 'You can only edit your own comments',
   })
   @Patch(':id')
+  @Scopes(PersonalAccessTokenScope.COMMENTS_WRITE)
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateCommentDto: UpdateCommentDto,
@@ -146,6 +151,7 @@ export class CommentsController {
   @ApiResponse({ status: 404, description: 'Comment not found' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
   @Delete(':id')
+  @Scopes(PersonalAccessTokenScope.COMMENTS_WRITE)
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
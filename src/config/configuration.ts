@@ -1,6 +1,7 @@
 export default () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3001',
   database: {
     host: process.env.DB_HOST || 'localhost',
     port: parseInt(process.env.DB_PORT || '5432', 10),
@@ -13,10 +14,101 @@ export default () => ({
     expiresIn: process.env.JWT_EXPIRES_IN || '1d',
     refreshSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key',
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    challengeSecret:
+      process.env.JWT_CHALLENGE_SECRET || 'your-challenge-secret-key',
+    challengeExpiresIn: process.env.JWT_CHALLENGE_EXPIRES_IN || '5m',
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Crewdo',
+  },
+  auth: {
+    passwordResetTtlMinutes: parseInt(
+      process.env.PASSWORD_RESET_TTL_MINUTES || '60',
+      10,
+    ),
+    emailVerificationTtlHours: parseInt(
+      process.env.EMAIL_VERIFICATION_TTL_HOURS || '48',
+      10,
+    ),
+    // Set-password links emailed to imported accounts
+    accountInvitationTtlHours: parseInt(
+      process.env.ACCOUNT_INVITATION_TTL_HOURS || '72',
+      10,
+    ),
+    loginThrottle: {
+      freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3', 10),
+      baseDelaySeconds: parseInt(
+        process.env.LOGIN_BASE_DELAY_SECONDS || '1',
+        10,
+      ),
+      maxDelaySeconds: parseInt(
+        process.env.LOGIN_MAX_DELAY_SECONDS || '30',
+        10,
+      ),
+      lockoutThreshold: parseInt(
+        process.env.LOGIN_LOCKOUT_THRESHOLD || '10',
+        10,
+      ),
+      ipLockoutThreshold: parseInt(
+        process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '50',
+        10,
+      ),
+      lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    },
+  },
+  oidc: {
+    enabled: process.env.OIDC_ENABLED === 'true',
+    issuer: process.env.OIDC_ISSUER || 'http://localhost:4010',
+    clientId: process.env.OIDC_CLIENT_ID || 'crewdo',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    redirectUri:
+      process.env.OIDC_REDIRECT_URI || 'http://localhost:3001/auth/callback',
+    scope: process.env.OIDC_SCOPE || 'openid profile email groups',
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    // Comma separated group=role pairs, e.g. "crewdo-admins=admin"
+    roleMapping: process.env.OIDC_ROLE_MAPPING || '',
+    stateTtlMinutes: parseInt(process.env.OIDC_STATE_TTL_MINUTES || '10', 10),
+  },
+  scim: {
+    // Provisioning is disabled until a bearer token is configured
+    token: process.env.SCIM_TOKEN || '',
+  },
+  workspaces: {
+    invitationTtlHours: parseInt(
+      process.env.WORKSPACE_INVITATION_TTL_HOURS || '168',
+      10,
+    ),
+    // Days a deleted workspace can be restored before it is purged
+    trashRetentionDays: parseInt(
+      process.env.WORKSPACE_TRASH_RETENTION_DAYS || '30',
+      10,
+    ),
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'file',
+    from: process.env.MAIL_FROM || 'Crewdo <no-reply@crewdo.local>',
+    // The file transport drops mails without a directory to write them to
+    outputDir: process.env.MAIL_OUTPUT_DIR || './.tmp/mail',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+    },
   },
   upload: {
     uploadPath: process.env.UPLOAD_PATH || './uploads',
   },
+  userDeletion: {
+    // all, messages (chat attachments only) or none
+    purgeUploads: process.env.USER_DELETION_PURGE_UPLOADS || 'all',
+  },
+  dataExports: {
+    // Kept outside UPLOAD_PATH, which is served publicly
+    path: process.env.DATA_EXPORT_PATH || './exports',
+    ttlHours: parseInt(process.env.DATA_EXPORT_TTL_HOURS || '72', 10),
+  },
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3001',
   },
@@ -8,6 +8,10 @@ import {
   Notification,
   Attachment,
   Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WorkspaceJoinRequest,
+  WorkspaceTemplate,
   Channel,
   Message,
   MessageReaction,
@@ -15,6 +19,16 @@ import {
   Call,
   CallParticipant,
   UserPresence,
+  AuthSession,
+  TwoFactorRecoveryCode,
+  SystemSetting,
+  UserActionToken,
+  LoginThrottle,
+  PersonalAccessToken,
+  OidcAuthorizationRequest,
+  ScimGroup,
+  AuditLog,
+  DataExport,
 } from '../entities';
 
 export const databaseProviders = [
@@ -36,6 +50,10 @@ export const databaseProviders = [
           Notification,
           Attachment,
           Workspace,
+          WorkspaceMember,
+          WorkspaceInvitation,
+          WorkspaceJoinRequest,
+          WorkspaceTemplate,
           Channel,
           Message,
           MessageReaction,
@@ -43,6 +61,16 @@ export const databaseProviders = [
           Call,
           CallParticipant,
           UserPresence,
+          AuthSession,
+          TwoFactorRecoveryCode,
+          SystemSetting,
+          UserActionToken,
+          LoginThrottle,
+          PersonalAccessToken,
+          OidcAuthorizationRequest,
+          ScimGroup,
+          AuditLog,
+          DataExport,
         ],
         synchronize: true,
         logging: false,
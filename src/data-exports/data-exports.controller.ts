@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Response,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Response as ExpressResponse } from 'express';
+import { DataExportsService } from './data-exports.service';
+import { DataExportDownloadQueryDto } from '../dto/data-export.dto';
+
+@ApiTags('Data Exports')
+@Controller('data-exports')
+export class DataExportsController {
+  constructor(private readonly dataExportsService: DataExportsService) {}
+
+  // Authorized by the token in the link so it can be opened from an email
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download a personal data export archive' })
+  @ApiParam({ name: 'id', description: 'Data export ID (UUID)' })
+  @ApiResponse({ status: 200, description: 'Zip archive stream' })
+  @ApiResponse({ status: 404, description: 'Export not found or link expired' })
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DataExportDownloadQueryDto,
+    @Response({ passthrough: true }) res: ExpressResponse,
+  ): Promise<StreamableFile> {
+    const { stream, fileName, fileSize } =
+      await this.dataExportsService.openDownload(id, query.token);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Length', fileSize);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    return new StreamableFile(stream);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../config/database.module';
+import { MailModule } from '../mail/mail.module';
+import { DataExportsController } from './data-exports.controller';
+import { DataExportsService } from './data-exports.service';
+
+@Module({
+  imports: [DatabaseModule, MailModule],
+  controllers: [DataExportsController],
+  providers: [DataExportsService],
+  exports: [DataExportsService],
+})
+export class DataExportsModule {}
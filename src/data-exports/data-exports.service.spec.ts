@@ -0,0 +1,226 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, QueryFailedError } from 'typeorm';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DataExportsService } from './data-exports.service';
+import { MailService } from '../mail/mail.service';
+import { Attachment, DataExport, DataExportStatus, Message } from '../entities';
+
+describe('DataExportsService', () => {
+  let workDir: string;
+
+  const user = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    password: 'hashed-password',
+  };
+
+  const buildService = () => {
+    const repositories = new Map<unknown, Record<string, jest.Mock>>();
+    const repositoryFor = (entity: unknown) => {
+      if (!repositories.has(entity)) {
+        repositories.set(entity, {
+          find: jest.fn().mockResolvedValue([]),
+          findOne: jest.fn(),
+          exists: jest.fn().mockResolvedValue(false),
+          create: jest.fn((data: object) => data),
+          save: jest.fn((data: object) =>
+            Promise.resolve({
+              id: 'export-1',
+              createdAt: new Date(),
+              ...data,
+            }),
+          ),
+          update: jest.fn().mockResolvedValue({ affected: 1 }),
+        });
+      }
+      return repositories.get(entity)!;
+    };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn(
+        repositoryFor,
+      ) as unknown as DataSource['getRepository'],
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => {
+        if (key === 'dataExports.path') return path.join(workDir, 'exports');
+        if (key === 'upload.uploadPath') return path.join(workDir, 'uploads');
+        return defaultValue;
+      }),
+    };
+    const mailService = { sendDataExportReady: jest.fn() };
+
+    const service = new DataExportsService(
+      dataSource as DataSource,
+      configService as unknown as ConfigService,
+      mailService as unknown as MailService,
+    );
+
+    return { service, repositoryFor, mailService };
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-exports-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('rejects a new request while an export is in progress', async () => {
+    const { service, repositoryFor } = buildService();
+    repositoryFor(DataExport).exists.mockResolvedValue(true);
+
+    await expect(service.request(user.id)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(repositoryFor(DataExport).save).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request that loses the race to a concurrent one', async () => {
+    const { service, repositoryFor } = buildService();
+    repositoryFor(DataExport).save.mockRejectedValueOnce(
+      new QueryFailedError(
+        'INSERT INTO data_exports',
+        [],
+        Object.assign(new Error('Cannot insert duplicate key row'), {
+          number: 2601,
+        }),
+      ),
+    );
+
+    await expect(service.request(user.id)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('resumes builds that started too long ago rather than old exports', async () => {
+    const { service, repositoryFor } = buildService();
+
+    await service.sweep();
+
+    expect(repositoryFor(DataExport).update).toHaveBeenCalledWith(
+      {
+        status: DataExportStatus.PROCESSING,
+        startedAt: expect.objectContaining({ _type: 'lessThan' }),
+      },
+      { status: DataExportStatus.PENDING },
+    );
+  });
+
+  it('logs instead of rejecting when the background build fails', async () => {
+    const { service, repositoryFor } = buildService();
+    repositoryFor(DataExport).update.mockRejectedValue(
+      new Error('connection lost'),
+    );
+    const logError = jest
+      .spyOn(service['logger'], 'error')
+      .mockImplementation(() => undefined);
+
+    await expect(service.request(user.id)).resolves.toMatchObject({
+      status: DataExportStatus.PENDING,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logError).toHaveBeenCalledWith(
+      'Failed to build data export export-1: connection lost',
+    );
+  });
+
+  it('builds a zip with the user data and emails a download link', async () => {
+    const { service, repositoryFor, mailService } = buildService();
+    const attachmentPath = path.join(workDir, 'report.pdf');
+    await fs.writeFile(attachmentPath, 'report contents');
+
+    repositoryFor(DataExport).findOne.mockResolvedValue({
+      id: 'export-1',
+      userId: user.id,
+      user,
+    });
+    repositoryFor(Message).find.mockResolvedValue([
+      { id: 'message-1', channelId: 'channel-1', content: 'Hello' },
+    ]);
+    repositoryFor(Attachment).find.mockResolvedValue([
+      {
+        id: 'attachment-1',
+        originalName: 'report.pdf',
+        filePath: attachmentPath,
+      },
+    ]);
+
+    await service.build('export-1');
+
+    expect(repositoryFor(DataExport).update).toHaveBeenCalledWith(
+      { id: 'export-1', status: DataExportStatus.PENDING },
+      { status: DataExportStatus.PROCESSING, startedAt: expect.any(Date) },
+    );
+    const [, ready] = repositoryFor(DataExport).update.mock.calls[1] as [
+      string,
+      Partial<DataExport>,
+    ];
+    expect(ready.status).toBe(DataExportStatus.READY);
+    expect(ready.downloadTokenHash).toHaveLength(64);
+    expect(ready.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const archive = await fs.readFile(ready.filePath!);
+    expect(ready.fileSize).toBe(archive.length);
+    for (const name of [
+      'profile.json',
+      'messages.json',
+      'notifications.json',
+      'files/attachment-1/report.pdf',
+    ]) {
+      expect(archive.includes(name)).toBe(true);
+    }
+    expect(archive.includes('hashed-password')).toBe(false);
+
+    expect(mailService.sendDataExportReady).toHaveBeenCalledWith(
+      user.email,
+      user.firstName,
+      expect.stringMatching(
+        /\/api\/data-exports\/export-1\/download\?token=[\w-]+$/,
+      ),
+      ready.expiresAt,
+    );
+  });
+
+  it('refuses downloads with a wrong token or after expiry', async () => {
+    const { service, repositoryFor } = buildService();
+    const filePath = path.join(workDir, 'export-1.zip');
+    await fs.writeFile(filePath, 'zip');
+    const readyExport = {
+      id: 'export-1',
+      status: DataExportStatus.READY,
+      filePath,
+      fileSize: 3,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    repositoryFor(DataExport).findOne.mockResolvedValue(readyExport);
+
+    const { downloadUrl } = await service.issueDownloadLink(
+      'export-1',
+      user.id,
+    );
+    const token = new URL(downloadUrl).searchParams.get('token')!;
+    const [, { downloadTokenHash }] = repositoryFor(DataExport).update.mock
+      .calls[0] as [string, Partial<DataExport>];
+    Object.assign(readyExport, { downloadTokenHash });
+
+    const download = await service.openDownload('export-1', token);
+    download.stream.destroy();
+    expect(download.fileName).toMatch(/^crewdo-export-\d{4}-\d{2}-\d{2}\.zip$/);
+    await expect(
+      service.openDownload('export-1', 'wrong-token'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    readyExport.expiresAt = new Date(Date.now() - 1000);
+    await expect(
+      service.openDownload('export-1', token),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,571 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DataSource,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  QueryFailedError,
+  Repository,
+} from 'typeorm';
+import archiver from 'archiver';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, ReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  Attachment,
+  Call,
+  CallParticipant,
+  Comment,
+  DataExport,
+  DataExportStatus,
+  Message,
+  Notification,
+  Task,
+  User,
+} from '../entities';
+import {
+  DataExportLinkDto,
+  DataExportResponseDto,
+} from '../dto/data-export.dto';
+import { MailService } from '../mail/mail.service';
+
+interface ArchiveContents {
+  documents: Record<string, unknown>;
+  files: { sourcePath: string; archivePath: string }[];
+}
+
+// Builds interrupted by a restart are picked up again after this long
+const STALE_BUILD_MS = 60 * 60 * 1000;
+
+// SQL Server error numbers for duplicate keys in unique indexes and constraints
+const UNIQUE_VIOLATION_ERRORS = [2601, 2627];
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof QueryFailedError &&
+  UNIQUE_VIOLATION_ERRORS.includes(
+    (error.driverError as { number?: number }).number ?? 0,
+  );
+
+@Injectable()
+export class DataExportsService implements OnModuleInit {
+  private readonly logger = new Logger(DataExportsService.name);
+  private dataExportRepository: Repository<DataExport>;
+  private messageRepository: Repository<Message>;
+  private commentRepository: Repository<Comment>;
+  private taskRepository: Repository<Task>;
+  private attachmentRepository: Repository<Attachment>;
+  private callRepository: Repository<Call>;
+  private callParticipantRepository: Repository<CallParticipant>;
+  private notificationRepository: Repository<Notification>;
+  private exportsPath: string;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    private mailService: MailService,
+  ) {
+    this.dataExportRepository = this.dataSource.getRepository(DataExport);
+    this.messageRepository = this.dataSource.getRepository(Message);
+    this.commentRepository = this.dataSource.getRepository(Comment);
+    this.taskRepository = this.dataSource.getRepository(Task);
+    this.attachmentRepository = this.dataSource.getRepository(Attachment);
+    this.callRepository = this.dataSource.getRepository(Call);
+    this.callParticipantRepository =
+      this.dataSource.getRepository(CallParticipant);
+    this.notificationRepository = this.dataSource.getRepository(Notification);
+    this.exportsPath = this.configService.get<string>(
+      'dataExports.path',
+      './exports',
+    );
+  }
+
+  onModuleInit() {
+    void this.sweep();
+
+    // Expire old archives and resume queued builds every 15 minutes
+    setInterval(() => {
+      void this.sweep();
+    }, 900_000);
+  }
+
+  async request(userId: string): Promise<DataExportResponseDto> {
+    const inProgress = await this.dataExportRepository.exists({
+      where: {
+        userId,
+        status: In([DataExportStatus.PENDING, DataExportStatus.PROCESSING]),
+      },
+    });
+    if (inProgress) {
+      throw new ConflictException('An export is already being prepared');
+    }
+
+    let dataExport: DataExport;
+    try {
+      dataExport = await this.dataExportRepository.save(
+        this.dataExportRepository.create({
+          userId,
+          status: DataExportStatus.PENDING,
+        }),
+      );
+    } catch (error) {
+      // A concurrent request queued its export after the check above
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('An export is already being prepared');
+      }
+      throw error;
+    }
+
+    // Built in the background; the user is emailed a link once it is ready
+    this.build(dataExport.id).catch((error: Error) => {
+      this.logger.error(
+        `Failed to build data export ${dataExport.id}: ${error.message}`,
+      );
+    });
+
+    return this.formatDataExport(dataExport);
+  }
+
+  async findForUser(userId: string): Promise<DataExportResponseDto[]> {
+    const dataExports = await this.dataExportRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return dataExports.map((dataExport) => this.formatDataExport(dataExport));
+  }
+
+  /**
+   * Issues a fresh download link for a ready archive. Earlier links,
+   * including the emailed one, stop working.
+   */
+  async issueDownloadLink(
+    id: string,
+    userId: string,
+  ): Promise<DataExportLinkDto> {
+    const dataExport = await this.dataExportRepository.findOne({
+      where: { id, userId },
+    });
+    if (!dataExport) {
+      throw new NotFoundException('Export not found');
+    }
+    if (!this.isDownloadable(dataExport)) {
+      throw new BadRequestException('Export is not ready for download');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await this.dataExportRepository.update(id, {
+      downloadTokenHash: this.hashToken(token),
+    });
+
+    return {
+      downloadUrl: this.buildDownloadUrl(id, token),
+      expiresAt: dataExport.expiresAt as Date,
+    };
+  }
+
+  async openDownload(
+    id: string,
+    token: string,
+  ): Promise<{ stream: ReadStream; fileName: string; fileSize: number }> {
+    const dataExport = await this.dataExportRepository.findOne({
+      where: { id },
+    });
+
+    // Unknown, expired and mistyped links are indistinguishable to callers
+    if (
+      !dataExport ||
+      !this.isDownloadable(dataExport) ||
+      !dataExport.downloadTokenHash ||
+      !timingSafeEqual(
+        Buffer.from(this.hashToken(token)),
+        Buffer.from(dataExport.downloadTokenHash),
+      )
+    ) {
+      throw new NotFoundException('Export not found or link expired');
+    }
+
+    try {
+      await fs.access(dataExport.filePath as string);
+    } catch {
+      throw new NotFoundException('Export not found or link expired');
+    }
+
+    return {
+      stream: createReadStream(dataExport.filePath as string),
+      fileName: `crewdo-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+      fileSize: Number(dataExport.fileSize),
+    };
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const dataExports = await this.dataExportRepository.find({
+      where: { userId },
+    });
+    for (const dataExport of dataExports) {
+      if (dataExport.filePath) {
+        await fs.rm(dataExport.filePath, { force: true });
+      }
+    }
+    await this.dataExportRepository.delete({ userId });
+  }
+
+  async sweep(): Promise<void> {
+    try {
+      const expired = await this.dataExportRepository.find({
+        where: {
+          status: DataExportStatus.READY,
+          expiresAt: LessThanOrEqual(new Date()),
+        },
+      });
+      for (const dataExport of expired) {
+        if (dataExport.filePath) {
+          await fs.rm(dataExport.filePath, { force: true });
+        }
+        await this.dataExportRepository.update(dataExport.id, {
+          status: DataExportStatus.EXPIRED,
+          filePath: null,
+          downloadTokenHash: null,
+        });
+      }
+
+      await this.dataExportRepository.update(
+        {
+          status: DataExportStatus.PROCESSING,
+          startedAt: LessThan(new Date(Date.now() - STALE_BUILD_MS)),
+        },
+        { status: DataExportStatus.PENDING },
+      );
+
+      const pending = await this.dataExportRepository.find({
+        where: { status: DataExportStatus.PENDING },
+        order: { createdAt: 'ASC' },
+      });
+      for (const dataExport of pending) {
+        await this.build(dataExport.id);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to sweep data exports: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async build(id: string): Promise<void> {
+    // Claim the export first so a concurrent sweep never builds it twice
+    const claimed = await this.dataExportRepository.update(
+      { id, status: DataExportStatus.PENDING },
+      { status: DataExportStatus.PROCESSING, startedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      return;
+    }
+
+    const dataExport = await this.dataExportRepository.findOne({
+      where: { id },
+      relations: ['user'],
+    });
+    if (!dataExport) {
+      return;
+    }
+
+    const filePath = path.join(this.exportsPath, `${id}.zip`);
+    try {
+      await fs.mkdir(this.exportsPath, { recursive: true });
+      await this.writeArchive(filePath, await this.collect(dataExport.user));
+
+      const { size } = await fs.stat(filePath);
+      const token = randomBytes(32).toString('base64url');
+      const expiresAt = new Date(
+        Date.now() +
+          this.configService.get<number>('dataExports.ttlHours', 72) *
+            60 *
+            60 *
+            1000,
+      );
+
+      await this.dataExportRepository.update(id, {
+        status: DataExportStatus.READY,
+        filePath,
+        fileSize: size,
+        downloadTokenHash: this.hashToken(token),
+        completedAt: new Date(),
+        expiresAt,
+      });
+
+      try {
+        await this.mailService.sendDataExportReady(
+          dataExport.user.email,
+          dataExport.user.firstName,
+          this.buildDownloadUrl(id, token),
+          expiresAt,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to email data export ${id}: ${(error as Error).message}`,
+        );
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`Failed to build data export ${id}: ${message}`);
+      await fs.rm(filePath, { force: true });
+      await this.dataExportRepository.update(id, {
+        status: DataExportStatus.FAILED,
+        error: message.slice(0, 500),
+      });
+    }
+  }
+
+  private async collect(user: User): Promise<ArchiveContents> {
+    const [
+      messages,
+      comments,
+      tasks,
+      attachments,
+      participations,
+      initiatedCalls,
+      notifications,
+    ] = await Promise.all([
+      this.messageRepository.find({
+        where: { authorId: user.id },
+        relations: ['channel'],
+        order: { createdAt: 'ASC' },
+      }),
+      this.commentRepository.find({
+        where: { authorId: user.id },
+        relations: ['task'],
+        order: { createdAt: 'ASC' },
+      }),
+      this.taskRepository.find({
+        where: [{ creatorId: user.id }, { assigneeId: user.id }],
+        order: { createdAt: 'ASC' },
+      }),
+      this.attachmentRepository.find({
+        where: { uploadedById: user.id },
+        order: { uploadedAt: 'ASC' },
+      }),
+      this.callParticipantRepository.find({
+        where: { userId: user.id },
+        relations: ['call'],
+        order: { joinedAt: 'ASC' },
+      }),
+      this.callRepository.find({
+        where: { initiatorId: user.id },
+        order: { startedAt: 'ASC' },
+      }),
+      this.notificationRepository.find({
+        where: { userId: user.id },
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    const files: ArchiveContents['files'] = [];
+    const attachmentDocuments: Record<string, unknown>[] = [];
+    for (const attachment of attachments) {
+      const archivePath = `files/${attachment.id}/${this.toArchiveName(attachment.originalName)}`;
+      const exists = await this.fileExists(attachment.filePath);
+      if (exists) {
+        files.push({ sourcePath: attachment.filePath, archivePath });
+      }
+      attachmentDocuments.push({
+        id: attachment.id,
+        originalName: attachment.originalName,
+        mimeType: attachment.mimeType,
+        fileSize: attachment.fileSize,
+        type: attachment.type,
+        taskId: attachment.taskId,
+        projectId: attachment.projectId,
+        messageId: attachment.messageId,
+        uploadedAt: attachment.uploadedAt,
+        file: exists ? archivePath : null,
+      });
+    }
+
+    const avatarPath = path.join(
+      this.configService.get<string>('upload.uploadPath', './uploads'),
+      'avatars',
+      user.id,
+    );
+    if (await this.fileExists(avatarPath)) {
+      for (const fileName of await fs.readdir(avatarPath)) {
+        files.push({
+          sourcePath: path.join(avatarPath, fileName),
+          archivePath: `avatar/${fileName}`,
+        });
+      }
+    }
+
+    return {
+      documents: {
+        profile: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role,
+          status: user.status,
+          phoneNumber: user.phoneNumber,
+          department: user.department,
+          position: user.position,
+          timezone: user.timezone,
+          locale: user.locale,
+          workingHours: user.workingHours,
+          avatarUrl: user.avatarUrl,
+          isEmailVerified: user.isEmailVerified,
+          emailVerifiedAt: user.emailVerifiedAt,
+          twoFactorEnabled: user.twoFactorEnabled,
+          guestExpiresAt: user.guestExpiresAt,
+          lastLoginAt: user.lastLoginAt,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+        messages: messages.map((message) => ({
+          id: message.id,
+          channel: { id: message.channelId, name: message.channel?.name },
+          content: message.content,
+          type: message.type,
+          replyToId: message.replyToId,
+          isEdited: message.isEdited,
+          isDeleted: message.isDeleted,
+          createdAt: message.createdAt,
+          updatedAt: message.updatedAt,
+        })),
+        comments: comments.map((comment) => ({
+          id: comment.id,
+          task: { id: comment.taskId, title: comment.task?.title },
+          content: comment.content,
+          isEdited: comment.isEdited,
+          createdAt: comment.createdAt,
+          updatedAt: comment.updatedAt,
+        })),
+        tasks: tasks.map((task) => ({
+          id: task.id,
+          projectId: task.projectId,
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          dueDate: task.dueDate,
+          estimatedHours: task.estimatedHours,
+          actualHours: task.actualHours,
+          isCreator: task.creatorId === user.id,
+          isAssignee: task.assigneeId === user.id,
+          createdAt: task.createdAt,
+          updatedAt: task.updatedAt,
+        })),
+        attachments: attachmentDocuments,
+        calls: {
+          participations: participations.map((participant) => ({
+            callId: participant.callId,
+            title: participant.call?.title,
+            type: participant.call?.type,
+            status: participant.status,
+            joinedAt: participant.joinedAt,
+            leftAt: participant.leftAt,
+          })),
+          initiated: initiatedCalls.map((call) => ({
+            id: call.id,
+            title: call.title,
+            type: call.type,
+            status: call.status,
+            startedAt: call.startedAt,
+            endedAt: call.endedAt,
+          })),
+        },
+        notifications: notifications.map((notification) => ({
+          id: notification.id,
+          title: notification.title,
+          message: notification.message,
+          type: notification.type,
+          isRead: notification.isRead,
+          relatedEntityId: notification.relatedEntityId,
+          relatedEntityType: notification.relatedEntityType,
+          createdAt: notification.createdAt,
+        })),
+      },
+      files,
+    };
+  }
+
+  private async writeArchive(
+    filePath: string,
+    contents: ArchiveContents,
+  ): Promise<void> {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const output = createWriteStream(filePath);
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+    for (const [name, document] of Object.entries(contents.documents)) {
+      archive.append(JSON.stringify(document, null, 2), {
+        name: `${name}.json`,
+      });
+    }
+    for (const file of contents.files) {
+      archive.file(file.sourcePath, { name: file.archivePath });
+    }
+
+    await archive.finalize();
+    await finished;
+  }
+
+  private isDownloadable(dataExport: DataExport): boolean {
+    return (
+      dataExport.status === DataExportStatus.READY &&
+      !!dataExport.filePath &&
+      !!dataExport.expiresAt &&
+      dataExport.expiresAt.getTime() > Date.now()
+    );
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private toArchiveName(fileName: string): string {
+    return path.basename(fileName).replace(/[^\w.\- ]/g, '_') || 'file';
+  }
+
+  private buildDownloadUrl(id: string, token: string): string {
+    const baseUrl = this.configService.get<string>(
+      'baseUrl',
+      'http://localhost:3000',
+    );
+    return `${baseUrl}/api/data-exports/${id}/download?token=${token}`;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private formatDataExport(dataExport: DataExport): DataExportResponseDto {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      fileSize:
+        dataExport.fileSize === null ? null : Number(dataExport.fileSize),
+      error: dataExport.error,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction, AuditTargetType } from '../entities';
+
+export class AuditLogQueryDto {
+  @ApiPropertyOptional({ description: 'Only entries by this user' })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiPropertyOptional({ enum: AuditAction })
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction;
+
+  @ApiPropertyOptional({ enum: AuditTargetType })
+  @IsOptional()
+  @IsEnum(AuditTargetType)
+  targetType?: AuditTargetType;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  @ApiPropertyOptional({ example: '2026-01-01T00:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-12-31T23:59:59.999Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor returned by the previous page',
+  })
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class AuditLogActorDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty()
+  firstName: string;
+
+  @ApiProperty()
+  lastName: string;
+}
+
+export class AuditLogResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional({ type: AuditLogActorDto, nullable: true })
+  actor: AuditLogActorDto | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  actorId: string | null;
+
+  @ApiProperty({ enum: AuditAction })
+  action: AuditAction;
+
+  @ApiProperty({ enum: AuditTargetType })
+  targetType: AuditTargetType;
+
+  @ApiPropertyOptional({ nullable: true })
+  targetId: string | null;
+
+  @ApiPropertyOptional({ type: Object, nullable: true })
+  before: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({ type: Object, nullable: true })
+  after: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class AuditLogPageDto {
+  @ApiProperty({ type: [AuditLogResponseDto] })
+  items: AuditLogResponseDto[];
+
+  @ApiProperty()
+  hasMore: boolean;
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+}
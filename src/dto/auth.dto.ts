@@ -1,5 +1,11 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class LoginDto {
   @ApiProperty()
@@ -9,6 +15,12 @@ export class LoginDto {
   @ApiProperty()
   @IsString()
   password: string;
+
+  @ApiPropertyOptional({ example: 'Work laptop' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  deviceLabel?: string;
 }
 
 export class RegisterDto {
@@ -28,6 +40,19 @@ export class RegisterDto {
   @IsString()
   @MinLength(6)
   password: string;
+
+  @ApiPropertyOptional({ example: 'Work laptop' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  deviceLabel?: string;
+
+  @ApiPropertyOptional({
+    description: 'Workspace invitation to accept once the account exists',
+  })
+  @IsOptional()
+  @IsString()
+  invitationToken?: string;
 }
 
 export class AuthResponseDto {
@@ -45,6 +70,25 @@ export class AuthResponseDto {
     lastName: string;
     role: string;
   };
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Returned once when two-factor enrollment completes at login',
+  })
+  recoveryCodes?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Workspace joined through an invitation during registration',
+  })
+  workspaceId?: string;
+}
+
+export class TokenPairDto {
+  @ApiProperty()
+  access_token: string;
+
+  @ApiProperty()
+  refresh_token: string;
 }
 
 export class RefreshTokenDto {
@@ -52,3 +96,49 @@ export class RefreshTokenDto {
   @IsString()
   refresh_token: string;
 }
+
+export class SessionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  deviceLabel?: string;
+
+  @ApiPropertyOptional()
+  userAgent?: string;
+
+  @ApiPropertyOptional()
+  ipAddress?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional()
+  lastUsedAt?: Date;
+
+  @ApiProperty({ description: 'Whether this is the session of the caller' })
+  current: boolean;
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'john.doe@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: 'newPassword123', minLength: 6 })
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification email' })
+  @IsString()
+  token: string;
+}
@@ -160,8 +160,11 @@ export class CallResponseDto {
       firstName: string;
       lastName: string;
       avatar?: string;
+      timezone: string;
     };
     status: ParticipantStatus;
+    // Set for scheduled calls: whether the start falls in the user's working hours
+    withinWorkingHours?: boolean;
     joinedAt?: Date;
     leftAt?: Date;
     isMuted: boolean;
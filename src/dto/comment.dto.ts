@@ -39,7 +39,7 @@ export class CommentResponseDto {
     firstName: string;
     lastName: string;
     email: string;
-    profilePicture?: string;
+    avatarUrl: string | null;
   };
 
   @ApiProperty()
@@ -0,0 +1,43 @@
+import { IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DataExportStatus } from '../entities';
+
+export class DataExportResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: DataExportStatus })
+  status: DataExportStatus;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Archive size in bytes' })
+  fileSize: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  error: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  completedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  expiresAt: Date | null;
+}
+
+export class DataExportLinkDto {
+  @ApiProperty({
+    example:
+      'http://localhost:3000/api/data-exports/0d9a3f1e-5b7c-4e2a-8f61-3c4b2a1d0e9f/download?token=...',
+  })
+  downloadUrl: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
+
+export class DataExportDownloadQueryDto {
+  @ApiProperty({ description: 'Token from the download link' })
+  @IsString()
+  token: string;
+}
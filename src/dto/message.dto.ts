@@ -88,7 +88,7 @@ export class MessageResponseDto {
     firstName: string;
     lastName: string;
     email: string;
-    avatar?: string;
+    avatarUrl: string | null;
   };
 
   @ApiProperty()
@@ -106,6 +106,7 @@ export class MessageResponseDto {
       id: string;
       firstName: string;
       lastName: string;
+      avatarUrl: string | null;
     };
   };
 
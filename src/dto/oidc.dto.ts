@@ -0,0 +1,25 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OidcAuthorizationDto {
+  @ApiProperty({
+    description: 'Identity provider URL to send the browser to',
+  })
+  authorizationUrl: string;
+}
+
+export class OidcCallbackDto {
+  @ApiProperty({ description: 'Authorization code returned by the IdP' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'State returned by the IdP' })
+  @IsString()
+  state: string;
+
+  @ApiPropertyOptional({ example: 'Work laptop' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  deviceLabel?: string;
+}
@@ -0,0 +1,65 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PersonalAccessTokenScope } from '../entities';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({ example: 'CI status reporter' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: PersonalAccessTokenScope,
+    isArray: true,
+    example: [PersonalAccessTokenScope.TASKS_READ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(PersonalAccessTokenScope, { each: true })
+  scopes: PersonalAccessTokenScope[];
+
+  @ApiPropertyOptional({ description: 'Omit for a token that never expires' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class PersonalAccessTokenResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'First characters of the token, for display' })
+  tokenPrefix: string;
+
+  @ApiProperty({ enum: PersonalAccessTokenScope, isArray: true })
+  scopes: PersonalAccessTokenScope[];
+
+  @ApiPropertyOptional()
+  expiresAt?: Date;
+
+  @ApiPropertyOptional()
+  lastUsedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenResponseDto {
+  @ApiProperty({ description: 'Shown only once, store it securely' })
+  token: string;
+}
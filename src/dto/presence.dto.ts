@@ -5,6 +5,7 @@ import {
   UserPresence,
 } from '../entities/presence.entity';
 import { IsEnum } from 'class-validator';
+import { DEFAULT_TIMEZONE, formatLocalTime } from '../users/working-hours';
 
 export class PresenceResponseDto {
   @ApiProperty()
@@ -22,6 +23,18 @@ export class PresenceResponseDto {
   @ApiProperty({ required: false })
   lastSeenAt?: string | null;
 
+  @ApiProperty({ required: false, nullable: true })
+  avatarUrl?: string | null;
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timezone: string;
+
+  @ApiProperty({
+    example: '2026-03-02T09:30:00+01:00',
+    description: 'Current wall-clock time of the user',
+  })
+  localTime: string;
+
   @ApiProperty()
   timestamp: string;
 
@@ -32,6 +45,9 @@ export class PresenceResponseDto {
       statusSource: entity.statusSource,
       manualStatus: entity.manualStatus,
       lastSeenAt: entity.lastSeenAt?.toISOString() ?? null,
+      avatarUrl: entity.user?.avatarUrl ?? null,
+      timezone: entity.user?.timezone ?? DEFAULT_TIMEZONE,
+      localTime: formatLocalTime(new Date(), entity.user?.timezone),
       timestamp: entity.updatedAt.toISOString(),
     };
   }
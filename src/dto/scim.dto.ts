@@ -0,0 +1,94 @@
+// SCIM payloads carry schema URNs and vendor extensions that the global
+// whitelisting ValidationPipe would reject, so they are plain interfaces
+// validated by the SCIM services instead.
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_ENTERPRISE_USER_SCHEMA =
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_WORKSPACE_GROUP_SCHEMA =
+  'urn:crewdo:params:scim:schemas:extension:workspace:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA =
+  'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_OP_SCHEMA =
+  'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: Date;
+  lastModified: Date;
+  location: string;
+}
+
+export interface ScimMultiValue {
+  value: string;
+  type?: string;
+  primary?: boolean;
+}
+
+export interface ScimUserResource {
+  schemas: string[];
+  id?: string;
+  externalId?: string | null;
+  userName: string;
+  name?: {
+    givenName?: string;
+    familyName?: string;
+    formatted?: string;
+  };
+  displayName?: string;
+  title?: string | null;
+  active?: boolean;
+  password?: string;
+  emails?: ScimMultiValue[];
+  phoneNumbers?: ScimMultiValue[];
+  [SCIM_ENTERPRISE_USER_SCHEMA]?: {
+    department?: string | null;
+  };
+  meta?: ScimMeta;
+}
+
+export interface ScimMemberReference {
+  value: string;
+  display?: string;
+  $ref?: string;
+}
+
+export interface ScimGroupResource {
+  schemas: string[];
+  id?: string;
+  externalId?: string | null;
+  displayName: string;
+  members?: ScimMemberReference[];
+  [SCIM_WORKSPACE_GROUP_SCHEMA]?: {
+    workspaceId?: string;
+  };
+  meta?: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimPatchRequest {
+  schemas: string[];
+  Operations: ScimPatchOperation[];
+}
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: string;
+  count?: string;
+  excludedAttributes?: string;
+}
@@ -0,0 +1,62 @@
+import { IsBoolean, IsString, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Authenticator code or one-time recovery code',
+  })
+  @IsString()
+  @Length(6, 16)
+  code: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty()
+  @IsString()
+  challenge_token: string;
+}
+
+export class TwoFactorChallengeTokenDto {
+  @ApiProperty()
+  @IsString()
+  challenge_token: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'Short-lived token to exchange at /auth/login/2fa',
+  })
+  challenge_token: string;
+
+  @ApiProperty({ description: 'A code from the enrolled authenticator' })
+  twoFactorRequired: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Enrollment is mandatory for this account; call /auth/login/2fa/setup first',
+  })
+  twoFactorSetupRequired?: boolean;
+}
+
+export class TwoFactorEnrollmentDto {
+  @ApiProperty({ description: 'Base32 encoded TOTP secret' })
+  secret: string;
+
+  @ApiProperty({ example: 'otpauth://totp/Crewdo:john@example.com?...' })
+  otpauthUri: string;
+}
+
+export class TwoFactorRecoveryCodesDto {
+  @ApiProperty({ type: [String] })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorPolicyDto {
+  @ApiProperty({
+    description:
+      'Require two-factor authentication for admins and project managers',
+  })
+  @IsBoolean()
+  requirePrivilegedRoles: boolean;
+}
@@ -0,0 +1,85 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum UserImportRowStatus {
+  VALID = 'valid',
+  INVALID = 'invalid',
+  CREATED = 'created',
+  FAILED = 'failed',
+}
+
+export class UserImportOptionsDto {
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      'Validate the file and return the report without creating users',
+  })
+  @IsOptional()
+  @Transform(({ value }): boolean | string => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value as string;
+  })
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Email each created user a link to choose their password',
+  })
+  @IsOptional()
+  @Transform(({ value }): boolean | string => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value as string;
+  })
+  @IsBoolean()
+  sendInvitations?: boolean;
+}
+
+export class UserImportRowDto {
+  @ApiProperty({ description: 'Line number in the CSV file' })
+  line: number;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty({ enum: UserImportRowStatus })
+  status: UserImportRowStatus;
+
+  @ApiProperty({ type: [String] })
+  errors: string[];
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiPropertyOptional()
+  invited?: boolean;
+}
+
+export class UserImportReportDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty()
+  totalRows: number;
+
+  @ApiProperty()
+  validRows: number;
+
+  @ApiProperty()
+  invalidRows: number;
+
+  @ApiProperty()
+  created: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty()
+  invited: number;
+
+  @ApiProperty({ type: [UserImportRowDto] })
+  rows: UserImportRowDto[];
+}
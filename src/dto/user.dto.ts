@@ -5,7 +5,21 @@ import {
   IsOptional,
   IsEnum,
   IsPhoneNumber,
+  IsDateString,
+  ValidateIf,
+  IsTimeZone,
+  IsLocale,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  IsUUID,
+  IsIn,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { UserRole, UserStatus } from '../entities';
 
@@ -32,6 +46,14 @@ export class CreateUserDto {
   @IsEnum(UserRole)
   role?: UserRole;
 
+  @ApiPropertyOptional({
+    example: '2026-12-31T00:00:00.000Z',
+    description: 'Required for guest accounts',
+  })
+  @ValidateIf((dto: CreateUserDto) => dto.role === UserRole.GUEST)
+  @IsDateString()
+  guestExpiresAt?: string;
+
   @ApiPropertyOptional({ example: '+1234567890' })
   @IsOptional()
   @IsPhoneNumber()
@@ -48,6 +70,27 @@ export class CreateUserDto {
   position?: string;
 }
 
+export class WorkingHoursDto {
+  @ApiProperty({ example: 1, description: '0 = Sunday, 6 = Saturday' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  day: number;
+
+  @ApiProperty({ example: '09:00' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'start must be HH:mm' })
+  start: string;
+
+  @ApiProperty({
+    example: '17:30',
+    description: 'Exclusive; 24:00 ends the day',
+  })
+  @Matches(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, {
+    message: 'end must be HH:mm',
+  })
+  end: string;
+}
+
 export class UpdateUserDto {
   @ApiPropertyOptional({ example: 'John' })
   @IsOptional()
@@ -73,6 +116,42 @@ export class UpdateUserDto {
   @IsOptional()
   @IsString()
   position?: string;
+
+  @ApiPropertyOptional({ example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({ example: 'de-DE' })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @ApiPropertyOptional({
+    type: [WorkingHoursDto],
+    nullable: true,
+    description:
+      'Weekly schedule in the user timezone; null clears it so the user is always reachable',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(28)
+  @ValidateNested({ each: true })
+  @Type(() => WorkingHoursDto)
+  workingHours?: WorkingHoursDto[] | null;
+}
+
+export class AdminUpdateUserDto extends UpdateUserDto {
+  @ApiPropertyOptional({ enum: UserRole })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+}
+
+export class UpdateGuestExpiryDto {
+  @ApiProperty({ example: '2026-12-31T00:00:00.000Z' })
+  @IsDateString()
+  guestExpiresAt: string;
 }
 
 export class ChangePasswordDto {
@@ -105,21 +184,37 @@ export class UserResponseDto {
   @ApiProperty({ enum: UserStatus })
   status: UserStatus;
 
-  @ApiPropertyOptional()
-  phoneNumber?: string;
+  @ApiPropertyOptional({ nullable: true })
+  phoneNumber?: string | null;
 
-  @ApiPropertyOptional()
-  department?: string;
+  @ApiPropertyOptional({ nullable: true })
+  department?: string | null;
 
-  @ApiPropertyOptional()
-  position?: string;
+  @ApiPropertyOptional({ nullable: true })
+  position?: string | null;
 
-  @ApiPropertyOptional()
-  profilePicture?: string;
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'URL of the 256px avatar; the 32, 64 and 128px sizes share its name with a different size suffix',
+  })
+  avatarUrl?: string | null;
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timezone: string;
+
+  @ApiProperty({ example: 'de-DE' })
+  locale: string;
+
+  @ApiPropertyOptional({ type: [WorkingHoursDto], nullable: true })
+  workingHours?: WorkingHoursDto[] | null;
 
   @ApiProperty()
   isEmailVerified: boolean;
 
+  @ApiProperty()
+  twoFactorEnabled: boolean;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -128,4 +223,116 @@ export class UserResponseDto {
 
   @ApiPropertyOptional()
   lastLoginAt?: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  guestExpiresAt?: Date | null;
+}
+
+export enum UserSortField {
+  FIRST_NAME = 'firstName',
+  LAST_NAME = 'lastName',
+  EMAIL = 'email',
+  CREATED_AT = 'createdAt',
+}
+
+export class UserDirectoryQueryDto {
+  @ApiPropertyOptional({ description: 'Matches name or email' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional({ example: 'Engineering' })
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @ApiPropertyOptional({ example: 'Senior Developer' })
+  @IsOptional()
+  @IsString()
+  position?: string;
+
+  @ApiPropertyOptional({
+    enum: UserRole,
+    description: 'Guests are only listed when this is guest',
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiPropertyOptional({ enum: UserStatus })
+  @IsOptional()
+  @IsEnum(UserStatus)
+  status?: UserStatus;
+
+  @ApiPropertyOptional({ description: 'Only members of this workspace' })
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string;
+
+  @ApiPropertyOptional({
+    enum: UserSortField,
+    default: UserSortField.LAST_NAME,
+  })
+  @IsOptional()
+  @IsEnum(UserSortField)
+  sortBy?: UserSortField;
+
+  @ApiPropertyOptional({ enum: ['ASC', 'DESC'], default: 'ASC' })
+  @IsOptional()
+  @IsIn(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC';
+
+  @ApiPropertyOptional({
+    description: 'nextCursor returned by the previous page',
+  })
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class UserPageDto {
+  @ApiProperty({ type: [UserResponseDto] })
+  items: UserResponseDto[];
+
+  @ApiProperty({ description: 'Users matching the filters across all pages' })
+  total: number;
+
+  @ApiProperty()
+  hasMore: boolean;
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+}
+
+export enum UploadPurgePolicy {
+  ALL = 'all',
+  MESSAGES = 'messages',
+  NONE = 'none',
+}
+
+export class DeleteUserQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'User who takes over the projects and workspaces owned by the deleted user; required when there are any',
+  })
+  @IsOptional()
+  @IsUUID()
+  successorId?: string;
+
+  @ApiPropertyOptional({
+    enum: UploadPurgePolicy,
+    description:
+      'Which uploaded files to delete: all of them, only chat attachments, or none. Defaults to USER_DELETION_PURGE_UPLOADS',
+  })
+  @IsOptional()
+  @IsEnum(UploadPurgePolicy)
+  purgeUploads?: UploadPurgePolicy;
 }
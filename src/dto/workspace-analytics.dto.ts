@@ -0,0 +1,130 @@
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum WorkspaceAnalyticsReport {
+  DAILY = 'daily',
+  CHANNELS = 'channels',
+}
+
+export class WorkspaceAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Start of the range (inclusive); defaults to 30 days ago',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-31',
+    description: 'End of the range (inclusive); defaults to today',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class WorkspaceAnalyticsExportQueryDto extends WorkspaceAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    enum: WorkspaceAnalyticsReport,
+    default: WorkspaceAnalyticsReport.DAILY,
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceAnalyticsReport)
+  report?: WorkspaceAnalyticsReport;
+}
+
+export class WorkspaceAnalyticsDayDto {
+  @ApiProperty({ example: '2026-01-01', description: 'UTC date' })
+  date: string;
+
+  @ApiProperty()
+  messages: number;
+
+  @ApiProperty({
+    description:
+      'Users who posted, created or completed a task, or joined a call',
+  })
+  activeUsers: number;
+
+  @ApiProperty()
+  tasksCreated: number;
+
+  @ApiProperty()
+  tasksCompleted: number;
+
+  @ApiProperty({ description: 'Minutes workspace members spent in calls' })
+  callMinutes: number;
+
+  @ApiProperty()
+  uploadedBytes: number;
+}
+
+export class WorkspaceAnalyticsChannelDto {
+  @ApiProperty()
+  channelId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  messages: number;
+
+  @ApiProperty()
+  activeUsers: number;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Latest message at any time, not just within the range',
+  })
+  lastMessageAt: Date | null;
+}
+
+export class WorkspaceAnalyticsTotalsDto {
+  @ApiProperty()
+  messages: number;
+
+  @ApiProperty()
+  activeUsers: number;
+
+  @ApiProperty()
+  tasksCreated: number;
+
+  @ApiProperty()
+  tasksCompleted: number;
+
+  @ApiProperty()
+  callMinutes: number;
+
+  @ApiProperty({ description: 'Storage used by all files in the workspace' })
+  storageBytes: number;
+}
+
+export class WorkspaceAnalyticsDto {
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiProperty({ example: '2026-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2026-01-31' })
+  to: string;
+
+  @ApiProperty({ type: WorkspaceAnalyticsTotalsDto })
+  totals: WorkspaceAnalyticsTotalsDto;
+
+  @ApiProperty({ type: [WorkspaceAnalyticsDayDto] })
+  daily: WorkspaceAnalyticsDayDto[];
+
+  @ApiProperty({
+    type: [WorkspaceAnalyticsChannelDto],
+    description: 'Channels by message volume, busiest first',
+  })
+  topChannels: WorkspaceAnalyticsChannelDto[];
+
+  @ApiProperty({
+    type: [WorkspaceAnalyticsChannelDto],
+    description: 'Channels without any messages in the range',
+  })
+  inactiveChannels: WorkspaceAnalyticsChannelDto[];
+}
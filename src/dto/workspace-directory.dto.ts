@@ -0,0 +1,133 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkspaceJoinPolicy, WorkspaceJoinRequestStatus } from '../entities';
+
+export class WorkspaceDirectoryQueryDto {
+  @ApiPropertyOptional({
+    example: 'design',
+    description: 'Matches the workspace name or description',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor returned by the previous page',
+  })
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class WorkspaceDirectoryEntryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ enum: WorkspaceJoinPolicy })
+  joinPolicy: WorkspaceJoinPolicy;
+
+  @ApiProperty()
+  memberCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  isMember: boolean;
+
+  @ApiProperty({ description: 'The current user is waiting for approval' })
+  hasPendingRequest: boolean;
+}
+
+export class WorkspaceDirectoryPageDto {
+  @ApiProperty({ type: [WorkspaceDirectoryEntryDto] })
+  items: WorkspaceDirectoryEntryDto[];
+
+  @ApiProperty()
+  hasMore: boolean;
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+}
+
+export class CreateWorkspaceJoinRequestDto {
+  @ApiPropertyOptional({
+    example: 'I run the design meetup and would love to take part',
+    description: 'Shown to the owners reviewing the request',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  message?: string;
+}
+
+export class WorkspaceJoinRequestResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiProperty()
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+
+  @ApiPropertyOptional({ nullable: true })
+  message: string | null;
+
+  @ApiProperty({ enum: WorkspaceJoinRequestStatus })
+  status: WorkspaceJoinRequestStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedById: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class WorkspaceJoinResultDto {
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiProperty({
+    description: 'True when the workspace is open and the user was added',
+  })
+  joined: boolean;
+
+  @ApiPropertyOptional({
+    type: WorkspaceJoinRequestResponseDto,
+    description: 'Pending request awaiting approval',
+  })
+  request?: WorkspaceJoinRequestResponseDto;
+}
@@ -0,0 +1,99 @@
+import { IsEmail, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkspaceRole } from '../entities';
+
+export class CreateWorkspaceInvitationDto {
+  @ApiPropertyOptional({
+    example: 'contractor@example.com',
+    description: 'Omit to create a shareable link',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({
+    enum: [WorkspaceRole.ADMIN, WorkspaceRole.MEMBER, WorkspaceRole.GUEST],
+    default: WorkspaceRole.MEMBER,
+  })
+  @IsOptional()
+  @IsIn([WorkspaceRole.ADMIN, WorkspaceRole.MEMBER, WorkspaceRole.GUEST])
+  role?: WorkspaceRole;
+
+  @ApiPropertyOptional({
+    example: 72,
+    description: 'Defaults to WORKSPACE_INVITATION_TTL_HOURS',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24 * 90)
+  expiresInHours?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Link invitations only; omit for unlimited uses',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+}
+
+export class WorkspaceInvitationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  email: string | null;
+
+  @ApiProperty({ enum: WorkspaceRole })
+  role: WorkspaceRole;
+
+  @ApiPropertyOptional({ nullable: true })
+  maxUses: number | null;
+
+  @ApiProperty()
+  useCount: number;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty()
+  invitedById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedWorkspaceInvitationDto extends WorkspaceInvitationResponseDto {
+  @ApiProperty({ description: 'Shown only once' })
+  token: string;
+
+  @ApiProperty({ example: 'http://localhost:3001/invite?token=...' })
+  inviteUrl: string;
+}
+
+export class WorkspaceInvitationPreviewDto {
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiProperty()
+  workspaceName: string;
+
+  @ApiProperty({ enum: WorkspaceRole })
+  role: WorkspaceRole;
+
+  @ApiPropertyOptional({ nullable: true })
+  email: string | null;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
+
+export class AcceptedWorkspaceInvitationDto {
+  @ApiProperty()
+  workspaceId: string;
+}
@@ -0,0 +1,91 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkspaceType } from '../entities';
+import type { WorkspaceTemplateStructure } from '../entities';
+
+export class CreateWorkspaceTemplateDto {
+  @ApiProperty({ description: 'Workspace whose structure is copied' })
+  @IsUUID()
+  workspaceId: string;
+
+  @ApiProperty({ example: 'Client engagement' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Standard channels, projects and tasks' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class CreateWorkspaceFromTemplateDto {
+  @ApiProperty({ example: 'Acme engagement' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Workspace for the Acme engagement' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: WorkspaceType,
+    description: 'Defaults to the type of the template',
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceType)
+  type?: WorkspaceType;
+}
+
+export class WorkspaceTemplateSummaryDto {
+  @ApiProperty()
+  channelCount: number;
+
+  @ApiProperty()
+  projectCount: number;
+
+  @ApiProperty()
+  taskCount: number;
+}
+
+export class WorkspaceTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ enum: WorkspaceType })
+  workspaceType: WorkspaceType;
+
+  @ApiPropertyOptional({ nullable: true })
+  sourceWorkspaceId: string | null;
+
+  @ApiProperty()
+  createdById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({ type: WorkspaceTemplateSummaryDto })
+  summary: WorkspaceTemplateSummaryDto;
+
+  @ApiPropertyOptional({
+    description: 'Channels and projects copied into new workspaces',
+  })
+  structure?: WorkspaceTemplateStructure;
+}
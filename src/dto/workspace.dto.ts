@@ -6,8 +6,9 @@ import {
   IsArray,
   IsBoolean,
 } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { WorkspaceType } from '../entities';
+import { WorkspaceJoinPolicy, WorkspaceRole, WorkspaceType } from '../entities';
 
 export class CreateWorkspaceDto {
   @ApiProperty({ example: 'Acme Corp Workspace' })
@@ -24,6 +25,15 @@ export class CreateWorkspaceDto {
   @IsEnum(WorkspaceType)
   type?: WorkspaceType;
 
+  @ApiPropertyOptional({
+    enum: WorkspaceJoinPolicy,
+    description:
+      'Community workspaces only: open lets anyone join, request needs approval',
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceJoinPolicy)
+  joinPolicy?: WorkspaceJoinPolicy;
+
   @ApiPropertyOptional({ example: false })
   @IsOptional()
   @IsBoolean()
@@ -52,12 +62,69 @@ export class UpdateWorkspaceDto {
   @IsEnum(WorkspaceType)
   type?: WorkspaceType;
 
+  @ApiPropertyOptional({
+    enum: WorkspaceJoinPolicy,
+    description:
+      'Community workspaces only: open lets anyone join, request needs approval',
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceJoinPolicy)
+  joinPolicy?: WorkspaceJoinPolicy;
+
   @ApiPropertyOptional({ example: true })
   @IsOptional()
   @IsBoolean()
   isPublic?: boolean;
 }
 
+export class WorkspaceQueryDto {
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Include archived workspaces',
+  })
+  @IsOptional()
+  @Transform(({ value }): boolean | string => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value as string;
+  })
+  @IsBoolean()
+  includeArchived?: boolean;
+}
+
+export class AddWorkspaceMemberDto {
+  @ApiPropertyOptional({
+    enum: WorkspaceRole,
+    default: WorkspaceRole.MEMBER,
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceRole)
+  role?: WorkspaceRole;
+}
+
+export class UpdateWorkspaceMemberRoleDto {
+  @ApiProperty({ enum: WorkspaceRole, example: WorkspaceRole.ADMIN })
+  @IsEnum(WorkspaceRole)
+  role: WorkspaceRole;
+}
+
+export class TransferWorkspaceOwnershipDto {
+  @ApiProperty({ description: 'Existing member who becomes the owner' })
+  @IsUUID()
+  userId: string;
+}
+
+export class WorkspaceOwnershipTransferDto {
+  @ApiProperty()
+  pendingOwnerId: string;
+
+  @ApiProperty()
+  requestedById: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
+
 export class WorkspaceResponseDto {
   @ApiProperty()
   id: string;
@@ -71,6 +138,9 @@ export class WorkspaceResponseDto {
   @ApiProperty({ enum: WorkspaceType })
   type: WorkspaceType;
 
+  @ApiProperty({ enum: WorkspaceJoinPolicy })
+  joinPolicy: WorkspaceJoinPolicy;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -85,6 +155,33 @@ export class WorkspaceResponseDto {
     email: string;
   };
 
+  @ApiProperty({ description: 'Members who share the owner role' })
+  coOwners: Array<{
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  }>;
+
+  @ApiPropertyOptional({ type: WorkspaceOwnershipTransferDto, nullable: true })
+  ownershipTransfer?: WorkspaceOwnershipTransferDto | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Set while the workspace is archived and read-only',
+  })
+  archivedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Set while the workspace is in the trash',
+  })
+  deletedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'When a workspace in the trash is permanently deleted',
+  })
+  purgeAt?: Date;
+
   @ApiPropertyOptional()
   members?: Array<{
     id: string;
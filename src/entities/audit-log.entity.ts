@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum AuditAction {
+  USER_ROLE_CHANGED = 'user.role_changed',
+  USER_DEACTIVATED = 'user.deactivated',
+  USER_ACTIVATED = 'user.activated',
+  USER_DELETED = 'user.deleted',
+  USERS_IMPORTED = 'user.imported',
+  USER_PASSWORD_CHANGED = 'user.password_changed',
+  USER_GUEST_EXPIRY_CHANGED = 'user.guest_expiry_changed',
+  WORKSPACE_ARCHIVED = 'workspace.archived',
+  WORKSPACE_UNARCHIVED = 'workspace.unarchived',
+  WORKSPACE_DELETED = 'workspace.deleted',
+  WORKSPACE_RESTORED = 'workspace.restored',
+  WORKSPACE_PURGED = 'workspace.purged',
+  WORKSPACE_MEMBER_ADDED = 'workspace.member_added',
+  WORKSPACE_MEMBER_REMOVED = 'workspace.member_removed',
+  WORKSPACE_MEMBER_ROLE_CHANGED = 'workspace.member_role_changed',
+  WORKSPACE_JOIN_REQUEST_APPROVED = 'workspace.join_request_approved',
+  WORKSPACE_JOIN_REQUEST_DENIED = 'workspace.join_request_denied',
+  WORKSPACE_OWNERSHIP_TRANSFER_REQUESTED = 'workspace.ownership_transfer_requested',
+  WORKSPACE_OWNERSHIP_TRANSFER_CANCELLED = 'workspace.ownership_transfer_cancelled',
+  WORKSPACE_OWNERSHIP_TRANSFERRED = 'workspace.ownership_transferred',
+  WORKSPACE_TEMPLATE_CREATED = 'workspace_template.created',
+  WORKSPACE_TEMPLATE_DELETED = 'workspace_template.deleted',
+  WORKSPACE_CREATED_FROM_TEMPLATE = 'workspace.created_from_template',
+  CHANNEL_DELETED = 'channel.deleted',
+  CHANNEL_MEMBER_ADDED = 'channel.member_added',
+  CHANNEL_MEMBER_REMOVED = 'channel.member_removed',
+  PROJECT_DELETED = 'project.deleted',
+  PROJECT_MEMBER_ADDED = 'project.member_added',
+  PROJECT_MEMBER_REMOVED = 'project.member_removed',
+  AUTH_LOGIN = 'auth.login',
+  AUTH_LOGIN_FAILED = 'auth.login_failed',
+  AUTH_SESSION_REVOKED = 'auth.session_revoked',
+  AUTH_SESSIONS_REVOKED = 'auth.sessions_revoked',
+  AUTH_ACCOUNT_UNLOCKED = 'auth.account_unlocked',
+}
+
+export enum AuditTargetType {
+  USER = 'user',
+  WORKSPACE = 'workspace',
+  WORKSPACE_TEMPLATE = 'workspace_template',
+  CHANNEL = 'channel',
+  PROJECT = 'project',
+  SESSION = 'session',
+}
+
+// Append-only: rows are never updated and carry no foreign keys, so they
+// outlive the users and resources they describe
+@Entity('audit_logs')
+@Index(['createdAt', 'id'])
+@Index(['targetType', 'targetId'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Null for system jobs and provisioning requests without a signed-in user
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 64 })
+  action: AuditAction;
+
+  @Column({ type: 'varchar', length: 32 })
+  targetType: AuditTargetType;
+
+  @Column({ type: 'nvarchar', length: 255, nullable: true })
+  targetId: string | null;
+
+  // JSON snapshots of the changed fields
+  @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+  before: string | null;
+
+  @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+  after: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
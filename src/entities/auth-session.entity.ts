@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum AuthSessionRevocationReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  REUSE_DETECTED = 'reuse_detected',
+}
+
+@Entity('auth_sessions')
+@Index(['userId', 'revokedAt'])
+export class AuthSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  refreshTokenHash: string;
+
+  @Column({ type: 'nvarchar', length: 120, nullable: true })
+  deviceLabel: string | null;
+
+  @Column({ type: 'nvarchar', length: 512, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'datetimeoffset' })
+  expiresAt: Date;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  revokedReason: AuthSessionRevocationReason | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  lastUsedAt: Date | null;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+}
+
+@Entity('data_exports')
+@Index(['userId', 'createdAt'])
+// At most one export per user may be queued or building at a time
+@Index(['userId'], {
+  unique: true,
+  where: "status IN ('pending', 'processing')",
+})
+export class DataExport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @Index()
+  @Column({ type: 'varchar', length: 20, default: DataExportStatus.PENDING })
+  status: DataExportStatus;
+
+  @Column({ type: 'nvarchar', length: 500, nullable: true })
+  filePath: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  fileSize: number | null;
+
+  // Only the hash of the current download link token is stored
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  downloadTokenHash: string | null;
+
+  @Column({ type: 'nvarchar', length: 500, nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Set when a build claims the export, so stale builds can be resumed
+  @Column({ type: 'datetimeoffset', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  completedAt: Date | null;
+
+  // The archive and its download links stop working after this
+  @Column({ type: 'datetimeoffset', nullable: true })
+  expiresAt: Date | null;
+}
@@ -1,4 +1,5 @@
 export { User, UserRole, UserStatus } from './user.entity';
+export type { WorkingHoursInterval } from './user.entity';
 export { Project, ProjectStatus, ProjectPriority } from './project.entity';
 export { Task, TaskStatus, TaskPriority } from './task.entity';
 export { Comment } from './comment.entity';
@@ -11,10 +12,46 @@ export {
   PresenceSource,
 } from './presence.entity';
 
-export { Workspace, WorkspaceType } from './workspace.entity';
+export {
+  Workspace,
+  WorkspaceJoinPolicy,
+  WorkspaceType,
+} from './workspace.entity';
+export { WorkspaceMember, WorkspaceRole } from './workspace-member.entity';
+export { WorkspaceInvitation } from './workspace-invitation.entity';
+export {
+  WorkspaceJoinRequest,
+  WorkspaceJoinRequestStatus,
+} from './workspace-join-request.entity';
+export { WorkspaceTemplate } from './workspace-template.entity';
+export type {
+  WorkspaceTemplateChannel,
+  WorkspaceTemplateProject,
+  WorkspaceTemplateStructure,
+  WorkspaceTemplateTask,
+} from './workspace-template.entity';
 export { Channel, ChannelType, ChannelVisibility } from './channel.entity';
 export { Message } from './message.entity';
 export { MessageReaction } from './message-reaction.entity';
 export { MessageReadReceipt } from './message-read-receipt.entity';
 export { Call, CallType, CallStatus } from './call.entity';
 export { CallParticipant, ParticipantStatus } from './call-participant.entity';
+export {
+  AuthSession,
+  AuthSessionRevocationReason,
+} from './auth-session.entity';
+export { TwoFactorRecoveryCode } from './two-factor-recovery-code.entity';
+export { SystemSetting } from './system-setting.entity';
+export {
+  UserActionToken,
+  UserActionTokenType,
+} from './user-action-token.entity';
+export { LoginThrottle, LoginThrottleScope } from './login-throttle.entity';
+export {
+  PersonalAccessToken,
+  PersonalAccessTokenScope,
+} from './personal-access-token.entity';
+export { OidcAuthorizationRequest } from './oidc-authorization-request.entity';
+export { ScimGroup } from './scim-group.entity';
+export { AuditLog, AuditAction, AuditTargetType } from './audit-log.entity';
+export { DataExport, DataExportStatus } from './data-export.entity';
@@ -0,0 +1,27 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export enum LoginThrottleScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
+
+@Entity('login_throttles')
+export class LoginThrottle {
+  @PrimaryColumn({ type: 'nvarchar', length: 400 })
+  key: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  scope: LoginThrottleScope;
+
+  @Column({ type: 'int', default: 0 })
+  failedCount: number;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  lastFailedAt: Date | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  lockedUntil: Date | null;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
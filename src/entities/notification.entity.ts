@@ -5,18 +5,24 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
 
 export enum NotificationType {
   TASK_ASSIGNED = 'task_assigned',
   TASK_COMPLETED = 'task_completed',
+  TASK_DUE_SOON = 'task_due_soon',
   COMMENT_ADDED = 'comment_added',
   PROJECT_STATUS_CHANGED = 'project_status_changed',
   MESSAGE_RECEIVED = 'message_received',
   MESSAGE_REPLY = 'message_reply',
   CALL_SCHEDULED = 'call_scheduled',
   INCOMING_CALL = 'incoming_call',
+  ACCOUNT_LOCKED = 'account_locked',
+  WORKSPACE_JOIN_REQUESTED = 'workspace_join_requested',
+  WORKSPACE_JOIN_REQUEST_APPROVED = 'workspace_join_request_approved',
+  WORKSPACE_JOIN_REQUEST_DENIED = 'workspace_join_request_denied',
 }
 
 @Entity('notifications')
@@ -45,6 +51,11 @@ export class Notification {
   @Column({ nullable: true })
   relatedEntityType: string; // 'task', 'project', etc.
 
+  // Held back until the recipient's working hours start; null once delivered
+  @Index()
+  @Column({ type: 'datetimeoffset', nullable: true })
+  deliverAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
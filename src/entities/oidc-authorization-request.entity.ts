@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('oidc_authorization_requests')
+export class OidcAuthorizationRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  stateHash: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  codeVerifier: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  nonce: string;
+
+  @Column({ type: 'datetimeoffset' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
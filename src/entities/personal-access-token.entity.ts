@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum PersonalAccessTokenScope {
+  TASKS_READ = 'tasks:read',
+  TASKS_WRITE = 'tasks:write',
+  PROJECTS_READ = 'projects:read',
+  PROJECTS_WRITE = 'projects:write',
+  COMMENTS_READ = 'comments:read',
+  COMMENTS_WRITE = 'comments:write',
+  MESSAGES_READ = 'messages:read',
+  MESSAGES_WRITE = 'messages:write',
+}
+
+@Entity('personal_access_tokens')
+@Index(['userId', 'revokedAt'])
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'nvarchar', length: 100 })
+  name: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  tokenPrefix: string;
+
+  @Column({ type: 'simple-array' })
+  scopes: PersonalAccessTokenScope[];
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  ManyToMany,
+  JoinTable,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Workspace } from './workspace.entity';
+
+// A directory group pushed over SCIM; its members are kept in the workspace
+@Entity('scim_groups')
+export class ScimGroup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'nvarchar', length: 255 })
+  displayName: string;
+
+  @Index()
+  @Column({ type: 'nvarchar', length: 255, nullable: true })
+  externalId: string | null;
+
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Workspace;
+
+  @Column('uuid')
+  workspaceId: string;
+
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'scim_group_members',
+    joinColumn: { name: 'groupId', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'userId', referencedColumnName: 'id' },
+  })
+  members: User[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
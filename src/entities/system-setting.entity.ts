@@ -0,0 +1,13 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+@Entity('system_settings')
+export class SystemSetting {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  key: string;
+
+  @Column({ type: 'nvarchar', length: 'MAX' })
+  value: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -55,6 +55,14 @@ export class Task {
   @Column({ nullable: true })
   dueDate: Date;
 
+  // Set when the task moves to done; cleared if it is reopened
+  @Column({ type: 'datetimeoffset', nullable: true })
+  completedAt: Date | null;
+
+  // Set once the assignee has been reminded; cleared when the due date moves
+  @Column({ type: 'datetimeoffset', nullable: true })
+  dueReminderSentAt: Date | null;
+
   @Column('int', { default: 0 })
   estimatedHours: number;
 
@@ -85,7 +93,7 @@ export class Task {
   assignee: User;
 
   @Column('uuid', { nullable: true })
-  assigneeId: string;
+  assigneeId: string | null;
 
   @ManyToOne(() => User, (user) => user.createdTasks)
   @JoinColumn({ name: 'creatorId' })
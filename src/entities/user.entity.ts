@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
   OneToMany,
   ManyToMany,
+  Index,
 } from 'typeorm';
 import { Exclude } from 'class-transformer';
 import { Project } from './project.entity';
@@ -16,6 +17,7 @@ export enum UserRole {
   ADMIN = 'admin',
   PROJECT_MANAGER = 'project_manager',
   TEAM_MEMBER = 'team_member',
+  GUEST = 'guest',
 }
 
 export enum UserStatus {
@@ -23,6 +25,13 @@ export enum UserStatus {
   INACTIVE = 'inactive',
 }
 
+// One working period on a weekday (0 = Sunday), as HH:mm in the user's timezone
+export interface WorkingHoursInterval {
+  day: number;
+  start: string;
+  end: string;
+}
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -56,17 +65,72 @@ export class User {
   status: UserStatus;
 
   @Column({ nullable: true, type: 'nvarchar', length: 32 })
-  phoneNumber: string;
+  phoneNumber: string | null;
 
   @Column({ nullable: true, type: 'nvarchar', length: 120 })
-  department: string;
+  department: string | null;
 
   @Column({ nullable: true, type: 'nvarchar', length: 120 })
-  position: string;
+  position: string | null;
+
+  // IANA timezone name, e.g. Europe/Berlin
+  @Column({ type: 'nvarchar', length: 64, default: 'UTC' })
+  timezone: string;
+
+  @Column({ type: 'nvarchar', length: 35, default: 'en-US' })
+  locale: string;
+
+  // Null means the user has no fixed hours and is always reachable
+  @Column({ type: 'simple-json', nullable: true })
+  workingHours: WorkingHoursInterval[] | null;
+
+  // Largest generated avatar size; the smaller sizes live next to it
+  @Column({ type: 'nvarchar', length: 512, nullable: true })
+  avatarUrl: string | null;
 
   @Column({ nullable: true })
   lastLoginAt: Date;
 
+  // Guest accounts are deactivated automatically once this passes
+  @Column({ type: 'datetimeoffset', nullable: true })
+  guestExpiresAt: Date | null;
+
+  // Accounts that predate email verification are treated as verified
+  @Column({ default: true })
+  isEmailVerified: boolean;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  @Column({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @Exclude()
+  twoFactorSecret: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  @Exclude()
+  twoFactorLastUsedStep: number | null;
+
+  @Index()
+  @Column({ type: 'nvarchar', length: 255, nullable: true })
+  oidcSubject: string | null;
+
+  // Identifier of the account in the provisioning directory (SCIM externalId)
+  @Index()
+  @Column({ type: 'nvarchar', length: 255, nullable: true })
+  scimExternalId: string | null;
+
+  // Set when the account was deleted; the anonymized row keeps authorship intact
+  @Column({ type: 'datetimeoffset', nullable: true })
+  deletedAt: Date | null;
+
+  // Bumped to invalidate every token issued before a credential or role change
+  @Column({ type: 'int', default: 0 })
+  @Exclude()
+  tokenVersion: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Workspace } from './workspace.entity';
+import { WorkspaceRole } from './workspace-member.entity';
+
+@Entity('workspace_invitations')
+@Index(['workspaceId', 'revokedAt'])
+export class WorkspaceInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Workspace;
+
+  @Column('uuid')
+  workspaceId: string;
+
+  // Null for shareable links that anyone holding the token may use
+  @Column({ type: 'nvarchar', length: 320, nullable: true })
+  email: string | null;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'varchar', length: 20, default: WorkspaceRole.MEMBER })
+  role: WorkspaceRole;
+
+  @Column({ type: 'int', nullable: true })
+  maxUses: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  useCount: number;
+
+  @Column({ type: 'datetimeoffset' })
+  expiresAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'NO ACTION' })
+  @JoinColumn({ name: 'invitedById' })
+  invitedBy: User;
+
+  @Column('uuid')
+  invitedById: string;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
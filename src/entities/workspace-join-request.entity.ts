@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Workspace } from './workspace.entity';
+
+export enum WorkspaceJoinRequestStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  DENIED = 'denied',
+}
+
+@Entity('workspace_join_requests')
+@Index(['workspaceId', 'status'])
+@Index(['userId', 'status'])
+export class WorkspaceJoinRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Workspace;
+
+  @Column('uuid')
+  workspaceId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'nvarchar', length: 500, nullable: true })
+  message: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: WorkspaceJoinRequestStatus.PENDING,
+  })
+  status: WorkspaceJoinRequestStatus;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'NO ACTION' })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy: User | null;
+
+  @Column('uuid', { nullable: true })
+  reviewedById: string | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  reviewedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
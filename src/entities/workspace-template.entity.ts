@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+import { WorkspaceType } from './workspace.entity';
+import { ChannelVisibility } from './channel.entity';
+import { ProjectPriority } from './project.entity';
+import { TaskPriority } from './task.entity';
+
+export interface WorkspaceTemplateChannel {
+  name: string;
+  description: string | null;
+  topic: string | null;
+  visibility: ChannelVisibility;
+  settings: string | null;
+  // Index into the template's projects for project channels
+  projectIndex: number | null;
+}
+
+// Day offsets count from the day a workspace is created from the template
+export interface WorkspaceTemplateTask {
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  estimatedHours: number;
+  tags: string | null;
+  position: number | null;
+  dueInDays: number | null;
+}
+
+export interface WorkspaceTemplateProject {
+  name: string;
+  description: string | null;
+  priority: ProjectPriority;
+  color: string | null;
+  budget: number | null;
+  endInDays: number | null;
+  deadlineInDays: number | null;
+  tasks: WorkspaceTemplateTask[];
+}
+
+export interface WorkspaceTemplateStructure {
+  channels: WorkspaceTemplateChannel[];
+  projects: WorkspaceTemplateProject[];
+}
+
+@Entity('workspace_templates')
+export class WorkspaceTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'nvarchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+  description: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    default: WorkspaceType.TEAM,
+  })
+  workspaceType: WorkspaceType;
+
+  // Snapshot of the source workspace; later changes to it are not picked up
+  @Column({ type: 'simple-json' })
+  structure: WorkspaceTemplateStructure;
+
+  // No foreign key: the source workspace may be purged later
+  @Column('uuid', { nullable: true })
+  sourceWorkspaceId: string | null;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'createdById' })
+  createdBy: User;
+
+  @Column('uuid')
+  createdById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
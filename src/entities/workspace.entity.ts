@@ -4,13 +4,13 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   ManyToOne,
   OneToMany,
-  ManyToMany,
-  JoinTable,
   JoinColumn,
 } from 'typeorm';
 import { User } from './user.entity';
+import type { WorkspaceMember } from './workspace-member.entity';
 
 export enum WorkspaceType {
   COMPANY = 'company',
@@ -19,6 +19,11 @@ export enum WorkspaceType {
   COMMUNITY = 'community',
 }
 
+export enum WorkspaceJoinPolicy {
+  OPEN = 'open',
+  REQUEST = 'request',
+}
+
 @Entity('workspaces')
 export class Workspace {
   @PrimaryGeneratedColumn('uuid')
@@ -37,6 +42,15 @@ export class Workspace {
   })
   type: WorkspaceType;
 
+  // Community workspaces are listed in the directory; open ones can be joined
+  // without approval
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: WorkspaceJoinPolicy.REQUEST,
+  })
+  joinPolicy: WorkspaceJoinPolicy;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -50,13 +64,36 @@ export class Workspace {
   @Column('uuid')
   ownerId: string;
 
-  @ManyToMany(() => User)
-  @JoinTable({
-    name: 'workspace_members',
-    joinColumn: { name: 'workspaceId', referencedColumnName: 'id' },
-    inverseJoinColumn: { name: 'userId', referencedColumnName: 'id' },
-  })
-  members: User[];
+  // Member asked to take over ownership; nothing changes until they accept
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'pendingOwnerId' })
+  pendingOwner: User | null;
+
+  @Column('uuid', { nullable: true })
+  pendingOwnerId: string | null;
+
+  @Column('uuid', { nullable: true })
+  ownershipTransferRequestedById: string | null;
+
+  @Column({ type: 'datetimeoffset', nullable: true })
+  ownershipTransferExpiresAt: Date | null;
+
+  // Archived workspaces stay readable but reject changes
+  @Column({ type: 'datetimeoffset', nullable: true })
+  archivedAt: Date | null;
+
+  @Column('uuid', { nullable: true })
+  archivedById: string | null;
+
+  // Set while the workspace is in the trash; purged after the retention window
+  @DeleteDateColumn({ type: 'datetimeoffset', nullable: true })
+  deletedAt: Date | null;
+
+  @Column('uuid', { nullable: true })
+  deletedById: string | null;
+
+  @OneToMany('WorkspaceMember', 'workspace')
+  memberships: WorkspaceMember[];
 
   @OneToMany('Channel', 'workspace')
   channels: any[];
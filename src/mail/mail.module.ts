@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('mail.transport', 'file');
+
+        if (transport === 'smtp') {
+          return new SmtpMailTransport({
+            host: configService.get<string>('mail.smtp.host', 'localhost'),
+            port: configService.get<number>('mail.smtp.port', 587),
+            secure: configService.get<boolean>('mail.smtp.secure', false),
+            user: configService.get<string>('mail.smtp.user'),
+            password: configService.get<string>('mail.smtp.password'),
+          });
+        }
+
+        return new FileMailTransport(
+          configService.get<string>('mail.outputDir') || undefined,
+        );
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,137 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const from = this.configService.get<string>(
+      'mail.from',
+      'Crewdo <no-reply@crewdo.local>',
+    );
+
+    try {
+      await this.transport.send({ ...message, from });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${message.subject}" to ${message.to}: ${String(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  async sendPasswordReset(
+    to: string,
+    firstName: string,
+    resetUrl: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Reset your Crewdo password',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'We received a request to reset your Crewdo password.',
+        `Open the link below within ${expiresInMinutes} minutes to choose a new one:`,
+        resetUrl,
+        '',
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(
+    to: string,
+    firstName: string,
+    verificationUrl: string,
+    expiresInHours: number,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Confirm your Crewdo email address',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'Please confirm that this email address belongs to you.',
+        `Open the link below within ${expiresInHours} hours:`,
+        verificationUrl,
+        '',
+        'If you did not create a Crewdo account, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendWorkspaceInvitation(
+    to: string,
+    inviterName: string,
+    workspaceName: string,
+    inviteUrl: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `You have been invited to ${workspaceName} on Crewdo`,
+      text: [
+        'Hi,',
+        '',
+        `${inviterName} invited you to join the "${workspaceName}" workspace on Crewdo.`,
+        `Open the link below before ${expiresAt.toUTCString()} to accept:`,
+        inviteUrl,
+        '',
+        'If you were not expecting this invitation, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendAccountInvitation(
+    to: string,
+    firstName: string,
+    setPasswordUrl: string,
+    expiresInHours: number,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your Crewdo account is ready',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'An administrator created a Crewdo account for you.',
+        `Open the link below within ${expiresInHours} hours to choose your password:`,
+        setPasswordUrl,
+        '',
+        'If you were not expecting this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendDataExportReady(
+    to: string,
+    firstName: string,
+    downloadUrl: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your Crewdo data export is ready',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'The copy of your personal data that you requested is ready.',
+        `Download it before ${expiresAt.toUTCString()}:`,
+        downloadUrl,
+        '',
+        'If you did not request this export, please contact your administrator.',
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Development stand-in that logs the recipient and subject of every message
+ * and, when an output directory is configured, writes it there as JSON
+ * instead of sending it.
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly outputDir?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    // The body carries single-use links, so it only goes to the output file
+    this.logger.log(`Mail to ${message.to}: ${message.subject}`);
+
+    if (!this.outputDir) {
+      return;
+    }
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to}.json`;
+    await fs.writeFile(
+      join(this.outputDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { Logger } from '@nestjs/common';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+export interface SmtpMailTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpMailTransportOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
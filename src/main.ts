@@ -1,11 +1,12 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
 
   // Enable CORS
@@ -14,6 +15,9 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // SCIM clients post application/scim+json bodies
+  app.useBodyParser('json', { type: 'application/scim+json' });
+
   // Global validation pipe
   app.useGlobalPipes(
     new ValidationPipe({
@@ -51,6 +55,9 @@ async function bootstrap() {
     .addTag('Calls', 'Voice and video call management')
     .addTag('Media', 'VoIP, screen sharing, and media operations')
     .addTag('Files', 'File upload and management')
+    .addTag('SCIM', 'SCIM 2.0 user and group provisioning')
+    .addTag('Audit Logs', 'Security and administration audit trail')
+    .addTag('Data Exports', 'Personal data export downloads')
     .addServer('/api', 'Production API') // Ensures Swagger UI uses /api as base path
     .build();
 
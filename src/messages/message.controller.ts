@@ -39,7 +39,8 @@ import {
 } from '../dto/message.dto';
 import { MarkAsReadDto, ReadReceiptResponseDto } from '../dto/read-receipt.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { UserRole } from '../entities';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { UserRole, PersonalAccessTokenScope } from '../entities';
 
 interface AuthenticatedRequest extends Request {
   user: {
@@ -61,6 +62,7 @@ export class MessageController {
   ) {}
 
   @Post()
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Create a new message' })
   @ApiResponse({
     status: 201,
@@ -86,6 +88,7 @@ export class MessageController {
   }
 
   @Get('channel/:channelId')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_READ)
   @ApiOperation({ summary: 'Get messages by channel with pagination' })
   @ApiParam({ name: 'channelId', description: 'Channel ID' })
   @ApiQuery({
@@ -148,6 +151,7 @@ export class MessageController {
   }
 
   @Get('thread/:parentMessageId')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_READ)
   @ApiOperation({ summary: 'Get thread replies for a message' })
   @ApiParam({ name: 'parentMessageId', description: 'Parent message ID' })
   @ApiResponse({
@@ -163,6 +167,7 @@ export class MessageController {
   }
 
   @Get('search')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_READ)
   @ApiOperation({ summary: 'Search messages' })
   @ApiQuery({ name: 'query', required: false, description: 'Search query' })
   @ApiQuery({
@@ -208,6 +213,7 @@ export class MessageController {
   }
 
   @Get(':id')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_READ)
   @ApiOperation({ summary: 'Get message by ID' })
   @ApiParam({ name: 'id', description: 'Message ID' })
   @ApiResponse({
@@ -223,6 +229,7 @@ export class MessageController {
   }
 
   @Patch(':id')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Update message' })
   @ApiParam({ name: 'id', description: 'Message ID' })
   @ApiResponse({
@@ -239,6 +246,7 @@ export class MessageController {
   }
 
   @Delete(':id')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Delete message' })
   @ApiParam({ name: 'id', description: 'Message ID' })
   @ApiResponse({ status: 204, description: 'Message deleted successfully' })
@@ -251,6 +259,7 @@ export class MessageController {
   }
 
   @Post('reactions')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Add or remove reaction to message' })
   @ApiResponse({ status: 201, description: 'Reaction toggled successfully' })
   async addReaction(
@@ -271,6 +280,7 @@ export class MessageController {
   }
 
   @Post('channel/:channelId/mark-read')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Mark messages as read in a channel' })
   @ApiParam({ name: 'channelId', description: 'Channel ID' })
   @ApiResponse({
@@ -300,6 +310,7 @@ export class MessageController {
   }
 
   @Get('channel/:channelId/read-status')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_READ)
   @ApiOperation({ summary: 'Get read status for messages in a channel' })
   @ApiParam({ name: 'channelId', description: 'Channel ID' })
   @ApiQuery({
@@ -320,6 +331,7 @@ export class MessageController {
   }
 
   @Post('channel/:channelId/attachments')
+  @Scopes(PersonalAccessTokenScope.MESSAGES_WRITE)
   @ApiOperation({ summary: 'Upload attachments for messages in a channel' })
   @ApiParam({ name: 'channelId', description: 'Channel ID' })
   @ApiConsumes('multipart/form-data')
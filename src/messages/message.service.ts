@@ -25,6 +25,10 @@ import {
 } from '../dto/message.dto';
 import { AttachmentService } from '../attachments/attachment.service';
 import { NotificationService } from '../notifications/notification.service';
+import {
+  assertWorkspaceWritable,
+  notInTrashedWorkspace,
+} from '../workspaces/workspace-members.service';
 
 @Injectable()
 export class MessageService {
@@ -64,7 +68,7 @@ export class MessageService {
       relations: ['members', 'workspace'],
     });
 
-    if (!channel) {
+    if (!channel || this.isInTrash(channel)) {
       throw new NotFoundException('Channel not found');
     }
 
@@ -72,6 +76,7 @@ export class MessageService {
     if (!isMember) {
       throw new ForbiddenException('Access denied to this channel');
     }
+    this.assertChannelWritable(channel);
 
     let replyToMessage: Message | null = null;
     if (createMessageDto.parentMessageId) {
@@ -184,10 +189,10 @@ export class MessageService {
   }> {
     const channel = await this.channelRepository.findOne({
       where: { id: channelId },
-      relations: ['members'],
+      relations: ['members', 'workspace'],
     });
 
-    if (!channel) {
+    if (!channel || this.isInTrash(channel)) {
       throw new NotFoundException('Channel not found');
     }
 
@@ -258,10 +263,10 @@ export class MessageService {
   ): Promise<MessageResponseDto[]> {
     const parentMessage = await this.messageRepository.findOne({
       where: { id: parentMessageId },
-      relations: ['channel', 'channel.members'],
+      relations: ['channel', 'channel.members', 'channel.workspace'],
     });
 
-    if (!parentMessage) {
+    if (!parentMessage || this.isInTrash(parentMessage.channel)) {
       throw new NotFoundException('Parent message not found');
     }
 
@@ -297,12 +302,13 @@ export class MessageService {
   ): Promise<MessageResponseDto> {
     const message = await this.messageRepository.findOne({
       where: { id },
-      relations: ['author', 'channel', 'channel.members'],
+      relations: ['author', 'channel', 'channel.members', 'channel.workspace'],
     });
 
-    if (!message) {
+    if (!message || this.isInTrash(message.channel)) {
       throw new NotFoundException('Message not found');
     }
+    this.assertChannelWritable(message.channel);
 
     if (message.author.id !== userId) {
       throw new ForbiddenException('Only message author can edit message');
@@ -329,12 +335,19 @@ export class MessageService {
   async remove(id: string, userId: string): Promise<void> {
     const message = await this.messageRepository.findOne({
       where: { id },
-      relations: ['author', 'channel', 'channel.members', 'channel.creator'],
+      relations: [
+        'author',
+        'channel',
+        'channel.members',
+        'channel.creator',
+        'channel.workspace',
+      ],
     });
 
-    if (!message) {
+    if (!message || this.isInTrash(message.channel)) {
       throw new NotFoundException('Message not found');
     }
+    this.assertChannelWritable(message.channel);
 
     const canDelete =
       message.author.id === userId || message.channel.creator?.id === userId;
@@ -356,12 +369,19 @@ export class MessageService {
   ): Promise<{ channelId: string }> {
     const message = await this.messageRepository.findOne({
       where: { id: messageReactionDto.messageId },
-      relations: ['channel', 'channel.members', 'reactions', 'reactions.user'],
+      relations: [
+        'channel',
+        'channel.members',
+        'channel.workspace',
+        'reactions',
+        'reactions.user',
+      ],
     });
 
-    if (!message) {
+    if (!message || this.isInTrash(message.channel)) {
       throw new NotFoundException('Message not found');
     }
+    this.assertChannelWritable(message.channel);
 
     const isMember = message.channel.members.some(
       (member) => member.id === userId,
@@ -402,6 +422,7 @@ export class MessageService {
       .createQueryBuilder('channel')
       .leftJoin('channel.members', 'members')
       .where('members.id = :userId', { userId })
+      .andWhere(notInTrashedWorkspace('channel.workspaceId'))
       .select(['channel.id'])
       .getMany();
 
@@ -482,6 +503,7 @@ export class MessageService {
         'author',
         'channel',
         'channel.members',
+        'channel.workspace',
         'replyTo',
         'replyTo.author',
         'attachments',
@@ -490,7 +512,7 @@ export class MessageService {
       ],
     });
 
-    if (!message) {
+    if (!message || this.isInTrash(message.channel)) {
       throw new NotFoundException('Message not found');
     }
 
@@ -511,10 +533,10 @@ export class MessageService {
   ): Promise<{ attachmentIds: string[] }> {
     const channel = await this.channelRepository.findOne({
       where: { id: channelId },
-      relations: ['members'],
+      relations: ['members', 'workspace'],
     });
 
-    if (!channel) {
+    if (!channel || this.isInTrash(channel)) {
       throw new NotFoundException('Channel not found');
     }
 
@@ -522,6 +544,7 @@ export class MessageService {
     if (!isMember) {
       throw new ForbiddenException('Access denied to this channel');
     }
+    this.assertChannelWritable(channel);
 
     const attachmentIds: string[] = [];
     const user = await this.userRepository.findOne({
@@ -633,6 +656,7 @@ export class MessageService {
         firstName: message.author.firstName,
         lastName: message.author.lastName,
         email: message.author.email,
+        avatarUrl: message.author.avatarUrl,
       },
       channel: {
         id: message.channel.id,
@@ -647,6 +671,7 @@ export class MessageService {
               id: message.replyTo.author.id,
               firstName: message.replyTo.author.firstName,
               lastName: message.replyTo.author.lastName,
+              avatarUrl: message.replyTo.author.avatarUrl,
             },
           }
         : undefined,
@@ -661,4 +686,15 @@ export class MessageService {
       reactions: reactionGroups,
     };
   }
+
+  // The workspace relation is not loaded while the workspace is in the trash
+  private isInTrash(channel: Channel): boolean {
+    return !!channel.workspaceId && !channel.workspace;
+  }
+
+  private assertChannelWritable(channel: Channel): void {
+    if (channel.workspace) {
+      assertWorkspaceWritable(channel.workspace);
+    }
+  }
 }
@@ -3,8 +3,10 @@ import {
   NotFoundException,
   ForbiddenException,
   Inject,
+  Logger,
+  OnModuleInit,
 } from '@nestjs/common';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, IsNull, LessThanOrEqual, Not } from 'typeorm';
 import { Notification, User, NotificationType } from '../entities';
 import {
   CreateNotificationDto,
@@ -12,9 +14,19 @@ import {
   NotificationResponseDto,
   NotificationQueryDto,
 } from '../dto/notification.dto';
+import { formatForUser, getNextWorkingTime } from '../users/working-hours';
+
+// Pushed immediately, even outside the recipient's working hours
+const URGENT_NOTIFICATION_TYPES = new Set<NotificationType>([
+  NotificationType.INCOMING_CALL,
+  NotificationType.ACCOUNT_LOCKED,
+]);
+
+const DEFERRED_DELIVERY_BATCH_SIZE = 200;
 
 @Injectable()
-export class NotificationService {
+export class NotificationService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationService.name);
   private notificationRepository: Repository<Notification>;
   private userRepository: Repository<User>;
   private onNotificationCreatedCallback?: (
@@ -30,6 +42,13 @@ export class NotificationService {
     this.userRepository = this.dataSource.getRepository(User);
   }
 
+  onModuleInit() {
+    // Deliver notifications held back until working hours every minute
+    setInterval(() => {
+      void this.deliverDeferredNotifications();
+    }, 60_000);
+  }
+
   setNotificationCreatedCallback(
     callback: (userId: string, notification: NotificationResponseDto) => void,
   ): void {
@@ -54,6 +73,9 @@ export class NotificationService {
       user,
       relatedEntityId: createNotificationDto.relatedEntityId,
       relatedEntityType: createNotificationDto.relatedEntityType,
+      deliverAt: URGENT_NOTIFICATION_TYPES.has(createNotificationDto.type)
+        ? null
+        : getNextWorkingTime(user),
     });
 
     const savedNotification =
@@ -61,7 +83,11 @@ export class NotificationService {
 
     const response = this.formatNotificationResponse(savedNotification);
 
-    if (this.onNotificationCreatedCallback) {
+    if (savedNotification.deliverAt) {
+      this.logger.log(
+        `Deferring ${response.type} notification for user ${user.id} until ${savedNotification.deliverAt.toISOString()}`,
+      );
+    } else if (this.onNotificationCreatedCallback) {
       console.log('[NotificationService] Broadcasting notification:', {
         type: response.type,
         userId: createNotificationDto.userId,
@@ -80,6 +106,44 @@ export class NotificationService {
     return response;
   }
 
+  async deliverDeferredNotifications(): Promise<number> {
+    let delivered = 0;
+    try {
+      const notifications = await this.notificationRepository.find({
+        where: { deliverAt: LessThanOrEqual(new Date()) },
+        relations: ['user'],
+        order: { deliverAt: 'ASC' },
+        take: DEFERRED_DELIVERY_BATCH_SIZE,
+      });
+
+      for (const notification of notifications) {
+        // Claim the row first so a concurrent sweep never pushes it twice
+        const result = await this.notificationRepository.update(
+          { id: notification.id, deliverAt: Not(IsNull()) },
+          { deliverAt: null },
+        );
+        if (!result.affected) {
+          continue;
+        }
+
+        notification.deliverAt = null;
+        this.onNotificationCreatedCallback?.(
+          notification.userId,
+          this.formatNotificationResponse(notification),
+        );
+        delivered++;
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : String(error ?? 'unknown error');
+      this.logger.warn(`Deferred notification delivery failed: ${message}`);
+    }
+
+    return delivered;
+  }
+
   async findByUser(
     userId: string,
     currentUserId: string,
@@ -277,6 +341,30 @@ export class NotificationService {
     });
   }
 
+  async createTaskDueSoonNotification(
+    taskId: string,
+    taskTitle: string,
+    assigneeId: string,
+    dueDate: Date,
+  ): Promise<NotificationResponseDto> {
+    const assignee = await this.userRepository.findOne({
+      where: { id: assigneeId },
+    });
+
+    const dueStr = assignee
+      ? formatForUser(dueDate, assignee)
+      : dueDate.toISOString();
+
+    return this.create({
+      title: 'Task Due Soon',
+      message: `"${taskTitle}" is due ${dueStr}`,
+      type: NotificationType.TASK_DUE_SOON,
+      userId: assigneeId,
+      relatedEntityId: taskId,
+      relatedEntityType: 'task',
+    });
+  }
+
   async createCommentNotification(
     entityId: string,
     entityType: string,
@@ -319,6 +407,46 @@ export class NotificationService {
     });
   }
 
+  async createWorkspaceJoinRequestedNotification(
+    workspaceId: string,
+    workspaceName: string,
+    requesterId: string,
+    recipientId: string,
+  ): Promise<NotificationResponseDto> {
+    const requester = await this.userRepository.findOne({
+      where: { id: requesterId },
+    });
+
+    return this.create({
+      title: 'Join Request',
+      message: `${requester?.firstName} ${requester?.lastName} asked to join ${workspaceName}`,
+      type: NotificationType.WORKSPACE_JOIN_REQUESTED,
+      userId: recipientId,
+      relatedEntityId: workspaceId,
+      relatedEntityType: 'workspace',
+    });
+  }
+
+  async createWorkspaceJoinRequestReviewedNotification(
+    workspaceId: string,
+    workspaceName: string,
+    approved: boolean,
+    recipientId: string,
+  ): Promise<NotificationResponseDto> {
+    return this.create({
+      title: approved ? 'Join Request Approved' : 'Join Request Declined',
+      message: approved
+        ? `You are now a member of ${workspaceName}`
+        : `Your request to join ${workspaceName} was declined`,
+      type: approved
+        ? NotificationType.WORKSPACE_JOIN_REQUEST_APPROVED
+        : NotificationType.WORKSPACE_JOIN_REQUEST_DENIED,
+      userId: recipientId,
+      relatedEntityId: workspaceId,
+      relatedEntityType: 'workspace',
+    });
+  }
+
   async createMessageReceivedNotification(
     messageId: string,
     channelName: string,
@@ -364,17 +492,14 @@ export class NotificationService {
     recipientId: string,
     scheduledTime: Date,
   ): Promise<NotificationResponseDto> {
-    const scheduler = await this.userRepository.findOne({
-      where: { id: schedulerId },
-    });
-
-    const timeStr = scheduledTime.toLocaleString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-    });
+    const [scheduler, recipient] = await Promise.all([
+      this.userRepository.findOne({ where: { id: schedulerId } }),
+      this.userRepository.findOne({ where: { id: recipientId } }),
+    ]);
+
+    const timeStr = recipient
+      ? formatForUser(scheduledTime, recipient)
+      : scheduledTime.toISOString();
 
     return this.create({
       title: 'Call Scheduled',
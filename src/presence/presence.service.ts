@@ -17,7 +17,9 @@ export class PresenceService {
   }
 
   async getAllPresence(): Promise<PresenceResponseDto[]> {
-    const entities = await this.presenceRepository.find();
+    const entities = await this.presenceRepository.find({
+      relations: { user: true },
+    });
     return entities.map((entity) => PresenceResponseDto.fromEntity(entity));
   }
 
@@ -124,6 +126,7 @@ export class PresenceService {
 
       let presence = await repository.findOne({
         where: { userId },
+        relations: { user: true },
       });
 
       if (!presence) {
@@ -136,7 +139,11 @@ export class PresenceService {
         });
 
         try {
-          presence = await repository.save(presence);
+          await repository.save(presence);
+          presence = await repository.findOneOrFail({
+            where: { userId },
+            relations: { user: true },
+          });
         } catch (error) {
           this.logger.warn(
             `Failed to create presence record for user ${userId}: ${String(error)}`,
@@ -144,6 +151,7 @@ export class PresenceService {
 
           presence = await repository.findOne({
             where: { userId },
+            relations: { user: true },
           });
 
           if (!presence) {
@@ -20,6 +20,7 @@ import {
 import { ProjectsService } from './projects.service';
 import { ChatGateway } from '../realtime/chat.gateway';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Scopes } from '../auth/decorators/scopes.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import {
   CreateProjectDto,
@@ -27,7 +28,11 @@ import {
   AddProjectMembersDto,
   ProjectResponseDto,
 } from '../dto/project.dto';
-import { User, Project as ProjectEntity } from '../entities';
+import {
+  User,
+  Project as ProjectEntity,
+  PersonalAccessTokenScope,
+} from '../entities';
 
 @ApiTags('Projects')
 @Controller('projects')
@@ -53,6 +58,7 @@ export class ProjectsController {
     type: ProjectResponseDto,
   })
   @Post()
+  @Scopes(PersonalAccessTokenScope.PROJECTS_WRITE)
   async create(
     @Body() createProjectDto: CreateProjectDto,
     @CurrentUser() user: User,
@@ -60,6 +66,7 @@ export class ProjectsController {
     const project = await this.projectsService.create(
       createProjectDto,
       user.id,
+      user.role,
     );
 
     // Broadcast to all project members and owner
@@ -84,6 +91,7 @@ export class ProjectsController {
     description: 'Workspace identifier to filter projects',
   })
   @Get()
+  @Scopes(PersonalAccessTokenScope.PROJECTS_READ)
   async findAll(
     @CurrentUser() user: User,
     @Query('workspaceId') workspaceId?: string,
@@ -102,6 +110,7 @@ export class ProjectsController {
     description: 'Project not found or access denied',
   })
   @Get(':id')
+  @Scopes(PersonalAccessTokenScope.PROJECTS_READ)
   async findOne(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -121,6 +130,7 @@ export class ProjectsController {
   })
   @ApiResponse({ status: 404, description: 'Project not found' })
   @Patch(':id')
+  @Scopes(PersonalAccessTokenScope.PROJECTS_WRITE)
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateProjectDto: UpdateProjectDto,
@@ -151,6 +161,7 @@ export class ProjectsController {
   })
   @ApiResponse({ status: 404, description: 'Project not found' })
   @Delete(':id')
+  @Scopes(PersonalAccessTokenScope.PROJECTS_WRITE)
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -184,6 +195,7 @@ export class ProjectsController {
   })
   @ApiResponse({ status: 404, description: 'Project or users not found' })
   @Patch(':id/members')
+  @Scopes(PersonalAccessTokenScope.PROJECTS_WRITE)
   async addMembers(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() addMembersDto: AddProjectMembersDto,
@@ -218,6 +230,7 @@ export class ProjectsController {
   })
   @ApiResponse({ status: 404, description: 'Project not found' })
   @Delete(':id/members/:memberId')
+  @Scopes(PersonalAccessTokenScope.PROJECTS_WRITE)
   async removeMember(
     @Param('id', ParseUUIDPipe) id: string,
     @Param('memberId', ParseUUIDPipe) memberId: string,
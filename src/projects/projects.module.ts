@@ -4,9 +4,17 @@ import { ProjectsController } from './projects.controller';
 import { DatabaseModule } from '../config/database.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { AuditModule } from '../audit/audit.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
-  imports: [DatabaseModule, NotificationsModule, RealtimeModule],
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    NotificationsModule,
+    RealtimeModule,
+    WorkspacesModule,
+  ],
   controllers: [ProjectsController],
   providers: [ProjectsService],
   exports: [ProjectsService],
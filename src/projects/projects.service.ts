@@ -5,13 +5,28 @@ import {
   Inject,
 } from '@nestjs/common';
 import { Repository, DataSource, In } from 'typeorm';
-import { Project, User, UserRole, Task, Comment } from '../entities';
+import {
+  Project,
+  User,
+  UserRole,
+  Task,
+  Comment,
+  WorkspaceRole,
+  AuditAction,
+  AuditTargetType,
+} from '../entities';
 import {
   CreateProjectDto,
   UpdateProjectDto,
   AddProjectMembersDto,
 } from '../dto/project.dto';
 import { NotificationService } from '../notifications/notification.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  WorkspaceMembersService,
+  hasWorkspaceRole,
+  notInTrashedWorkspace,
+} from '../workspaces/workspace-members.service';
 
 @Injectable()
 export class ProjectsService {
@@ -24,6 +39,8 @@ export class ProjectsService {
     @Inject('DATA_SOURCE')
     private dataSource: DataSource,
     private readonly notificationService: NotificationService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly auditLogsService: AuditLogsService,
   ) {
     this.projectRepository = this.dataSource.getRepository(Project);
     this.userRepository = this.dataSource.getRepository(User);
@@ -34,12 +51,24 @@ export class ProjectsService {
   async create(
     createProjectDto: CreateProjectDto,
     ownerId: string,
+    ownerRole: UserRole,
   ): Promise<Project> {
     const owner = await this.userRepository.findOne({ where: { id: ownerId } });
     if (!owner) {
       throw new NotFoundException('Owner not found');
     }
 
+    await this.workspaceMembersService.assertRole(
+      createProjectDto.workspaceId,
+      ownerId,
+      ownerRole,
+      WorkspaceRole.MEMBER,
+      'Only workspace members can create projects',
+    );
+    await this.workspaceMembersService.assertWritable(
+      createProjectDto.workspaceId,
+    );
+
     // Get members if provided
     let members: User[] = [];
     if (createProjectDto.memberIds && createProjectDto.memberIds.length > 0) {
@@ -77,13 +106,21 @@ export class ProjectsService {
       .createQueryBuilder('project')
       .leftJoinAndSelect('project.owner', 'owner')
       .leftJoinAndSelect('project.members', 'members')
-      .loadRelationCountAndMap('project.taskCount', 'project.tasks');
+      .loadRelationCountAndMap('project.taskCount', 'project.tasks')
+      .where(notInTrashedWorkspace('project.workspaceId'));
 
-    // If user is not admin, only show projects they own or are members of
+    // Non-admins see projects they own, belong to, or manage via their workspace
     if (userRole !== UserRole.ADMIN) {
-      queryBuilder.where(
-        '(project.ownerId = :userId OR members.id = :userId)',
-        { userId },
+      const managedWorkspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(
+          userId,
+          WorkspaceRole.ADMIN,
+        );
+      queryBuilder.andWhere(
+        managedWorkspaceIds.length
+          ? '(project.ownerId = :userId OR members.id = :userId OR project.workspaceId IN (:...managedWorkspaceIds))'
+          : '(project.ownerId = :userId OR members.id = :userId)',
+        { userId, managedWorkspaceIds },
       );
     }
 
@@ -106,13 +143,21 @@ export class ProjectsService {
       .leftJoinAndSelect('project.owner', 'owner')
       .leftJoinAndSelect('project.members', 'members')
       .loadRelationCountAndMap('project.taskCount', 'project.tasks')
-      .where('project.id = :id', { id });
+      .where('project.id = :id', { id })
+      .andWhere(notInTrashedWorkspace('project.workspaceId'));
 
     // If user is not admin, check if they have access to this project
     if (userRole !== UserRole.ADMIN) {
+      const managedWorkspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(
+          userId,
+          WorkspaceRole.ADMIN,
+        );
       queryBuilder.andWhere(
-        '(project.ownerId = :userId OR members.id = :userId)',
-        { userId },
+        managedWorkspaceIds.length
+          ? '(project.ownerId = :userId OR members.id = :userId OR project.workspaceId IN (:...managedWorkspaceIds))'
+          : '(project.ownerId = :userId OR members.id = :userId)',
+        { userId, managedWorkspaceIds },
       );
     }
 
@@ -132,14 +177,28 @@ export class ProjectsService {
   ): Promise<Project> {
     const project = await this.findOne(id, userId, userRole);
     const previousStatus = project.status;
+    await this.workspaceMembersService.assertWritable(project.workspaceId);
 
-    // Only owner, project managers, and admins can update projects
+    // Only owner, workspace admins, and platform admins can update projects
+    if (!(await this.canManage(project, userId, userRole))) {
+      throw new ForbiddenException('You can only update your own projects');
+    }
+
+    // Moving a project needs the same rights in the target as creating one
     if (
-      project.ownerId !== userId &&
-      userRole !== UserRole.ADMIN &&
-      userRole !== UserRole.PROJECT_MANAGER
+      updateProjectDto.workspaceId &&
+      updateProjectDto.workspaceId !== project.workspaceId
     ) {
-      throw new ForbiddenException('You can only update your own projects');
+      await this.workspaceMembersService.assertRole(
+        updateProjectDto.workspaceId,
+        userId,
+        userRole,
+        WorkspaceRole.MEMBER,
+        'Only workspace members can move projects into a workspace',
+      );
+      await this.workspaceMembersService.assertWritable(
+        updateProjectDto.workspaceId,
+      );
     }
 
     await this.projectRepository.update(id, updateProjectDto);
@@ -173,10 +232,13 @@ export class ProjectsService {
   async remove(id: string, userId: string, userRole: UserRole): Promise<void> {
     const project = await this.findOne(id, userId, userRole);
 
-    // Only owner and admins can delete projects
-    if (project.ownerId !== userId && userRole !== UserRole.ADMIN) {
+    // Only owner, workspace owners, and platform admins can delete projects
+    if (
+      !(await this.canManage(project, userId, userRole, WorkspaceRole.OWNER))
+    ) {
       throw new ForbiddenException('You can only delete your own projects');
     }
+    await this.workspaceMembersService.assertWritable(project.workspaceId);
 
     const tasks = await this.taskRepository.find({
       where: { projectId: id },
@@ -191,6 +253,18 @@ export class ProjectsService {
     await this.taskRepository.delete({ projectId: id });
 
     await this.projectRepository.delete(id);
+    await this.auditLogsService.record({
+      action: AuditAction.PROJECT_DELETED,
+      targetType: AuditTargetType.PROJECT,
+      targetId: id,
+      actorId: userId,
+      before: {
+        name: project.name,
+        ownerId: project.ownerId,
+        workspaceId: project.workspaceId,
+        taskCount: taskIds.length,
+      },
+    });
   }
 
   async addMembers(
@@ -201,16 +275,13 @@ export class ProjectsService {
   ): Promise<Project> {
     const project = await this.findOne(id, userId, userRole);
 
-    // Only owner, project managers, and admins can add members
-    if (
-      project.ownerId !== userId &&
-      userRole !== UserRole.ADMIN &&
-      userRole !== UserRole.PROJECT_MANAGER
-    ) {
+    // Only owner, workspace admins, and platform admins can add members
+    if (!(await this.canManage(project, userId, userRole))) {
       throw new ForbiddenException(
         'You can only add members to your own projects',
       );
     }
+    await this.workspaceMembersService.assertWritable(project.workspaceId);
 
     const newMembers = await this.userRepository.findBy({
       id: In(addMembersDto.memberIds),
@@ -227,6 +298,15 @@ export class ProjectsService {
 
     project.members = [...project.members, ...membersToAdd];
     await this.projectRepository.save(project);
+    if (membersToAdd.length) {
+      await this.auditLogsService.record({
+        action: AuditAction.PROJECT_MEMBER_ADDED,
+        targetType: AuditTargetType.PROJECT,
+        targetId: id,
+        actorId: userId,
+        after: { userIds: membersToAdd.map((member) => member.id) },
+      });
+    }
 
     return await this.findOne(id, userId, userRole);
   }
@@ -239,22 +319,46 @@ export class ProjectsService {
   ): Promise<Project> {
     const project = await this.findOne(id, userId, userRole);
 
-    // Only owner, project managers, and admins can remove members
-    if (
-      project.ownerId !== userId &&
-      userRole !== UserRole.ADMIN &&
-      userRole !== UserRole.PROJECT_MANAGER
-    ) {
+    // Only owner, workspace admins, and platform admins can remove members
+    if (!(await this.canManage(project, userId, userRole))) {
       throw new ForbiddenException(
         'You can only remove members from your own projects',
       );
     }
+    await this.workspaceMembersService.assertWritable(project.workspaceId);
 
     project.members = project.members.filter(
       (member) => member.id !== memberId,
     );
     await this.projectRepository.save(project);
+    await this.auditLogsService.record({
+      action: AuditAction.PROJECT_MEMBER_REMOVED,
+      targetType: AuditTargetType.PROJECT,
+      targetId: id,
+      actorId: userId,
+      before: { userId: memberId },
+    });
 
     return await this.findOne(id, userId, userRole);
   }
+
+  private async canManage(
+    project: Project,
+    userId: string,
+    userRole: UserRole,
+    minimumWorkspaceRole: WorkspaceRole = WorkspaceRole.ADMIN,
+  ): Promise<boolean> {
+    if (project.ownerId === userId || userRole === UserRole.ADMIN) {
+      return true;
+    }
+
+    return hasWorkspaceRole(
+      await this.workspaceMembersService.getEffectiveRole(
+        project.workspaceId,
+        userId,
+        userRole,
+      ),
+      minimumWorkspaceRole,
+    );
+  }
 }
@@ -20,15 +20,20 @@ import { NotificationResponseDto } from '../dto/notification.dto';
 import { PresenceService } from '../presence/presence.service';
 import { PresenceStatus, UserRole } from '../entities';
 import { CallResponseDto } from '../dto/call.dto';
+import { SessionsService } from '../auth/sessions.service';
+import { UsersService, isGuestAccessExpired } from '../users/users.service';
 
 interface JwtPayload {
   email: string;
   sub: string;
   role: string;
+  sid?: string;
+  tv?: number;
 }
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
   user?: JwtPayload;
 }
 
@@ -48,6 +53,7 @@ export class ChatGateway
 
   private readonly logger = new Logger(ChatGateway.name);
   private connectedUsers = new Map<string, Set<string>>();
+  private sessionSockets = new Map<string, Set<string>>();
   private userChannels = new Map<string, Set<string>>();
   private recentlyConnected = new Map<string, number>();
   private pendingEmits: Array<{
@@ -68,6 +74,10 @@ export class ChatGateway
     private presenceService: PresenceService,
     @Inject(forwardRef(() => NotificationService))
     private notificationService: NotificationService,
+    @Inject(forwardRef(() => SessionsService))
+    private sessionsService: SessionsService,
+    @Inject(forwardRef(() => UsersService))
+    private usersService: UsersService,
   ) {}
 
   afterInit(server: Server) {
@@ -116,8 +126,22 @@ export class ChatGateway
       this.logger.log(
         `[handleConnection] Client ${client.id} JWT verified, userId: ${payload.sub}`,
       );
+      const user = await this.usersService.findById(payload.sub);
+      if (
+        !user ||
+        (payload.tv ?? 0) !== user.tokenVersion ||
+        isGuestAccessExpired(user)
+      ) {
+        this.logger.warn(
+          `[handleConnection] Client ${client.id} uses a stale token, disconnecting`,
+        );
+        client.disconnect();
+        return;
+      }
+
       client.userId = payload.sub;
-      client.user = payload;
+      // The role claim may predate a role change, so trust the stored one
+      client.user = { ...payload, role: user.role };
 
       this.logger.debug(
         `WebSocket authenticated payload for socket ${client.id}: ${JSON.stringify(payload)}`,
@@ -128,6 +152,23 @@ export class ChatGateway
         return;
       }
 
+      if (payload.sid) {
+        const session = await this.sessionsService.findActive(payload.sid);
+        if (!session) {
+          this.logger.warn(
+            `[handleConnection] Client ${client.id} uses revoked session ${payload.sid}, disconnecting`,
+          );
+          client.disconnect();
+          return;
+        }
+
+        client.sessionId = payload.sid;
+        if (!this.sessionSockets.has(payload.sid)) {
+          this.sessionSockets.set(payload.sid, new Set());
+        }
+        this.sessionSockets.get(payload.sid)!.add(client.id);
+      }
+
       const hadExistingSockets =
         this.connectedUsers.has(client.userId) &&
         this.connectedUsers.get(client.userId)!.size > 0;
@@ -178,6 +219,14 @@ export class ChatGateway
 
   async handleDisconnect(client: AuthenticatedSocket) {
     await Promise.resolve();
+    if (client.sessionId) {
+      const sessionSockets = this.sessionSockets.get(client.sessionId);
+      sessionSockets?.delete(client.id);
+      if (sessionSockets && sessionSockets.size === 0) {
+        this.sessionSockets.delete(client.sessionId);
+      }
+    }
+
     if (client.userId) {
       const userSockets = this.connectedUsers.get(client.userId);
       if (userSockets) {
@@ -530,6 +579,30 @@ export class ChatGateway
     }
   }
 
+  public disconnectSession(sessionId: string): void {
+    const socketIds = this.sessionSockets.get(sessionId);
+    if (!socketIds || !this.server) {
+      return;
+    }
+
+    this.logger.log(
+      `Disconnecting ${socketIds.size} sockets of revoked session ${sessionId}`,
+    );
+    this.server.in(Array.from(socketIds)).disconnectSockets(true);
+  }
+
+  public disconnectUser(userId: string): void {
+    const socketIds = this.connectedUsers.get(userId);
+    if (!socketIds || !this.server) {
+      return;
+    }
+
+    this.logger.log(
+      `Disconnecting ${socketIds.size} sockets of user ${userId}`,
+    );
+    this.server.in(Array.from(socketIds)).disconnectSockets(true);
+  }
+
   public isUserOnline(userId: string): boolean {
     const sockets = this.connectedUsers.get(userId);
     return Boolean(sockets && sockets.size > 0);
@@ -6,6 +6,8 @@ import { MessagesModule } from '../messages/messages.module';
 import { ChannelsModule } from '../channels/channels.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { PresenceModule } from '../presence/presence.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [
@@ -24,6 +26,8 @@ import { PresenceModule } from '../presence/presence.module';
     forwardRef(() => ChannelsModule),
     forwardRef(() => NotificationsModule),
     forwardRef(() => PresenceModule),
+    forwardRef(() => AuthModule),
+    forwardRef(() => UsersModule),
   ],
   providers: [ChatGateway],
   exports: [ChatGateway],
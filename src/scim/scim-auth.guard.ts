@@ -0,0 +1,39 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+@Injectable()
+export class ScimAuthGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expectedToken = this.configService.get<string>('scim.token', '');
+    if (!expectedToken) {
+      throw new NotFoundException('SCIM provisioning is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (
+      scheme?.toLowerCase() !== 'bearer' ||
+      !token ||
+      !timingSafeEqual(this.hash(token), this.hash(expectedToken))
+    ) {
+      throw new UnauthorizedException('Invalid provisioning token');
+    }
+
+    return true;
+  }
+
+  // Hashing first gives both sides the same length for timingSafeEqual
+  private hash(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { SCIM_ERROR_SCHEMA } from '../dto/scim.dto';
+
+interface HttpExceptionBody {
+  message?: string | string[];
+  detail?: string;
+  scimType?: string;
+}
+
+/** Renders errors in the RFC 7644 format identity providers expect */
+@Catch(HttpException)
+export class ScimExceptionFilter implements ExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const status = exception.getStatus();
+    const body = exception.getResponse();
+
+    const { message, detail, scimType } =
+      typeof body === 'string'
+        ? ({ detail: body } as HttpExceptionBody)
+        : (body as HttpExceptionBody);
+
+    response
+      .status(status)
+      .type('application/scim+json')
+      .json({
+        schemas: [SCIM_ERROR_SCHEMA],
+        status: String(status),
+        detail:
+          detail ??
+          (Array.isArray(message) ? message.join(', ') : message) ??
+          exception.message,
+        ...(scimType ? { scimType } : {}),
+      });
+  }
+}
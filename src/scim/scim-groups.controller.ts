@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ScimAuthGuard } from './scim-auth.guard';
+import { ScimExceptionFilter } from './scim-exception.filter';
+import { ScimGroupsService } from './scim-groups.service';
+import type {
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimGroupResource,
+} from '../dto/scim.dto';
+
+@ApiTags('SCIM')
+@Controller('scim/v2/Groups')
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimGroupsController {
+  constructor(private readonly scimGroupsService: ScimGroupsService) {}
+
+  @ApiOperation({ summary: 'List or filter provisioned groups' })
+  @ApiResponse({ status: 200, description: 'SCIM ListResponse of groups' })
+  @Get()
+  async findAll(
+    @Query() query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimGroupResource>> {
+    return await this.scimGroupsService.findAll(query);
+  }
+
+  @ApiOperation({ summary: 'Get a group' })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @Query() query: ScimListQuery,
+  ): Promise<ScimGroupResource> {
+    return await this.scimGroupsService.findOne(id, query);
+  }
+
+  @ApiOperation({ summary: 'Map a directory group onto a workspace' })
+  @ApiResponse({ status: 201, description: 'Group created' })
+  @ApiResponse({ status: 400, description: 'No matching workspace' })
+  @Post()
+  async create(
+    @Body() resource: ScimGroupResource,
+  ): Promise<ScimGroupResource> {
+    return await this.scimGroupsService.create(resource);
+  }
+
+  @ApiOperation({ summary: 'Replace a group and its members' })
+  @Put(':id')
+  async replace(
+    @Param('id') id: string,
+    @Body() resource: ScimGroupResource,
+  ): Promise<ScimGroupResource> {
+    return await this.scimGroupsService.replace(id, resource);
+  }
+
+  @ApiOperation({ summary: 'Update a group with SCIM patch operations' })
+  @Patch(':id')
+  async patch(
+    @Param('id') id: string,
+    @Body() request: ScimPatchRequest,
+  ): Promise<ScimGroupResource> {
+    return await this.scimGroupsService.patch(id, request);
+  }
+
+  @ApiOperation({ summary: 'Delete a group and revoke the access it granted' })
+  @ApiResponse({ status: 204, description: 'Group deleted' })
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    await this.scimGroupsService.remove(id);
+  }
+}
@@ -0,0 +1,100 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { ScimGroupsService } from './scim-groups.service';
+import { ScimGroup, User, Workspace, WorkspaceRole } from '../entities';
+import { SCIM_PATCH_OP_SCHEMA } from '../dto/scim.dto';
+import { WorkspaceService } from '../workspaces/workspace.service';
+
+describe('ScimGroupsService', () => {
+  const groupId = '0d9a3f1e-5b7c-4e2a-8f61-3c4b2a1d0e9f';
+  const aliceId = '5e3b1c2d-7a8f-4b6e-9c0d-1a2b3c4d5e6f';
+  const bobId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+  const buildService = () => {
+    const groupRepository = {
+      findOne: jest.fn(),
+      save: jest.fn().mockImplementation((group: ScimGroup) => group),
+      count: jest.fn().mockResolvedValue(0),
+    };
+    const workspaceRepository = { findOne: jest.fn(), find: jest.fn() };
+    const userRepository = { find: jest.fn() };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest
+        .fn()
+        .mockImplementation((entity) =>
+          entity === ScimGroup
+            ? groupRepository
+            : entity === Workspace
+              ? workspaceRepository
+              : userRepository,
+        ),
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+    };
+    const workspaceService = {
+      joinWithRole: jest.fn(),
+      dropMember: jest.fn(),
+    };
+
+    const service = new ScimGroupsService(
+      dataSource as DataSource,
+      configService as unknown as ConfigService,
+      workspaceService as unknown as WorkspaceService,
+    );
+
+    return { service, groupRepository, userRepository, workspaceService };
+  };
+
+  const createGroup = (members: User[]): ScimGroup =>
+    ({
+      id: groupId,
+      displayName: 'Engineering',
+      externalId: null,
+      workspaceId: 'workspace-1',
+      members,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }) as ScimGroup;
+
+  it('mirrors group membership changes onto the workspace', async () => {
+    const { service, groupRepository, userRepository, workspaceService } =
+      buildService();
+    const alice = { id: aliceId, email: 'alice@example.com' } as User;
+    const bob = { id: bobId, email: 'bob@example.com' } as User;
+    groupRepository.findOne.mockResolvedValue(createGroup([alice]));
+    userRepository.find.mockResolvedValue([bob]);
+
+    await service.patch(groupId, {
+      schemas: [SCIM_PATCH_OP_SCHEMA],
+      Operations: [
+        { op: 'add', path: 'members', value: [{ value: bobId }] },
+        { op: 'remove', path: `members[value eq "${aliceId}"]` },
+      ],
+    });
+
+    expect(workspaceService.joinWithRole).toHaveBeenCalledWith(
+      'workspace-1',
+      bobId,
+      WorkspaceRole.MEMBER,
+    );
+    expect(workspaceService.dropMember).toHaveBeenCalledWith(
+      'workspace-1',
+      aliceId,
+    );
+  });
+
+  it('keeps workspace access granted by another group', async () => {
+    const { service, groupRepository, workspaceService } = buildService();
+    const alice = { id: aliceId, email: 'alice@example.com' } as User;
+    groupRepository.findOne.mockResolvedValue(createGroup([alice]));
+    groupRepository.count.mockResolvedValue(1);
+
+    await service.patch(groupId, {
+      schemas: [SCIM_PATCH_OP_SCHEMA],
+      Operations: [{ op: 'remove', path: 'members' }],
+    });
+
+    expect(workspaceService.dropMember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,377 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, FindOptionsWhere, In, Not, Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { ScimGroup, User, Workspace, WorkspaceRole } from '../entities';
+import {
+  SCIM_GROUP_SCHEMA,
+  SCIM_WORKSPACE_GROUP_SCHEMA,
+  ScimGroupResource,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+} from '../dto/scim.dto';
+import { WorkspaceService } from '../workspaces/workspace.service';
+import {
+  parseScimFilter,
+  parseScimPage,
+  scimBadRequest,
+  toScimListResponse,
+} from './scim.helpers';
+
+@Injectable()
+export class ScimGroupsService {
+  private groupRepository: Repository<ScimGroup>;
+  private workspaceRepository: Repository<Workspace>;
+  private userRepository: Repository<User>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly configService: ConfigService,
+    private readonly workspaceService: WorkspaceService,
+  ) {
+    this.groupRepository = this.dataSource.getRepository(ScimGroup);
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+    this.userRepository = this.dataSource.getRepository(User);
+  }
+
+  async findAll(
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimGroupResource>> {
+    const filter = parseScimFilter(query.filter, [
+      'id',
+      'displayName',
+      'externalId',
+    ]);
+    const page = parseScimPage(query);
+    const includeMembers = !this.excludesMembers(query);
+
+    let where: FindOptionsWhere<ScimGroup> = {};
+    if (filter) {
+      const { attribute, value } = filter;
+      if (typeof value !== 'string') {
+        throw scimBadRequest(
+          `Invalid value for ${attribute} filter`,
+          'invalidFilter',
+        );
+      }
+      if (attribute === 'id' && !isUUID(value)) {
+        return toScimListResponse([], 0, page);
+      }
+      where = { [attribute]: value };
+    }
+
+    if (page.count === 0) {
+      const total = await this.groupRepository.count({ where });
+      return toScimListResponse([], total, page);
+    }
+
+    const [groups, total] = await this.groupRepository.findAndCount({
+      where,
+      relations: includeMembers ? ['members'] : [],
+      order: { createdAt: 'ASC' },
+      skip: page.startIndex - 1,
+      take: page.count,
+    });
+
+    return toScimListResponse(
+      groups.map((group) => this.toResource(group, includeMembers)),
+      total,
+      page,
+    );
+  }
+
+  async findOne(
+    id: string,
+    query: ScimListQuery = {},
+  ): Promise<ScimGroupResource> {
+    const includeMembers = !this.excludesMembers(query);
+    return this.toResource(
+      await this.getGroup(id, includeMembers),
+      includeMembers,
+    );
+  }
+
+  async create(resource: ScimGroupResource): Promise<ScimGroupResource> {
+    const displayName = this.readDisplayName(resource?.displayName);
+    const workspace = await this.resolveWorkspace(resource, displayName);
+    const members = await this.loadUsers(
+      this.readMemberIds(resource.members ?? []),
+    );
+
+    const group = await this.groupRepository.save(
+      this.groupRepository.create({
+        displayName,
+        externalId: this.readExternalId(resource.externalId),
+        workspaceId: workspace.id,
+        members: [],
+      }),
+    );
+    await this.setMembers(group, members);
+
+    return this.findOne(group.id);
+  }
+
+  async replace(
+    id: string,
+    resource: ScimGroupResource,
+  ): Promise<ScimGroupResource> {
+    const group = await this.getGroup(id);
+    const workspaceId = resource?.[SCIM_WORKSPACE_GROUP_SCHEMA]?.workspaceId;
+    if (workspaceId && workspaceId !== group.workspaceId) {
+      throw scimBadRequest(
+        'The workspace of a group cannot be changed',
+        'mutability',
+      );
+    }
+
+    group.displayName = this.readDisplayName(resource?.displayName);
+    group.externalId = this.readExternalId(resource.externalId);
+    await this.setMembers(
+      group,
+      await this.loadUsers(this.readMemberIds(resource.members ?? [])),
+    );
+
+    return this.findOne(id);
+  }
+
+  async patch(
+    id: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimGroupResource> {
+    const group = await this.getGroup(id);
+    if (!Array.isArray(request?.Operations)) {
+      throw scimBadRequest('Operations must be an array', 'invalidSyntax');
+    }
+
+    const memberIds = new Set(group.members.map((member) => member.id));
+    for (const operation of request.Operations) {
+      const op = String(operation?.op).toLowerCase();
+      if (!['add', 'replace', 'remove'].includes(op)) {
+        throw scimBadRequest(
+          `Unsupported operation "${operation?.op}"`,
+          'invalidSyntax',
+        );
+      }
+
+      const attributes: [string, unknown][] = operation.path
+        ? [[operation.path, operation.value]]
+        : Object.entries(this.readObject(operation.value));
+
+      for (const [path, value] of attributes) {
+        const attribute = path.toLowerCase();
+        const memberFilter = path.match(
+          /^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i,
+        );
+
+        if (attribute === 'displayname' && op !== 'remove') {
+          group.displayName = this.readDisplayName(value);
+        } else if (attribute === 'externalid') {
+          group.externalId =
+            op === 'remove' ? null : this.readExternalId(value);
+        } else if (attribute === 'members') {
+          const ids =
+            op === 'remove' && value === undefined
+              ? [...memberIds]
+              : this.readMemberIds(value);
+          if (op === 'replace') {
+            memberIds.clear();
+          }
+          ids.forEach((memberId) =>
+            op === 'remove'
+              ? memberIds.delete(memberId)
+              : memberIds.add(memberId),
+          );
+        } else if (memberFilter && op === 'remove') {
+          memberIds.delete(memberFilter[1]);
+        } else {
+          throw scimBadRequest(
+            `Unsupported ${op} of "${path}"`,
+            attribute === 'displayname' ? 'mutability' : 'invalidPath',
+          );
+        }
+      }
+    }
+
+    await this.setMembers(group, await this.loadUsers([...memberIds]));
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const group = await this.getGroup(id);
+
+    // Deleting a group revokes the workspace access it granted
+    await this.setMembers(group, []);
+    await this.groupRepository.delete(group.id);
+  }
+
+  /**
+   * Saves the new member list and mirrors the difference onto workspace
+   * membership. Users who still belong to another group mapped to the same
+   * workspace keep their access.
+   */
+  private async setMembers(group: ScimGroup, members: User[]): Promise<void> {
+    const previousIds = new Set((group.members ?? []).map(({ id }) => id));
+    const nextIds = new Set(members.map(({ id }) => id));
+
+    group.members = members;
+    await this.groupRepository.save(group);
+
+    for (const member of members) {
+      if (!previousIds.has(member.id)) {
+        await this.workspaceService.joinWithRole(
+          group.workspaceId,
+          member.id,
+          WorkspaceRole.MEMBER,
+        );
+      }
+    }
+
+    for (const userId of previousIds) {
+      if (nextIds.has(userId)) {
+        continue;
+      }
+
+      const grantedElsewhere = await this.groupRepository.count({
+        where: {
+          id: Not(group.id),
+          workspaceId: group.workspaceId,
+          members: { id: userId },
+        },
+      });
+      if (!grantedElsewhere) {
+        await this.workspaceService.dropMember(group.workspaceId, userId);
+      }
+    }
+  }
+
+  private async resolveWorkspace(
+    resource: ScimGroupResource,
+    displayName: string,
+  ): Promise<Workspace> {
+    const workspaceId = resource[SCIM_WORKSPACE_GROUP_SCHEMA]?.workspaceId;
+    if (workspaceId) {
+      const workspace = isUUID(workspaceId)
+        ? await this.workspaceRepository.findOne({
+            where: { id: workspaceId },
+          })
+        : null;
+      if (!workspace) {
+        throw scimBadRequest('Workspace not found');
+      }
+      return workspace;
+    }
+
+    // Without an explicit mapping the group joins the workspace of that name
+    const workspaces = await this.workspaceRepository.find({
+      where: { name: displayName },
+      take: 2,
+    });
+    if (workspaces.length !== 1) {
+      throw scimBadRequest(
+        `${workspaces.length ? 'Several workspaces are' : 'No workspace is'} named "${displayName}"; set workspaceId in the ${SCIM_WORKSPACE_GROUP_SCHEMA} extension`,
+      );
+    }
+    return workspaces[0];
+  }
+
+  private readDisplayName(value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw scimBadRequest('displayName must be a non-empty string');
+    }
+    return value.trim();
+  }
+
+  private readExternalId(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      throw scimBadRequest('externalId must be a string');
+    }
+    return value;
+  }
+
+  private readObject(value: unknown): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw scimBadRequest('Expected an object of attributes');
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private readMemberIds(value: unknown): string[] {
+    const members = Array.isArray(value) ? value : [value];
+    return members.map((member: { value?: unknown } | null) => {
+      if (typeof member?.value !== 'string') {
+        throw scimBadRequest('Members must reference users by value');
+      }
+      return member.value;
+    });
+  }
+
+  private async loadUsers(ids: string[]): Promise<User[]> {
+    const uniqueIds = [...new Set(ids)];
+    if (!uniqueIds.length) {
+      return [];
+    }
+
+    const users = uniqueIds.every((id) => isUUID(id))
+      ? await this.userRepository.find({ where: { id: In(uniqueIds) } })
+      : [];
+    if (users.length !== uniqueIds.length) {
+      throw scimBadRequest('Members must reference existing users');
+    }
+    return users;
+  }
+
+  private async getGroup(id: string, withMembers = true): Promise<ScimGroup> {
+    const group = isUUID(id)
+      ? await this.groupRepository.findOne({
+          where: { id },
+          relations: withMembers ? ['members'] : [],
+        })
+      : null;
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+    return group;
+  }
+
+  private excludesMembers(query: ScimListQuery): boolean {
+    return (query.excludedAttributes ?? '')
+      .split(',')
+      .some((attribute) => attribute.trim().toLowerCase() === 'members');
+  }
+
+  private toResource(
+    group: ScimGroup,
+    includeMembers: boolean,
+  ): ScimGroupResource {
+    const baseUrl = this.configService.get<string>(
+      'baseUrl',
+      'http://localhost:3000',
+    );
+
+    return {
+      schemas: [SCIM_GROUP_SCHEMA, SCIM_WORKSPACE_GROUP_SCHEMA],
+      id: group.id,
+      externalId: group.externalId ?? undefined,
+      displayName: group.displayName,
+      members: includeMembers
+        ? group.members.map((member) => ({
+            value: member.id,
+            display: member.email,
+            $ref: `${baseUrl}/api/scim/v2/Users/${member.id}`,
+          }))
+        : undefined,
+      [SCIM_WORKSPACE_GROUP_SCHEMA]: { workspaceId: group.workspaceId },
+      meta: {
+        resourceType: 'Group',
+        created: group.createdAt,
+        lastModified: group.updatedAt,
+        location: `${baseUrl}/api/scim/v2/Groups/${group.id}`,
+      },
+    };
+  }
+}
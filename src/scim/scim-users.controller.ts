@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseFilters,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ScimAuthGuard } from './scim-auth.guard';
+import { ScimExceptionFilter } from './scim-exception.filter';
+import { ScimUsersService } from './scim-users.service';
+import type {
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimUserResource,
+} from '../dto/scim.dto';
+
+@ApiTags('SCIM')
+@Controller('scim/v2/Users')
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimUsersController {
+  constructor(private readonly scimUsersService: ScimUsersService) {}
+
+  @ApiOperation({ summary: 'List or filter provisioned users' })
+  @ApiResponse({ status: 200, description: 'SCIM ListResponse of users' })
+  @Get()
+  async findAll(
+    @Query() query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimUserResource>> {
+    return await this.scimUsersService.findAll(query);
+  }
+
+  @ApiOperation({ summary: 'Get a user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<ScimUserResource> {
+    return await this.scimUsersService.findOne(id);
+  }
+
+  @ApiOperation({ summary: 'Provision a user' })
+  @ApiResponse({ status: 201, description: 'User created' })
+  @ApiResponse({ status: 409, description: 'User already exists' })
+  @Post()
+  async create(@Body() resource: ScimUserResource): Promise<ScimUserResource> {
+    return await this.scimUsersService.create(resource);
+  }
+
+  @ApiOperation({ summary: 'Replace a user' })
+  @Put(':id')
+  async replace(
+    @Param('id') id: string,
+    @Body() resource: ScimUserResource,
+  ): Promise<ScimUserResource> {
+    return await this.scimUsersService.replace(id, resource);
+  }
+
+  @ApiOperation({ summary: 'Update a user with SCIM patch operations' })
+  @Patch(':id')
+  async patch(
+    @Param('id') id: string,
+    @Body() request: ScimPatchRequest,
+  ): Promise<ScimUserResource> {
+    return await this.scimUsersService.patch(id, request);
+  }
+
+  @ApiOperation({ summary: 'Deprovision (deactivate) a user' })
+  @ApiResponse({ status: 204, description: 'User deactivated' })
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    await this.scimUsersService.deactivate(id);
+  }
+}
@@ -0,0 +1,139 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull } from 'typeorm';
+import { ScimUsersService } from './scim-users.service';
+import { User, UserStatus } from '../entities';
+import { SCIM_PATCH_OP_SCHEMA, SCIM_USER_SCHEMA } from '../dto/scim.dto';
+import { UsersService } from '../users/users.service';
+
+describe('ScimUsersService', () => {
+  const userId = '7f1c6a52-3e1b-4c47-9d55-0a8f5c1e2b90';
+
+  const buildService = () => {
+    const userRepository = {
+      findOne: jest.fn(),
+      findAndCount: jest.fn(),
+      count: jest.fn(),
+    };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn().mockReturnValue(userRepository),
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+    };
+    const usersService = {
+      findByEmail: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deactivate: jest.fn(),
+      activate: jest.fn(),
+      linkScimExternalId: jest.fn(),
+    };
+
+    const service = new ScimUsersService(
+      dataSource as DataSource,
+      configService as unknown as ConfigService,
+      usersService as unknown as UsersService,
+    );
+
+    return { service, userRepository, usersService };
+  };
+
+  const createUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: userId,
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      status: UserStatus.ACTIVE,
+      scimExternalId: 'dir-42',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    }) as User;
+
+  it('filters users by userName', async () => {
+    const { service, userRepository } = buildService();
+    userRepository.findAndCount.mockResolvedValue([[createUser()], 1]);
+
+    const result = await service.findAll({
+      filter: 'userName eq "jane@example.com"',
+    });
+
+    expect(userRepository.findAndCount).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { email: 'jane@example.com', deletedAt: IsNull() },
+        skip: 0,
+      }),
+    );
+    expect(result.totalResults).toBe(1);
+    expect(result.Resources[0]).toMatchObject({
+      id: userId,
+      userName: 'jane@example.com',
+      externalId: 'dir-42',
+      active: true,
+    });
+  });
+
+  it('rejects unsupported filters', async () => {
+    const { service } = buildService();
+
+    await expect(
+      service.findAll({ filter: 'name.givenName sw "Ja"' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('provisions a user with the directory externalId', async () => {
+    const { service, userRepository, usersService } = buildService();
+    usersService.findByEmail.mockResolvedValue(null);
+    usersService.create.mockResolvedValue(createUser());
+    userRepository.findOne.mockResolvedValue(createUser());
+
+    await service.create({
+      schemas: [SCIM_USER_SCHEMA],
+      userName: 'jane@example.com',
+      externalId: 'dir-42',
+      name: { givenName: 'Jane', familyName: 'Doe' },
+      active: true,
+    });
+
+    expect(usersService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+      }),
+      true,
+    );
+    expect(usersService.linkScimExternalId).toHaveBeenCalledWith(
+      userId,
+      'dir-42',
+    );
+    expect(usersService.deactivate).not.toHaveBeenCalled();
+  });
+
+  it('deactivates users through a patch of active', async () => {
+    const { service, userRepository, usersService } = buildService();
+    userRepository.findOne.mockResolvedValue(createUser());
+
+    await service.patch(userId, {
+      schemas: [SCIM_PATCH_OP_SCHEMA],
+      Operations: [{ op: 'Replace', path: 'active', value: 'False' }],
+    });
+
+    expect(usersService.deactivate).toHaveBeenCalledWith(userId);
+    expect(usersService.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to change the userName of an existing user', async () => {
+    const { service, userRepository } = buildService();
+    userRepository.findOne.mockResolvedValue(createUser());
+
+    await expect(
+      service.replace(userId, {
+        schemas: [SCIM_USER_SCHEMA],
+        userName: 'someone-else@example.com',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
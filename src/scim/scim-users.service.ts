@@ -0,0 +1,413 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, FindOptionsWhere, IsNull, Repository } from 'typeorm';
+import { isEmail, isUUID } from 'class-validator';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { User, UserStatus } from '../entities';
+import {
+  SCIM_ENTERPRISE_USER_SCHEMA,
+  SCIM_USER_SCHEMA,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimUserResource,
+} from '../dto/scim.dto';
+import { UsersService } from '../users/users.service';
+import {
+  parseScimFilter,
+  parseScimPage,
+  scimBadRequest,
+  toScimBoolean,
+  toScimListResponse,
+} from './scim.helpers';
+
+interface ScimUserChanges {
+  firstName?: string;
+  lastName?: string;
+  phoneNumber?: string;
+  department?: string;
+  position?: string;
+  externalId?: string | null;
+  active?: boolean;
+}
+
+// Attributes that are derived from other fields or cannot change here
+const IGNORED_ATTRIBUTES = [
+  'schemas',
+  'id',
+  'meta',
+  'displayname',
+  'emails',
+  'password',
+];
+
+@Injectable()
+export class ScimUsersService {
+  private userRepository: Repository<User>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+  ) {
+    this.userRepository = this.dataSource.getRepository(User);
+  }
+
+  async findAll(
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimUserResource>> {
+    const filter = parseScimFilter(query.filter, [
+      'id',
+      'userName',
+      'externalId',
+      'emails.value',
+      'active',
+    ]);
+    const page = parseScimPage(query);
+
+    let where: FindOptionsWhere<User> = {};
+    if (filter) {
+      const { attribute, value } = filter;
+      if ((attribute === 'active') !== (typeof value === 'boolean')) {
+        throw scimBadRequest(
+          `Invalid value for ${attribute} filter`,
+          'invalidFilter',
+        );
+      }
+
+      if (attribute === 'id' && !isUUID(value)) {
+        return toScimListResponse([], 0, page);
+      }
+      where =
+        attribute === 'active'
+          ? { status: value ? UserStatus.ACTIVE : UserStatus.INACTIVE }
+          : attribute === 'externalId'
+            ? { scimExternalId: value as string }
+            : attribute === 'id'
+              ? { id: value as string }
+              : { email: value as string };
+    }
+
+    if (page.count === 0) {
+      const total = await this.userRepository.count({
+        where: { ...where, deletedAt: IsNull() },
+      });
+      return toScimListResponse([], total, page);
+    }
+
+    const [users, total] = await this.userRepository.findAndCount({
+      where: { ...where, deletedAt: IsNull() },
+      order: { createdAt: 'ASC' },
+      skip: page.startIndex - 1,
+      take: page.count,
+    });
+
+    return toScimListResponse(
+      users.map((user) => this.toResource(user)),
+      total,
+      page,
+    );
+  }
+
+  async findOne(id: string): Promise<ScimUserResource> {
+    return this.toResource(await this.getUser(id));
+  }
+
+  async create(resource: ScimUserResource): Promise<ScimUserResource> {
+    const email =
+      typeof resource?.userName === 'string' ? resource.userName.trim() : '';
+    if (!isEmail(email)) {
+      throw scimBadRequest('userName must be an email address');
+    }
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException({
+        detail: 'User with this email already exists',
+        scimType: 'uniqueness',
+      });
+    }
+
+    const changes = this.collectChanges(resource);
+    const user = await this.usersService.create(
+      {
+        email,
+        firstName:
+          changes.firstName || resource.displayName || email.split('@')[0],
+        lastName: changes.lastName ?? '',
+        // Accounts without a password can only sign in through SSO or a reset
+        password: await bcrypt.hash(
+          typeof resource.password === 'string'
+            ? resource.password
+            : randomBytes(32).toString('base64url'),
+          10,
+        ),
+        phoneNumber: changes.phoneNumber,
+        department: changes.department,
+        position: changes.position,
+      },
+      true,
+    );
+
+    if (changes.externalId) {
+      await this.usersService.linkScimExternalId(user.id, changes.externalId);
+    }
+    if (changes.active === false) {
+      await this.usersService.deactivate(user.id);
+    }
+
+    return this.findOne(user.id);
+  }
+
+  async replace(
+    id: string,
+    resource: ScimUserResource,
+  ): Promise<ScimUserResource> {
+    const user = await this.getUser(id);
+    if (
+      typeof resource?.userName === 'string' &&
+      resource.userName.trim().toLowerCase() !== user.email.toLowerCase()
+    ) {
+      throw scimBadRequest('userName cannot be changed', 'mutability');
+    }
+
+    // A replace clears every optional attribute the directory left out
+    await this.applyChanges(user, {
+      phoneNumber: '',
+      department: '',
+      position: '',
+      externalId: null,
+      ...this.collectChanges(resource),
+    });
+
+    return this.findOne(id);
+  }
+
+  async patch(
+    id: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimUserResource> {
+    const user = await this.getUser(id);
+    if (!Array.isArray(request?.Operations)) {
+      throw scimBadRequest('Operations must be an array', 'invalidSyntax');
+    }
+
+    const changes: ScimUserChanges = {};
+    for (const operation of request.Operations) {
+      const op = String(operation?.op).toLowerCase();
+      if (op === 'remove') {
+        if (!operation.path) {
+          throw scimBadRequest('Remove operations require a path', 'noTarget');
+        }
+        this.applyAttribute(changes, user, operation.path, null);
+      } else if (op === 'add' || op === 'replace') {
+        this.applyAttribute(changes, user, operation.path, operation.value);
+      } else {
+        throw scimBadRequest(
+          `Unsupported operation "${operation?.op}"`,
+          'invalidSyntax',
+        );
+      }
+    }
+
+    await this.applyChanges(user, changes);
+    return this.findOne(id);
+  }
+
+  async deactivate(id: string): Promise<void> {
+    const user = await this.getUser(id);
+    if (user.status === UserStatus.ACTIVE) {
+      await this.usersService.deactivate(user.id);
+    }
+  }
+
+  private collectChanges(resource: ScimUserResource): ScimUserChanges {
+    if (!resource || typeof resource !== 'object') {
+      throw scimBadRequest('Expected a User resource', 'invalidSyntax');
+    }
+
+    const changes: ScimUserChanges = {};
+    this.applyAttribute(changes, null, undefined, resource);
+    return changes;
+  }
+
+  /**
+   * Maps one SCIM attribute (or, without a path, an object of attributes)
+   * onto the fields Crewdo keeps. A null value removes the attribute.
+   */
+  private applyAttribute(
+    changes: ScimUserChanges,
+    user: User | null,
+    path: string | undefined,
+    value: unknown,
+  ): void {
+    if (!path) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw scimBadRequest('Expected an object of attributes');
+      }
+      Object.entries(value).forEach(([attribute, attributeValue]) =>
+        this.applyAttribute(changes, user, attribute, attributeValue),
+      );
+      return;
+    }
+
+    const attribute = path.toLowerCase();
+    const enterprisePrefix = `${SCIM_ENTERPRISE_USER_SCHEMA.toLowerCase()}:`;
+
+    if (attribute === 'username') {
+      if (
+        user &&
+        typeof value === 'string' &&
+        value.trim().toLowerCase() !== user.email.toLowerCase()
+      ) {
+        throw scimBadRequest('userName cannot be changed', 'mutability');
+      }
+    } else if (
+      IGNORED_ATTRIBUTES.some(
+        (ignored) =>
+          attribute === ignored || attribute.startsWith(`${ignored}[`),
+      ) ||
+      attribute.startsWith('emails.')
+    ) {
+      return;
+    } else if (attribute === 'active') {
+      if (value === null) {
+        throw scimBadRequest('active cannot be removed', 'mutability');
+      }
+      changes.active = toScimBoolean(value);
+    } else if (attribute === 'name') {
+      if (value === null || typeof value !== 'object') {
+        throw scimBadRequest('name must be an object');
+      }
+      Object.entries(value).forEach(([subAttribute, subValue]) =>
+        this.applyAttribute(changes, user, `name.${subAttribute}`, subValue),
+      );
+    } else if (attribute === 'name.givenname') {
+      changes.firstName = this.readRequiredString(value, 'name.givenName');
+    } else if (attribute === 'name.familyname') {
+      changes.lastName = this.readRequiredString(value, 'name.familyName');
+    } else if (attribute === 'name.formatted') {
+      return;
+    } else if (attribute === 'title') {
+      changes.position = this.readOptionalString(value, 'title');
+    } else if (attribute === 'externalid') {
+      changes.externalId = this.readOptionalString(value, 'externalId') || null;
+    } else if (attribute.startsWith('phonenumbers')) {
+      const phoneNumber = Array.isArray(value)
+        ? (value as { value?: unknown }[])[0]?.value
+        : value;
+      changes.phoneNumber = this.readOptionalString(
+        phoneNumber ?? null,
+        'phoneNumbers',
+      );
+    } else if (attribute === SCIM_ENTERPRISE_USER_SCHEMA.toLowerCase()) {
+      if (value === null || typeof value !== 'object') {
+        throw scimBadRequest('Enterprise extension must be an object');
+      }
+      Object.entries(value).forEach(([subAttribute, subValue]) =>
+        this.applyAttribute(
+          changes,
+          user,
+          `${enterprisePrefix}${subAttribute}`,
+          subValue,
+        ),
+      );
+    } else if (attribute === `${enterprisePrefix}department`) {
+      changes.department = this.readOptionalString(value, 'department');
+    } else if (!attribute.startsWith(enterprisePrefix)) {
+      throw scimBadRequest(`Unsupported attribute "${path}"`, 'invalidPath');
+    }
+  }
+
+  private async applyChanges(
+    user: User,
+    changes: ScimUserChanges,
+  ): Promise<void> {
+    const { externalId, active, ...profile } = changes;
+    const profileChanges = Object.fromEntries(
+      Object.entries(profile).filter(([, value]) => value !== undefined),
+    );
+
+    if (Object.keys(profileChanges).length) {
+      await this.usersService.update(user.id, profileChanges);
+    }
+    if (externalId !== undefined && externalId !== user.scimExternalId) {
+      await this.usersService.linkScimExternalId(user.id, externalId);
+    }
+    if (active === false && user.status === UserStatus.ACTIVE) {
+      await this.usersService.deactivate(user.id);
+    } else if (active === true && user.status !== UserStatus.ACTIVE) {
+      await this.usersService.activate(user.id);
+    }
+  }
+
+  private readRequiredString(value: unknown, attribute: string): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw scimBadRequest(`${attribute} must be a non-empty string`);
+    }
+    return value.trim();
+  }
+
+  private readOptionalString(value: unknown, attribute: string): string {
+    if (value === null) {
+      return '';
+    }
+    if (typeof value !== 'string') {
+      throw scimBadRequest(`${attribute} must be a string`);
+    }
+    return value.trim();
+  }
+
+  private async getUser(id: string): Promise<User> {
+    const user = isUUID(id)
+      ? await this.userRepository.findOne({
+          where: { id, deletedAt: IsNull() },
+        })
+      : null;
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private toResource(user: User): ScimUserResource {
+    const baseUrl = this.configService.get<string>(
+      'baseUrl',
+      'http://localhost:3000',
+    );
+    const displayName = `${user.firstName} ${user.lastName}`.trim();
+
+    return {
+      schemas: [SCIM_USER_SCHEMA, SCIM_ENTERPRISE_USER_SCHEMA],
+      id: user.id,
+      externalId: user.scimExternalId ?? undefined,
+      userName: user.email,
+      name: {
+        givenName: user.firstName,
+        familyName: user.lastName,
+        formatted: displayName,
+      },
+      displayName,
+      title: user.position || undefined,
+      active: user.status === UserStatus.ACTIVE,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      phoneNumbers: user.phoneNumber
+        ? [{ value: user.phoneNumber, type: 'work' }]
+        : undefined,
+      [SCIM_ENTERPRISE_USER_SCHEMA]: {
+        department: user.department || undefined,
+      },
+      meta: {
+        resourceType: 'User',
+        created: user.createdAt,
+        lastModified: user.updatedAt,
+        location: `${baseUrl}/api/scim/v2/Users/${user.id}`,
+      },
+    };
+  }
+}
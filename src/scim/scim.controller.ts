@@ -0,0 +1,31 @@
+import { Controller, Get, UseGuards, UseFilters } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { ScimAuthGuard } from './scim-auth.guard';
+import { ScimExceptionFilter } from './scim-exception.filter';
+
+@ApiTags('SCIM')
+@Controller('scim/v2')
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimController {
+  @ApiOperation({ summary: 'Describe the supported SCIM features' })
+  @Get('ServiceProviderConfig')
+  getServiceProviderConfig() {
+    return {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: 200 },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Provisioning token',
+          description: 'Bearer token configured through SCIM_TOKEN',
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  SCIM_LIST_RESPONSE_SCHEMA,
+  ScimListQuery,
+  ScimListResponse,
+} from '../dto/scim.dto';
+
+export interface ScimEqualityFilter {
+  attribute: string;
+  value: string | boolean;
+}
+
+export interface ScimPage {
+  startIndex: number;
+  count: number;
+}
+
+const MAX_PAGE_SIZE = 200;
+
+export const scimBadRequest = (
+  detail: string,
+  scimType = 'invalidValue',
+): BadRequestException => new BadRequestException({ detail, scimType });
+
+/**
+ * Only `attribute eq value` filters are supported, which is what identity
+ * providers send when they look up an account before provisioning it.
+ */
+export const parseScimFilter = (
+  filter: string | undefined,
+  attributes: string[],
+): ScimEqualityFilter | null => {
+  if (!filter?.trim()) {
+    return null;
+  }
+
+  const match = filter.match(
+    /^\s*([\w.:]+)\s+eq\s+(?:"((?:[^"\\]|\\.)*)"|(true|false))\s*$/i,
+  );
+  const attribute = match
+    ? attributes.find((name) => name.toLowerCase() === match[1].toLowerCase())
+    : undefined;
+  if (!match || !attribute) {
+    throw scimBadRequest(
+      `Unsupported filter; use one of ${attributes.join(', ')} with "eq"`,
+      'invalidFilter',
+    );
+  }
+
+  return {
+    attribute,
+    value:
+      match[3] !== undefined
+        ? match[3].toLowerCase() === 'true'
+        : match[2].replace(/\\(.)/g, '$1'),
+  };
+};
+
+export const parseScimPage = (query: ScimListQuery): ScimPage => {
+  const startIndex = parseInt(query.startIndex ?? '1', 10);
+  const count = parseInt(query.count ?? String(MAX_PAGE_SIZE), 10);
+
+  return {
+    startIndex: Number.isNaN(startIndex) ? 1 : Math.max(startIndex, 1),
+    count: Number.isNaN(count)
+      ? MAX_PAGE_SIZE
+      : Math.min(Math.max(count, 0), MAX_PAGE_SIZE),
+  };
+};
+
+export const toScimListResponse = <T>(
+  resources: T[],
+  totalResults: number,
+  page: ScimPage,
+): ScimListResponse<T> => ({
+  schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+  totalResults,
+  startIndex: page.startIndex,
+  itemsPerPage: resources.length,
+  Resources: resources,
+});
+
+/** SCIM booleans sometimes arrive as strings (e.g. "False" from Entra ID) */
+export const toScimBoolean = (value: unknown): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  throw scimBadRequest('Expected a boolean value');
+};
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../config/database.module';
+import { UsersModule } from '../users/users.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { ScimController } from './scim.controller';
+import { ScimUsersController } from './scim-users.controller';
+import { ScimGroupsController } from './scim-groups.controller';
+import { ScimUsersService } from './scim-users.service';
+import { ScimGroupsService } from './scim-groups.service';
+import { ScimAuthGuard } from './scim-auth.guard';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule, UsersModule, WorkspacesModule],
+  controllers: [ScimController, ScimUsersController, ScimGroupsController],
+  providers: [ScimUsersService, ScimGroupsService, ScimAuthGuard],
+})
+export class ScimModule {}
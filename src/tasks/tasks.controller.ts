@@ -20,9 +20,10 @@ import {
 import { TasksService } from './tasks.service';
 import { ChatGateway } from '../realtime/chat.gateway';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Scopes } from '../auth/decorators/scopes.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { CreateTaskDto, UpdateTaskDto, TaskResponseDto } from '../dto/task.dto';
-import { User } from '../entities';
+import { User, PersonalAccessTokenScope } from '../entities';
 
 @ApiTags('Tasks')
 @Controller('tasks')
@@ -45,6 +46,7 @@ export class TasksController {
     description: 'Project not found or access denied',
   })
   @Post()
+  @Scopes(PersonalAccessTokenScope.TASKS_WRITE)
   async create(
     @Body() createTaskDto: CreateTaskDto,
     @CurrentUser() user: User,
@@ -73,6 +75,7 @@ export class TasksController {
     type: [TaskResponseDto],
   })
   @Get()
+  @Scopes(PersonalAccessTokenScope.TASKS_READ)
   async findAll(
     @CurrentUser() user: User,
     @Query('projectId', new ParseUUIDPipe({ optional: true }))
@@ -88,6 +91,7 @@ export class TasksController {
     type: [TaskResponseDto],
   })
   @Get('my-tasks')
+  @Scopes(PersonalAccessTokenScope.TASKS_READ)
   async findMyTasks(@CurrentUser() user: User) {
     return await this.tasksService.findMyTasks(user.id);
   }
@@ -101,6 +105,7 @@ export class TasksController {
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Access denied to this task' })
   @Get(':id')
+  @Scopes(PersonalAccessTokenScope.TASKS_READ)
   async findOne(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -117,6 +122,7 @@ export class TasksController {
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Access denied' })
   @Patch(':id')
+  @Scopes(PersonalAccessTokenScope.TASKS_WRITE)
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateTaskDto: UpdateTaskDto,
@@ -146,6 +152,7 @@ export class TasksController {
     type: TaskResponseDto,
   })
   @Patch(':id/position')
+  @Scopes(PersonalAccessTokenScope.TASKS_WRITE)
   async updatePosition(
     @Param('id', ParseUUIDPipe) id: string,
     @Body('position') position: number,
@@ -173,6 +180,7 @@ export class TasksController {
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
   @Delete(':id')
+  @Scopes(PersonalAccessTokenScope.TASKS_WRITE)
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
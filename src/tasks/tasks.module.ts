@@ -4,9 +4,15 @@ import { TasksController } from './tasks.controller';
 import { DatabaseModule } from '../config/database.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
-  imports: [DatabaseModule, NotificationsModule, RealtimeModule],
+  imports: [
+    DatabaseModule,
+    NotificationsModule,
+    RealtimeModule,
+    WorkspacesModule,
+  ],
   controllers: [TasksController],
   providers: [TasksService],
   exports: [TasksService],
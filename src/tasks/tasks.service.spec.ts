@@ -0,0 +1,139 @@
+import { ForbiddenException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { TasksService } from './tasks.service';
+import { NotificationService } from '../notifications/notification.service';
+import {
+  WorkspaceMembersService,
+  notInTrashedWorkspace,
+} from '../workspaces/workspace-members.service';
+import {
+  Project,
+  Task,
+  TaskStatus,
+  User,
+  UserRole,
+  WorkspaceRole,
+} from '../entities';
+
+describe('TasksService', () => {
+  const task = {
+    id: 'task-1',
+    title: 'Write docs',
+    status: TaskStatus.TODO,
+    creatorId: 'user-1',
+    project: {
+      id: 'project-1',
+      ownerId: 'user-1',
+      workspaceId: 'workspace-1',
+      members: [],
+    },
+  };
+
+  const buildService = () => {
+    const queryBuilder: Record<string, jest.Mock> = {};
+    [
+      'leftJoinAndSelect',
+      'loadRelationCountAndMap',
+      'where',
+      'andWhere',
+      'orderBy',
+    ].forEach((method) => {
+      queryBuilder[method] = jest.fn(() => queryBuilder);
+    });
+    queryBuilder.getOne = jest.fn().mockResolvedValue(task);
+
+    const taskRepository = {
+      find: jest.fn(),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    const repositories = new Map<unknown, unknown>([
+      [Task, taskRepository],
+      [Project, {}],
+      [User, {}],
+    ]);
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn((entity) =>
+        repositories.get(entity),
+      ) as unknown as DataSource['getRepository'],
+    };
+    const workspaceMembersService = {
+      assertWritable: jest.fn(),
+      getEffectiveRole: jest.fn().mockResolvedValue(WorkspaceRole.MEMBER),
+    };
+
+    const service = new TasksService(
+      dataSource as DataSource,
+      {} as NotificationService,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+    );
+
+    return { service, queryBuilder, taskRepository, workspaceMembersService };
+  };
+
+  it('hides tasks whose workspace is in the trash', async () => {
+    const { service, queryBuilder } = buildService();
+
+    await service.findOne('task-1', 'user-1', UserRole.TEAM_MEMBER);
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      notInTrashedWorkspace('project.workspaceId'),
+    );
+  });
+
+  it('rejects edits and deletes in an archived workspace', async () => {
+    const { service, taskRepository, workspaceMembersService } = buildService();
+    workspaceMembersService.assertWritable.mockRejectedValue(
+      new ForbiddenException('Workspace is archived and read-only'),
+    );
+
+    await expect(
+      service.update(
+        'task-1',
+        { status: TaskStatus.DONE },
+        'user-1',
+        UserRole.TEAM_MEMBER,
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.updateTaskPosition('task-1', 2, 'user-1', UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.remove('task-1', 'user-1', UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    expect(workspaceMembersService.assertWritable).toHaveBeenCalledWith(
+      'workspace-1',
+    );
+    expect(taskRepository.update).not.toHaveBeenCalled();
+    expect(taskRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('keeps the reminder sweep alive when the database fails', async () => {
+    const { service, taskRepository } = buildService();
+    taskRepository.find.mockRejectedValue(new Error('connection reset'));
+
+    await expect(service.sendDueDateReminders()).resolves.toBe(0);
+  });
+
+  it('lets workspace admins delete tasks regardless of platform role', async () => {
+    const { service, taskRepository, workspaceMembersService } = buildService();
+
+    await expect(
+      service.remove('task-1', 'manager-1', UserRole.PROJECT_MANAGER),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    workspaceMembersService.getEffectiveRole.mockResolvedValue(
+      WorkspaceRole.ADMIN,
+    );
+    await service.remove('task-1', 'admin-1', UserRole.TEAM_MEMBER);
+
+    expect(workspaceMembersService.getEffectiveRole).toHaveBeenCalledWith(
+      'workspace-1',
+      'admin-1',
+      UserRole.TEAM_MEMBER,
+    );
+    expect(taskRepository.delete).toHaveBeenCalledWith('task-1');
+  });
+});
@@ -3,14 +3,32 @@ import {
   NotFoundException,
   ForbiddenException,
   Inject,
+  Logger,
+  OnModuleInit,
 } from '@nestjs/common';
-import { Repository, DataSource } from 'typeorm';
-import { Task, Project, User, UserRole, TaskStatus } from '../entities';
+import { Repository, DataSource, Between, IsNull, Not, In } from 'typeorm';
+import {
+  Task,
+  Project,
+  User,
+  UserRole,
+  TaskStatus,
+  WorkspaceRole,
+} from '../entities';
 import { CreateTaskDto, UpdateTaskDto } from '../dto/task.dto';
 import { NotificationService } from '../notifications/notification.service';
+import {
+  WorkspaceMembersService,
+  hasWorkspaceRole,
+  notInTrashedWorkspace,
+} from '../workspaces/workspace-members.service';
+
+// Assignees are reminded once a task is due within this window
+const DUE_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
-export class TasksService {
+export class TasksService implements OnModuleInit {
+  private readonly logger = new Logger(TasksService.name);
   private taskRepository: Repository<Task>;
   private projectRepository: Repository<Project>;
   private userRepository: Repository<User>;
@@ -19,12 +37,72 @@ export class TasksService {
     @Inject('DATA_SOURCE')
     private dataSource: DataSource,
     private notificationService: NotificationService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
   ) {
     this.taskRepository = this.dataSource.getRepository(Task);
     this.projectRepository = this.dataSource.getRepository(Project);
     this.userRepository = this.dataSource.getRepository(User);
   }
 
+  onModuleInit() {
+    // Check for tasks that are due soon every five minutes
+    setInterval(() => {
+      void this.sendDueDateReminders();
+    }, 300_000);
+  }
+
+  async sendDueDateReminders(): Promise<number> {
+    let sent = 0;
+    try {
+      const now = new Date();
+      const tasks = await this.taskRepository.find({
+        where: {
+          dueDate: Between(
+            now,
+            new Date(now.getTime() + DUE_REMINDER_WINDOW_MS),
+          ),
+          dueReminderSentAt: IsNull(),
+          assigneeId: Not(IsNull()),
+          status: Not(In([TaskStatus.DONE, TaskStatus.CANCELLED])),
+        },
+      });
+
+      for (const task of tasks) {
+        // Claim the task first so a concurrent sweep never reminds twice
+        const result = await this.taskRepository.update(
+          { id: task.id, dueReminderSentAt: IsNull() },
+          { dueReminderSentAt: now },
+        );
+        if (!result.affected) {
+          continue;
+        }
+
+        try {
+          // Delivery waits for the assignee's working hours like any notification
+          await this.notificationService.createTaskDueSoonNotification(
+            task.id,
+            task.title,
+            task.assigneeId as string,
+            task.dueDate,
+          );
+          sent++;
+        } catch (error) {
+          this.logger.warn(
+            `Failed to send due date reminder for task ${task.id}: ${(error as Error).message}`,
+          );
+        }
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : String(error ?? 'unknown error');
+      this.logger.warn(`Due date reminder sweep failed: ${message}`);
+    }
+
+    return sent;
+  }
+
   async create(createTaskDto: CreateTaskDto, creatorId: string): Promise<Task> {
     // Check if project exists and user has access
     const project = await this.projectRepository
@@ -34,11 +112,13 @@ export class TasksService {
       .andWhere('(project.ownerId = :creatorId OR members.id = :creatorId)', {
         creatorId,
       })
+      .andWhere(notInTrashedWorkspace('project.workspaceId'))
       .getOne();
 
     if (!project) {
       throw new NotFoundException('Project not found or access denied');
     }
+    await this.workspaceMembersService.assertWritable(project.workspaceId);
 
     // Check if assignee exists and has access to project (if provided)
     if (createTaskDto.assigneeId) {
@@ -72,6 +152,7 @@ export class TasksService {
       estimatedHours: createTaskDto.estimatedHours,
       tags: createTaskDto.tags ? JSON.stringify(createTaskDto.tags) : undefined,
       position: createTaskDto.position,
+      completedAt: createTaskDto.status === TaskStatus.DONE ? new Date() : null,
       creatorId,
       assigneeId: createTaskDto.assigneeId || undefined,
     };
@@ -118,18 +199,26 @@ export class TasksService {
       .leftJoinAndSelect('project.members', 'projectMembers')
       .leftJoinAndSelect('task.assignee', 'assignee')
       .leftJoinAndSelect('task.creator', 'creator')
-      .loadRelationCountAndMap('task.commentCount', 'task.comments');
+      .loadRelationCountAndMap('task.commentCount', 'task.comments')
+      .where(notInTrashedWorkspace('project.workspaceId'));
 
     // Filter by project if provided
     if (projectId) {
       queryBuilder.andWhere('task.projectId = :projectId', { projectId });
     }
 
-    // If user is not admin, only show tasks from projects they have access to
+    // Non-admins see tasks of projects they own, belong to, or manage via their workspace
     if (userRole !== UserRole.ADMIN) {
+      const managedWorkspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(
+          userId,
+          WorkspaceRole.ADMIN,
+        );
       queryBuilder.andWhere(
-        '(project.ownerId = :userId OR projectMembers.id = :userId)',
-        { userId },
+        managedWorkspaceIds.length
+          ? '(project.ownerId = :userId OR projectMembers.id = :userId OR project.workspaceId IN (:...managedWorkspaceIds))'
+          : '(project.ownerId = :userId OR projectMembers.id = :userId)',
+        { userId, managedWorkspaceIds },
       );
     }
 
@@ -145,17 +234,19 @@ export class TasksService {
       .leftJoinAndSelect('task.creator', 'creator')
       .loadRelationCountAndMap('task.commentCount', 'task.comments')
       .where('task.id = :id', { id })
+      .andWhere(notInTrashedWorkspace('project.workspaceId'))
       .getOne();
 
     if (!task) {
       throw new NotFoundException('Task not found');
     }
 
-    // Check if user has access to the project
+    // Check if user has access to the project or manages its workspace
     if (userRole !== UserRole.ADMIN) {
       const hasAccess =
         task.project.ownerId === userId ||
-        task.project.members.some((member) => member.id === userId);
+        task.project.members.some((member) => member.id === userId) ||
+        (await this.isWorkspaceAdmin(task.project, userId, userRole));
       if (!hasAccess) {
         throw new ForbiddenException('Access denied to this task');
       }
@@ -171,6 +262,7 @@ export class TasksService {
     userRole: UserRole,
   ): Promise<Task> {
     const task = await this.findOne(id, userId, userRole);
+    await this.workspaceMembersService.assertWritable(task.project.workspaceId);
 
     // Check if assignee exists and has access to project (if being updated)
     if (updateTaskDto.assigneeId) {
@@ -194,12 +286,29 @@ export class TasksService {
 
     const oldStatus = task.status;
     const oldAssigneeId = task.assignee?.id;
+    const dueDateChanged =
+      updateTaskDto.dueDate !== undefined &&
+      new Date(updateTaskDto.dueDate).getTime() !== task.dueDate?.getTime();
+    const assigneeChanged =
+      updateTaskDto.assigneeId !== undefined &&
+      updateTaskDto.assigneeId !== oldAssigneeId;
+
+    const statusChanged =
+      updateTaskDto.status !== undefined && updateTaskDto.status !== oldStatus;
 
     const updateData = {
       ...updateTaskDto,
       tags: updateTaskDto.tags
         ? JSON.stringify(updateTaskDto.tags)
         : updateTaskDto.tags,
+      // A new due date or assignee gets a fresh reminder
+      ...(dueDateChanged || assigneeChanged ? { dueReminderSentAt: null } : {}),
+      ...(statusChanged
+        ? {
+            completedAt:
+              updateTaskDto.status === TaskStatus.DONE ? new Date() : null,
+          }
+        : {}),
     };
     await this.taskRepository.update(id, updateData);
 
@@ -242,13 +351,14 @@ export class TasksService {
 
   async remove(id: string, userId: string, userRole: UserRole): Promise<void> {
     const task = await this.findOne(id, userId, userRole);
+    await this.workspaceMembersService.assertWritable(task.project.workspaceId);
 
-    // Only task creator, project owner, project managers, and admins can delete tasks
+    // Only task creator, project owner, workspace admins, and admins can delete tasks
     const canDelete =
       task.creatorId === userId ||
       task.project.ownerId === userId ||
       userRole === UserRole.ADMIN ||
-      userRole === UserRole.PROJECT_MANAGER;
+      (await this.isWorkspaceAdmin(task.project, userId, userRole));
 
     if (!canDelete) {
       throw new ForbiddenException(
@@ -266,9 +376,10 @@ export class TasksService {
       .leftJoinAndSelect('task.assignee', 'assignee')
       .leftJoinAndSelect('task.creator', 'creator')
       .loadRelationCountAndMap('task.commentCount', 'task.comments')
-      .where('task.assigneeId = :userId OR task.creatorId = :userId', {
+      .where('(task.assigneeId = :userId OR task.creatorId = :userId)', {
         userId,
       })
+      .andWhere(notInTrashedWorkspace('project.workspaceId'))
       .orderBy('task.createdAt', 'DESC')
       .getMany();
   }
@@ -280,8 +391,28 @@ export class TasksService {
     userRole: UserRole,
   ): Promise<Task> {
     // Verify task exists and user has access
-    await this.findOne(id, userId, userRole);
+    const task = await this.findOne(id, userId, userRole);
+    await this.workspaceMembersService.assertWritable(task.project.workspaceId);
     await this.taskRepository.update(id, { position });
     return await this.findOne(id, userId, userRole);
   }
+
+  private async isWorkspaceAdmin(
+    project: Project,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<boolean> {
+    if (!project.workspaceId) {
+      return false;
+    }
+
+    return hasWorkspaceRole(
+      await this.workspaceMembersService.getEffectiveRole(
+        project.workspaceId,
+        userId,
+        userRole,
+      ),
+      WorkspaceRole.ADMIN,
+    );
+  }
 }
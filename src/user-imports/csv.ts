@@ -0,0 +1,69 @@
+export interface CsvRecord {
+  // Line on which the record starts, counting the header as line 1
+  line: number;
+  values: string[];
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  const input = text.replace(/^\uFEFF/, '');
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    if (values.length > 1 || values[0].trim() !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (field !== '' || values.length) {
+    endRecord();
+  }
+
+  return records;
+};
@@ -0,0 +1,66 @@
+import {
+  BadRequestException,
+  Controller,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { UserImportsService } from './user-imports.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../entities';
+import {
+  UserImportOptionsDto,
+  UserImportReportDto,
+} from '../dto/user-import.dto';
+
+@ApiTags('Users')
+@Controller('users')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class UserImportsController {
+  constructor(private readonly userImportsService: UserImportsService) {}
+
+  @ApiOperation({
+    summary: 'Bulk import users from CSV (Admin only)',
+    description:
+      'Columns: email, firstName, lastName, department, position, role and workspaces (IDs or names separated by semicolons). Use dryRun=true to get the validation report without creating anyone; otherwise invalid rows are skipped and valid ones created.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({
+    status: 201,
+    description: 'Import report with per-row results',
+    type: UserImportReportDto,
+  })
+  @ApiResponse({ status: 400, description: 'Missing or malformed CSV file' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 2 * 1024 * 1024 } }),
+  )
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() options: UserImportOptionsDto,
+  ): Promise<UserImportReportDto> {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    return await this.userImportsService.import(
+      file.buffer.toString('utf8'),
+      options,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../config/database.module';
+import { UsersModule } from '../users/users.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
+import { UserImportsController } from './user-imports.controller';
+import { UserImportsService } from './user-imports.service';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    UsersModule,
+    WorkspacesModule,
+    AuthModule,
+    AuditModule,
+    MailModule,
+  ],
+  controllers: [UserImportsController],
+  providers: [UserImportsService],
+})
+export class UserImportsModule {}
@@ -0,0 +1,176 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { UserImportsService } from './user-imports.service';
+import { parseCsv } from './csv';
+import { UsersService } from '../users/users.service';
+import { WorkspaceService } from '../workspaces/workspace.service';
+import { ActionTokensService } from '../auth/action-tokens.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { MailService } from '../mail/mail.service';
+import { UserImportRowStatus } from '../dto/user-import.dto';
+import { User, UserRole, Workspace, WorkspaceRole } from '../entities';
+
+jest.mock('bcrypt');
+
+describe('UserImportsService', () => {
+  const workspaceId = '6f1c1f3e-2f0a-4c55-9a57-0f4f6c1b2d3e';
+
+  const buildService = () => {
+    const userRepository = { find: jest.fn().mockResolvedValue([]) };
+    const workspaceRepository = {
+      find: jest
+        .fn()
+        .mockResolvedValue([{ id: workspaceId, name: 'Engineering' }]),
+    };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn((entity) =>
+        entity === Workspace ? workspaceRepository : userRepository,
+      ) as unknown as DataSource['getRepository'],
+    };
+    const usersService = {
+      create: jest.fn((dto: Partial<User>) =>
+        Promise.resolve({ id: `id-${dto.email}`, ...dto }),
+      ),
+    };
+    const workspaceService = { joinWithRole: jest.fn() };
+    const actionTokensService = { issue: jest.fn().mockResolvedValue('tok') };
+    const auditLogsService = { record: jest.fn() };
+    const mailService = { sendAccountInvitation: jest.fn() };
+    const configService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
+    const service = new UserImportsService(
+      dataSource as DataSource,
+      usersService as unknown as UsersService,
+      workspaceService as unknown as WorkspaceService,
+      actionTokensService as unknown as ActionTokensService,
+      auditLogsService as unknown as AuditLogsService,
+      mailService as unknown as MailService,
+      configService as unknown as ConfigService,
+    );
+
+    return {
+      service,
+      userRepository,
+      usersService,
+      workspaceService,
+      mailService,
+    };
+  };
+
+  const csv = [
+    'Email,First Name,Last Name,Department,Role,Workspaces',
+    'ada@example.com,Ada,Lovelace,Research,Project Manager,Engineering',
+    'taken@example.com,Taken,User,,,',
+    'not-an-email,,Nobody,,guest,Marketing',
+    'ADA@example.com,Ada,Again,,,',
+  ].join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (bcrypt.hash as jest.Mock).mockResolvedValue('hashed');
+  });
+
+  it('reports per-row errors on a dry run without creating users', async () => {
+    const { service, userRepository, usersService } = buildService();
+    userRepository.find.mockResolvedValue([{ email: 'taken@example.com' }]);
+
+    const report = await service.import(csv, { dryRun: true });
+
+    expect(usersService.create).not.toHaveBeenCalled();
+    expect(report).toMatchObject({
+      dryRun: true,
+      totalRows: 4,
+      validRows: 1,
+      invalidRows: 3,
+      created: 0,
+    });
+    expect(report.rows.map((row) => [row.line, row.status])).toEqual([
+      [2, UserImportRowStatus.VALID],
+      [3, UserImportRowStatus.INVALID],
+      [4, UserImportRowStatus.INVALID],
+      [5, UserImportRowStatus.INVALID],
+    ]);
+    expect(report.rows[1].errors).toEqual([
+      'User with this email already exists',
+    ]);
+    expect(report.rows[2].errors).toEqual([
+      'email must be a valid email address',
+      'firstName is required',
+      'role must be one of admin, project_manager, team_member',
+      'Workspace "Marketing" not found',
+    ]);
+    expect(report.rows[3].errors).toEqual([
+      'email appears more than once in the file',
+    ]);
+  });
+
+  it('creates valid rows, joins their workspaces and sends invitations', async () => {
+    const { service, usersService, workspaceService, mailService } =
+      buildService();
+
+    const report = await service.import(csv, { sendInvitations: true });
+
+    expect(usersService.create).toHaveBeenCalledTimes(2);
+    expect(usersService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'ada@example.com',
+        role: UserRole.PROJECT_MANAGER,
+        department: 'Research',
+        password: 'hashed',
+      }),
+      true,
+    );
+    expect(workspaceService.joinWithRole).toHaveBeenCalledWith(
+      workspaceId,
+      'id-ada@example.com',
+      WorkspaceRole.MEMBER,
+    );
+    expect(mailService.sendAccountInvitation).toHaveBeenCalledWith(
+      'ada@example.com',
+      'Ada',
+      'http://localhost:3001/reset-password?token=tok',
+      72,
+    );
+    expect(report).toMatchObject({ created: 2, invited: 2, invalidRows: 2 });
+  });
+
+  it('keeps a created user when one of its workspaces cannot be joined', async () => {
+    const { service, workspaceService } = buildService();
+    workspaceService.joinWithRole.mockRejectedValueOnce(
+      new ForbiddenException('Workspace is archived'),
+    );
+
+    const report = await service.import(csv);
+
+    expect(report).toMatchObject({ created: 2, failed: 0 });
+    expect(report.rows[0]).toMatchObject({
+      status: UserImportRowStatus.CREATED,
+      userId: 'id-ada@example.com',
+      errors: [
+        `Could not join workspace ${workspaceId}: Workspace is archived`,
+      ],
+    });
+  });
+
+  it('rejects files without the required columns', async () => {
+    const { service } = buildService();
+
+    await expect(
+      service.import('email,department\nada@example.com,Research'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('parses quoted fields with commas, quotes and line breaks', () => {
+    expect(
+      parseCsv('a,b\r\n"Doe, Jane","say ""hi""\nthere"\r\n\r\nlast,row'),
+    ).toEqual([
+      { line: 1, values: ['a', 'b'] },
+      { line: 2, values: ['Doe, Jane', 'say "hi"\nthere'] },
+      { line: 5, values: ['last', 'row'] },
+    ]);
+  });
+});
@@ -0,0 +1,423 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, In, Repository } from 'typeorm';
+import { isEmail, isUUID } from 'class-validator';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import {
+  AuditAction,
+  AuditTargetType,
+  User,
+  UserActionTokenType,
+  UserRole,
+  Workspace,
+  WorkspaceRole,
+} from '../entities';
+import {
+  UserImportOptionsDto,
+  UserImportReportDto,
+  UserImportRowDto,
+  UserImportRowStatus,
+} from '../dto/user-import.dto';
+import { UsersService } from '../users/users.service';
+import { WorkspaceService } from '../workspaces/workspace.service';
+import { ActionTokensService } from '../auth/action-tokens.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { MailService } from '../mail/mail.service';
+import { CsvRecord, parseCsv } from './csv';
+
+export const USER_IMPORT_MAX_ROWS = 1000;
+
+type ImportColumn =
+  | 'email'
+  | 'firstName'
+  | 'lastName'
+  | 'department'
+  | 'position'
+  | 'role'
+  | 'workspaces';
+
+// Headers are matched case-insensitively, ignoring spaces and punctuation
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+  email: 'email',
+  emailaddress: 'email',
+  firstname: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  familyname: 'lastName',
+  surname: 'lastName',
+  department: 'department',
+  position: 'position',
+  title: 'position',
+  jobtitle: 'position',
+  role: 'role',
+  workspace: 'workspaces',
+  workspaces: 'workspaces',
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['email', 'firstName', 'lastName'];
+
+// Guests need an expiry date and are invited through their workspace instead
+const IMPORTABLE_ROLES: string[] = [
+  UserRole.ADMIN,
+  UserRole.PROJECT_MANAGER,
+  UserRole.TEAM_MEMBER,
+];
+
+interface ImportRow {
+  line: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  department: string | undefined;
+  position: string | undefined;
+  role: UserRole;
+  workspaceIds: string[];
+  errors: string[];
+}
+
+@Injectable()
+export class UserImportsService {
+  private readonly logger = new Logger(UserImportsService.name);
+  private userRepository: Repository<User>;
+  private workspaceRepository: Repository<Workspace>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly usersService: UsersService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly actionTokensService: ActionTokensService,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {
+    this.userRepository = this.dataSource.getRepository(User);
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+  }
+
+  /**
+   * Validates every row of the CSV and, unless this is a dry run, creates the
+   * valid ones. Invalid rows are reported and skipped.
+   */
+  async import(
+    csv: string,
+    options: UserImportOptionsDto = {},
+  ): Promise<UserImportReportDto> {
+    const rows = await this.validate(this.parse(csv));
+    const dryRun = options.dryRun ?? false;
+
+    const report: UserImportReportDto = {
+      dryRun,
+      totalRows: rows.length,
+      validRows: rows.filter((row) => !row.errors.length).length,
+      invalidRows: rows.filter((row) => row.errors.length).length,
+      created: 0,
+      failed: 0,
+      invited: 0,
+      rows: [],
+    };
+
+    for (const row of rows) {
+      const result: UserImportRowDto = {
+        line: row.line,
+        email: row.email,
+        status: row.errors.length
+          ? UserImportRowStatus.INVALID
+          : UserImportRowStatus.VALID,
+        errors: row.errors,
+      };
+      report.rows.push(result);
+
+      if (dryRun || row.errors.length) {
+        continue;
+      }
+
+      let user: User;
+      try {
+        const created = await this.createUser(row);
+        user = created.user;
+        result.status = UserImportRowStatus.CREATED;
+        result.userId = user.id;
+        result.errors = created.errors;
+        report.created++;
+      } catch (error) {
+        result.status = UserImportRowStatus.FAILED;
+        result.errors = [(error as Error).message];
+        report.failed++;
+        continue;
+      }
+
+      if (options.sendInvitations) {
+        result.invited = await this.sendInvitation(user);
+        if (result.invited) {
+          report.invited++;
+        } else {
+          result.errors.push('Invitation email could not be sent');
+        }
+      }
+    }
+
+    return report;
+  }
+
+  private parse(csv: string): CsvRecord[] {
+    let records: CsvRecord[];
+    try {
+      records = parseCsv(csv);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+
+    if (records.length < 2) {
+      throw new BadRequestException(
+        'CSV file must have a header row and at least one user',
+      );
+    }
+    if (records.length - 1 > USER_IMPORT_MAX_ROWS) {
+      throw new BadRequestException(
+        `CSV file may contain at most ${USER_IMPORT_MAX_ROWS} users`,
+      );
+    }
+
+    return records;
+  }
+
+  private async validate([header, ...records]: CsvRecord[]): Promise<
+    ImportRow[]
+  > {
+    const columns = header.values.map(
+      (name) => COLUMN_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')],
+    );
+    const missing = REQUIRED_COLUMNS.filter(
+      (column) => !columns.includes(column),
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `Missing required column(s): ${missing.join(', ')}`,
+      );
+    }
+
+    const cells = records.map((record) => {
+      const row: Partial<Record<ImportColumn, string>> = {};
+      columns.forEach((column, index) => {
+        if (column) {
+          row[column] = record.values[index]?.trim() ?? '';
+        }
+      });
+      return row;
+    });
+
+    const emails = cells
+      .map((row) => row.email ?? '')
+      .filter((email) => isEmail(email));
+    const existingEmails = new Set(
+      emails.length
+        ? (
+            await this.userRepository.find({
+              where: { email: In(emails) },
+              select: ['email'],
+            })
+          ).map((user) => user.email.toLowerCase())
+        : [],
+    );
+    const workspaces = await this.resolveWorkspaces(
+      cells.flatMap((row) => this.splitList(row.workspaces)),
+    );
+
+    const seenEmails = new Set<string>();
+    return records.map((record, index) => {
+      const row = cells[index];
+      const errors: string[] = [];
+      const email = row.email ?? '';
+
+      if (!isEmail(email)) {
+        errors.push('email must be a valid email address');
+      } else if (existingEmails.has(email.toLowerCase())) {
+        errors.push('User with this email already exists');
+      } else if (seenEmails.has(email.toLowerCase())) {
+        errors.push('email appears more than once in the file');
+      }
+      seenEmails.add(email.toLowerCase());
+
+      for (const column of ['firstName', 'lastName'] as const) {
+        if (!row[column]) {
+          errors.push(`${column} is required`);
+        }
+      }
+      for (const column of [
+        'firstName',
+        'lastName',
+        'department',
+        'position',
+      ] as const) {
+        if ((row[column]?.length ?? 0) > 120) {
+          errors.push(`${column} must be at most 120 characters`);
+        }
+      }
+
+      const role = (row.role || UserRole.TEAM_MEMBER)
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_');
+      if (!IMPORTABLE_ROLES.includes(role)) {
+        errors.push(`role must be one of ${IMPORTABLE_ROLES.join(', ')}`);
+      }
+
+      const workspaceIds: string[] = [];
+      for (const reference of this.splitList(row.workspaces)) {
+        const match = workspaces.get(reference.toLowerCase());
+        if (match === undefined) {
+          errors.push(`Workspace "${reference}" not found`);
+        } else if (match === null) {
+          errors.push(
+            `Workspace name "${reference}" is ambiguous; use its ID instead`,
+          );
+        } else if (!workspaceIds.includes(match)) {
+          workspaceIds.push(match);
+        }
+      }
+
+      return {
+        line: record.line,
+        email,
+        firstName: row.firstName ?? '',
+        lastName: row.lastName ?? '',
+        department: row.department || undefined,
+        position: row.position || undefined,
+        role: role as UserRole,
+        workspaceIds,
+        errors,
+      };
+    });
+  }
+
+  // Maps lower-cased workspace IDs and names to IDs; null marks ambiguous names
+  private async resolveWorkspaces(
+    references: string[],
+  ): Promise<Map<string, string | null>> {
+    const resolved = new Map<string, string | null>();
+    const ids = references.filter((reference) => isUUID(reference));
+    const names = references.filter((reference) => !isUUID(reference));
+    if (!ids.length && !names.length) {
+      return resolved;
+    }
+
+    const workspaces = await this.workspaceRepository.find({
+      where: [
+        ...(ids.length ? [{ id: In(ids) }] : []),
+        ...(names.length ? [{ name: In(names) }] : []),
+      ],
+      select: ['id', 'name'],
+    });
+    for (const workspace of workspaces) {
+      resolved.set(workspace.id.toLowerCase(), workspace.id);
+      const name = workspace.name.toLowerCase();
+      const existing = resolved.get(name);
+      resolved.set(
+        name,
+        existing !== undefined && existing !== workspace.id
+          ? null
+          : workspace.id,
+      );
+    }
+
+    return resolved;
+  }
+
+  // Workspaces are separated by semicolons within a single cell
+  private splitList(value: string | undefined): string[] {
+    return (value ?? '')
+      .split(';')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Creates the user and adds it to the row's workspaces. A workspace that
+   * cannot be joined is reported on the row instead of failing it, since the
+   * account already exists by then.
+   */
+  private async createUser(
+    row: ImportRow,
+  ): Promise<{ user: User; errors: string[] }> {
+    const user = await this.usersService.create(
+      {
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        // Imported users choose their own password through the invitation
+        password: await bcrypt.hash(randomBytes(32).toString('base64url'), 10),
+        role: row.role,
+        department: row.department,
+        position: row.position,
+      },
+      true,
+    );
+
+    const errors: string[] = [];
+    const joinedWorkspaceIds: string[] = [];
+    for (const workspaceId of row.workspaceIds) {
+      try {
+        await this.workspaceService.joinWithRole(
+          workspaceId,
+          user.id,
+          WorkspaceRole.MEMBER,
+        );
+        joinedWorkspaceIds.push(workspaceId);
+      } catch (error) {
+        errors.push(
+          `Could not join workspace ${workspaceId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    await this.auditLogsService.record({
+      action: AuditAction.USERS_IMPORTED,
+      targetType: AuditTargetType.USER,
+      targetId: user.id,
+      after: {
+        email: user.email,
+        role: user.role,
+        workspaceIds: joinedWorkspaceIds,
+      },
+    });
+
+    return { user, errors };
+  }
+
+  private async sendInvitation(user: User): Promise<boolean> {
+    try {
+      const ttlHours = this.configService.get<number>(
+        'auth.accountInvitationTtlHours',
+        72,
+      );
+      const token = await this.actionTokensService.issue(
+        user.id,
+        UserActionTokenType.PASSWORD_RESET,
+        ttlHours * 60,
+      );
+      const frontendUrl = this.configService.get<string>(
+        'frontendUrl',
+        'http://localhost:3001',
+      );
+
+      await this.mailService.sendAccountInvitation(
+        user.email,
+        user.firstName,
+        `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        ttlHours,
+      );
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to invite imported user ${user.email}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+}
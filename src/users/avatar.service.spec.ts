@@ -0,0 +1,145 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { Jimp } from 'jimp';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AvatarService } from './avatar.service';
+
+jest.mock('jimp', () => ({
+  Jimp: { fromBuffer: jest.fn() },
+  JimpMime: { png: 'image/png' },
+}));
+
+const mockedFromBuffer = Jimp.fromBuffer as jest.Mock;
+
+describe('AvatarService', () => {
+  const userId = 'user-1';
+  let uploadPath: string;
+
+  const buildService = () => {
+    const userRepository = {
+      exists: jest.fn().mockResolvedValue(true),
+      update: jest.fn(),
+    };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn().mockReturnValue(userRepository),
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) =>
+        key === 'upload.uploadPath' ? uploadPath : defaultValue,
+      ),
+    };
+
+    const service = new AvatarService(
+      dataSource as DataSource,
+      configService as unknown as ConfigService,
+    );
+
+    return { service, userRepository };
+  };
+
+  // Signature and IHDR chunk are all the header check reads
+  const pngHeader = (width: number, height: number) => {
+    const header = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+    header.writeUInt32BE(13, 8);
+    header.write('IHDR', 12, 'ascii');
+    header.writeUInt32BE(width, 16);
+    header.writeUInt32BE(height, 20);
+    return header;
+  };
+
+  const file = {
+    mimetype: 'image/png',
+    buffer: pngHeader(512, 512),
+  } as Express.Multer.File;
+
+  // Stands in for the decoded upload; each thumbnail records its cover size
+  const createImage = () => ({
+    clone: () => {
+      const thumbnail = {
+        size: 0,
+        cover: ({ w }: { w: number }) => {
+          thumbnail.size = w;
+          return thumbnail;
+        },
+        getBuffer: () => Promise.resolve(Buffer.from(`${thumbnail.size}`)),
+      };
+      return thumbnail;
+    },
+  });
+
+  beforeEach(async () => {
+    mockedFromBuffer.mockResolvedValue(createImage());
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'avatars-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadPath, { recursive: true, force: true });
+  });
+
+  it('stores square thumbnails in every size', async () => {
+    const { service, userRepository } = buildService();
+
+    await service.setAvatar(userId, file);
+
+    const userPath = path.join(uploadPath, 'avatars', userId);
+    const fileNames = await fs.readdir(userPath);
+    expect(fileNames.map((fileName) => fileName.split('-')[1])).toEqual(
+      expect.arrayContaining(['32.png', '64.png', '128.png', '256.png']),
+    );
+
+    const largest = fileNames.find((fileName) => fileName.endsWith('-256.png'));
+    await expect(
+      fs.readFile(path.join(userPath, largest as string), 'utf8'),
+    ).resolves.toBe('256');
+    expect(userRepository.update).toHaveBeenCalledWith(userId, {
+      avatarUrl: `http://localhost:3000/uploads/avatars/${userId}/${largest}`,
+    });
+  });
+
+  it('removes the files of the replaced avatar', async () => {
+    const { service } = buildService();
+    const userPath = path.join(uploadPath, 'avatars', userId);
+    await fs.mkdir(userPath, { recursive: true });
+    await fs.writeFile(path.join(userPath, 'old-256.png'), 'old');
+
+    await service.setAvatar(userId, file);
+
+    const fileNames = await fs.readdir(userPath);
+    expect(fileNames).not.toContain('old-256.png');
+    expect(fileNames).toHaveLength(4);
+  });
+
+  it('rejects uploads that cannot be decoded', async () => {
+    const { service, userRepository } = buildService();
+    mockedFromBuffer.mockRejectedValue(new Error('Could not find MIME'));
+
+    await expect(service.setAvatar(userId, file)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects images that declare too many pixels before decoding them', async () => {
+    const { service, userRepository } = buildService();
+    mockedFromBuffer.mockClear();
+    const gif = Buffer.alloc(13);
+    gif.write('GIF89a', 0, 'ascii');
+    gif.writeUInt16LE(30000, 6);
+    gif.writeUInt16LE(30000, 8);
+
+    for (const upload of [
+      { mimetype: 'image/png', buffer: pngHeader(30000, 30000) },
+      { mimetype: 'image/gif', buffer: gif },
+    ] as Express.Multer.File[]) {
+      await expect(service.setAvatar(userId, upload)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    }
+    expect(mockedFromBuffer).not.toHaveBeenCalled();
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+});
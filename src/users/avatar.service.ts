@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, Repository } from 'typeorm';
+import { Jimp, JimpMime } from 'jimp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { User } from '../entities';
+import { readImageDimensions } from './image-dimensions';
+
+export const AVATAR_SIZES = [32, 64, 128, 256] as const;
+
+export const AVATAR_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// A few kilobytes of PNG or GIF can declare gigabytes of pixels, so the
+// header is checked before the image is decoded
+export const AVATAR_MAX_PIXELS = 40_000_000;
+
+const AVATAR_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp'];
+
+@Injectable()
+export class AvatarService {
+  private readonly logger = new Logger(AvatarService.name);
+  private userRepository: Repository<User>;
+  private avatarsPath: string;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {
+    this.userRepository = this.dataSource.getRepository(User);
+    this.avatarsPath = path.join(
+      this.configService.get<string>('upload.uploadPath', './uploads'),
+      'avatars',
+    );
+  }
+
+  async setAvatar(userId: string, file: Express.Multer.File): Promise<void> {
+    await this.assertUserExists(userId);
+
+    if (!AVATAR_MIME_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        'Avatar must be a PNG, JPEG, GIF or BMP image',
+      );
+    }
+
+    const thumbnails = await this.renderThumbnails(file.buffer);
+
+    // A new version per upload so clients and proxies never serve a stale image
+    const version = Date.now().toString(36);
+    const userPath = path.join(this.avatarsPath, userId);
+    const fileNames = thumbnails.map(({ size }) => `${version}-${size}.png`);
+
+    try {
+      await fs.mkdir(userPath, { recursive: true });
+      await Promise.all(
+        thumbnails.map(({ buffer }, index) =>
+          fs.writeFile(path.join(userPath, fileNames[index]), buffer),
+        ),
+      );
+
+      await this.userRepository.update(userId, {
+        avatarUrl: this.buildUrl(userId, fileNames[fileNames.length - 1]),
+      });
+    } catch (error) {
+      await this.removeFiles(userPath, (fileName) =>
+        fileNames.includes(fileName),
+      );
+      throw new BadRequestException(
+        `Failed to store avatar: ${(error as Error).message}`,
+      );
+    }
+
+    await this.removeFiles(
+      userPath,
+      (fileName) => !fileName.startsWith(`${version}-`),
+    );
+  }
+
+  async removeAvatar(userId: string): Promise<void> {
+    await this.assertUserExists(userId);
+    await this.userRepository.update(userId, { avatarUrl: null });
+    await this.deleteFiles(userId);
+  }
+
+  async deleteFiles(userId: string): Promise<void> {
+    try {
+      await fs.rm(path.join(this.avatarsPath, userId), {
+        recursive: true,
+        force: true,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete avatar files of user ${userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    const exists = await this.userRepository.exists({ where: { id: userId } });
+    if (!exists) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  private async renderThumbnails(
+    source: Buffer,
+  ): Promise<{ size: number; buffer: Buffer }[]> {
+    const dimensions = readImageDimensions(source);
+    if (!dimensions || !dimensions.width || !dimensions.height) {
+      throw new BadRequestException('Avatar could not be read as an image');
+    }
+    if (dimensions.width * dimensions.height > AVATAR_MAX_PIXELS) {
+      throw new BadRequestException(
+        `Avatar may have at most ${AVATAR_MAX_PIXELS / 1_000_000} megapixels`,
+      );
+    }
+
+    let image: Awaited<ReturnType<typeof Jimp.fromBuffer>>;
+    try {
+      image = await Jimp.fromBuffer(source);
+    } catch {
+      throw new BadRequestException('Avatar could not be read as an image');
+    }
+
+    const thumbnails: { size: number; buffer: Buffer }[] = [];
+    for (const size of AVATAR_SIZES) {
+      const thumbnail = image.clone().cover({ w: size, h: size });
+      thumbnails.push({
+        size,
+        buffer: await thumbnail.getBuffer(JimpMime.png),
+      });
+    }
+    return thumbnails;
+  }
+
+  private async removeFiles(
+    directory: string,
+    shouldRemove: (fileName: string) => boolean,
+  ): Promise<void> {
+    try {
+      const fileNames = await fs.readdir(directory);
+      await Promise.all(
+        fileNames
+          .filter(shouldRemove)
+          .map((fileName) => fs.unlink(path.join(directory, fileName))),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to clean up avatar files in ${directory}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private buildUrl(userId: string, fileName: string): string {
+    const baseUrl = this.configService.get<string>(
+      'baseUrl',
+      'http://localhost:3000',
+    );
+    return `${baseUrl}/uploads/avatars/${userId}/${fileName}`;
+  }
+}
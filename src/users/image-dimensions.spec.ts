@@ -0,0 +1,31 @@
+import { readImageDimensions } from './image-dimensions';
+
+describe('readImageDimensions', () => {
+  it('finds the frame header of a JPEG after other segments', () => {
+    const jpeg = Buffer.concat([
+      Buffer.from('ffd8', 'hex'),
+      // APP0 segment of 16 bytes
+      Buffer.from('ffe00010', 'hex'),
+      Buffer.alloc(14),
+      // SOF0 with a height of 300 and a width of 600
+      Buffer.from('ffc0001108012c025803', 'hex'),
+    ]);
+
+    expect(readImageDimensions(jpeg)).toEqual({ width: 600, height: 300 });
+  });
+
+  it('reads top-down BMPs with a negative height', () => {
+    const bmp = Buffer.alloc(30);
+    bmp.write('BM', 0, 'ascii');
+    bmp.writeUInt32LE(40, 14);
+    bmp.writeInt32LE(640, 18);
+    bmp.writeInt32LE(-480, 22);
+
+    expect(readImageDimensions(bmp)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('returns null for unknown or truncated data', () => {
+    expect(readImageDimensions(Buffer.from('png'))).toBeNull();
+    expect(readImageDimensions(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// Start-of-frame markers carry the size; C4, C8 and CC share the range but
+// are other segments
+const JPEG_FRAME_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+const readPng = (buffer: Buffer): ImageDimensions | null => {
+  if (
+    buffer.length < 24 ||
+    !buffer.subarray(0, 8).equals(PNG_SIGNATURE) ||
+    buffer.toString('ascii', 12, 16) !== 'IHDR'
+  ) {
+    return null;
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+};
+
+const readGif = (buffer: Buffer): ImageDimensions | null => {
+  const signature = buffer.toString('ascii', 0, 6);
+  if (
+    buffer.length < 10 ||
+    (signature !== 'GIF87a' && signature !== 'GIF89a')
+  ) {
+    return null;
+  }
+  return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+};
+
+const readBmp = (buffer: Buffer): ImageDimensions | null => {
+  if (buffer.length < 26 || buffer.toString('ascii', 0, 2) !== 'BM') {
+    return null;
+  }
+  // OS/2 core headers store 16-bit sizes, later versions signed 32-bit ones
+  if (buffer.readUInt32LE(14) === 12) {
+    return { width: buffer.readUInt16LE(18), height: buffer.readUInt16LE(20) };
+  }
+  return {
+    width: Math.abs(buffer.readInt32LE(18)),
+    height: Math.abs(buffer.readInt32LE(22)),
+  };
+};
+
+const readJpeg = (buffer: Buffer): ImageDimensions | null => {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before the actual marker
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      if (offset + 9 > buffer.length) {
+        return null;
+      }
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+};
+
+/**
+ * Reads the pixel size a PNG, GIF, BMP or JPEG declares in its header without
+ * decoding it, or returns null when the format is not recognised.
+ */
+export const readImageDimensions = (buffer: Buffer): ImageDimensions | null =>
+  readPng(buffer) ?? readGif(buffer) ?? readBmp(buffer) ?? readJpeg(buffer);
@@ -9,6 +9,13 @@ import {
   UseGuards,
   Query,
   ParseUUIDPipe,
+  ForbiddenException,
+  Put,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,8 +23,12 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiConsumes,
 } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { UsersService } from './users.service';
+import { AvatarService, AVATAR_MAX_FILE_SIZE } from './avatar.service';
+import { DataExportsService } from '../data-exports/data-exports.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -26,8 +37,17 @@ import {
   CreateUserDto,
   UpdateUserDto,
   ChangePasswordDto,
+  UpdateGuestExpiryDto,
+  AdminUpdateUserDto,
   UserResponseDto,
+  UserDirectoryQueryDto,
+  UserPageDto,
+  DeleteUserQueryDto,
 } from '../dto/user.dto';
+import {
+  DataExportLinkDto,
+  DataExportResponseDto,
+} from '../dto/data-export.dto';
 import { User, UserRole } from '../entities';
 
 @ApiTags('Users')
@@ -35,7 +55,11 @@ import { User, UserRole } from '../entities';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly avatarService: AvatarService,
+    private readonly dataExportsService: DataExportsService,
+  ) {}
 
   @ApiOperation({ summary: 'Create a new user (Admin only)' })
   @ApiResponse({
@@ -52,18 +76,34 @@ export class UsersController {
     return await this.usersService.create(createUserDto);
   }
 
-  @ApiOperation({ summary: 'Get all users (Admin only)' })
+  @ApiOperation({
+    summary: 'List users with filters and cursor pagination (Admin only)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Users retrieved successfully',
-    type: [UserResponseDto],
+    type: UserPageDto,
   })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
   @Get()
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
-  async findAll(): Promise<User[]> {
-    return await this.usersService.findAll();
+  async findAll(@Query() query: UserDirectoryQueryDto): Promise<UserPageDto> {
+    return await this.usersService.findAll(query);
+  }
+
+  @ApiOperation({ summary: 'Get guest accounts (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of guest accounts',
+    type: [UserResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @Get('guests')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async findGuests(): Promise<User[]> {
+    return await this.usersService.findGuests();
   }
 
   @ApiOperation({ summary: 'Search users by name or email' })
@@ -115,6 +155,98 @@ export class UsersController {
     return { message: 'Password changed successfully' };
   }
 
+  @ApiOperation({
+    summary: 'Upload avatar',
+    description:
+      'Generates 32, 64, 128 and 256 pixel square PNG thumbnails and replaces the previous avatar',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar updated successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Missing or unsupported image' })
+  @ApiResponse({ status: 413, description: 'Image exceeds 5MB limit' })
+  @Put('me/avatar')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: AVATAR_MAX_FILE_SIZE } }),
+  )
+  async updateAvatar(
+    @CurrentUser() user: User,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<User | null> {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    await this.avatarService.setAvatar(user.id, file);
+    return await this.usersService.findById(user.id);
+  }
+
+  @ApiOperation({ summary: 'Remove avatar' })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar removed successfully',
+    type: UserResponseDto,
+  })
+  @Delete('me/avatar')
+  async removeAvatar(@CurrentUser() user: User): Promise<User | null> {
+    await this.avatarService.removeAvatar(user.id);
+    return await this.usersService.findById(user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Request a personal data export',
+    description:
+      'Builds a zip archive of the profile, messages, comments, tasks, attachments, calls and notifications in the background and emails a download link once ready',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Export queued',
+    type: DataExportResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'An export is already in progress' })
+  @Post('me/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestExport(
+    @CurrentUser() user: User,
+  ): Promise<DataExportResponseDto> {
+    return await this.dataExportsService.request(user.id);
+  }
+
+  @ApiOperation({ summary: 'List personal data exports' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exports retrieved successfully',
+    type: [DataExportResponseDto],
+  })
+  @Get('me/exports')
+  async findExports(
+    @CurrentUser() user: User,
+  ): Promise<DataExportResponseDto[]> {
+    return await this.dataExportsService.findForUser(user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Issue a new download link for a ready export',
+    description: 'Links issued earlier for the same export stop working',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Download link issued',
+    type: DataExportLinkDto,
+  })
+  @ApiResponse({ status: 400, description: 'Export is not ready or expired' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  @Post('me/exports/:id/link')
+  async issueExportLink(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<DataExportLinkDto> {
+    return await this.dataExportsService.issueDownloadLink(id, user.id);
+  }
+
   @ApiOperation({ summary: 'Get user by ID' })
   @ApiResponse({
     status: 200,
@@ -140,8 +272,12 @@ export class UsersController {
   @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async update(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateUserDto: UpdateUserDto,
+    @Body() updateUserDto: AdminUpdateUserDto,
+    @CurrentUser() currentUser: User,
   ): Promise<User> {
+    if (updateUserDto.role && currentUser.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can change user roles');
+    }
     return await this.usersService.update(id, updateUserDto);
   }
 
@@ -159,6 +295,28 @@ export class UsersController {
     return { message: 'User deactivated successfully' };
   }
 
+  @ApiOperation({ summary: 'Change guest account expiry (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Guest expiry updated',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'User is not a guest account' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @Patch(':id/guest-expiry')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async updateGuestExpiry(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateGuestExpiryDto: UpdateGuestExpiryDto,
+  ): Promise<User> {
+    return await this.usersService.setGuestExpiry(
+      id,
+      new Date(updateGuestExpiryDto.guestExpiresAt),
+    );
+  }
+
   @ApiOperation({ summary: 'Activate user (Admin only)' })
   @ApiResponse({ status: 200, description: 'User activated successfully' })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
@@ -173,8 +331,16 @@ export class UsersController {
     return { message: 'User activated successfully' };
   }
 
-  @ApiOperation({ summary: 'Delete user (Admin only)' })
+  @ApiOperation({
+    summary: 'Delete user (Admin only)',
+    description:
+      'Anonymizes the account into a "Deleted user" tombstone. Authored messages and comments are kept, owned projects and workspaces move to the successor and uploads are purged according to purgeUploads',
+  })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Successor missing or not eligible for owned resources',
+  })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
   @ApiResponse({ status: 404, description: 'User not found' })
   @Delete(':id')
@@ -182,8 +348,9 @@ export class UsersController {
   @Roles(UserRole.ADMIN)
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DeleteUserQueryDto,
   ): Promise<{ message: string }> {
-    await this.usersService.remove(id);
+    await this.usersService.remove(id, query);
     return { message: 'User deleted successfully' };
   }
 }
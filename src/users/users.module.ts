@@ -1,12 +1,21 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { UsersService } from './users.service';
+import { AvatarService } from './avatar.service';
 import { UsersController } from './users.controller';
 import { DatabaseModule } from '../config/database.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AuditModule } from '../audit/audit.module';
+import { DataExportsModule } from '../data-exports/data-exports.module';
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    DataExportsModule,
+    forwardRef(() => RealtimeModule),
+  ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, AvatarService],
   exports: [UsersService],
 })
 export class UsersModule {}
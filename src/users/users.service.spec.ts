@@ -1,8 +1,19 @@
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DataSource } from 'typeorm';
 import { UsersService } from './users.service';
-import { CreateUserDto, UpdateUserDto } from '../dto/user.dto';
-import { User } from '../entities/user.entity';
+import { CreateUserDto, UpdateUserDto, UserSortField } from '../dto/user.dto';
+import { User, UserRole, UserStatus } from '../entities/user.entity';
+import { Attachment, Project } from '../entities';
+import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { AvatarService } from './avatar.service';
+import { DataExportsService } from '../data-exports/data-exports.service';
+import { AuditAction } from '../entities/audit-log.entity';
 import * as bcrypt from 'bcrypt';
 
 jest.mock('bcrypt');
@@ -21,18 +32,61 @@ describe('UsersService', () => {
       find: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
+      increment: jest.fn(),
       createQueryBuilder: jest.fn(),
     };
 
+    const queryBuilder = {
+      relation: jest.fn().mockReturnThis(),
+      of: jest.fn().mockReturnThis(),
+      add: jest.fn(),
+      delete: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+    };
+    const manager = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      insert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+    };
+
     const dataSource: Partial<DataSource> = {
       getRepository: jest.fn().mockReturnValue(userRepository),
+      transaction: jest.fn((work: (m: typeof manager) => Promise<unknown>) =>
+        work(manager),
+      ) as unknown as DataSource['transaction'],
     };
 
-    const service = new UsersService(dataSource as DataSource);
+    const chatGateway = { disconnectUser: jest.fn() };
+    const auditLogsService = { record: jest.fn() };
+    const avatarService = { deleteFiles: jest.fn() };
+    const dataExportsService = { deleteForUser: jest.fn() };
+    const configService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
+    const service = new UsersService(
+      dataSource as DataSource,
+      chatGateway as unknown as ChatGateway,
+      auditLogsService as unknown as AuditLogsService,
+      avatarService as unknown as AvatarService,
+      dataExportsService as unknown as DataExportsService,
+      configService as unknown as ConfigService,
+    );
 
     return {
       service,
       userRepository,
+      manager,
+      queryBuilder,
+      chatGateway,
+      auditLogsService,
+      avatarService,
+      dataExportsService,
     };
   };
 
@@ -85,6 +139,48 @@ describe('UsersService', () => {
     );
   });
 
+  it('requires an expiry date for guest accounts', async () => {
+    const { service, userRepository } = buildService();
+
+    userRepository.findOne.mockResolvedValueOnce(null);
+
+    const createDto: CreateUserDto = {
+      email: 'contractor@example.com',
+      password: 'secret',
+      firstName: 'Con',
+      lastName: 'Tractor',
+      role: UserRole.GUEST,
+    };
+    await expect(service.create(createDto)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(userRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('deactivates guests whose access has expired', async () => {
+    const { service, userRepository, chatGateway } = buildService();
+
+    userRepository.find.mockResolvedValue([
+      { id: 'guest-1' },
+      { id: 'guest-2' },
+    ]);
+
+    await expect(service.deactivateExpiredGuests()).resolves.toBe(2);
+    expect(userRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          role: UserRole.GUEST,
+          status: UserStatus.ACTIVE,
+        }),
+      }),
+    );
+    expect(userRepository.update).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: UserStatus.INACTIVE }),
+    );
+    expect(chatGateway.disconnectUser).toHaveBeenCalledWith('guest-2');
+  });
+
   it('throws when updating missing user', async () => {
     const { service, userRepository } = buildService();
 
@@ -115,6 +211,21 @@ describe('UsersService', () => {
     expect(result).toBe(updated);
   });
 
+  it('rejects working hours that end before they start', async () => {
+    const { service, userRepository } = buildService();
+
+    userRepository.findOne.mockResolvedValue({ id: 'user-1' });
+
+    const updateDto: UpdateUserDto = {
+      timezone: 'Asia/Tokyo',
+      workingHours: [{ day: 1, start: '22:00', end: '06:00' }],
+    };
+    await expect(service.update('user-1', updateDto)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
   it('changes password when current password matches', async () => {
     const { service, userRepository } = buildService();
 
@@ -135,6 +246,11 @@ describe('UsersService', () => {
     expect(userRepository.update).toHaveBeenCalledWith('user-1', {
       password: 'new-hash',
     });
+    expect(userRepository.increment).toHaveBeenCalledWith(
+      { id: 'user-1' },
+      'tokenVersion',
+      1,
+    );
   });
 
   it('rejects incorrect current password', async () => {
@@ -166,14 +282,146 @@ describe('UsersService', () => {
     });
   });
 
-  it('deletes an existing user', async () => {
-    const { service, userRepository } = buildService();
+  it('invalidates tokens and sockets when the role changes', async () => {
+    const { service, userRepository, chatGateway, auditLogsService } =
+      buildService();
+
+    userRepository.findOne.mockResolvedValue({
+      id: 'user-1',
+      role: UserRole.TEAM_MEMBER,
+    });
+
+    await service.update('user-1', { role: UserRole.PROJECT_MANAGER });
+
+    expect(userRepository.increment).toHaveBeenCalledWith(
+      { id: 'user-1' },
+      'tokenVersion',
+      1,
+    );
+    expect(chatGateway.disconnectUser).toHaveBeenCalledWith('user-1');
+    expect(auditLogsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.USER_ROLE_CHANGED,
+        targetId: 'user-1',
+        before: { role: UserRole.TEAM_MEMBER },
+        after: { role: UserRole.PROJECT_MANAGER },
+      }),
+    );
+  });
+
+  it('anonymizes a deleted user and hands owned projects to the successor', async () => {
+    const {
+      service,
+      userRepository,
+      manager,
+      queryBuilder,
+      chatGateway,
+      avatarService,
+      dataExportsService,
+    } = buildService();
+
+    userRepository.findOne
+      .mockResolvedValueOnce({ id: 'user-1', email: 'gone@example.com' })
+      .mockResolvedValueOnce({
+        id: 'user-2',
+        role: UserRole.TEAM_MEMBER,
+        status: UserStatus.ACTIVE,
+        deletedAt: null,
+      });
+    userRepository.find
+      .mockResolvedValueOnce([{ id: 'project-1', members: [] }])
+      .mockResolvedValueOnce([]);
+    manager.find.mockResolvedValue([
+      { id: 'attachment-1', filePath: '/tmp/does-not-exist-attachment-1' },
+    ]);
+    mockedHash.mockResolvedValue('tombstone-hash' as never);
+
+    await service.remove('user-1', { successorId: 'user-2' });
+
+    expect(queryBuilder.of).toHaveBeenCalledWith('project-1');
+    expect(queryBuilder.add).toHaveBeenCalledWith('user-2');
+    expect(manager.update).toHaveBeenCalledWith(
+      Project,
+      { ownerId: 'user-1' },
+      { ownerId: 'user-2' },
+    );
+    expect(manager.delete).toHaveBeenCalledWith(Attachment, {
+      id: expect.anything(),
+    });
+    expect(manager.update).toHaveBeenCalledWith(
+      User,
+      'user-1',
+      expect.objectContaining({
+        email: 'deleted-user-1@deleted.invalid',
+        firstName: 'Deleted',
+        lastName: 'user',
+        password: 'tombstone-hash',
+        status: UserStatus.INACTIVE,
+        deletedAt: expect.any(Date),
+      }),
+    );
+    expect(userRepository.delete).not.toHaveBeenCalled();
+    expect(chatGateway.disconnectUser).toHaveBeenCalledWith('user-1');
+    expect(avatarService.deleteFiles).toHaveBeenCalledWith('user-1');
+    expect(dataExportsService.deleteForUser).toHaveBeenCalledWith('user-1');
+  });
+
+  it('requires a successor when the deleted user owns workspaces', async () => {
+    const { service, userRepository, manager } = buildService();
 
     userRepository.findOne.mockResolvedValue({ id: 'user-1' });
+    userRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'workspace-1' }]);
 
-    await service.remove('user-1');
+    await expect(service.remove('user-1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(manager.update).not.toHaveBeenCalled();
+  });
+
+  it('pages the directory with filters and a total count', async () => {
+    const { service, userRepository } = buildService();
 
-    expect(userRepository.delete).toHaveBeenCalledWith('user-1');
+    const builder = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(3),
+      getMany: jest
+        .fn()
+        .mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }] as User[]),
+    };
+
+    userRepository.createQueryBuilder.mockReturnValue(builder);
+
+    const page = await service.findAll({
+      department: 'Engineering',
+      status: UserStatus.ACTIVE,
+      sortBy: UserSortField.CREATED_AT,
+      sortOrder: 'DESC',
+      limit: 1,
+    });
+
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      '[user].[role] <> :guestRole',
+      { guestRole: UserRole.GUEST },
+    );
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      '[user].[department] = :department',
+      { department: 'Engineering' },
+    );
+    expect(builder.orderBy).toHaveBeenCalledWith('user.createdAt', 'DESC');
+    expect(builder.take).toHaveBeenCalledWith(2);
+    expect(page).toEqual({
+      items: [{ id: 'user-1' }],
+      total: 3,
+      hasMore: true,
+      nextCursor: 'user-1',
+    });
   });
 
   it('searches users by query fragment', async () => {
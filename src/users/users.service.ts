@@ -2,45 +2,219 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Inject,
+  Logger,
+  OnModuleInit,
+  forwardRef,
 } from '@nestjs/common';
-import { Repository, DataSource } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  Repository,
+  DataSource,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  Not,
+} from 'typeorm';
 import * as bcrypt from 'bcrypt';
-import { User, UserStatus } from '../entities';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import {
+  Attachment,
+  AuditAction,
+  AuditTargetType,
+  AuthSession,
+  MessageReadReceipt,
+  Notification,
+  PersonalAccessToken,
+  Project,
+  Task,
+  TaskStatus,
+  TwoFactorRecoveryCode,
+  User,
+  UserActionToken,
+  UserPresence,
+  UserRole,
+  UserStatus,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../entities';
 import {
   CreateUserDto,
   UpdateUserDto,
   ChangePasswordDto,
+  AdminUpdateUserDto,
+  UserDirectoryQueryDto,
+  UserPageDto,
+  UserSortField,
+  DeleteUserQueryDto,
+  UploadPurgePolicy,
 } from '../dto/user.dto';
+import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { AvatarService } from './avatar.service';
+import { DataExportsService } from '../data-exports/data-exports.service';
+import { toMinutes } from './working-hours';
+
+export const isGuestAccessExpired = (
+  user: Pick<User, 'role' | 'status' | 'guestExpiresAt'>,
+): boolean =>
+  user.role === UserRole.GUEST &&
+  (user.status !== UserStatus.ACTIVE ||
+    (!!user.guestExpiresAt &&
+      new Date(user.guestExpiresAt).getTime() <= Date.now()));
 
 @Injectable()
-export class UsersService {
+export class UsersService implements OnModuleInit {
+  private readonly logger = new Logger(UsersService.name);
   private userRepository: Repository<User>;
 
   constructor(
     @Inject('DATA_SOURCE')
     private dataSource: DataSource,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly avatarService: AvatarService,
+    private readonly dataExportsService: DataExportsService,
+    private readonly configService: ConfigService,
   ) {
     this.userRepository = this.dataSource.getRepository(User);
   }
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
+  onModuleInit() {
+    void this.deactivateExpiredGuests();
+
+    // Check for expired guest accounts every hour
+    setInterval(() => {
+      void this.deactivateExpiredGuests();
+    }, 3_600_000);
+  }
+
+  async create(
+    createUserDto: CreateUserDto,
+    isEmailVerified = true,
+  ): Promise<User> {
     // Check if user already exists
     const existingUser = await this.findByEmail(createUserDto.email);
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
 
+    const { guestExpiresAt, ...userData } = createUserDto;
+    if (userData.role === UserRole.GUEST && !guestExpiresAt) {
+      throw new BadRequestException('Guest accounts require an expiry date');
+    }
+
     const user = this.userRepository.create({
-      ...createUserDto,
+      ...userData,
+      guestExpiresAt:
+        userData.role === UserRole.GUEST ? new Date(guestExpiresAt!) : null,
       status: UserStatus.ACTIVE,
+      isEmailVerified,
+      emailVerifiedAt: isEmailVerified ? new Date() : null,
     });
 
     return await this.userRepository.save(user);
   }
 
-  async findAll(): Promise<User[]> {
+  async findAll(query: UserDirectoryQueryDto = {}): Promise<UserPageDto> {
+    const limit = query.limit ?? 50;
+    const sortBy = query.sortBy ?? UserSortField.LAST_NAME;
+    const sortOrder = query.sortOrder ?? 'ASC';
+
+    const queryBuilder = this.userRepository
+      .createQueryBuilder('user')
+      .select([
+        'user.id',
+        'user.email',
+        'user.firstName',
+        'user.lastName',
+        'user.role',
+        'user.status',
+        'user.department',
+        'user.position',
+        'user.avatarUrl',
+        'user.timezone',
+        'user.isEmailVerified',
+        'user.createdAt',
+        'user.lastLoginAt',
+      ])
+      .where('[user].[deletedAt] IS NULL');
+
+    // Guests have their own listing unless explicitly asked for
+    if (query.role) {
+      queryBuilder.andWhere('[user].[role] = :role', { role: query.role });
+    } else {
+      queryBuilder.andWhere('[user].[role] <> :guestRole', {
+        guestRole: UserRole.GUEST,
+      });
+    }
+    if (query.status) {
+      queryBuilder.andWhere('[user].[status] = :status', {
+        status: query.status,
+      });
+    }
+    if (query.department) {
+      queryBuilder.andWhere('[user].[department] = :department', {
+        department: query.department,
+      });
+    }
+    if (query.position) {
+      queryBuilder.andWhere('[user].[position] = :position', {
+        position: query.position,
+      });
+    }
+    if (query.workspaceId) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM workspace_members membership WHERE membership.userId = [user].[id] AND membership.workspaceId = :workspaceId)',
+        { workspaceId: query.workspaceId },
+      );
+    }
+    if (query.q) {
+      queryBuilder.andWhere(
+        '(LOWER([user].[firstName]) LIKE LOWER(:q) OR LOWER([user].[lastName]) LIKE LOWER(:q) OR LOWER([user].[email]) LIKE LOWER(:q))',
+        { q: `%${query.q}%` },
+      );
+    }
+
+    const total = await queryBuilder.getCount();
+
+    if (query.cursor) {
+      // Keyset pagination on the sort column with the id as tie-breaker
+      const comparison = sortOrder === 'ASC' ? '>' : '<';
+      const cursorValue = `(SELECT cursorUser.[${sortBy}] FROM users cursorUser WHERE cursorUser.id = :cursor)`;
+      queryBuilder.andWhere(
+        `([user].[${sortBy}] ${comparison} ${cursorValue}
+          OR ([user].[${sortBy}] = ${cursorValue} AND [user].[id] ${comparison} :cursor))`,
+        { cursor: query.cursor },
+      );
+    }
+
+    const users = await queryBuilder
+      .orderBy(`user.${sortBy}`, sortOrder)
+      .addOrderBy('user.id', sortOrder)
+      .take(limit + 1)
+      .getMany();
+
+    const hasMore = users.length > limit;
+    if (hasMore) {
+      users.pop();
+    }
+
+    return {
+      items: users,
+      total,
+      hasMore,
+      nextCursor: hasMore ? users[users.length - 1].id : undefined,
+    };
+  }
+
+  async findGuests(): Promise<User[]> {
     return await this.userRepository.find({
+      where: { role: UserRole.GUEST, deletedAt: IsNull() },
       select: [
         'id',
         'email',
@@ -48,11 +222,12 @@ export class UsersService {
         'lastName',
         'role',
         'status',
-        'department',
-        'position',
+        'avatarUrl',
+        'guestExpiresAt',
         'createdAt',
         'lastLoginAt',
       ],
+      order: { guestExpiresAt: 'ASC' },
     });
   }
 
@@ -69,9 +244,18 @@ export class UsersService {
         'phoneNumber',
         'department',
         'position',
+        'avatarUrl',
         'createdAt',
         'updatedAt',
         'lastLoginAt',
+        'isEmailVerified',
+        'twoFactorEnabled',
+        'guestExpiresAt',
+        'timezone',
+        'locale',
+        'workingHours',
+        'tokenVersion',
+        'deletedAt',
       ],
     });
   }
@@ -80,13 +264,78 @@ export class UsersService {
     return await this.userRepository.findOne({ where: { email } });
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
+  async findByOidcSubject(subject: string): Promise<User | null> {
+    return await this.userRepository.findOne({
+      where: { oidcSubject: subject },
+    });
+  }
+
+  async linkOidcSubject(id: string, subject: string): Promise<void> {
+    await this.userRepository.update(id, { oidcSubject: subject });
+  }
+
+  async linkScimExternalId(
+    id: string,
+    externalId: string | null,
+  ): Promise<void> {
+    await this.userRepository.update(id, { scimExternalId: externalId });
+  }
+
+  async setRole(id: string, role: UserRole): Promise<void> {
+    const user = await this.findById(id);
+    await this.userRepository.update(id, { role });
+    await this.invalidateTokens(id);
+    await this.auditLogsService.record({
+      action: AuditAction.USER_ROLE_CHANGED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before: { role: user?.role },
+      after: { role },
+    });
+  }
+
+  async update(
+    id: string,
+    updateUserDto: UpdateUserDto | AdminUpdateUserDto,
+  ): Promise<User> {
     const user = await this.findById(id);
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
+    if (
+      updateUserDto.workingHours?.some(
+        (interval) => toMinutes(interval.end) <= toMinutes(interval.start),
+      )
+    ) {
+      throw new BadRequestException(
+        'Working hours must end after they start; split overnight shifts across two days',
+      );
+    }
+
+    const role = 'role' in updateUserDto ? updateUserDto.role : undefined;
+    const roleChanged = !!role && role !== user.role;
+    if (
+      roleChanged &&
+      (role === UserRole.GUEST || user.role === UserRole.GUEST)
+    ) {
+      throw new BadRequestException(
+        'Guest accounts cannot be converted to or from other roles',
+      );
+    }
+
     await this.userRepository.update(id, updateUserDto);
+    if (roleChanged) {
+      await this.invalidateTokens(id);
+      await this.auditLogsService.record({
+        action: AuditAction.USER_ROLE_CHANGED,
+        targetType: AuditTargetType.USER,
+        targetId: id,
+        before: { role: user.role },
+        after: { role },
+      });
+    }
+
     const updatedUser = await this.findById(id);
     if (!updatedUser) {
       throw new NotFoundException('User not found after update');
@@ -118,6 +367,40 @@ export class UsersService {
     );
 
     await this.userRepository.update(id, { password: hashedNewPassword });
+    await this.invalidateTokens(id);
+    await this.auditLogsService.record({
+      action: AuditAction.USER_PASSWORD_CHANGED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      actorId: id,
+    });
+  }
+
+  async setPassword(id: string, newPassword: string): Promise<void> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+    await this.userRepository.update(id, { password: hashedPassword });
+    await this.invalidateTokens(id);
+    await this.auditLogsService.record({
+      action: AuditAction.USER_PASSWORD_CHANGED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      actorId: id,
+      after: { viaReset: true },
+    });
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.userRepository.update(
+      { id, isEmailVerified: false },
+      { isEmailVerified: true, emailVerifiedAt: new Date() },
+    );
   }
 
   async updateLastLogin(id: string): Promise<void> {
@@ -131,6 +414,94 @@ export class UsersService {
     }
 
     await this.userRepository.update(id, { status: UserStatus.INACTIVE });
+    await this.invalidateTokens(id);
+    await this.auditLogsService.record({
+      action: AuditAction.USER_DEACTIVATED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before: { status: user.status },
+      after: { status: UserStatus.INACTIVE },
+    });
+  }
+
+  async setGuestExpiry(id: string, guestExpiresAt: Date): Promise<User> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.role !== UserRole.GUEST) {
+      throw new BadRequestException('User is not a guest account');
+    }
+
+    await this.userRepository.update(id, {
+      guestExpiresAt,
+      ...(guestExpiresAt.getTime() > Date.now()
+        ? { status: UserStatus.ACTIVE }
+        : {}),
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.USER_GUEST_EXPIRY_CHANGED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before: { guestExpiresAt: user.guestExpiresAt, status: user.status },
+      after: {
+        guestExpiresAt,
+        status:
+          guestExpiresAt.getTime() > Date.now()
+            ? UserStatus.ACTIVE
+            : user.status,
+      },
+    });
+    return (await this.findById(id)) as User;
+  }
+
+  async deactivateExpiredGuests(): Promise<number> {
+    try {
+      const expiredGuests = await this.userRepository.find({
+        where: {
+          role: UserRole.GUEST,
+          status: UserStatus.ACTIVE,
+          guestExpiresAt: LessThanOrEqual(new Date()),
+        },
+        select: ['id'],
+      });
+      if (expiredGuests.length === 0) {
+        return 0;
+      }
+
+      const ids = expiredGuests.map((guest) => guest.id);
+      await this.userRepository.update(
+        { id: In(ids) },
+        {
+          status: UserStatus.INACTIVE,
+          tokenVersion: () => 'tokenVersion + 1',
+        },
+      );
+      ids.forEach((id) => this.chatGateway.disconnectUser(id));
+      for (const id of ids) {
+        await this.auditLogsService.record({
+          action: AuditAction.USER_DEACTIVATED,
+          targetType: AuditTargetType.USER,
+          targetId: id,
+          actorId: null,
+          before: { status: UserStatus.ACTIVE },
+          after: { status: UserStatus.INACTIVE, reason: 'guest_expired' },
+        });
+      }
+
+      this.logger.log(`Deactivated ${ids.length} expired guest account(s)`);
+      return ids.length;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to deactivate expired guests: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return 0;
+    }
+  }
+
+  async invalidateTokens(id: string): Promise<void> {
+    await this.userRepository.increment({ id }, 'tokenVersion', 1);
+    this.chatGateway.disconnectUser(id);
   }
 
   async activate(id: string): Promise<void> {
@@ -138,27 +509,237 @@ export class UsersService {
     if (!user) {
       throw new NotFoundException('User not found');
     }
+    if (user.deletedAt) {
+      throw new BadRequestException('Deleted accounts cannot be reactivated');
+    }
 
     await this.userRepository.update(id, { status: UserStatus.ACTIVE });
+    await this.auditLogsService.record({
+      action: AuditAction.USER_ACTIVATED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before: { status: user.status },
+      after: { status: UserStatus.ACTIVE },
+    });
   }
 
-  async remove(id: string): Promise<void> {
+  /**
+   * Deletes an account by anonymizing it in place. Authored messages,
+   * comments and tasks keep pointing at the tombstone, owned projects and
+   * workspaces move to the successor and credentials, memberships and
+   * personal data are removed.
+   */
+  async remove(id: string, options: DeleteUserQueryDto = {}): Promise<void> {
     const user = await this.findById(id);
-    if (!user) {
+    if (!user || user.deletedAt) {
       throw new NotFoundException('User not found');
     }
 
-    await this.userRepository.delete(id);
+    const [ownedProjects, ownedWorkspaces] = await Promise.all([
+      this.dataSource
+        .getRepository(Project)
+        .find({ where: { ownerId: id }, relations: ['members'] }),
+      this.dataSource
+        .getRepository(Workspace)
+        .find({ where: { ownerId: id }, select: ['id'], withDeleted: true }),
+    ]);
+
+    const successor = options.successorId
+      ? await this.findById(options.successorId)
+      : null;
+    if (options.successorId) {
+      if (
+        !successor ||
+        successor.id === id ||
+        successor.deletedAt ||
+        successor.status !== UserStatus.ACTIVE ||
+        successor.role === UserRole.GUEST
+      ) {
+        throw new BadRequestException(
+          'Successor must be another active, non-guest user',
+        );
+      }
+    } else if (ownedProjects.length || ownedWorkspaces.length) {
+      throw new BadRequestException(
+        `User owns ${ownedProjects.length} project(s) and ${ownedWorkspaces.length} workspace(s); choose a successorId to transfer them to`,
+      );
+    }
+
+    const purgeUploads =
+      options.purgeUploads ??
+      this.configService.get<UploadPurgePolicy>(
+        'userDeletion.purgeUploads',
+        UploadPurgePolicy.ALL,
+      );
+    const purgedFiles: string[] = [];
+    const tombstonePassword = await bcrypt.hash(
+      randomBytes(32).toString('hex'),
+      10,
+    );
+
+    await this.dataSource.transaction(async (manager) => {
+      if (successor) {
+        for (const project of ownedProjects) {
+          if (!project.members?.some((member) => member.id === successor.id)) {
+            await manager
+              .createQueryBuilder()
+              .relation(Project, 'members')
+              .of(project.id)
+              .add(successor.id);
+          }
+        }
+        await manager.update(
+          Project,
+          { ownerId: id },
+          { ownerId: successor.id },
+        );
+
+        for (const workspace of ownedWorkspaces) {
+          const membership = await manager.findOne(WorkspaceMember, {
+            where: { workspaceId: workspace.id, userId: successor.id },
+          });
+          if (membership) {
+            await manager.update(
+              WorkspaceMember,
+              { workspaceId: workspace.id, userId: successor.id },
+              {
+                role: WorkspaceRole.OWNER,
+              },
+            );
+          } else {
+            await manager.insert(WorkspaceMember, {
+              workspaceId: workspace.id,
+              userId: successor.id,
+              role: WorkspaceRole.OWNER,
+            });
+          }
+        }
+        await manager.update(
+          Workspace,
+          { ownerId: id },
+          { ownerId: successor.id },
+        );
+      }
+
+      await manager.update(
+        Workspace,
+        { pendingOwnerId: id },
+        {
+          pendingOwnerId: null,
+          ownershipTransferRequestedById: null,
+          ownershipTransferExpiresAt: null,
+        },
+      );
+
+      // Open work goes back to the pool; finished tasks keep their history
+      await manager.update(
+        Task,
+        {
+          assigneeId: id,
+          status: Not(In([TaskStatus.DONE, TaskStatus.CANCELLED])),
+        },
+        { assigneeId: null },
+      );
+
+      if (purgeUploads !== UploadPurgePolicy.NONE) {
+        const attachments = await manager.find(Attachment, {
+          where: {
+            uploadedById: id,
+            ...(purgeUploads === UploadPurgePolicy.MESSAGES
+              ? { messageId: Not(IsNull()) }
+              : {}),
+          },
+          select: ['id', 'filePath'],
+        });
+        if (attachments.length) {
+          purgedFiles.push(
+            ...attachments.map((attachment) => attachment.filePath),
+          );
+          await manager.delete(Attachment, {
+            id: In(attachments.map((attachment) => attachment.id)),
+          });
+        }
+      }
+
+      for (const table of ['project_members', 'channel_members']) {
+        await manager
+          .createQueryBuilder()
+          .delete()
+          .from(table)
+          .where('userId = :id', { id })
+          .execute();
+      }
+      for (const entity of [
+        WorkspaceMember,
+        AuthSession,
+        PersonalAccessToken,
+        UserActionToken,
+        TwoFactorRecoveryCode,
+        UserPresence,
+        Notification,
+        MessageReadReceipt,
+      ]) {
+        await manager.delete(entity, { userId: id });
+      }
+
+      await manager.update(User, id, {
+        email: `deleted-${id}@deleted.invalid`,
+        firstName: 'Deleted',
+        lastName: 'user',
+        password: tombstonePassword,
+        status: UserStatus.INACTIVE,
+        phoneNumber: null,
+        department: null,
+        position: null,
+        workingHours: null,
+        avatarUrl: null,
+        guestExpiresAt: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+        oidcSubject: null,
+        scimExternalId: null,
+        deletedAt: new Date(),
+        tokenVersion: () => 'tokenVersion + 1',
+      });
+    });
+
+    this.chatGateway.disconnectUser(id);
+    await Promise.all(
+      purgedFiles.map((filePath) => fs.rm(filePath, { force: true })),
+    );
+    await this.avatarService.deleteFiles(id);
+    await this.dataExportsService.deleteForUser(id);
+    await this.auditLogsService.record({
+      action: AuditAction.USER_DELETED,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before: { email: user.email, role: user.role, status: user.status },
+      after: {
+        anonymized: true,
+        successorId: successor?.id ?? null,
+        transferredProjects: ownedProjects.length,
+        transferredWorkspaces: ownedWorkspaces.length,
+        purgeUploads,
+        purgedAttachments: purgedFiles.length,
+      },
+    });
   }
 
   async searchUsers(query: string): Promise<User[]> {
     return await this.userRepository
       .createQueryBuilder('user')
       .where(
-        'LOWER([user].[firstName]) LIKE LOWER(:query) OR LOWER([user].[lastName]) LIKE LOWER(:query) OR LOWER([user].[email]) LIKE LOWER(:query)',
-        { query: `%${query}%` },
+        '[user].[role] <> :guestRole AND [user].[deletedAt] IS NULL AND (LOWER([user].[firstName]) LIKE LOWER(:query) OR LOWER([user].[lastName]) LIKE LOWER(:query) OR LOWER([user].[email]) LIKE LOWER(:query))',
+        { query: `%${query}%`, guestRole: UserRole.GUEST },
       )
-      .select(['user.id', 'user.email', 'user.firstName', 'user.lastName'])
+      .select([
+        'user.id',
+        'user.email',
+        'user.firstName',
+        'user.lastName',
+        'user.avatarUrl',
+      ])
       .getMany();
   }
 }
@@ -0,0 +1,49 @@
+import {
+  formatLocalTime,
+  getNextWorkingTime,
+  isWithinWorkingHours,
+} from './working-hours';
+
+describe('working hours', () => {
+  const weekdays = [1, 2, 3, 4, 5].map((day) => ({
+    day,
+    start: '09:00',
+    end: '17:00',
+  }));
+  const berliner = { timezone: 'Europe/Berlin', workingHours: weekdays };
+
+  it('checks working hours in the user timezone', () => {
+    // Monday 08:30 UTC is 09:30 in Berlin
+    expect(
+      isWithinWorkingHours(berliner, new Date('2026-03-02T08:30:00Z')),
+    ).toBe(true);
+    expect(
+      isWithinWorkingHours(berliner, new Date('2026-03-02T07:30:00Z')),
+    ).toBe(false);
+  });
+
+  it('treats users without working hours as always reachable', () => {
+    const user = { timezone: 'Europe/Berlin', workingHours: null };
+
+    expect(isWithinWorkingHours(user, new Date('2026-03-01T03:00:00Z'))).toBe(
+      true,
+    );
+    expect(getNextWorkingTime(user)).toBeNull();
+  });
+
+  it('finds the next working period after a weekend and a DST change', () => {
+    // Friday evening in Berlin; clocks move forward on Sunday 29 March
+    const next = getNextWorkingTime(berliner, new Date('2026-03-27T17:00:00Z'));
+
+    expect(next?.toISOString()).toBe('2026-03-30T07:00:00.000Z');
+  });
+
+  it('formats the local time with its UTC offset', () => {
+    expect(
+      formatLocalTime(new Date('2026-03-02T08:30:00Z'), 'America/New_York'),
+    ).toBe('2026-03-02T03:30:00-05:00');
+    expect(formatLocalTime(new Date('2026-03-02T08:30:00Z'), null)).toBe(
+      '2026-03-02T08:30:00+00:00',
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { User } from '../entities';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+type UserSchedule = Pick<User, 'timezone' | 'workingHours'>;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const resolveTimeZone = (timeZone?: string | null): string => {
+  if (!timeZone) {
+    return DEFAULT_TIMEZONE;
+  }
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+};
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+const getUtcOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return Math.round(
+    (wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60_000,
+  );
+};
+
+// Converts a wall-clock time in the given zone to the matching instant
+const fromZonedTime = (
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string,
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getUtcOffsetMinutes(new Date(wallClock), timeZone);
+  const instant = wallClock - offset * 60_000;
+  const correctedOffset = getUtcOffsetMinutes(new Date(instant), timeZone);
+
+  return new Date(wallClock - correctedOffset * 60_000);
+};
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinWorkingHours = (
+  user: UserSchedule,
+  date: Date = new Date(),
+): boolean => {
+  if (!user.workingHours?.length) {
+    return true;
+  }
+
+  const local = getZonedParts(date, resolveTimeZone(user.timezone));
+  const minutes = local.hour * 60 + local.minute;
+
+  return user.workingHours.some(
+    (interval) =>
+      interval.day === local.weekday &&
+      minutes >= toMinutes(interval.start) &&
+      minutes < toMinutes(interval.end),
+  );
+};
+
+/**
+ * Start of the next working period, or null when the user is working right
+ * now or has no working hours configured.
+ */
+export const getNextWorkingTime = (
+  user: UserSchedule,
+  from: Date = new Date(),
+): Date | null => {
+  if (!user.workingHours?.length || isWithinWorkingHours(user, from)) {
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(user.timezone);
+  const local = getZonedParts(from, timeZone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = (local.weekday + offset) % 7;
+    const starts = user.workingHours
+      .filter((interval) => interval.day === weekday)
+      .map((interval) => toMinutes(interval.start))
+      .sort((a, b) => a - b);
+
+    for (const start of starts) {
+      const candidate = fromZonedTime(
+        local.year,
+        local.month,
+        local.day + offset,
+        start,
+        timeZone,
+      );
+      if (candidate > from) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+};
+
+// ISO 8601 wall-clock time with the UTC offset, e.g. 2026-03-02T09:30:00+01:00
+export const formatLocalTime = (
+  date: Date,
+  timeZone?: string | null,
+): string => {
+  const zone = resolveTimeZone(timeZone);
+  const parts = getZonedParts(date, zone);
+  const offset = getUtcOffsetMinutes(date, zone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+// Human readable date and time in the user's own language and timezone
+export const formatForUser = (
+  date: Date,
+  user: Pick<User, 'timezone' | 'locale'>,
+): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    timeZone: resolveTimeZone(user.timezone),
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  };
+
+  try {
+    return date.toLocaleString(user.locale || DEFAULT_LOCALE, options);
+  } catch {
+    return date.toLocaleString(DEFAULT_LOCALE, options);
+  }
+};
@@ -0,0 +1,224 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { WorkspaceAnalyticsService } from './workspace-analytics.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { WorkspaceAnalyticsReport } from '../dto/workspace-analytics.dto';
+import { UserRole, WorkspaceRole } from '../entities';
+
+describe('WorkspaceAnalyticsService', () => {
+  const buildService = () => {
+    // Every aggregate shares one chainable query builder; results are queued
+    // in the order the queries run
+    const queryBuilder: Record<string, jest.Mock> = {};
+    [
+      'innerJoin',
+      'leftJoin',
+      'where',
+      'andWhere',
+      'select',
+      'addSelect',
+      'groupBy',
+      'addGroupBy',
+      'orderBy',
+      'limit',
+      'from',
+      'subQuery',
+      'setParameters',
+    ].forEach((method) => {
+      queryBuilder[method] = jest.fn(() => queryBuilder);
+    });
+    queryBuilder.getQuery = jest.fn(() => '(SELECT 1)');
+    queryBuilder.getParameters = jest.fn(() => ({}));
+    queryBuilder.getRawMany = jest.fn().mockResolvedValue([]);
+    queryBuilder.getRawOne = jest.fn().mockResolvedValue({ value: null });
+
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn(() => ({
+        createQueryBuilder: () => queryBuilder,
+      })) as unknown as DataSource['getRepository'],
+      createQueryBuilder: jest.fn(
+        () => queryBuilder,
+      ) as unknown as DataSource['createQueryBuilder'],
+    };
+    const workspaceMembersService = { assertRole: jest.fn() };
+
+    const service = new WorkspaceAnalyticsService(
+      dataSource as DataSource,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+    );
+
+    return { service, queryBuilder, workspaceMembersService };
+  };
+
+  it('fills every day of the range and totals the aggregates', async () => {
+    const { service, queryBuilder, workspaceMembersService } = buildService();
+    queryBuilder.getRawMany
+      // messages, tasks created, tasks completed
+      .mockResolvedValueOnce([{ day: '2026-03-02', value: 4 }])
+      .mockResolvedValueOnce([{ day: '2026-03-01', value: '2' }])
+      .mockResolvedValueOnce([{ day: '2026-03-03', value: 1 }])
+      // call seconds, uploaded bytes
+      .mockResolvedValueOnce([
+        { day: '2026-03-01', value: '150' },
+        { day: '2026-03-02', value: '60' },
+      ])
+      .mockResolvedValueOnce([{ day: '2026-03-02', value: '2048' }])
+      // active users per day
+      .mockResolvedValueOnce([{ day: '2026-03-02', value: 3 }])
+      // top and inactive channels
+      .mockResolvedValueOnce([
+        {
+          channelId: 'channel-1',
+          name: 'general',
+          messages: 4,
+          activeUsers: 3,
+          lastMessageAt: '2026-03-02T10:00:00.000Z',
+        },
+      ])
+      .mockResolvedValueOnce([
+        {
+          channelId: 'channel-2',
+          name: 'releases',
+          messages: null,
+          activeUsers: null,
+          lastMessageAt: null,
+        },
+      ]);
+    queryBuilder.getRawOne
+      .mockResolvedValueOnce({ value: 4 })
+      .mockResolvedValueOnce({ value: '1048576' });
+
+    const analytics = await service.getAnalytics(
+      'workspace-1',
+      { from: '2026-03-01', to: '2026-03-03' },
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+    );
+
+    expect(workspaceMembersService.assertRole).toHaveBeenCalledWith(
+      'workspace-1',
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+      WorkspaceRole.OWNER,
+      expect.any(String),
+    );
+    expect(analytics.from).toBe('2026-03-01');
+    expect(analytics.to).toBe('2026-03-03');
+    expect(analytics.daily).toEqual([
+      {
+        date: '2026-03-01',
+        messages: 0,
+        activeUsers: 0,
+        tasksCreated: 2,
+        tasksCompleted: 0,
+        callMinutes: 3,
+        uploadedBytes: 0,
+      },
+      {
+        date: '2026-03-02',
+        messages: 4,
+        activeUsers: 3,
+        tasksCreated: 0,
+        tasksCompleted: 0,
+        callMinutes: 1,
+        uploadedBytes: 2048,
+      },
+      {
+        date: '2026-03-03',
+        messages: 0,
+        activeUsers: 0,
+        tasksCreated: 0,
+        tasksCompleted: 1,
+        callMinutes: 0,
+        uploadedBytes: 0,
+      },
+    ]);
+    expect(analytics.totals).toEqual({
+      messages: 4,
+      activeUsers: 4,
+      tasksCreated: 2,
+      tasksCompleted: 1,
+      callMinutes: 4,
+      storageBytes: 1048576,
+    });
+    expect(analytics.topChannels[0].lastMessageAt).toEqual(
+      new Date('2026-03-02T10:00:00.000Z'),
+    );
+    expect(analytics.inactiveChannels).toEqual([
+      {
+        channelId: 'channel-2',
+        name: 'releases',
+        messages: 0,
+        activeUsers: 0,
+        lastMessageAt: null,
+      },
+    ]);
+  });
+
+  it('rejects reversed or overly long ranges', async () => {
+    const { service, queryBuilder } = buildService();
+
+    await expect(
+      service.getAnalytics(
+        'workspace-1',
+        { from: '2026-03-05', to: '2026-03-01' },
+        'owner-1',
+        UserRole.ADMIN,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.getAnalytics(
+        'workspace-1',
+        { from: '2025-01-01', to: '2026-03-01' },
+        'owner-1',
+        UserRole.ADMIN,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(queryBuilder.getRawMany).not.toHaveBeenCalled();
+  });
+
+  it('exports the daily series or the channel report as CSV', async () => {
+    const { service, queryBuilder } = buildService();
+
+    const daily = await service.exportCsv(
+      'workspace-1',
+      { from: '2026-03-01', to: '2026-03-02' },
+      'owner-1',
+      UserRole.ADMIN,
+    );
+    expect(daily).toBe(
+      'date,messages,activeUsers,tasksCreated,tasksCompleted,callMinutes,uploadedBytes\r\n' +
+        '2026-03-01,0,0,0,0,0,0\r\n' +
+        '2026-03-02,0,0,0,0,0,0\r\n',
+    );
+
+    // Six daily aggregates come before the top channels
+    queryBuilder.getRawMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          channelId: 'channel-1',
+          name: '=HYPERLINK("x")',
+          messages: 2,
+          activeUsers: 1,
+          lastMessageAt: null,
+        },
+      ]);
+
+    const channels = await service.exportCsv(
+      'workspace-1',
+      { report: WorkspaceAnalyticsReport.CHANNELS },
+      'owner-1',
+      UserRole.ADMIN,
+    );
+    expect(channels).toBe(
+      'channelId,name,messages,activeUsers,lastMessageAt\r\n' +
+        `channel-1,"'=HYPERLINK(""x"")",2,1,\r\n`,
+    );
+  });
+});
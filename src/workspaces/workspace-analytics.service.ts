@@ -0,0 +1,493 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { DataSource, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import {
+  Attachment,
+  CallParticipant,
+  Channel,
+  ChannelType,
+  Message,
+  ParticipantStatus,
+  Project,
+  Task,
+  UserRole,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../entities';
+import { MessageType } from '../entities/message.entity';
+import {
+  WorkspaceAnalyticsChannelDto,
+  WorkspaceAnalyticsDayDto,
+  WorkspaceAnalyticsDto,
+  WorkspaceAnalyticsExportQueryDto,
+  WorkspaceAnalyticsQueryDto,
+  WorkspaceAnalyticsReport,
+} from '../dto/workspace-analytics.dto';
+import { toCsvCell } from '../audit/audit-logs.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const TOP_CHANNEL_LIMIT = 10;
+
+const DAILY_CSV_COLUMNS: (keyof WorkspaceAnalyticsDayDto)[] = [
+  'date',
+  'messages',
+  'activeUsers',
+  'tasksCreated',
+  'tasksCompleted',
+  'callMinutes',
+  'uploadedBytes',
+];
+
+const CHANNEL_CSV_COLUMNS: (keyof WorkspaceAnalyticsChannelDto)[] = [
+  'channelId',
+  'name',
+  'messages',
+  'activeUsers',
+  'lastMessageAt',
+];
+
+// Days are bucketed in UTC as yyyy-mm-dd
+const utcDay = (column: string) => `CONVERT(varchar(10), ${column}, 23)`;
+
+interface AnalyticsRange {
+  workspaceId: string;
+  from: Date;
+  // Exclusive: midnight after the last day of the range
+  to: Date;
+  now: Date;
+}
+
+interface DailyRow {
+  day: string;
+  value: string | number | null;
+}
+
+interface ChannelRow {
+  channelId: string;
+  name: string;
+  messages: string | number | null;
+  activeUsers: string | number | null;
+  lastMessageAt: Date | null;
+}
+
+@Injectable()
+export class WorkspaceAnalyticsService {
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {}
+
+  /**
+   * Aggregates workspace activity per UTC day. Everything is counted in the
+   * database; no messages, tasks or files are loaded.
+   */
+  async getAnalytics(
+    workspaceId: string,
+    query: WorkspaceAnalyticsQueryDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceAnalyticsDto> {
+    await this.workspaceMembersService.assertRole(
+      workspaceId,
+      userId,
+      userRole,
+      WorkspaceRole.OWNER,
+      'Only workspace owners can view analytics',
+    );
+    const range = this.resolveRange(workspaceId, query);
+
+    const [
+      messages,
+      tasksCreated,
+      tasksCompleted,
+      callSeconds,
+      uploadedBytes,
+      activeUsers,
+      totalActiveUsers,
+      storageBytes,
+      topChannels,
+      inactiveChannels,
+    ] = await Promise.all([
+      this.countPerDay(this.messagesQuery(range), 'message.createdAt'),
+      this.countPerDay(this.tasksQuery(range, 'createdAt'), 'task.createdAt'),
+      this.countPerDay(
+        this.tasksQuery(range, 'completedAt'),
+        'task.completedAt',
+      ),
+      this.sumPerDay(
+        this.callsQuery(range),
+        'participant.joinedAt',
+        `DATEDIFF(SECOND, participant.joinedAt, COALESCE(participant.leftAt, call.endedAt, :now))`,
+      ),
+      this.sumPerDay(
+        this.attachmentsQuery(range).andWhere(
+          'attachment.uploadedAt >= :from AND attachment.uploadedAt < :to',
+        ),
+        'attachment.uploadedAt',
+        'attachment.fileSize',
+      ),
+      this.activeUsersPerDay(range),
+      this.countActiveUsers(range),
+      this.attachmentsQuery(range)
+        .select('SUM(attachment.fileSize)', 'value')
+        .getRawOne<{ value: string | number | null }>(),
+      this.topChannels(range),
+      this.inactiveChannels(range),
+    ]);
+
+    const daily: WorkspaceAnalyticsDayDto[] = this.days(range).map((date) => ({
+      date,
+      messages: messages.get(date) ?? 0,
+      activeUsers: activeUsers.get(date) ?? 0,
+      tasksCreated: tasksCreated.get(date) ?? 0,
+      tasksCompleted: tasksCompleted.get(date) ?? 0,
+      callMinutes: Math.round((callSeconds.get(date) ?? 0) / 60),
+      uploadedBytes: uploadedBytes.get(date) ?? 0,
+    }));
+    const sum = (key: keyof Omit<WorkspaceAnalyticsDayDto, 'date'>) =>
+      daily.reduce((total, day) => total + day[key], 0);
+
+    return {
+      workspaceId,
+      from: this.formatDay(range.from),
+      to: this.formatDay(new Date(range.to.getTime() - DAY_MS)),
+      totals: {
+        messages: sum('messages'),
+        activeUsers: totalActiveUsers,
+        tasksCreated: sum('tasksCreated'),
+        tasksCompleted: sum('tasksCompleted'),
+        callMinutes: Math.round(
+          [...callSeconds.values()].reduce((total, value) => total + value, 0) /
+            60,
+        ),
+        storageBytes: Number(storageBytes?.value ?? 0),
+      },
+      daily,
+      topChannels,
+      inactiveChannels,
+    };
+  }
+
+  async exportCsv(
+    workspaceId: string,
+    query: WorkspaceAnalyticsExportQueryDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<string> {
+    const analytics = await this.getAnalytics(
+      workspaceId,
+      query,
+      userId,
+      userRole,
+    );
+
+    const rows =
+      query.report === WorkspaceAnalyticsReport.CHANNELS
+        ? [
+            CHANNEL_CSV_COLUMNS.join(','),
+            ...[...analytics.topChannels, ...analytics.inactiveChannels].map(
+              (channel) =>
+                CHANNEL_CSV_COLUMNS.map((column) => {
+                  const value = channel[column];
+                  return toCsvCell(
+                    value instanceof Date
+                      ? value.toISOString()
+                      : value === null
+                        ? null
+                        : String(value),
+                  );
+                }).join(','),
+            ),
+          ]
+        : [
+            DAILY_CSV_COLUMNS.join(','),
+            ...analytics.daily.map((day) =>
+              DAILY_CSV_COLUMNS.map((column) =>
+                toCsvCell(String(day[column])),
+              ).join(','),
+            ),
+          ];
+
+    return `${rows.join('\r\n')}\r\n`;
+  }
+
+  private resolveRange(
+    workspaceId: string,
+    query: WorkspaceAnalyticsQueryDto,
+  ): AnalyticsRange {
+    const now = new Date();
+    const startOfDay = (date: Date) =>
+      new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+      );
+
+    const to = new Date(
+      startOfDay(query.to ? new Date(query.to) : now).getTime() + DAY_MS,
+    );
+    const from = query.from
+      ? startOfDay(new Date(query.from))
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (from >= to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `The range may span at most ${MAX_RANGE_DAYS} days`,
+      );
+    }
+
+    return { workspaceId, from, to, now };
+  }
+
+  private days(range: AnalyticsRange): string[] {
+    const days: string[] = [];
+    for (
+      let time = range.from.getTime();
+      time < range.to.getTime();
+      time += DAY_MS
+    ) {
+      days.push(this.formatDay(new Date(time)));
+    }
+    return days;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private messagesQuery(range: AnalyticsRange): SelectQueryBuilder<Message> {
+    return this.dataSource
+      .getRepository(Message)
+      .createQueryBuilder('message')
+      .innerJoin('message.channel', 'channel')
+      .where('channel.workspaceId = :workspaceId', range)
+      .andWhere('message.createdAt >= :from AND message.createdAt < :to', range)
+      .andWhere('message.type != :systemType', {
+        systemType: MessageType.SYSTEM,
+      });
+  }
+
+  private tasksQuery(
+    range: AnalyticsRange,
+    column: 'createdAt' | 'completedAt',
+  ): SelectQueryBuilder<Task> {
+    return this.dataSource
+      .getRepository(Task)
+      .createQueryBuilder('task')
+      .innerJoin('task.project', 'project')
+      .where('project.workspaceId = :workspaceId', range)
+      .andWhere(`task.${column} >= :from AND task.${column} < :to`, range);
+  }
+
+  // Calls are not tied to a workspace, so count the time its members spent
+  private callsQuery(
+    range: AnalyticsRange,
+  ): SelectQueryBuilder<CallParticipant> {
+    return this.dataSource
+      .getRepository(CallParticipant)
+      .createQueryBuilder('participant')
+      .innerJoin('participant.call', 'call')
+      .where((qb) => {
+        const members = qb
+          .subQuery()
+          .select('member.userId')
+          .from(WorkspaceMember, 'member')
+          .where('member.workspaceId = :workspaceId')
+          .getQuery();
+        return `participant.userId IN ${members}`;
+      })
+      .andWhere('participant.status != :invited', {
+        invited: ParticipantStatus.INVITED,
+      })
+      .andWhere(
+        'participant.joinedAt >= :from AND participant.joinedAt < :to',
+        range,
+      );
+  }
+
+  // Files belong to the workspace through a message, task or project
+  private attachmentsQuery(
+    range: AnalyticsRange,
+  ): SelectQueryBuilder<Attachment> {
+    return this.dataSource
+      .getRepository(Attachment)
+      .createQueryBuilder('attachment')
+      .leftJoin('attachment.message', 'message')
+      .leftJoin('message.channel', 'channel')
+      .leftJoin('attachment.task', 'task')
+      .leftJoin(
+        Project,
+        'project',
+        'project.id = COALESCE(attachment.projectId, task.projectId)',
+      )
+      .where(
+        '(channel.workspaceId = :workspaceId OR project.workspaceId = :workspaceId)',
+        range,
+      );
+  }
+
+  private async countPerDay<T extends object>(
+    query: SelectQueryBuilder<T>,
+    column: string,
+  ): Promise<Map<string, number>> {
+    return this.toDayMap(
+      await query
+        .select(utcDay(column), 'day')
+        .addSelect('COUNT(*)', 'value')
+        .groupBy(utcDay(column))
+        .getRawMany<DailyRow>(),
+    );
+  }
+
+  private async sumPerDay<T extends object>(
+    query: SelectQueryBuilder<T>,
+    column: string,
+    expression: string,
+  ): Promise<Map<string, number>> {
+    return this.toDayMap(
+      await query
+        .select(utcDay(column), 'day')
+        .addSelect(`SUM(${expression})`, 'value')
+        .groupBy(utcDay(column))
+        .getRawMany<DailyRow>(),
+    );
+  }
+
+  /**
+   * Users count as active on a day when they posted, created or completed a
+   * task, or joined a call. The sources are combined with UNION in SQL.
+   */
+  private activityQuery(range: AnalyticsRange): SelectQueryBuilder<object> {
+    const sources = [
+      this.messagesQuery(range)
+        .select(utcDay('message.createdAt'), 'day')
+        .addSelect('message.authorId', 'userId'),
+      this.tasksQuery(range, 'createdAt')
+        .select(utcDay('task.createdAt'), 'day')
+        .addSelect('task.creatorId', 'userId'),
+      this.tasksQuery(range, 'completedAt')
+        .select(utcDay('task.completedAt'), 'day')
+        .addSelect('task.assigneeId', 'userId')
+        .andWhere('task.assigneeId IS NOT NULL'),
+      this.callsQuery(range)
+        .select(utcDay('participant.joinedAt'), 'day')
+        .addSelect('participant.userId', 'userId'),
+    ];
+
+    return this.dataSource
+      .createQueryBuilder()
+      .from(
+        `(${sources.map((source) => source.getQuery()).join(' UNION ')})`,
+        'activity',
+      )
+      .setParameters(
+        sources.reduce<ObjectLiteral>(
+          (parameters, source) => ({
+            ...parameters,
+            ...source.getParameters(),
+          }),
+          {},
+        ),
+      );
+  }
+
+  private async activeUsersPerDay(
+    range: AnalyticsRange,
+  ): Promise<Map<string, number>> {
+    return this.toDayMap(
+      await this.activityQuery(range)
+        .select('activity.day', 'day')
+        .addSelect('COUNT(DISTINCT activity.userId)', 'value')
+        .groupBy('activity.day')
+        .getRawMany<DailyRow>(),
+    );
+  }
+
+  private async countActiveUsers(range: AnalyticsRange): Promise<number> {
+    const result = await this.activityQuery(range)
+      .select('COUNT(DISTINCT activity.userId)', 'value')
+      .getRawOne<{ value: string | number | null }>();
+    return Number(result?.value ?? 0);
+  }
+
+  private async topChannels(
+    range: AnalyticsRange,
+  ): Promise<WorkspaceAnalyticsChannelDto[]> {
+    const rows = await this.messagesQuery(range)
+      .select('channel.id', 'channelId')
+      .addSelect('channel.name', 'name')
+      .addSelect('COUNT(*)', 'messages')
+      .addSelect('COUNT(DISTINCT message.authorId)', 'activeUsers')
+      .addSelect(
+        (qb) =>
+          qb
+            .subQuery()
+            .select('MAX(latest.createdAt)')
+            .from(Message, 'latest')
+            .where('latest.channelId = channel.id'),
+        'lastMessageAt',
+      )
+      .groupBy('channel.id')
+      .addGroupBy('channel.name')
+      .orderBy('COUNT(*)', 'DESC')
+      .limit(TOP_CHANNEL_LIMIT)
+      .getRawMany<ChannelRow>();
+
+    return rows.map((row) => this.formatChannel(row));
+  }
+
+  private async inactiveChannels(
+    range: AnalyticsRange,
+  ): Promise<WorkspaceAnalyticsChannelDto[]> {
+    const rows = await this.dataSource
+      .getRepository(Channel)
+      .createQueryBuilder('channel')
+      .select('channel.id', 'channelId')
+      .addSelect('channel.name', 'name')
+      .addSelect(
+        (qb) =>
+          qb
+            .subQuery()
+            .select('MAX(latest.createdAt)')
+            .from(Message, 'latest')
+            .where('latest.channelId = channel.id'),
+        'lastMessageAt',
+      )
+      .where('channel.workspaceId = :workspaceId', range)
+      .andWhere('channel.type = :type', { type: ChannelType.TEXT })
+      .andWhere('channel.isArchived = :isArchived', { isArchived: false })
+      .andWhere((qb) => {
+        const recent = qb
+          .subQuery()
+          .select('1')
+          .from(Message, 'recent')
+          .where('recent.channelId = channel.id')
+          .andWhere('recent.createdAt >= :from AND recent.createdAt < :to')
+          .getQuery();
+        return `NOT EXISTS ${recent}`;
+      })
+      .setParameters({ from: range.from, to: range.to })
+      .orderBy('channel.name', 'ASC')
+      .getRawMany<ChannelRow>();
+
+    return rows.map((row) => this.formatChannel(row));
+  }
+
+  private formatChannel(row: ChannelRow): WorkspaceAnalyticsChannelDto {
+    return {
+      channelId: row.channelId,
+      name: row.name,
+      messages: Number(row.messages ?? 0),
+      activeUsers: Number(row.activeUsers ?? 0),
+      lastMessageAt: row.lastMessageAt ? new Date(row.lastMessageAt) : null,
+    };
+  }
+
+  private toDayMap(rows: DailyRow[]): Map<string, number> {
+    return new Map(rows.map((row) => [row.day, Number(row.value ?? 0)]));
+  }
+}
@@ -0,0 +1,228 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { WorkspaceDirectoryService } from './workspace-directory.service';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { NotificationService } from '../notifications/notification.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  AuditAction,
+  UserRole,
+  Workspace,
+  WorkspaceJoinPolicy,
+  WorkspaceJoinRequest,
+  WorkspaceJoinRequestStatus,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceType,
+} from '../entities';
+
+describe('WorkspaceDirectoryService', () => {
+  const requester = {
+    id: 'user-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.com',
+  };
+
+  const buildService = () => {
+    const workspaceRepository = { findOne: jest.fn() };
+    const memberRepository = { find: jest.fn() };
+    const joinRequestRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      findOneOrFail: jest.fn().mockResolvedValue({
+        id: 'request-1',
+        workspaceId: 'workspace-1',
+        userId: requester.id,
+        user: requester,
+        workspace: { id: 'workspace-1', name: 'Design Guild' },
+        message: null,
+        status: WorkspaceJoinRequestStatus.PENDING,
+      }),
+      create: jest.fn((data: Partial<WorkspaceJoinRequest>) => data),
+      save: jest.fn((data: Partial<WorkspaceJoinRequest>) =>
+        Promise.resolve({ id: 'request-1', ...data }),
+      ),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    const repositories = new Map<unknown, unknown>([
+      [Workspace, workspaceRepository],
+      [WorkspaceMember, memberRepository],
+      [WorkspaceJoinRequest, joinRequestRepository],
+    ]);
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn((entity) =>
+        repositories.get(entity),
+      ) as unknown as DataSource['getRepository'],
+    };
+    const workspaceService = { joinWithRole: jest.fn() };
+    const workspaceMembersService = {
+      getEffectiveRole: jest.fn().mockResolvedValue(null),
+      getMemberIds: jest.fn().mockResolvedValue(['owner-1', 'admin-1']),
+      assertRole: jest.fn(),
+      assertWritable: jest.fn(),
+    };
+    const notificationService = {
+      createWorkspaceJoinRequestedNotification: jest.fn(),
+      createWorkspaceJoinRequestReviewedNotification: jest.fn(),
+    };
+    const auditLogsService = { record: jest.fn() };
+
+    const service = new WorkspaceDirectoryService(
+      dataSource as DataSource,
+      workspaceService as unknown as WorkspaceService,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+      notificationService as unknown as NotificationService,
+      auditLogsService as unknown as AuditLogsService,
+    );
+
+    return {
+      service,
+      workspaceRepository,
+      joinRequestRepository,
+      workspaceService,
+      workspaceMembersService,
+      notificationService,
+      auditLogsService,
+    };
+  };
+
+  it('adds the user straight away when the community is open', async () => {
+    const { service, workspaceRepository, joinRequestRepository, ...deps } =
+      buildService();
+    workspaceRepository.findOne.mockResolvedValue({
+      id: 'workspace-1',
+      type: WorkspaceType.COMMUNITY,
+      joinPolicy: WorkspaceJoinPolicy.OPEN,
+      archivedAt: null,
+    });
+
+    const result = await service.join(
+      'workspace-1',
+      {},
+      requester.id,
+      UserRole.TEAM_MEMBER,
+    );
+
+    expect(result).toEqual({ workspaceId: 'workspace-1', joined: true });
+    expect(deps.workspaceService.joinWithRole).toHaveBeenCalledWith(
+      'workspace-1',
+      requester.id,
+      WorkspaceRole.MEMBER,
+    );
+    expect(joinRequestRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('queues a request and notifies owners and admins', async () => {
+    const { service, workspaceRepository, joinRequestRepository, ...deps } =
+      buildService();
+    workspaceRepository.findOne.mockResolvedValue({
+      id: 'workspace-1',
+      name: 'Design Guild',
+      type: WorkspaceType.COMMUNITY,
+      joinPolicy: WorkspaceJoinPolicy.REQUEST,
+      archivedAt: null,
+    });
+
+    const result = await service.join(
+      'workspace-1',
+      { message: '  Hello!  ' },
+      requester.id,
+      UserRole.TEAM_MEMBER,
+    );
+
+    expect(result.joined).toBe(false);
+    expect(joinRequestRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'Hello!',
+        status: WorkspaceJoinRequestStatus.PENDING,
+      }),
+    );
+    expect(deps.workspaceService.joinWithRole).not.toHaveBeenCalled();
+    expect(deps.workspaceMembersService.getMemberIds).toHaveBeenCalledWith(
+      'workspace-1',
+      WorkspaceRole.ADMIN,
+    );
+    expect(
+      deps.notificationService.createWorkspaceJoinRequestedNotification.mock.calls.map(
+        (call: unknown[]) => call[3],
+      ),
+    ).toEqual(['owner-1', 'admin-1']);
+
+    joinRequestRepository.findOne.mockResolvedValue({ id: 'request-1' });
+    await expect(
+      service.join('workspace-1', {}, requester.id, UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('approves a pending request only once', async () => {
+    const { service, joinRequestRepository, ...deps } = buildService();
+
+    const request = await service.approve(
+      'workspace-1',
+      'request-1',
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+    );
+
+    expect(joinRequestRepository.update).toHaveBeenCalledWith(
+      {
+        id: 'request-1',
+        workspaceId: 'workspace-1',
+        status: WorkspaceJoinRequestStatus.PENDING,
+      },
+      expect.objectContaining({
+        status: WorkspaceJoinRequestStatus.APPROVED,
+        reviewedById: 'owner-1',
+      }),
+    );
+    expect(deps.workspaceService.joinWithRole).toHaveBeenCalledWith(
+      'workspace-1',
+      requester.id,
+      WorkspaceRole.MEMBER,
+    );
+    expect(deps.auditLogsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.WORKSPACE_JOIN_REQUEST_APPROVED,
+        actorId: 'owner-1',
+      }),
+    );
+    expect(
+      deps.notificationService.createWorkspaceJoinRequestReviewedNotification,
+    ).toHaveBeenCalledWith('workspace-1', 'Design Guild', true, requester.id);
+    expect(request.user.email).toBe(requester.email);
+
+    joinRequestRepository.update.mockResolvedValue({ affected: 0 });
+    await expect(
+      service.deny('workspace-1', 'request-1', 'admin-1', UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('puts the request back in review when joining fails', async () => {
+    const { service, joinRequestRepository, ...deps } = buildService();
+    deps.workspaceService.joinWithRole.mockRejectedValueOnce(
+      new BadRequestException('User has not verified their email address yet'),
+    );
+
+    await expect(
+      service.approve(
+        'workspace-1',
+        'request-1',
+        'owner-1',
+        UserRole.TEAM_MEMBER,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(joinRequestRepository.update).toHaveBeenLastCalledWith(
+      { id: 'request-1', status: WorkspaceJoinRequestStatus.APPROVED },
+      {
+        status: WorkspaceJoinRequestStatus.PENDING,
+        reviewedById: null,
+        reviewedAt: null,
+      },
+    );
+    expect(deps.auditLogsService.record).not.toHaveBeenCalled();
+    expect(
+      deps.notificationService.createWorkspaceJoinRequestReviewedNotification,
+    ).not.toHaveBeenCalled();
+  });
+});
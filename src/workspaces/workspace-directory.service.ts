@@ -0,0 +1,411 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DataSource, In, Repository } from 'typeorm';
+import {
+  AuditAction,
+  AuditTargetType,
+  UserRole,
+  Workspace,
+  WorkspaceJoinPolicy,
+  WorkspaceJoinRequest,
+  WorkspaceJoinRequestStatus,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceType,
+} from '../entities';
+import {
+  CreateWorkspaceJoinRequestDto,
+  WorkspaceDirectoryPageDto,
+  WorkspaceDirectoryQueryDto,
+  WorkspaceJoinRequestResponseDto,
+  WorkspaceJoinResultDto,
+} from '../dto/workspace-directory.dto';
+import { NotificationService } from '../notifications/notification.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { WorkspaceService } from './workspace.service';
+import {
+  WorkspaceMembersService,
+  assertWorkspaceWritable,
+} from './workspace-members.service';
+
+@Injectable()
+export class WorkspaceDirectoryService {
+  private readonly logger = new Logger(WorkspaceDirectoryService.name);
+  private workspaceRepository: Repository<Workspace>;
+  private memberRepository: Repository<WorkspaceMember>;
+  private joinRequestRepository: Repository<WorkspaceJoinRequest>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly workspaceService: WorkspaceService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly notificationService: NotificationService,
+    private readonly auditLogsService: AuditLogsService,
+  ) {
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+    this.memberRepository = this.dataSource.getRepository(WorkspaceMember);
+    this.joinRequestRepository =
+      this.dataSource.getRepository(WorkspaceJoinRequest);
+  }
+
+  async findAll(
+    query: WorkspaceDirectoryQueryDto,
+    userId: string,
+  ): Promise<WorkspaceDirectoryPageDto> {
+    const limit = query.limit ?? 20;
+    const queryBuilder = this.workspaceRepository
+      .createQueryBuilder('workspace')
+      .loadRelationCountAndMap('workspace.memberCount', 'workspace.memberships')
+      .where('workspace.type = :type', { type: WorkspaceType.COMMUNITY })
+      .andWhere('workspace.archivedAt IS NULL');
+
+    if (query.q) {
+      queryBuilder.andWhere(
+        '(LOWER(workspace.name) LIKE LOWER(:q) OR LOWER(workspace.description) LIKE LOWER(:q))',
+        { q: `%${query.q}%` },
+      );
+    }
+
+    if (query.cursor) {
+      // Keyset pagination on the name with the id as tie-breaker
+      const cursorName =
+        '(SELECT cursorWorkspace.name FROM workspaces cursorWorkspace WHERE cursorWorkspace.id = :cursor)';
+      queryBuilder.andWhere(
+        `(workspace.name > ${cursorName}
+          OR (workspace.name = ${cursorName} AND workspace.id > :cursor))`,
+        { cursor: query.cursor },
+      );
+    }
+
+    const workspaces = (await queryBuilder
+      .orderBy('workspace.name', 'ASC')
+      .addOrderBy('workspace.id', 'ASC')
+      .take(limit + 1)
+      .getMany()) as Array<Workspace & { memberCount: number }>;
+
+    const hasMore = workspaces.length > limit;
+    if (hasMore) {
+      workspaces.pop();
+    }
+
+    const workspaceIds = workspaces.map((workspace) => workspace.id);
+    const [memberships, pendingRequests] = workspaceIds.length
+      ? await Promise.all([
+          this.memberRepository.find({
+            where: { userId, workspaceId: In(workspaceIds) },
+            select: ['workspaceId'],
+          }),
+          this.joinRequestRepository.find({
+            where: {
+              userId,
+              workspaceId: In(workspaceIds),
+              status: WorkspaceJoinRequestStatus.PENDING,
+            },
+            select: ['workspaceId'],
+          }),
+        ])
+      : [[], []];
+    const memberOf = new Set(
+      memberships.map((membership) => membership.workspaceId),
+    );
+    const pendingFor = new Set(
+      pendingRequests.map((request) => request.workspaceId),
+    );
+
+    return {
+      items: workspaces.map((workspace) => ({
+        id: workspace.id,
+        name: workspace.name,
+        description: workspace.description ?? null,
+        joinPolicy: workspace.joinPolicy,
+        memberCount: workspace.memberCount,
+        createdAt: workspace.createdAt,
+        isMember: workspace.ownerId === userId || memberOf.has(workspace.id),
+        hasPendingRequest: pendingFor.has(workspace.id),
+      })),
+      hasMore,
+      nextCursor: hasMore ? workspaces[workspaces.length - 1].id : undefined,
+    };
+  }
+
+  async join(
+    workspaceId: string,
+    createJoinRequestDto: CreateWorkspaceJoinRequestDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceJoinResultDto> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId, type: WorkspaceType.COMMUNITY },
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+    if (userRole === UserRole.GUEST) {
+      throw new ForbiddenException(
+        'Guests can only join workspaces they are invited to',
+      );
+    }
+    assertWorkspaceWritable(workspace);
+
+    if (
+      await this.workspaceMembersService.getEffectiveRole(workspaceId, userId)
+    ) {
+      throw new BadRequestException('You are already a member');
+    }
+
+    if (workspace.joinPolicy === WorkspaceJoinPolicy.OPEN) {
+      await this.workspaceService.joinWithRole(
+        workspaceId,
+        userId,
+        WorkspaceRole.MEMBER,
+      );
+      return { workspaceId, joined: true };
+    }
+
+    const existingRequest = await this.joinRequestRepository.findOne({
+      where: {
+        workspaceId,
+        userId,
+        status: WorkspaceJoinRequestStatus.PENDING,
+      },
+    });
+    if (existingRequest) {
+      throw new BadRequestException('You already asked to join this workspace');
+    }
+
+    const saved = await this.joinRequestRepository.save(
+      this.joinRequestRepository.create({
+        workspaceId,
+        userId,
+        message: createJoinRequestDto.message?.trim() || null,
+        status: WorkspaceJoinRequestStatus.PENDING,
+      }),
+    );
+
+    const reviewerIds = await this.workspaceMembersService.getMemberIds(
+      workspaceId,
+      WorkspaceRole.ADMIN,
+    );
+    for (const reviewerId of reviewerIds) {
+      try {
+        await this.notificationService.createWorkspaceJoinRequestedNotification(
+          workspaceId,
+          workspace.name,
+          userId,
+          reviewerId,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to notify ${reviewerId} about join request ${saved.id}: ${String(error)}`,
+        );
+      }
+    }
+
+    return {
+      workspaceId,
+      joined: false,
+      request: this.formatJoinRequest(await this.findRequest(saved.id)),
+    };
+  }
+
+  async cancel(workspaceId: string, userId: string): Promise<void> {
+    const result = await this.joinRequestRepository.delete({
+      workspaceId,
+      userId,
+      status: WorkspaceJoinRequestStatus.PENDING,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Join request not found');
+    }
+  }
+
+  async findPending(
+    workspaceId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceJoinRequestResponseDto[]> {
+    await this.workspaceMembersService.assertRole(
+      workspaceId,
+      userId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can review join requests',
+    );
+
+    const requests = await this.joinRequestRepository.find({
+      where: { workspaceId, status: WorkspaceJoinRequestStatus.PENDING },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return requests.map((request) => this.formatJoinRequest(request));
+  }
+
+  async approve(
+    workspaceId: string,
+    requestId: string,
+    reviewerId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceJoinRequestResponseDto> {
+    const request = await this.review(
+      workspaceId,
+      requestId,
+      reviewerId,
+      userRole,
+      WorkspaceJoinRequestStatus.APPROVED,
+    );
+
+    try {
+      await this.workspaceService.joinWithRole(
+        workspaceId,
+        request.userId,
+        WorkspaceRole.MEMBER,
+      );
+    } catch (error) {
+      // Leave the request for another review rather than approved but unjoined
+      await this.joinRequestRepository.update(
+        { id: requestId, status: WorkspaceJoinRequestStatus.APPROVED },
+        {
+          status: WorkspaceJoinRequestStatus.PENDING,
+          reviewedById: null,
+          reviewedAt: null,
+        },
+      );
+      throw error;
+    }
+
+    await this.recordReview(
+      request,
+      reviewerId,
+      WorkspaceJoinRequestStatus.APPROVED,
+    );
+    await this.notifyRequester(request, true);
+
+    return this.formatJoinRequest(request);
+  }
+
+  async deny(
+    workspaceId: string,
+    requestId: string,
+    reviewerId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceJoinRequestResponseDto> {
+    const request = await this.review(
+      workspaceId,
+      requestId,
+      reviewerId,
+      userRole,
+      WorkspaceJoinRequestStatus.DENIED,
+    );
+    await this.recordReview(
+      request,
+      reviewerId,
+      WorkspaceJoinRequestStatus.DENIED,
+    );
+    await this.notifyRequester(request, false);
+
+    return this.formatJoinRequest(request);
+  }
+
+  private async review(
+    workspaceId: string,
+    requestId: string,
+    reviewerId: string,
+    userRole: UserRole,
+    status: WorkspaceJoinRequestStatus,
+  ): Promise<WorkspaceJoinRequest> {
+    await this.workspaceMembersService.assertRole(
+      workspaceId,
+      reviewerId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can review join requests',
+    );
+    await this.workspaceMembersService.assertWritable(workspaceId);
+
+    // Claim the request so two reviewers cannot both act on it
+    const reviewedAt = new Date();
+    const result = await this.joinRequestRepository.update(
+      {
+        id: requestId,
+        workspaceId,
+        status: WorkspaceJoinRequestStatus.PENDING,
+      },
+      { status, reviewedById: reviewerId, reviewedAt },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Join request not found');
+    }
+
+    return await this.findRequest(requestId);
+  }
+
+  private async recordReview(
+    request: WorkspaceJoinRequest,
+    reviewerId: string,
+    status: WorkspaceJoinRequestStatus,
+  ): Promise<void> {
+    await this.auditLogsService.record({
+      action:
+        status === WorkspaceJoinRequestStatus.APPROVED
+          ? AuditAction.WORKSPACE_JOIN_REQUEST_APPROVED
+          : AuditAction.WORKSPACE_JOIN_REQUEST_DENIED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: request.workspaceId,
+      actorId: reviewerId,
+      after: { requestId: request.id, userId: request.userId },
+    });
+  }
+
+  private async notifyRequester(
+    request: WorkspaceJoinRequest,
+    approved: boolean,
+  ): Promise<void> {
+    try {
+      await this.notificationService.createWorkspaceJoinRequestReviewedNotification(
+        request.workspaceId,
+        request.workspace.name,
+        approved,
+        request.userId,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify ${request.userId} about join request ${request.id}: ${String(error)}`,
+      );
+    }
+  }
+
+  private async findRequest(id: string): Promise<WorkspaceJoinRequest> {
+    return await this.joinRequestRepository.findOneOrFail({
+      where: { id },
+      relations: ['user', 'workspace'],
+    });
+  }
+
+  private formatJoinRequest(
+    request: WorkspaceJoinRequest,
+  ): WorkspaceJoinRequestResponseDto {
+    return {
+      id: request.id,
+      workspaceId: request.workspaceId,
+      user: {
+        id: request.user.id,
+        firstName: request.user.firstName,
+        lastName: request.user.lastName,
+        email: request.user.email,
+      },
+      message: request.message,
+      status: request.status,
+      reviewedById: request.reviewedById,
+      reviewedAt: request.reviewedAt,
+      createdAt: request.createdAt,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { WorkspaceInvitationsService } from './workspace-invitations.service';
+import {
+  AcceptedWorkspaceInvitationDto,
+  WorkspaceInvitationPreviewDto,
+} from '../dto/workspace-invitation.dto';
+import { User } from '../entities';
+
+@ApiTags('workspaces')
+@Controller('invitations')
+export class WorkspaceInvitationsController {
+  constructor(
+    private readonly workspaceInvitationsService: WorkspaceInvitationsService,
+  ) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'Show which workspace an invitation is for' })
+  @ApiParam({ name: 'token', description: 'Invitation token' })
+  @ApiResponse({ status: 200, type: WorkspaceInvitationPreviewDto })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  async preview(
+    @Param('token') token: string,
+  ): Promise<WorkspaceInvitationPreviewDto> {
+    return this.workspaceInvitationsService.preview(token);
+  }
+
+  @Post(':token/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Join the workspace an invitation is for' })
+  @ApiParam({ name: 'token', description: 'Invitation token' })
+  @ApiResponse({ status: 201, type: AcceptedWorkspaceInvitationDto })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invitation was sent to a different email address',
+  })
+  async accept(
+    @Param('token') token: string,
+    @CurrentUser() user: User,
+  ): Promise<AcceptedWorkspaceInvitationDto> {
+    return this.workspaceInvitationsService.accept(token, user);
+  }
+}
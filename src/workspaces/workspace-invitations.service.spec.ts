@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { WorkspaceInvitationsService } from './workspace-invitations.service';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import { UserRole, WorkspaceInvitation, WorkspaceRole } from '../entities';
+
+describe('WorkspaceInvitationsService', () => {
+  const invitee = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    isEmailVerified: false,
+  };
+
+  const buildInvitation = (
+    overrides: Partial<WorkspaceInvitation> = {},
+  ): WorkspaceInvitation =>
+    ({
+      id: 'invitation-1',
+      workspaceId: 'workspace-1',
+      workspace: { id: 'workspace-1', name: 'Design Guild' },
+      email: null,
+      role: WorkspaceRole.MEMBER,
+      maxUses: null,
+      useCount: 0,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      ...overrides,
+    }) as WorkspaceInvitation;
+
+  const buildService = () => {
+    const updateQuery = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    const invitationRepository = {
+      findOne: jest.fn().mockResolvedValue(buildInvitation()),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => updateQuery),
+    };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn((entity) =>
+        entity === WorkspaceInvitation ? invitationRepository : {},
+      ) as unknown as DataSource['getRepository'],
+    };
+    const usersService = { markEmailVerified: jest.fn() };
+    const workspaceService = { joinWithRole: jest.fn() };
+    const workspaceMembersService = {
+      assertRole: jest.fn(),
+      assertWritable: jest.fn(),
+      getEffectiveRole: jest.fn().mockResolvedValue(null),
+    };
+
+    const service = new WorkspaceInvitationsService(
+      dataSource as DataSource,
+      { get: jest.fn() } as unknown as ConfigService,
+      {} as MailService,
+      usersService as unknown as UsersService,
+      workspaceService as unknown as WorkspaceService,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+    );
+
+    return {
+      service,
+      invitationRepository,
+      updateQuery,
+      usersService,
+      workspaceService,
+      workspaceMembersService,
+    };
+  };
+
+  it('rejects expired, revoked and used up invitations', async () => {
+    const { service, invitationRepository } = buildService();
+
+    for (const invitation of [
+      buildInvitation({ expiresAt: new Date(Date.now() - 1000) }),
+      buildInvitation({ revokedAt: new Date() }),
+      buildInvitation({ maxUses: 2, useCount: 2 }),
+      null,
+    ]) {
+      invitationRepository.findOne.mockResolvedValueOnce(invitation);
+      await expect(service.findUsable('token')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    }
+  });
+
+  it('only revokes a pending invitation of the workspace', async () => {
+    const { service, invitationRepository, workspaceMembersService } =
+      buildService();
+
+    await service.revoke(
+      'workspace-1',
+      'invitation-1',
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+    );
+    expect(workspaceMembersService.assertRole).toHaveBeenCalledWith(
+      'workspace-1',
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+      WorkspaceRole.ADMIN,
+      expect.any(String),
+    );
+    expect(invitationRepository.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'invitation-1',
+        workspaceId: 'workspace-1',
+      }),
+      { revokedAt: expect.any(Date) },
+    );
+
+    invitationRepository.update.mockResolvedValue({ affected: 0 });
+    await expect(
+      service.revoke(
+        'workspace-1',
+        'invitation-1',
+        'owner-1',
+        UserRole.TEAM_MEMBER,
+      ),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('refuses an emailed invitation for a different address', async () => {
+    const { service, invitationRepository, workspaceService } = buildService();
+    invitationRepository.findOne.mockResolvedValue(
+      buildInvitation({ email: 'grace@example.com', maxUses: 1 }),
+    );
+
+    await expect(service.accept('token', invitee)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      service.claim('token', 'ada@example.com'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(workspaceService.joinWithRole).not.toHaveBeenCalled();
+  });
+
+  it('claims a use before joining and stops at the use limit', async () => {
+    const { service, updateQuery, workspaceService } = buildService();
+
+    await expect(service.accept('token', invitee)).resolves.toEqual({
+      workspaceId: 'workspace-1',
+    });
+    expect(updateQuery.andWhere).toHaveBeenCalledWith(
+      '(maxUses IS NULL OR useCount < maxUses)',
+    );
+    expect(workspaceService.joinWithRole).toHaveBeenCalledWith(
+      'workspace-1',
+      invitee.id,
+      WorkspaceRole.MEMBER,
+    );
+
+    // Another request took the last use between the read and the claim
+    workspaceService.joinWithRole.mockClear();
+    updateQuery.execute.mockResolvedValue({ affected: 0 });
+    await expect(service.accept('token', invitee)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(workspaceService.joinWithRole).not.toHaveBeenCalled();
+  });
+
+  it('claims emailed invitations at registration but not link invitations', async () => {
+    const { service, invitationRepository, updateQuery } = buildService();
+
+    await expect(service.claim('token', invitee.email)).resolves.toBeNull();
+    expect(updateQuery.execute).not.toHaveBeenCalled();
+
+    const emailed = buildInvitation({ email: invitee.email, maxUses: 1 });
+    invitationRepository.findOne.mockResolvedValue(emailed);
+    await expect(service.claim('token', invitee.email)).resolves.toBe(emailed);
+    expect(updateQuery.execute).toHaveBeenCalledTimes(1);
+
+    updateQuery.execute.mockResolvedValue({ affected: 0 });
+    await expect(service.claim('token', invitee.email)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('lets existing members accept without using up the invitation', async () => {
+    const {
+      service,
+      invitationRepository,
+      updateQuery,
+      usersService,
+      workspaceService,
+      workspaceMembersService,
+    } = buildService();
+    invitationRepository.findOne.mockResolvedValue(
+      buildInvitation({ email: invitee.email, maxUses: 1 }),
+    );
+    workspaceMembersService.getEffectiveRole.mockResolvedValue(
+      WorkspaceRole.MEMBER,
+    );
+
+    await expect(service.accept('token', invitee)).resolves.toEqual({
+      workspaceId: 'workspace-1',
+    });
+    expect(updateQuery.execute).not.toHaveBeenCalled();
+    expect(workspaceService.joinWithRole).not.toHaveBeenCalled();
+    expect(usersService.markEmailVerified).toHaveBeenCalledWith(invitee.id);
+  });
+
+  it('verifies the address of an emailed invitee before joining', async () => {
+    const { service, invitationRepository, usersService, workspaceService } =
+      buildService();
+    invitationRepository.findOne.mockResolvedValue(
+      buildInvitation({ email: invitee.email, maxUses: 1 }),
+    );
+
+    await service.accept('token', invitee);
+
+    expect(
+      usersService.markEmailVerified.mock.invocationCallOrder[0],
+    ).toBeLessThan(workspaceService.joinWithRole.mock.invocationCallOrder[0]);
+  });
+});
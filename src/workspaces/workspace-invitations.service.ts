@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import {
+  User,
+  UserRole,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceRole,
+} from '../entities';
+import {
+  AcceptedWorkspaceInvitationDto,
+  CreateWorkspaceInvitationDto,
+  CreatedWorkspaceInvitationDto,
+  WorkspaceInvitationPreviewDto,
+  WorkspaceInvitationResponseDto,
+} from '../dto/workspace-invitation.dto';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import { WorkspaceService } from './workspace.service';
+import {
+  WorkspaceMembersService,
+  hasWorkspaceRole,
+} from './workspace-members.service';
+
+@Injectable()
+export class WorkspaceInvitationsService {
+  private readonly logger = new Logger(WorkspaceInvitationsService.name);
+  private invitationRepository: Repository<WorkspaceInvitation>;
+  private workspaceRepository: Repository<Workspace>;
+  private userRepository: Repository<User>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly configService: ConfigService,
+    private readonly mailService: MailService,
+    private readonly usersService: UsersService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {
+    this.invitationRepository =
+      this.dataSource.getRepository(WorkspaceInvitation);
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+    this.userRepository = this.dataSource.getRepository(User);
+  }
+
+  async create(
+    workspaceId: string,
+    createInvitationDto: CreateWorkspaceInvitationDto,
+    inviterId: string,
+    userRole: UserRole,
+  ): Promise<CreatedWorkspaceInvitationDto> {
+    const role = createInvitationDto.role ?? WorkspaceRole.MEMBER;
+    const inviterRole = await this.workspaceMembersService.assertRole(
+      workspaceId,
+      inviterId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can invite members',
+    );
+    await this.workspaceMembersService.assertWritable(workspaceId);
+    if (
+      hasWorkspaceRole(role, WorkspaceRole.ADMIN) &&
+      !hasWorkspaceRole(inviterRole, WorkspaceRole.OWNER)
+    ) {
+      throw new ForbiddenException('Only workspace owners can invite admins');
+    }
+
+    const email = createInvitationDto.email?.trim().toLowerCase() ?? null;
+    if (email) {
+      const existingUser = await this.usersService.findByEmail(email);
+      if (
+        existingUser &&
+        (await this.workspaceMembersService.getEffectiveRole(
+          workspaceId,
+          existingUser.id,
+        ))
+      ) {
+        throw new BadRequestException('User is already a member');
+      }
+    }
+
+    const ttlHours =
+      createInvitationDto.expiresInHours ??
+      this.configService.get<number>('workspaces.invitationTtlHours', 168);
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        workspaceId,
+        email,
+        tokenHash: this.hashToken(token),
+        role,
+        // Email invitations are personal and therefore single use
+        maxUses: email ? 1 : (createInvitationDto.maxUses ?? null),
+        useCount: 0,
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+        invitedById: inviterId,
+        revokedAt: null,
+      }),
+    );
+
+    const frontendUrl = this.configService.get<string>(
+      'frontendUrl',
+      'http://localhost:3001',
+    );
+    const inviteUrl = `${frontendUrl}/invite?token=${encodeURIComponent(token)}`;
+
+    if (email) {
+      await this.sendInvitationEmail(invitation, inviteUrl);
+    }
+
+    return { ...this.formatInvitation(invitation), token, inviteUrl };
+  }
+
+  async findPending(
+    workspaceId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    await this.workspaceMembersService.assertRole(
+      workspaceId,
+      userId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can view invitations',
+    );
+
+    const invitations = await this.invitationRepository.find({
+      where: {
+        workspaceId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    return invitations
+      .filter((invitation) => this.hasUsesLeft(invitation))
+      .map((invitation) => this.formatInvitation(invitation));
+  }
+
+  async revoke(
+    workspaceId: string,
+    invitationId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<void> {
+    await this.workspaceMembersService.assertRole(
+      workspaceId,
+      userId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can revoke invitations',
+    );
+
+    const result = await this.invitationRepository.update(
+      { id: invitationId, workspaceId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  async preview(token: string): Promise<WorkspaceInvitationPreviewDto> {
+    const invitation = await this.findUsable(token);
+
+    return {
+      workspaceId: invitation.workspaceId,
+      workspaceName: invitation.workspace.name,
+      role: invitation.role,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  async findUsable(token: string): Promise<WorkspaceInvitation> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+      relations: ['workspace'],
+    });
+
+    if (
+      !invitation ||
+      invitation.revokedAt ||
+      invitation.expiresAt.getTime() <= Date.now() ||
+      !this.hasUsesLeft(invitation)
+    ) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  assertEmailMatches(invitation: WorkspaceInvitation, email: string): void {
+    if (invitation.email && invitation.email !== email.trim().toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+  }
+
+  async accept(
+    token: string,
+    user: Pick<User, 'id' | 'email' | 'isEmailVerified'>,
+  ): Promise<AcceptedWorkspaceInvitationDto> {
+    const invitation = await this.findUsable(token);
+    this.assertEmailMatches(invitation, user.email);
+
+    // Following an emailed link proves ownership of the address, which
+    // joining the workspace requires
+    if (invitation.email && !user.isEmailVerified) {
+      await this.usersService.markEmailVerified(user.id);
+    }
+
+    const existingRole = await this.workspaceMembersService.getEffectiveRole(
+      invitation.workspaceId,
+      user.id,
+    );
+    if (!existingRole) {
+      await this.workspaceMembersService.assertWritable(invitation.workspaceId);
+      await this.claimUse(invitation);
+      await this.workspaceService.joinWithRole(
+        invitation.workspaceId,
+        user.id,
+        invitation.role,
+      );
+    }
+
+    return { workspaceId: invitation.workspaceId };
+  }
+
+  /**
+   * Reserves one use of an invitation for an account that is about to be
+   * registered. Follow up with joinClaimed once the account exists, or with
+   * releaseUse when creating it fails. Link invitations are left unclaimed
+   * and return null: the new address must be verified before accepting them.
+   */
+  async claim(
+    token: string,
+    email: string,
+  ): Promise<WorkspaceInvitation | null> {
+    const invitation = await this.findUsable(token);
+    this.assertEmailMatches(invitation, email);
+    if (!invitation.email) {
+      return null;
+    }
+    await this.workspaceMembersService.assertWritable(invitation.workspaceId);
+    await this.claimUse(invitation);
+
+    return invitation;
+  }
+
+  async joinClaimed(
+    invitation: WorkspaceInvitation,
+    userId: string,
+  ): Promise<AcceptedWorkspaceInvitationDto> {
+    await this.workspaceService.joinWithRole(
+      invitation.workspaceId,
+      userId,
+      invitation.role,
+    );
+
+    return { workspaceId: invitation.workspaceId };
+  }
+
+  async releaseUse(invitation: WorkspaceInvitation): Promise<void> {
+    await this.invitationRepository
+      .createQueryBuilder()
+      .update(WorkspaceInvitation)
+      .set({ useCount: () => 'useCount - 1' })
+      .where('id = :id', { id: invitation.id })
+      .andWhere('useCount > 0')
+      .execute();
+  }
+
+  private async claimUse(invitation: WorkspaceInvitation): Promise<void> {
+    const result = await this.invitationRepository
+      .createQueryBuilder()
+      .update(WorkspaceInvitation)
+      .set({ useCount: () => 'useCount + 1' })
+      .where('id = :id', { id: invitation.id })
+      .andWhere('(maxUses IS NULL OR useCount < maxUses)')
+      .execute();
+
+    if (!result.affected) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+  }
+
+  private async sendInvitationEmail(
+    invitation: WorkspaceInvitation,
+    inviteUrl: string,
+  ): Promise<void> {
+    const [workspace, inviter] = await Promise.all([
+      this.workspaceRepository.findOne({
+        where: { id: invitation.workspaceId },
+      }),
+      this.userRepository.findOne({ where: { id: invitation.invitedById } }),
+    ]);
+
+    try {
+      await this.mailService.sendWorkspaceInvitation(
+        invitation.email!,
+        inviter ? `${inviter.firstName} ${inviter.lastName}` : 'A teammate',
+        workspace?.name ?? 'a workspace',
+        inviteUrl,
+        invitation.expiresAt,
+      );
+    } catch (error) {
+      // The link is still returned, so the inviter can share it manually
+      this.logger.warn(
+        `Failed to email invitation ${invitation.id}: ${String(error)}`,
+      );
+    }
+  }
+
+  private hasUsesLeft(invitation: WorkspaceInvitation): boolean {
+    return (
+      invitation.maxUses === null || invitation.useCount < invitation.maxUses
+    );
+  }
+
+  private formatInvitation(
+    invitation: WorkspaceInvitation,
+  ): WorkspaceInvitationResponseDto {
+    return {
+      id: invitation.id,
+      workspaceId: invitation.workspaceId,
+      email: invitation.email,
+      role: invitation.role,
+      maxUses: invitation.maxUses,
+      useCount: invitation.useCount,
+      expiresAt: invitation.expiresAt,
+      invitedById: invitation.invitedById,
+      createdAt: invitation.createdAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,129 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import {
+  WorkspaceMembersService,
+  hasWorkspaceRole,
+} from './workspace-members.service';
+import {
+  UserRole,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../entities';
+
+describe('WorkspaceMembersService', () => {
+  const buildService = () => {
+    const memberRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+    };
+    const workspaceRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+    };
+
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest
+        .fn()
+        .mockImplementation((entity) =>
+          entity === WorkspaceMember ? memberRepository : workspaceRepository,
+        ),
+    };
+
+    const service = new WorkspaceMembersService(dataSource as DataSource);
+
+    return { service, memberRepository, workspaceRepository };
+  };
+
+  const workspace = { id: 'workspace-1', ownerId: 'owner-1' } as Workspace;
+
+  it('ranks workspace roles from guest to owner', () => {
+    expect(hasWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.ADMIN)).toBe(
+      true,
+    );
+    expect(hasWorkspaceRole(WorkspaceRole.MEMBER, WorkspaceRole.ADMIN)).toBe(
+      false,
+    );
+    expect(hasWorkspaceRole(WorkspaceRole.GUEST, WorkspaceRole.GUEST)).toBe(
+      true,
+    );
+    expect(hasWorkspaceRole(null, WorkspaceRole.GUEST)).toBe(false);
+  });
+
+  it('treats the workspace owner and platform admins as owners', async () => {
+    const { service, workspaceRepository, memberRepository } = buildService();
+    workspaceRepository.findOne.mockResolvedValue(workspace);
+
+    await expect(
+      service.getEffectiveRole('workspace-1', 'owner-1', UserRole.TEAM_MEMBER),
+    ).resolves.toBe(WorkspaceRole.OWNER);
+    await expect(
+      service.getEffectiveRole('workspace-1', 'someone', UserRole.ADMIN),
+    ).resolves.toBe(WorkspaceRole.OWNER);
+    expect(memberRepository.findOne).not.toHaveBeenCalled();
+  });
+
+  it('resolves other users from their membership', async () => {
+    const { service, workspaceRepository, memberRepository } = buildService();
+    workspaceRepository.findOne.mockResolvedValue(workspace);
+    memberRepository.findOne
+      .mockResolvedValueOnce({ role: WorkspaceRole.GUEST })
+      .mockResolvedValueOnce(null);
+
+    await expect(
+      service.getEffectiveRole(
+        'workspace-1',
+        'guest-1',
+        UserRole.PROJECT_MANAGER,
+      ),
+    ).resolves.toBe(WorkspaceRole.GUEST);
+    await expect(
+      service.getEffectiveRole('workspace-1', 'stranger', UserRole.TEAM_MEMBER),
+    ).resolves.toBeNull();
+  });
+
+  it('rejects callers below the required role', async () => {
+    const { service, workspaceRepository, memberRepository } = buildService();
+    workspaceRepository.findOne.mockResolvedValue(workspace);
+    memberRepository.findOne.mockResolvedValue({ role: WorkspaceRole.MEMBER });
+
+    await expect(
+      service.assertRole(
+        'workspace-1',
+        'member-1',
+        UserRole.PROJECT_MANAGER,
+        WorkspaceRole.ADMIN,
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('throws when the workspace does not exist', async () => {
+    const { service, workspaceRepository } = buildService();
+    workspaceRepository.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.getEffectiveRole('missing', 'user-1', UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('only lets changes through while the workspace is active', async () => {
+    const { service, workspaceRepository } = buildService();
+
+    workspaceRepository.findOne.mockResolvedValueOnce({
+      id: 'workspace-1',
+      archivedAt: new Date(),
+    });
+    await expect(service.assertWritable('workspace-1')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+
+    // Trashed workspaces are excluded from lookups
+    workspaceRepository.findOne.mockResolvedValueOnce(null);
+    await expect(service.assertWritable('workspace-1')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+
+    await expect(service.assertWritable(null)).resolves.toBeUndefined();
+    expect(workspaceRepository.findOne).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Repository, DataSource, In, IsNull } from 'typeorm';
+import {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  UserRole,
+} from '../entities';
+
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.GUEST]: 0,
+  [WorkspaceRole.MEMBER]: 1,
+  [WorkspaceRole.ADMIN]: 2,
+  [WorkspaceRole.OWNER]: 3,
+};
+
+export const hasWorkspaceRole = (
+  role: WorkspaceRole | null | undefined,
+  minimumRole: WorkspaceRole,
+): boolean =>
+  !!role && WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[minimumRole];
+
+export const assertWorkspaceWritable = (
+  workspace: Pick<Workspace, 'archivedAt'>,
+): void => {
+  if (workspace.archivedAt) {
+    throw new ForbiddenException('Workspace is archived and read-only');
+  }
+};
+
+// SQL condition for queries on channels, projects and tasks: hides rows whose
+// workspace is in the trash and keeps rows without a workspace
+export const notInTrashedWorkspace = (workspaceIdColumn: string): string =>
+  `NOT EXISTS (SELECT 1 FROM workspaces trashedWorkspace WHERE trashedWorkspace.id = ${workspaceIdColumn} AND trashedWorkspace.deletedAt IS NOT NULL)`;
+
+@Injectable()
+export class WorkspaceMembersService {
+  private memberRepository: Repository<WorkspaceMember>;
+  private workspaceRepository: Repository<Workspace>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+  ) {
+    this.memberRepository = this.dataSource.getRepository(WorkspaceMember);
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+  }
+
+  /**
+   * Resolves the caller's role inside a workspace. Platform admins act as
+   * owners everywhere; the workspace's ownerId always maps to OWNER.
+   */
+  async getEffectiveRole(
+    workspaceId: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<WorkspaceRole | null> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: ['id', 'ownerId'],
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    if (userRole === UserRole.ADMIN || workspace.ownerId === userId) {
+      return WorkspaceRole.OWNER;
+    }
+
+    const membership = await this.memberRepository.findOne({
+      where: { workspaceId, userId },
+    });
+    return membership?.role ?? null;
+  }
+
+  async assertRole(
+    workspaceId: string,
+    userId: string,
+    userRole: UserRole,
+    minimumRole: WorkspaceRole,
+    message = 'Insufficient workspace permissions',
+  ): Promise<WorkspaceRole> {
+    const role = await this.getEffectiveRole(workspaceId, userId, userRole);
+    if (!role || !hasWorkspaceRole(role, minimumRole)) {
+      throw new ForbiddenException(message);
+    }
+    return role;
+  }
+
+  /**
+   * Rejects changes to archived workspaces; trashed ones are not found at
+   * all. Projects and conversations outside any workspace always pass.
+   */
+  async assertWritable(workspaceId: string | null | undefined): Promise<void> {
+    if (!workspaceId) {
+      return;
+    }
+
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: ['id', 'archivedAt'],
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    assertWorkspaceWritable(workspace);
+  }
+
+  async findWorkspaceIdsForUser(
+    userId: string,
+    minimumRole: WorkspaceRole = WorkspaceRole.GUEST,
+  ): Promise<string[]> {
+    const roles = Object.values(WorkspaceRole).filter((role) =>
+      hasWorkspaceRole(role, minimumRole),
+    );
+    const [memberships, ownedWorkspaces] = await Promise.all([
+      this.memberRepository.find({
+        // Memberships stay in place while a workspace is in the trash
+        where: { userId, role: In(roles), workspace: { deletedAt: IsNull() } },
+        select: ['workspaceId'],
+      }),
+      this.workspaceRepository.find({
+        where: { ownerId: userId },
+        select: ['id'],
+      }),
+    ]);
+
+    return Array.from(
+      new Set([
+        ...memberships.map((membership) => membership.workspaceId),
+        ...ownedWorkspaces.map((workspace) => workspace.id),
+      ]),
+    );
+  }
+
+  async getMemberIds(
+    workspaceId: string,
+    minimumRole: WorkspaceRole = WorkspaceRole.GUEST,
+  ): Promise<string[]> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: ['id', 'ownerId'],
+    });
+    if (!workspace) {
+      return [];
+    }
+
+    const roles = Object.values(WorkspaceRole).filter((role) =>
+      hasWorkspaceRole(role, minimumRole),
+    );
+    const memberships = await this.memberRepository.find({
+      where: { workspaceId, role: In(roles) },
+      select: ['userId'],
+    });
+
+    return Array.from(
+      new Set([
+        workspace.ownerId,
+        ...memberships.map((membership) => membership.userId),
+      ]),
+    );
+  }
+
+  async findMembership(
+    workspaceId: string,
+    userId: string,
+  ): Promise<WorkspaceMember | null> {
+    return await this.memberRepository.findOne({
+      where: { workspaceId, userId },
+    });
+  }
+
+  async addMember(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole = WorkspaceRole.MEMBER,
+  ): Promise<WorkspaceMember> {
+    return await this.memberRepository.save(
+      this.memberRepository.create({ workspaceId, userId, role }),
+    );
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    await this.memberRepository.delete({ workspaceId, userId });
+  }
+
+  async setRole(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole,
+  ): Promise<void> {
+    await this.memberRepository.update({ workspaceId, userId }, { role });
+  }
+}
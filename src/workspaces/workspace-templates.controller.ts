@@ -0,0 +1,161 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { WorkspaceTemplatesService } from './workspace-templates.service';
+import {
+  CreateWorkspaceFromTemplateDto,
+  CreateWorkspaceTemplateDto,
+  WorkspaceTemplateResponseDto,
+} from '../dto/workspace-template.dto';
+import { WorkspaceResponseDto } from '../dto/workspace.dto';
+import { UserRole } from '../entities';
+
+interface AuthenticatedRequest {
+  user: {
+    id: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+@ApiTags('workspaces')
+@Controller('workspace-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class WorkspaceTemplatesController {
+  constructor(
+    private readonly workspaceTemplatesService: WorkspaceTemplatesService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a workspace as a template (Workspace owner/admin)',
+    description:
+      'Copies channels, channel settings, projects and tasks; messages and members are not included',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template saved',
+    type: WorkspaceTemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner or admin role required',
+  })
+  async create(
+    @Body() createTemplateDto: CreateWorkspaceTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceTemplateResponseDto> {
+    return this.workspaceTemplatesService.create(
+      createTemplateDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List workspace templates',
+    description:
+      'Admins see every template; others only those saved from workspaces they administer',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates with a summary of their contents',
+    type: [WorkspaceTemplateResponseDto],
+  })
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceTemplateResponseDto[]> {
+    return this.workspaceTemplatesService.findAll(req.user.id, req.user.role);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a workspace template with its structure' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template details',
+    type: WorkspaceTemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin of the source workspace required',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceTemplateResponseDto> {
+    return this.workspaceTemplatesService.findOne(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a workspace template (Creator or admin)' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: 204, description: 'Template deleted' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceTemplatesService.remove(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/workspaces')
+  @ApiOperation({
+    summary: 'Create a workspace from a template (Admin only)',
+    description:
+      'Task due dates and project end dates are shifted to start from today',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workspace created',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin role required',
+  })
+  @Roles(UserRole.ADMIN)
+  async createWorkspace(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createWorkspaceDto: CreateWorkspaceFromTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspaceTemplatesService.createWorkspace(
+      id,
+      createWorkspaceDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+}
@@ -0,0 +1,345 @@
+import { ForbiddenException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { WorkspaceTemplatesService } from './workspace-templates.service';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  Channel,
+  ChannelVisibility,
+  Project,
+  ProjectPriority,
+  ProjectStatus,
+  TaskPriority,
+  TaskStatus,
+  UserRole,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceTemplate,
+  WorkspaceTemplateStructure,
+  WorkspaceType,
+} from '../entities';
+
+describe('WorkspaceTemplatesService', () => {
+  const day = 24 * 60 * 60 * 1000;
+
+  const buildService = () => {
+    const templateRepository = {
+      create: jest.fn((data: Partial<WorkspaceTemplate>) => data),
+      save: jest.fn((data: Partial<WorkspaceTemplate>) =>
+        Promise.resolve({ id: 'template-1', ...data }),
+      ),
+      findOne: jest.fn(),
+      delete: jest.fn(),
+    };
+    const workspaceRepository = { findOne: jest.fn() };
+    const channelRepository = { find: jest.fn().mockResolvedValue([]) };
+    const projectRepository = { find: jest.fn().mockResolvedValue([]) };
+    let projectCount = 0;
+    const manager = {
+      findOneOrFail: jest.fn().mockResolvedValue({ id: 'admin-1' }),
+      create: jest.fn((_entity: unknown, data: object) => data),
+      save: jest.fn((data: object) =>
+        Promise.resolve(
+          Array.isArray(data)
+            ? data
+            : { id: `project-${++projectCount}`, ...data },
+        ),
+      ),
+      update: jest.fn(),
+    };
+    const repositories = new Map<unknown, unknown>([
+      [WorkspaceTemplate, templateRepository],
+      [Workspace, workspaceRepository],
+      [Channel, channelRepository],
+      [Project, projectRepository],
+    ]);
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn((entity) =>
+        repositories.get(entity),
+      ) as unknown as DataSource['getRepository'],
+      transaction: jest.fn((callback: (m: typeof manager) => unknown) =>
+        callback(manager),
+      ) as unknown as DataSource['transaction'],
+    };
+    const workspaceService = {
+      create: jest.fn().mockResolvedValue({ id: 'workspace-2', name: 'Acme' }),
+      findOne: jest.fn().mockResolvedValue({ id: 'workspace-2' }),
+    };
+    const workspaceMembersService = {
+      assertRole: jest.fn(),
+      findWorkspaceIdsForUser: jest.fn().mockResolvedValue(['workspace-1']),
+    };
+    const auditLogsService = { record: jest.fn() };
+
+    const service = new WorkspaceTemplatesService(
+      dataSource as DataSource,
+      workspaceService as unknown as WorkspaceService,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+      auditLogsService as unknown as AuditLogsService,
+    );
+
+    return {
+      service,
+      templateRepository,
+      workspaceRepository,
+      channelRepository,
+      projectRepository,
+      manager,
+      workspaceService,
+      workspaceMembersService,
+    };
+  };
+
+  const structure: WorkspaceTemplateStructure = {
+    channels: [
+      {
+        name: 'general',
+        description: 'Client chatter',
+        topic: null,
+        visibility: ChannelVisibility.PUBLIC,
+        settings: null,
+        projectIndex: null,
+      },
+      {
+        name: 'releases',
+        description: null,
+        topic: 'Ship it',
+        visibility: ChannelVisibility.PRIVATE,
+        settings: '{"notifications":"all"}',
+        projectIndex: 0,
+      },
+    ],
+    projects: [
+      {
+        name: 'Onboarding',
+        description: null,
+        priority: ProjectPriority.HIGH,
+        color: '#ff0000',
+        budget: null,
+        endInDays: 30,
+        deadlineInDays: null,
+        tasks: [
+          {
+            title: 'Kick-off call',
+            description: null,
+            priority: TaskPriority.URGENT,
+            estimatedHours: 2,
+            tags: null,
+            position: 0,
+            dueInDays: 3,
+          },
+        ],
+      },
+    ],
+  };
+
+  it('saves channels, projects and tasks with relative due dates', async () => {
+    const {
+      service,
+      workspaceRepository,
+      channelRepository,
+      projectRepository,
+      templateRepository,
+      workspaceMembersService,
+    } = buildService();
+    const startDate = new Date('2026-03-01T09:00:00Z');
+    workspaceRepository.findOne.mockResolvedValue({
+      id: 'workspace-1',
+      type: WorkspaceType.PROJECT,
+    });
+    channelRepository.find.mockResolvedValue([
+      {
+        name: 'releases',
+        visibility: ChannelVisibility.PUBLIC,
+        projectId: 'project-a',
+        members: [{ id: 'someone' }],
+      },
+    ]);
+    projectRepository.find.mockResolvedValue([
+      {
+        id: 'project-a',
+        name: 'Launch',
+        priority: ProjectPriority.MEDIUM,
+        startDate,
+        endDate: new Date(startDate.getTime() + 14 * day),
+        tasks: [
+          {
+            title: 'Later',
+            status: TaskStatus.DONE,
+            position: 2,
+            assigneeId: 'someone',
+            dueDate: new Date(startDate.getTime() + 10 * day),
+          },
+          {
+            title: 'Dropped',
+            status: TaskStatus.CANCELLED,
+            position: 1,
+          },
+          {
+            title: 'First',
+            status: TaskStatus.TODO,
+            position: 0,
+            dueDate: null,
+          },
+        ],
+      },
+    ]);
+
+    const template = await service.create(
+      { workspaceId: 'workspace-1', name: 'Launch kit' },
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+    );
+
+    expect(workspaceMembersService.assertRole).toHaveBeenCalledWith(
+      'workspace-1',
+      'owner-1',
+      UserRole.TEAM_MEMBER,
+      WorkspaceRole.ADMIN,
+      expect.any(String),
+    );
+    const saved = templateRepository.create.mock.calls[0][0];
+    expect(saved.workspaceType).toBe(WorkspaceType.PROJECT);
+    expect(saved.structure?.channels).toEqual([
+      expect.objectContaining({ name: 'releases', projectIndex: 0 }),
+    ]);
+    expect(saved.structure?.channels[0]).not.toHaveProperty('members');
+    expect(saved.structure?.projects[0]).toMatchObject({
+      name: 'Launch',
+      endInDays: 14,
+      deadlineInDays: null,
+    });
+    expect(
+      saved.structure?.projects[0].tasks.map((task) => [
+        task.title,
+        task.dueInDays,
+      ]),
+    ).toEqual([
+      ['First', null],
+      ['Later', 10],
+    ]);
+    expect(saved.structure?.projects[0].tasks[1]).not.toHaveProperty(
+      'assigneeId',
+    );
+    expect(template.summary).toEqual({
+      channelCount: 1,
+      projectCount: 1,
+      taskCount: 2,
+    });
+  });
+
+  it('creates a workspace with the template structure shifted to today', async () => {
+    const { service, templateRepository, manager, workspaceService } =
+      buildService();
+    templateRepository.findOne.mockResolvedValue({
+      id: 'template-1',
+      workspaceType: WorkspaceType.PROJECT,
+      structure,
+    });
+
+    const before = Date.now();
+    await service.createWorkspace(
+      'template-1',
+      { name: 'Acme' },
+      'admin-1',
+      UserRole.ADMIN,
+    );
+
+    expect(workspaceService.create).toHaveBeenCalledWith(
+      { name: 'Acme', description: undefined, type: WorkspaceType.PROJECT },
+      'admin-1',
+    );
+    const project = manager.create.mock.calls.find(
+      ([entity]) => entity === Project,
+    )?.[1] as Project;
+    expect(project).toMatchObject({
+      name: 'Onboarding',
+      status: ProjectStatus.PLANNING,
+      workspaceId: 'workspace-2',
+      members: [{ id: 'admin-1' }],
+    });
+    expect(project.endDate!.getTime() - project.startDate.getTime()).toBe(
+      30 * day,
+    );
+    expect(project.startDate.getTime()).toBeGreaterThanOrEqual(before);
+
+    const [tasks] = manager.save.mock.calls[1] as unknown as [
+      Array<Record<string, unknown>>,
+    ];
+    expect(tasks).toEqual([
+      expect.objectContaining({
+        title: 'Kick-off call',
+        status: TaskStatus.TODO,
+        projectId: 'project-1',
+        creatorId: 'admin-1',
+        dueDate: new Date(project.startDate.getTime() + 3 * day),
+      }),
+    ]);
+
+    // #general already exists, so only its settings are copied
+    expect(manager.update).toHaveBeenCalledWith(
+      Channel,
+      { workspaceId: 'workspace-2', name: 'general' },
+      expect.objectContaining({ description: 'Client chatter' }),
+    );
+    expect(manager.create).toHaveBeenCalledWith(
+      Channel,
+      expect.objectContaining({
+        name: 'releases',
+        visibility: ChannelVisibility.PRIVATE,
+        settings: '{"notifications":"all"}',
+        projectId: 'project-1',
+        members: [{ id: 'admin-1' }],
+      }),
+    );
+    expect(workspaceService.findOne).toHaveBeenCalledWith(
+      'workspace-2',
+      'admin-1',
+      UserRole.ADMIN,
+    );
+  });
+
+  it('only lets the creator or an admin delete a template', async () => {
+    const { service, templateRepository } = buildService();
+    templateRepository.findOne.mockResolvedValue({
+      id: 'template-1',
+      createdById: 'owner-1',
+      structure,
+    });
+
+    await expect(
+      service.remove('template-1', 'member-1', UserRole.TEAM_MEMBER),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await service.remove('template-1', 'admin-1', UserRole.ADMIN);
+
+    expect(templateRepository.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('only shows a template to admins of its source workspace', async () => {
+    const { service, templateRepository, workspaceMembersService } =
+      buildService();
+    templateRepository.findOne.mockResolvedValue({
+      id: 'template-1',
+      sourceWorkspaceId: 'workspace-9',
+      structure,
+    });
+
+    await expect(
+      service.findOne('template-1', 'member-1', UserRole.GUEST),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(
+      workspaceMembersService.findWorkspaceIdsForUser,
+    ).toHaveBeenCalledWith('member-1', WorkspaceRole.ADMIN);
+
+    workspaceMembersService.findWorkspaceIdsForUser.mockResolvedValue([
+      'workspace-9',
+    ]);
+    await expect(
+      service.findOne('template-1', 'owner-9', UserRole.TEAM_MEMBER),
+    ).resolves.toMatchObject({ id: 'template-1' });
+    await expect(
+      service.findOne('template-1', 'admin-1', UserRole.ADMIN),
+    ).resolves.toMatchObject({ id: 'template-1' });
+  });
+});
@@ -0,0 +1,399 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DataSource,
+  EntityManager,
+  FindOptionsWhere,
+  In,
+  Not,
+  Repository,
+} from 'typeorm';
+import {
+  AuditAction,
+  AuditTargetType,
+  Channel,
+  ChannelType,
+  Project,
+  ProjectStatus,
+  Task,
+  TaskStatus,
+  User,
+  UserRole,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceTemplate,
+  WorkspaceTemplateStructure,
+} from '../entities';
+import {
+  CreateWorkspaceFromTemplateDto,
+  CreateWorkspaceTemplateDto,
+  WorkspaceTemplateResponseDto,
+} from '../dto/workspace-template.dto';
+import { WorkspaceResponseDto } from '../dto/workspace.dto';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Created with every workspace, so templates only adjust its settings
+const GENERAL_CHANNEL = 'general';
+
+const dayOffset = (from: Date, to: Date | null | undefined): number | null =>
+  to ? Math.round((new Date(to).getTime() - from.getTime()) / DAY_MS) : null;
+
+const addDays = (from: Date, days: number | null): Date | undefined =>
+  days === null ? undefined : new Date(from.getTime() + days * DAY_MS);
+
+@Injectable()
+export class WorkspaceTemplatesService {
+  private templateRepository: Repository<WorkspaceTemplate>;
+  private workspaceRepository: Repository<Workspace>;
+  private channelRepository: Repository<Channel>;
+  private projectRepository: Repository<Project>;
+
+  constructor(
+    @Inject('DATA_SOURCE')
+    private dataSource: DataSource,
+    private readonly workspaceService: WorkspaceService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly auditLogsService: AuditLogsService,
+  ) {
+    this.templateRepository = this.dataSource.getRepository(WorkspaceTemplate);
+    this.workspaceRepository = this.dataSource.getRepository(Workspace);
+    this.channelRepository = this.dataSource.getRepository(Channel);
+    this.projectRepository = this.dataSource.getRepository(Project);
+  }
+
+  /**
+   * Saves the channels, projects and tasks of a workspace as a template.
+   * Messages, members and assignees are left behind.
+   */
+  async create(
+    createTemplateDto: CreateWorkspaceTemplateDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceTemplateResponseDto> {
+    await this.workspaceMembersService.assertRole(
+      createTemplateDto.workspaceId,
+      userId,
+      userRole,
+      WorkspaceRole.ADMIN,
+      'Only workspace owners or admins can save templates',
+    );
+
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: createTemplateDto.workspaceId },
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    const template = await this.templateRepository.save(
+      this.templateRepository.create({
+        name: createTemplateDto.name,
+        description: createTemplateDto.description ?? null,
+        workspaceType: workspace.type,
+        structure: await this.snapshot(workspace.id),
+        sourceWorkspaceId: workspace.id,
+        createdById: userId,
+      }),
+    );
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_TEMPLATE_CREATED,
+      targetType: AuditTargetType.WORKSPACE_TEMPLATE,
+      targetId: template.id,
+      actorId: userId,
+      after: { name: template.name, sourceWorkspaceId: workspace.id },
+    });
+
+    return this.formatTemplate(template, true);
+  }
+
+  // Snapshots include private channels and budgets, so only platform admins
+  // and admins of the source workspace may read them
+  async findAll(
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceTemplateResponseDto[]> {
+    let where: FindOptionsWhere<WorkspaceTemplate> = {};
+    if (userRole !== UserRole.ADMIN) {
+      const workspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(
+          userId,
+          WorkspaceRole.ADMIN,
+        );
+      if (!workspaceIds.length) {
+        return [];
+      }
+      where = { sourceWorkspaceId: In(workspaceIds) };
+    }
+
+    const templates = await this.templateRepository.find({
+      where,
+      order: { name: 'ASC' },
+    });
+
+    return templates.map((template) => this.formatTemplate(template, false));
+  }
+
+  async findOne(
+    id: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceTemplateResponseDto> {
+    const template = await this.findTemplate(id);
+    if (userRole !== UserRole.ADMIN) {
+      const workspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(
+          userId,
+          WorkspaceRole.ADMIN,
+        );
+      if (
+        !template.sourceWorkspaceId ||
+        !workspaceIds.includes(template.sourceWorkspaceId)
+      ) {
+        throw new ForbiddenException('Access denied to this template');
+      }
+    }
+
+    return this.formatTemplate(template, true);
+  }
+
+  async remove(id: string, userId: string, userRole: UserRole): Promise<void> {
+    const template = await this.findTemplate(id);
+    if (template.createdById !== userId && userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Only the creator or an admin can delete a template',
+      );
+    }
+
+    await this.templateRepository.delete(id);
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_TEMPLATE_DELETED,
+      targetType: AuditTargetType.WORKSPACE_TEMPLATE,
+      targetId: id,
+      actorId: userId,
+      before: { name: template.name },
+    });
+  }
+
+  /**
+   * Creates a workspace owned by the caller and fills it with the template's
+   * channels and projects. Task due dates count from today.
+   */
+  async createWorkspace(
+    id: string,
+    createWorkspaceDto: CreateWorkspaceFromTemplateDto,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceResponseDto> {
+    const template = await this.findTemplate(id);
+
+    const workspace = await this.workspaceService.create(
+      {
+        name: createWorkspaceDto.name,
+        description: createWorkspaceDto.description,
+        type: createWorkspaceDto.type ?? template.workspaceType,
+      },
+      userId,
+    );
+
+    await this.dataSource.transaction((manager) =>
+      this.apply(manager, template.structure, workspace.id, userId),
+    );
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_CREATED_FROM_TEMPLATE,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspace.id,
+      actorId: userId,
+      after: { templateId: template.id, name: workspace.name },
+    });
+
+    return this.workspaceService.findOne(workspace.id, userId, userRole);
+  }
+
+  private async findTemplate(id: string): Promise<WorkspaceTemplate> {
+    const template = await this.templateRepository.findOne({ where: { id } });
+    if (!template) {
+      throw new NotFoundException('Template not found');
+    }
+    return template;
+  }
+
+  private async snapshot(
+    workspaceId: string,
+  ): Promise<WorkspaceTemplateStructure> {
+    const [channels, projects] = await Promise.all([
+      this.channelRepository.find({
+        where: { workspaceId, type: ChannelType.TEXT, isArchived: false },
+        order: { createdAt: 'ASC' },
+      }),
+      this.projectRepository.find({
+        where: { workspaceId, status: Not(ProjectStatus.CANCELLED) },
+        relations: ['tasks'],
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    return {
+      channels: channels.map((channel) => {
+        const projectIndex = projects.findIndex(
+          (project) => project.id === channel.projectId,
+        );
+        return {
+          name: channel.name,
+          description: channel.description ?? null,
+          topic: channel.topic ?? null,
+          visibility: channel.visibility,
+          settings: channel.settings ?? null,
+          projectIndex: projectIndex === -1 ? null : projectIndex,
+        };
+      }),
+      projects: projects.map((project) => {
+        // Offsets are kept relative to when the project started
+        const anchor = new Date(project.startDate ?? project.createdAt);
+        return {
+          name: project.name,
+          description: project.description ?? null,
+          priority: project.priority,
+          color: project.color ?? null,
+          budget: project.budget ?? null,
+          endInDays: dayOffset(anchor, project.endDate),
+          deadlineInDays: dayOffset(anchor, project.deadline),
+          tasks: (project.tasks ?? [])
+            .filter((task) => task.status !== TaskStatus.CANCELLED)
+            .sort(
+              (a, b) =>
+                (a.position ?? Number.MAX_SAFE_INTEGER) -
+                  (b.position ?? Number.MAX_SAFE_INTEGER) ||
+                new Date(a.createdAt).getTime() -
+                  new Date(b.createdAt).getTime(),
+            )
+            .map((task) => ({
+              title: task.title,
+              description: task.description ?? null,
+              priority: task.priority,
+              estimatedHours: task.estimatedHours ?? 0,
+              tags: task.tags ?? null,
+              position: task.position ?? null,
+              dueInDays: dayOffset(anchor, task.dueDate),
+            })),
+        };
+      }),
+    };
+  }
+
+  private async apply(
+    manager: EntityManager,
+    structure: WorkspaceTemplateStructure,
+    workspaceId: string,
+    userId: string,
+  ): Promise<void> {
+    const owner = await manager.findOneOrFail(User, { where: { id: userId } });
+    const start = new Date();
+
+    const projectIds: string[] = [];
+    for (const templateProject of structure.projects) {
+      const project = await manager.save(
+        manager.create(Project, {
+          name: templateProject.name,
+          description: templateProject.description ?? undefined,
+          priority: templateProject.priority,
+          color: templateProject.color ?? undefined,
+          budget: templateProject.budget ?? undefined,
+          status: ProjectStatus.PLANNING,
+          startDate: start,
+          endDate: addDays(start, templateProject.endInDays),
+          deadline: addDays(start, templateProject.deadlineInDays),
+          ownerId: userId,
+          workspaceId,
+          members: [owner],
+        }),
+      );
+      projectIds.push(project.id);
+
+      if (templateProject.tasks.length) {
+        await manager.save(
+          templateProject.tasks.map((templateTask) =>
+            manager.create(Task, {
+              title: templateTask.title,
+              description: templateTask.description ?? undefined,
+              priority: templateTask.priority,
+              estimatedHours: templateTask.estimatedHours,
+              tags: templateTask.tags ?? undefined,
+              position: templateTask.position ?? undefined,
+              dueDate: addDays(start, templateTask.dueInDays),
+              status: TaskStatus.TODO,
+              projectId: project.id,
+              creatorId: userId,
+            }),
+          ),
+        );
+      }
+    }
+
+    for (const templateChannel of structure.channels) {
+      const settings = {
+        description: templateChannel.description ?? undefined,
+        topic: templateChannel.topic ?? undefined,
+        visibility: templateChannel.visibility,
+        settings: templateChannel.settings ?? undefined,
+        projectId:
+          templateChannel.projectIndex === null
+            ? null
+            : (projectIds[templateChannel.projectIndex] ?? null),
+      };
+
+      if (templateChannel.name === GENERAL_CHANNEL) {
+        await manager.update(
+          Channel,
+          { workspaceId, name: GENERAL_CHANNEL },
+          settings,
+        );
+        continue;
+      }
+
+      await manager.save(
+        manager.create(Channel, {
+          ...settings,
+          name: templateChannel.name,
+          type: ChannelType.TEXT,
+          workspaceId,
+          creatorId: userId,
+          members: [owner],
+        }),
+      );
+    }
+  }
+
+  private formatTemplate(
+    template: WorkspaceTemplate,
+    includeStructure: boolean,
+  ): WorkspaceTemplateResponseDto {
+    const { channels, projects } = template.structure;
+
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      workspaceType: template.workspaceType,
+      sourceWorkspaceId: template.sourceWorkspaceId,
+      createdById: template.createdById,
+      createdAt: template.createdAt,
+      summary: {
+        channelCount: channels.length,
+        projectCount: projects.length,
+        taskCount: projects.reduce(
+          (count, project) => count + project.tasks.length,
+          0,
+        ),
+      },
+      ...(includeStructure ? { structure: template.structure } : {}),
+    };
+  }
+}
@@ -5,12 +5,14 @@ import {
   Body,
   Patch,
   Param,
+  Query,
   Delete,
   UseGuards,
   Request,
   HttpCode,
   HttpStatus,
   ParseUUIDPipe,
+  Header,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,16 +20,42 @@ import {
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { WorkspaceService } from './workspace.service';
+import { WorkspaceInvitationsService } from './workspace-invitations.service';
+import { WorkspaceAnalyticsService } from './workspace-analytics.service';
+import { WorkspaceDirectoryService } from './workspace-directory.service';
 import {
   CreateWorkspaceDto,
   UpdateWorkspaceDto,
   WorkspaceResponseDto,
+  AddWorkspaceMemberDto,
+  UpdateWorkspaceMemberRoleDto,
+  TransferWorkspaceOwnershipDto,
+  WorkspaceOwnershipTransferDto,
+  WorkspaceQueryDto,
 } from '../dto/workspace.dto';
+import {
+  CreateWorkspaceInvitationDto,
+  CreatedWorkspaceInvitationDto,
+  WorkspaceInvitationResponseDto,
+} from '../dto/workspace-invitation.dto';
+import {
+  WorkspaceAnalyticsDto,
+  WorkspaceAnalyticsExportQueryDto,
+  WorkspaceAnalyticsQueryDto,
+} from '../dto/workspace-analytics.dto';
+import {
+  CreateWorkspaceJoinRequestDto,
+  WorkspaceDirectoryPageDto,
+  WorkspaceDirectoryQueryDto,
+  WorkspaceJoinRequestResponseDto,
+  WorkspaceJoinResultDto,
+} from '../dto/workspace-directory.dto';
 import { UserRole } from '../entities';
 
 interface AuthenticatedRequest {
@@ -43,7 +71,12 @@ interface AuthenticatedRequest {
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class WorkspaceController {
-  constructor(private readonly workspaceService: WorkspaceService) {}
+  constructor(
+    private readonly workspaceService: WorkspaceService,
+    private readonly workspaceInvitationsService: WorkspaceInvitationsService,
+    private readonly workspaceAnalyticsService: WorkspaceAnalyticsService,
+    private readonly workspaceDirectoryService: WorkspaceDirectoryService,
+  ) {}
 
   @Post()
   @ApiOperation({
@@ -67,16 +100,56 @@ export class WorkspaceController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all workspaces for the current user' })
+  @ApiOperation({
+    summary: 'Get all workspaces for the current user',
+    description: 'Archived workspaces are left out unless includeArchived=true',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of workspaces',
     type: [WorkspaceResponseDto],
   })
   async findAll(
+    @Query() query: WorkspaceQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto[]> {
+    return this.workspaceService.findAll(
+      req.user.id,
+      req.user.role,
+      query.includeArchived,
+    );
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List deleted workspaces the current user can restore',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Workspaces in the trash with their purge date',
+    type: [WorkspaceResponseDto],
+  })
+  async findTrash(
     @Request() req: AuthenticatedRequest,
   ): Promise<WorkspaceResponseDto[]> {
-    return this.workspaceService.findAll(req.user.id, req.user.role);
+    return this.workspaceService.findTrash(req.user.id, req.user.role);
+  }
+
+  @Get('directory')
+  @ApiOperation({
+    summary: 'Browse and search community workspaces',
+    description: 'Archived workspaces are not listed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Community workspaces sorted by name',
+    type: WorkspaceDirectoryPageDto,
+  })
+  async findDirectory(
+    @Query() query: WorkspaceDirectoryQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceDirectoryPageDto> {
+    return this.workspaceDirectoryService.findAll(query, req.user.id);
   }
 
   @Get(':id')
@@ -116,11 +189,18 @@ export class WorkspaceController {
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete workspace' })
+  @ApiOperation({
+    summary: 'Move workspace to the trash (Workspace owner)',
+    description:
+      'The workspace can be restored until the retention window ends, then it is purged',
+  })
   @ApiParam({ name: 'id', description: 'Workspace ID' })
-  @ApiResponse({ status: 204, description: 'Workspace deleted successfully' })
+  @ApiResponse({ status: 204, description: 'Workspace moved to the trash' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
   @HttpCode(HttpStatus.NO_CONTENT)
-  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async remove(
     @Param('id', ParseUUIDPipe) id: string,
     @Request() req: AuthenticatedRequest,
@@ -128,21 +208,81 @@ export class WorkspaceController {
     return this.workspaceService.remove(id, req.user.id, req.user.role);
   }
 
+  @Post(':id/restore')
+  @ApiOperation({ summary: 'Restore a workspace from the trash' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workspace restored',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Retention window has passed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspaceService.restore(id, req.user.id, req.user.role);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({
+    summary: 'Archive workspace, making it read-only (Workspace owner)',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workspace archived',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  async archive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspaceService.archive(id, req.user.id, req.user.role);
+  }
+
+  @Post(':id/unarchive')
+  @ApiOperation({ summary: 'Unarchive workspace (Workspace owner)' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workspace unarchived',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  async unarchive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspaceService.unarchive(id, req.user.id, req.user.role);
+  }
+
   @Post(':id/members/:email')
   @ApiOperation({
-    summary: 'Add member to workspace (Admin/Project Manager only)',
+    summary: 'Add member to workspace (Workspace owner/admin only)',
   })
   @ApiParam({ name: 'id', description: 'Workspace ID' })
   @ApiParam({ name: 'email', description: 'User email to add' })
   @ApiResponse({ status: 201, description: 'Member added successfully' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Admin or Project Manager role required',
+    description: 'Forbidden - Workspace owner or admin role required',
   })
-  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async addMember(
     @Param('id', ParseUUIDPipe) id: string,
     @Param('email') email: string,
+    @Body() addWorkspaceMemberDto: AddWorkspaceMemberDto,
     @Request() req: AuthenticatedRequest,
   ): Promise<void> {
     return this.workspaceService.addMember(
@@ -150,22 +290,49 @@ export class WorkspaceController {
       email,
       req.user.id,
       req.user.role,
+      addWorkspaceMemberDto.role,
+    );
+  }
+
+  @Patch(':id/members/:userId/role')
+  @ApiOperation({
+    summary: 'Change the workspace role of a member (Workspace owner/admin)',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  @ApiResponse({ status: 204, description: 'Member role updated' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner or admin role required',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async updateMemberRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() updateWorkspaceMemberRoleDto: UpdateWorkspaceMemberRoleDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceService.updateMemberRole(
+      id,
+      userId,
+      updateWorkspaceMemberRoleDto.role,
+      req.user.id,
+      req.user.role,
     );
   }
 
   @Delete(':id/members/:userId')
   @ApiOperation({
-    summary: 'Remove member from workspace (Admin/Project Manager only)',
+    summary: 'Remove member from workspace (Workspace owner/admin or self)',
   })
   @ApiParam({ name: 'id', description: 'Workspace ID' })
   @ApiParam({ name: 'userId', description: 'User ID to remove' })
   @ApiResponse({ status: 204, description: 'Member removed successfully' })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Admin or Project Manager role required',
+    description: 'Forbidden - Workspace owner or admin role required',
   })
   @HttpCode(HttpStatus.NO_CONTENT)
-  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
   async removeMember(
     @Param('id', ParseUUIDPipe) id: string,
     @Param('userId', ParseUUIDPipe) userId: string,
@@ -179,6 +346,129 @@ export class WorkspaceController {
     );
   }
 
+  @Post(':id/transfer-ownership')
+  @ApiOperation({
+    summary: 'Offer workspace ownership to a member (Workspace owner)',
+    description:
+      'The recipient has a week to accept; the current owner stays on as a co-owner afterwards',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Transfer awaiting the recipient',
+    type: WorkspaceOwnershipTransferDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Recipient is not an eligible member',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  async transferOwnership(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() transferWorkspaceOwnershipDto: TransferWorkspaceOwnershipDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceOwnershipTransferDto> {
+    return this.workspaceService.requestOwnershipTransfer(
+      id,
+      transferWorkspaceOwnershipDto.userId,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/transfer-ownership/accept')
+  @ApiOperation({ summary: 'Accept a pending ownership transfer (Recipient)' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({ status: 204, description: 'Ownership transferred' })
+  @ApiResponse({ status: 400, description: 'No pending transfer for the user' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async acceptOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceService.acceptOwnershipTransfer(id, req.user.id);
+  }
+
+  @Delete(':id/transfer-ownership')
+  @ApiOperation({
+    summary: 'Cancel or decline a pending ownership transfer',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({ status: 204, description: 'Transfer withdrawn' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner or recipient required',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancelOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceService.cancelOwnershipTransfer(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get(':id/analytics')
+  @ApiOperation({
+    summary: 'Activity statistics for a date range (Workspace owner)',
+    description:
+      'Daily messages, active users, task throughput, call minutes and uploads, plus the busiest and inactive channels',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({ status: 200, type: WorkspaceAnalyticsDto })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  async getAnalytics(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: WorkspaceAnalyticsQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceAnalyticsDto> {
+    return this.workspaceAnalyticsService.getAnalytics(
+      id,
+      query,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get(':id/analytics/export')
+  @ApiOperation({
+    summary: 'Export workspace analytics as CSV (Workspace owner)',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner role required',
+  })
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header(
+    'Content-Disposition',
+    'attachment; filename="workspace-analytics.csv"',
+  )
+  async exportAnalytics(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: WorkspaceAnalyticsExportQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<string> {
+    return this.workspaceAnalyticsService.exportCsv(
+      id,
+      query,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
   @Get(':id/members')
   @ApiOperation({ summary: 'Get workspace members' })
   @ApiParam({ name: 'id', description: 'Workspace ID' })
@@ -189,4 +479,170 @@ export class WorkspaceController {
   ) {
     return this.workspaceService.getMembers(id, req.user.id, req.user.role);
   }
+
+  @Post(':id/invitations')
+  @ApiOperation({
+    summary: 'Invite by email or create a shareable invitation link',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation created; the token is only returned once',
+    type: CreatedWorkspaceInvitationDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner or admin role required',
+  })
+  async createInvitation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createInvitationDto: CreateWorkspaceInvitationDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CreatedWorkspaceInvitationDto> {
+    return this.workspaceInvitationsService.create(
+      id,
+      createInvitationDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get(':id/invitations')
+  @ApiOperation({ summary: 'List pending workspace invitations' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending invitations',
+    type: [WorkspaceInvitationResponseDto],
+  })
+  async findPendingInvitations(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    return this.workspaceInvitationsService.findPending(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @ApiOperation({ summary: 'Revoke a workspace invitation' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation ID' })
+  @ApiResponse({ status: 204, description: 'Invitation revoked' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeInvitation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceInvitationsService.revoke(
+      id,
+      invitationId,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/join')
+  @ApiOperation({
+    summary: 'Join a community workspace or ask to join it',
+    description:
+      'Open communities are joined immediately; otherwise a request is sent to the workspace owners and admins',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({ status: 201, type: WorkspaceJoinResultDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Already a member or a request is already pending',
+  })
+  @ApiResponse({ status: 404, description: 'Community workspace not found' })
+  async join(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createJoinRequestDto: CreateWorkspaceJoinRequestDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceJoinResultDto> {
+    return this.workspaceDirectoryService.join(
+      id,
+      createJoinRequestDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Delete(':id/join')
+  @ApiOperation({ summary: 'Withdraw a pending join request' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({ status: 204, description: 'Join request withdrawn' })
+  @ApiResponse({ status: 404, description: 'Join request not found' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancelJoinRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspaceDirectoryService.cancel(id, req.user.id);
+  }
+
+  @Get(':id/join-requests')
+  @ApiOperation({ summary: 'List pending join requests, oldest first' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending join requests',
+    type: [WorkspaceJoinRequestResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace owner or admin role required',
+  })
+  async findJoinRequests(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceJoinRequestResponseDto[]> {
+    return this.workspaceDirectoryService.findPending(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/join-requests/:requestId/approve')
+  @ApiOperation({ summary: 'Approve a join request and add the member' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'requestId', description: 'Join request ID' })
+  @ApiResponse({ status: 201, type: WorkspaceJoinRequestResponseDto })
+  @ApiResponse({ status: 404, description: 'Join request not found' })
+  async approveJoinRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('requestId', ParseUUIDPipe) requestId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceJoinRequestResponseDto> {
+    return this.workspaceDirectoryService.approve(
+      id,
+      requestId,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/join-requests/:requestId/deny')
+  @ApiOperation({ summary: 'Decline a join request' })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'requestId', description: 'Join request ID' })
+  @ApiResponse({ status: 201, type: WorkspaceJoinRequestResponseDto })
+  @ApiResponse({ status: 404, description: 'Join request not found' })
+  async denyJoinRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('requestId', ParseUUIDPipe) requestId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<WorkspaceJoinRequestResponseDto> {
+    return this.workspaceDirectoryService.deny(
+      id,
+      requestId,
+      req.user.id,
+      req.user.role,
+    );
+  }
 }
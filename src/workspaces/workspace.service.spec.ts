@@ -0,0 +1,508 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  AuditAction,
+  Channel,
+  Project,
+  User,
+  UserRole,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../entities';
+
+describe('WorkspaceService', () => {
+  const buildService = () => {
+    const workspaceRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      update: jest.fn(),
+      remove: jest.fn(),
+    };
+    const channelRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn(),
+    };
+    const projectRepository = { delete: jest.fn() };
+    const userRepository = { findOne: jest.fn() };
+    const dataSource: Partial<DataSource> = {
+      getRepository: jest.fn().mockImplementation((entity) => {
+        if (entity === Workspace) return workspaceRepository;
+        if (entity === Channel) return channelRepository;
+        if (entity === Project) return projectRepository;
+        if (entity === User) return userRepository;
+        return {};
+      }),
+    };
+    const chatGateway = {
+      sendToUser: jest.fn(),
+      broadcastToUsers: jest.fn(),
+    };
+    const workspaceMembersService = {
+      setRole: jest.fn(),
+      addMember: jest.fn(),
+      removeMember: jest.fn(),
+    };
+    const auditLogsService = { record: jest.fn() };
+    const configService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
+    const service = new WorkspaceService(
+      dataSource as DataSource,
+      chatGateway as unknown as ChatGateway,
+      workspaceMembersService as unknown as WorkspaceMembersService,
+      auditLogsService as unknown as AuditLogsService,
+      configService as unknown as ConfigService,
+    );
+
+    return {
+      service,
+      workspaceRepository,
+      chatGateway,
+      workspaceMembersService,
+      projectRepository,
+      userRepository,
+      auditLogsService,
+    };
+  };
+
+  const buildWorkspace = (overrides: Partial<Workspace> = {}) =>
+    ({
+      id: 'workspace-1',
+      ownerId: 'owner-1',
+      owner: { id: 'owner-1' },
+      memberships: [
+        {
+          userId: 'owner-1',
+          role: WorkspaceRole.OWNER,
+          user: { role: UserRole.TEAM_MEMBER },
+        },
+        {
+          userId: 'member-1',
+          role: WorkspaceRole.MEMBER,
+          user: { role: UserRole.TEAM_MEMBER },
+        },
+        {
+          userId: 'guest-1',
+          role: WorkspaceRole.GUEST,
+          user: { role: UserRole.GUEST },
+        },
+      ],
+      pendingOwnerId: null,
+      ownershipTransferExpiresAt: null,
+      archivedAt: null,
+      deletedAt: null,
+      ...overrides,
+    }) as unknown as Workspace;
+
+  describe('joining', () => {
+    it('keeps unverified accounts out of open communities', async () => {
+      const {
+        service,
+        workspaceRepository,
+        userRepository,
+        workspaceMembersService,
+      } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+      userRepository.findOne.mockResolvedValue({
+        id: 'newcomer-1',
+        role: UserRole.TEAM_MEMBER,
+        isEmailVerified: false,
+      });
+
+      await expect(
+        service.joinWithRole('workspace-1', 'newcomer-1', WorkspaceRole.MEMBER),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(workspaceMembersService.addMember).not.toHaveBeenCalled();
+
+      userRepository.findOne.mockResolvedValue({
+        id: 'newcomer-1',
+        role: UserRole.TEAM_MEMBER,
+        isEmailVerified: true,
+      });
+      workspaceMembersService.addMember.mockResolvedValue({
+        userId: 'newcomer-1',
+        role: WorkspaceRole.MEMBER,
+      });
+      await expect(
+        service.joinWithRole('workspace-1', 'newcomer-1', WorkspaceRole.MEMBER),
+      ).resolves.toBe(true);
+      expect(workspaceMembersService.addMember).toHaveBeenCalledWith(
+        'workspace-1',
+        'newcomer-1',
+        WorkspaceRole.MEMBER,
+      );
+    });
+
+    it('refuses to add a member whose address is unverified', async () => {
+      const {
+        service,
+        workspaceRepository,
+        userRepository,
+        workspaceMembersService,
+      } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+      userRepository.findOne.mockResolvedValue({
+        id: 'newcomer-1',
+        email: 'newcomer@example.com',
+        role: UserRole.TEAM_MEMBER,
+        isEmailVerified: false,
+      });
+
+      await expect(
+        service.addMember(
+          'workspace-1',
+          'newcomer@example.com',
+          'owner-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toThrow('User has not verified their email address yet');
+      expect(workspaceMembersService.addMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ownership transfer', () => {
+    it('offers ownership to a member without changing the owner yet', async () => {
+      const { service, workspaceRepository, chatGateway } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+
+      const transfer = await service.requestOwnershipTransfer(
+        'workspace-1',
+        'member-1',
+        'owner-1',
+        UserRole.TEAM_MEMBER,
+      );
+
+      expect(transfer.pendingOwnerId).toBe('member-1');
+      expect(workspaceRepository.update).toHaveBeenCalledWith(
+        'workspace-1',
+        expect.objectContaining({
+          pendingOwnerId: 'member-1',
+          ownershipTransferRequestedById: 'owner-1',
+        }),
+      );
+      expect(workspaceRepository.update.mock.calls[0][1]).not.toHaveProperty(
+        'ownerId',
+      );
+      expect(chatGateway.sendToUser).toHaveBeenCalledWith(
+        'member-1',
+        'workspace_ownership_transfer_requested',
+        expect.objectContaining({ workspaceId: 'workspace-1' }),
+      );
+    });
+
+    it('only lets owners hand over to non-guest members', async () => {
+      const { service, workspaceRepository } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+
+      await expect(
+        service.requestOwnershipTransfer(
+          'workspace-1',
+          'owner-1',
+          'member-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(
+        service.requestOwnershipTransfer(
+          'workspace-1',
+          'guest-1',
+          'owner-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.requestOwnershipTransfer(
+          'workspace-1',
+          'stranger-1',
+          'admin-1',
+          UserRole.ADMIN,
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('completes the transfer once the recipient accepts', async () => {
+      const {
+        service,
+        workspaceRepository,
+        userRepository,
+        chatGateway,
+        workspaceMembersService,
+      } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(
+        buildWorkspace({
+          pendingOwnerId: 'member-1',
+          ownershipTransferRequestedById: 'owner-1',
+          ownershipTransferExpiresAt: new Date(Date.now() + 60_000),
+        }),
+      );
+      userRepository.findOne.mockResolvedValue({
+        id: 'owner-1',
+        role: UserRole.TEAM_MEMBER,
+      });
+
+      await service.acceptOwnershipTransfer('workspace-1', 'member-1');
+
+      expect(workspaceRepository.update).toHaveBeenCalledWith('workspace-1', {
+        ownerId: 'member-1',
+        pendingOwnerId: null,
+        ownershipTransferRequestedById: null,
+        ownershipTransferExpiresAt: null,
+      });
+      expect(workspaceMembersService.setRole).toHaveBeenCalledWith(
+        'workspace-1',
+        'member-1',
+        WorkspaceRole.OWNER,
+      );
+      // The previous owner already has an owner membership and keeps it
+      expect(workspaceMembersService.addMember).not.toHaveBeenCalled();
+      expect(chatGateway.broadcastToUsers).toHaveBeenCalledWith(
+        'workspace_updated',
+        { workspaceId: 'workspace-1' },
+        ['owner-1', 'member-1', 'guest-1'],
+      );
+    });
+
+    it('rejects acceptance by anyone but the recipient or after expiry', async () => {
+      const { service, workspaceRepository } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(
+        buildWorkspace({
+          pendingOwnerId: 'member-1',
+          ownershipTransferExpiresAt: new Date(Date.now() - 1000),
+        }),
+      );
+
+      await expect(
+        service.acceptOwnershipTransfer('workspace-1', 'member-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.acceptOwnershipTransfer('workspace-1', 'guest-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(workspaceRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('drops the offer once the co-owner who made it is demoted', async () => {
+      const { service, workspaceRepository, userRepository } = buildService();
+      const workspace = buildWorkspace({
+        pendingOwnerId: 'member-1',
+        ownershipTransferRequestedById: 'co-owner-1',
+        ownershipTransferExpiresAt: new Date(Date.now() + 60_000),
+      });
+      workspace.memberships.push({
+        userId: 'co-owner-1',
+        role: WorkspaceRole.ADMIN,
+      } as WorkspaceMember);
+      workspaceRepository.findOne.mockResolvedValue(workspace);
+      userRepository.findOne.mockResolvedValue({
+        id: 'co-owner-1',
+        role: UserRole.TEAM_MEMBER,
+      });
+
+      await expect(
+        service.acceptOwnershipTransfer('workspace-1', 'member-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(workspaceRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('co-owners', () => {
+    const withCoOwner = () => {
+      const workspace = buildWorkspace();
+      workspace.memberships.push({
+        userId: 'co-owner-1',
+        role: WorkspaceRole.OWNER,
+        user: { id: 'co-owner-1', role: UserRole.TEAM_MEMBER },
+      } as WorkspaceMember);
+      return workspace;
+    };
+
+    it('lets a co-owner remove the primary owner and takes over', async () => {
+      const {
+        service,
+        workspaceRepository,
+        workspaceMembersService,
+        auditLogsService,
+      } = buildService();
+      workspaceRepository.findOne.mockResolvedValue(withCoOwner());
+
+      await service.removeMember(
+        'workspace-1',
+        'owner-1',
+        'co-owner-1',
+        UserRole.TEAM_MEMBER,
+      );
+
+      expect(workspaceRepository.update).toHaveBeenCalledWith('workspace-1', {
+        ownerId: 'co-owner-1',
+      });
+      expect(auditLogsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.WORKSPACE_OWNERSHIP_TRANSFERRED,
+          actorId: 'co-owner-1',
+        }),
+      );
+      expect(workspaceMembersService.removeMember).toHaveBeenCalledWith(
+        'workspace-1',
+        'owner-1',
+      );
+    });
+
+    it('lets a co-owner demote the primary owner', async () => {
+      const { service, workspaceRepository, workspaceMembersService } =
+        buildService();
+      workspaceRepository.findOne.mockResolvedValue(withCoOwner());
+
+      await service.updateMemberRole(
+        'workspace-1',
+        'owner-1',
+        WorkspaceRole.ADMIN,
+        'co-owner-1',
+        UserRole.TEAM_MEMBER,
+      );
+
+      expect(workspaceRepository.update).toHaveBeenCalledWith('workspace-1', {
+        ownerId: 'co-owner-1',
+      });
+      expect(workspaceMembersService.setRole).toHaveBeenCalledWith(
+        'workspace-1',
+        'owner-1',
+        WorkspaceRole.ADMIN,
+      );
+    });
+
+    it('never removes or demotes the last owner', async () => {
+      const { service, workspaceRepository, workspaceMembersService } =
+        buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+
+      await expect(
+        service.removeMember(
+          'workspace-1',
+          'owner-1',
+          'owner-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toThrow('The last workspace owner cannot be removed');
+      await expect(
+        service.updateMemberRole(
+          'workspace-1',
+          'owner-1',
+          WorkspaceRole.MEMBER,
+          'admin-1',
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow('The last workspace owner cannot be demoted');
+      expect(workspaceMembersService.removeMember).not.toHaveBeenCalled();
+      expect(workspaceMembersService.setRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archive and trash', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    it('keeps archived workspaces readable but rejects changes', async () => {
+      const { service, workspaceRepository, workspaceMembersService } =
+        buildService();
+      workspaceRepository.findOne.mockResolvedValue(
+        buildWorkspace({ archivedAt: new Date() }),
+      );
+
+      await expect(
+        service.update(
+          'workspace-1',
+          { name: 'Renamed' },
+          'owner-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toThrow('Workspace is archived and read-only');
+      await expect(
+        service.updateMemberRole(
+          'workspace-1',
+          'member-1',
+          WorkspaceRole.ADMIN,
+          'owner-1',
+          UserRole.TEAM_MEMBER,
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(workspaceMembersService.setRole).not.toHaveBeenCalled();
+    });
+
+    it('moves deleted workspaces to the trash instead of removing them', async () => {
+      const { service, workspaceRepository, projectRepository, chatGateway } =
+        buildService();
+      workspaceRepository.findOne.mockResolvedValue(buildWorkspace());
+
+      await service.remove('workspace-1', 'owner-1', UserRole.TEAM_MEMBER);
+
+      expect(workspaceRepository.update).toHaveBeenCalledWith('workspace-1', {
+        deletedAt: expect.any(Date),
+        deletedById: 'owner-1',
+      });
+      expect(workspaceRepository.remove).not.toHaveBeenCalled();
+      expect(projectRepository.delete).not.toHaveBeenCalled();
+      expect(chatGateway.broadcastToUsers).toHaveBeenCalledWith(
+        'workspace_deleted',
+        { workspaceId: 'workspace-1' },
+        ['owner-1', 'member-1', 'guest-1'],
+      );
+    });
+
+    it('lets owners restore within the retention window only', async () => {
+      const { service, workspaceRepository } = buildService();
+      workspaceRepository.findOne.mockResolvedValueOnce(
+        buildWorkspace({ deletedAt: new Date(Date.now() - 31 * day) }),
+      );
+
+      await expect(
+        service.restore('workspace-1', 'owner-1', UserRole.TEAM_MEMBER),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      workspaceRepository.findOne.mockResolvedValueOnce(
+        buildWorkspace({ deletedAt: new Date(Date.now() - day) }),
+      );
+      await expect(
+        service.restore('workspace-1', 'member-1', UserRole.TEAM_MEMBER),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      workspaceRepository.findOne.mockResolvedValueOnce(null);
+      await expect(
+        service.restore('workspace-1', 'owner-1', UserRole.TEAM_MEMBER),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(workspaceRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('purges workspaces whose retention window has passed', async () => {
+      const {
+        service,
+        workspaceRepository,
+        projectRepository,
+        auditLogsService,
+      } = buildService();
+      const workspace = buildWorkspace({
+        deletedAt: new Date(Date.now() - 31 * day),
+      });
+      workspaceRepository.find.mockResolvedValue([workspace]);
+
+      await expect(service.purgeExpired()).resolves.toBe(1);
+
+      expect(projectRepository.delete).toHaveBeenCalledWith({
+        workspaceId: 'workspace-1',
+      });
+      expect(workspaceRepository.remove).toHaveBeenCalledWith(workspace);
+      expect(auditLogsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.WORKSPACE_PURGED }),
+      );
+    });
+  });
+});
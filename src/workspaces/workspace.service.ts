@@ -4,8 +4,19 @@ import {
   ForbiddenException,
   BadRequestException,
   Inject,
+  Logger,
+  OnModuleInit,
 } from '@nestjs/common';
-import { Repository, DataSource, In, FindManyOptions } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  Repository,
+  DataSource,
+  In,
+  FindManyOptions,
+  IsNull,
+  LessThan,
+  Not,
+} from 'typeorm';
 import {
   Workspace,
   User,
@@ -17,16 +28,30 @@ import {
   ChannelVisibility,
   UserRole,
   UserPresence,
+  WorkspaceRole,
+  AuditAction,
+  AuditTargetType,
 } from '../entities';
 import {
   CreateWorkspaceDto,
   UpdateWorkspaceDto,
+  WorkspaceOwnershipTransferDto,
   WorkspaceResponseDto,
 } from '../dto/workspace.dto';
 import { ChatGateway } from '../realtime/chat.gateway';
+import { AuditLogsService } from '../audit/audit-logs.service';
+import {
+  WorkspaceMembersService,
+  assertWorkspaceWritable,
+  hasWorkspaceRole,
+} from './workspace-members.service';
+
+// Unanswered ownership transfers lapse after a week
+const OWNERSHIP_TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 @Injectable()
-export class WorkspaceService {
+export class WorkspaceService implements OnModuleInit {
+  private readonly logger = new Logger(WorkspaceService.name);
   private workspaceRepository: Repository<Workspace>;
   private userRepository: Repository<User>;
   private channelRepository: Repository<Channel>;
@@ -39,6 +64,9 @@ export class WorkspaceService {
     @Inject('DATA_SOURCE')
     private dataSource: DataSource,
     private readonly chatGateway: ChatGateway,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly configService: ConfigService,
   ) {
     this.workspaceRepository = this.dataSource.getRepository(Workspace);
     this.userRepository = this.dataSource.getRepository(User);
@@ -50,6 +78,13 @@ export class WorkspaceService {
     this.presenceRepository = this.dataSource.getRepository(UserPresence);
   }
 
+  onModuleInit() {
+    // Purge workspaces whose trash retention has run out every hour
+    setInterval(() => {
+      void this.purgeExpired();
+    }, 3_600_000);
+  }
+
   async create(
     createWorkspaceDto: CreateWorkspaceDto,
     ownerId: string,
@@ -70,10 +105,14 @@ export class WorkspaceService {
     const workspace = this.workspaceRepository.create({
       ...createWorkspaceDto,
       owner,
-      members: [owner],
     });
 
     const savedWorkspace = await this.workspaceRepository.save(workspace);
+    await this.workspaceMembersService.addMember(
+      savedWorkspace.id,
+      ownerId,
+      WorkspaceRole.OWNER,
+    );
 
     const generalChannel = this.channelRepository.create({
       name: 'general',
@@ -89,7 +128,7 @@ export class WorkspaceService {
 
     const workspaceWithRelations = await this.workspaceRepository.findOne({
       where: { id: savedWorkspace.id },
-      relations: ['owner', 'members'],
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
     if (workspaceWithRelations) {
@@ -106,11 +145,15 @@ export class WorkspaceService {
   async findAll(
     userId: string,
     userRole: UserRole,
+    includeArchived = false,
   ): Promise<WorkspaceResponseDto[]> {
+    const archivedFilter = includeArchived ? {} : { archivedAt: IsNull() };
     const baseFindOptions: FindManyOptions<Workspace> = {
+      where: archivedFilter,
       relations: [
         'owner',
-        'members',
+        'memberships',
+        'memberships.user',
         'channels',
         'channels.members',
         'channels.creator',
@@ -118,13 +161,19 @@ export class WorkspaceService {
       order: { updatedAt: 'DESC' },
     };
 
-    const workspaces =
-      userRole === UserRole.ADMIN
-        ? await this.workspaceRepository.find(baseFindOptions)
-        : await this.workspaceRepository.find({
+    let workspaces: Workspace[];
+    if (userRole === UserRole.ADMIN) {
+      workspaces = await this.workspaceRepository.find(baseFindOptions);
+    } else {
+      const workspaceIds =
+        await this.workspaceMembersService.findWorkspaceIdsForUser(userId);
+      workspaces = workspaceIds.length
+        ? await this.workspaceRepository.find({
             ...baseFindOptions,
-            where: [{ owner: { id: userId } }, { members: { id: userId } }],
-          });
+            where: { ...archivedFilter, id: In(workspaceIds) },
+          })
+        : [];
+    }
 
     return await Promise.all(
       workspaces.map((workspace) =>
@@ -142,7 +191,8 @@ export class WorkspaceService {
       where: { id },
       relations: [
         'owner',
-        'members',
+        'memberships',
+        'memberships.user',
         'channels',
         'channels.members',
         'channels.creator',
@@ -155,11 +205,8 @@ export class WorkspaceService {
       throw new NotFoundException('Workspace not found');
     }
 
-    if (userRole !== UserRole.ADMIN) {
-      const isMember = workspace.members.some((member) => member.id === userId);
-      if (!isMember) {
-        throw new ForbiddenException('Access denied to this workspace');
-      }
+    if (!this.resolveRole(workspace, userId, userRole)) {
+      throw new ForbiddenException('Access denied to this workspace');
     }
 
     return await this.formatWorkspaceResponse(workspace, userId, userRole);
@@ -173,21 +220,24 @@ export class WorkspaceService {
   ): Promise<WorkspaceResponseDto> {
     const workspace = await this.workspaceRepository.findOne({
       where: { id },
-      relations: ['owner', 'members'],
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
     if (!workspace) {
       throw new NotFoundException('Workspace not found');
     }
 
-    const isOwner = workspace.owner.id === userId;
-    const isAdmin = userRole === UserRole.ADMIN;
-
-    if (!isOwner && !isAdmin) {
+    if (
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, userId, userRole),
+        WorkspaceRole.ADMIN,
+      )
+    ) {
       throw new ForbiddenException(
-        'Only workspace owner or admin can update workspace',
+        'Only workspace owners or admins can update workspace',
       );
     }
+    assertWorkspaceWritable(workspace);
 
     Object.assign(workspace, updateWorkspaceDto);
     const updatedWorkspace = await this.workspaceRepository.save(workspace);
@@ -201,25 +251,219 @@ export class WorkspaceService {
     );
   }
 
+  async archive(
+    id: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceResponseDto> {
+    const workspace = await this.findForOwner(
+      id,
+      userId,
+      userRole,
+      'Only workspace owners can archive workspace',
+    );
+    if (workspace.archivedAt) {
+      throw new BadRequestException('Workspace is already archived');
+    }
+
+    workspace.archivedAt = new Date();
+    workspace.archivedById = userId;
+    await this.workspaceRepository.update(id, {
+      archivedAt: workspace.archivedAt,
+      archivedById: userId,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_ARCHIVED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: id,
+      actorId: userId,
+      after: { archivedAt: workspace.archivedAt },
+    });
+
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+
+    return await this.formatWorkspaceResponse(workspace, userId, userRole);
+  }
+
+  async unarchive(
+    id: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceResponseDto> {
+    const workspace = await this.findForOwner(
+      id,
+      userId,
+      userRole,
+      'Only workspace owners can unarchive workspace',
+    );
+    if (!workspace.archivedAt) {
+      throw new BadRequestException('Workspace is not archived');
+    }
+
+    const archivedAt = workspace.archivedAt;
+    workspace.archivedAt = null;
+    workspace.archivedById = null;
+    await this.workspaceRepository.update(id, {
+      archivedAt: null,
+      archivedById: null,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_UNARCHIVED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: id,
+      actorId: userId,
+      before: { archivedAt },
+    });
+
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+
+    return await this.formatWorkspaceResponse(workspace, userId, userRole);
+  }
+
+  /**
+   * Moves the workspace to the trash. Owners can restore it until the
+   * retention window ends, after which it is purged for good.
+   */
   async remove(id: string, userId: string, userRole: UserRole): Promise<void> {
+    const workspace = await this.findForOwner(
+      id,
+      userId,
+      userRole,
+      'Only workspace owners can delete workspace',
+    );
+
+    const deletedAt = new Date();
+    await this.workspaceRepository.update(id, {
+      deletedAt,
+      deletedById: userId,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_DELETED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: id,
+      actorId: userId,
+      before: {
+        name: workspace.name,
+        ownerId: workspace.ownerId,
+        memberCount: workspace.memberships.length,
+      },
+      after: { purgeAt: this.getPurgeDate(deletedAt) },
+    });
+
+    this.broadcastWorkspaceEvent('workspace_deleted', workspace);
+  }
+
+  async findTrash(
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceResponseDto[]> {
+    const workspaces = await this.workspaceRepository.find({
+      where: { deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      relations: ['owner', 'memberships', 'memberships.user'],
+      order: { deletedAt: 'DESC' },
+    });
+
+    return await Promise.all(
+      workspaces
+        .filter((workspace) =>
+          hasWorkspaceRole(
+            this.resolveRole(workspace, userId, userRole),
+            WorkspaceRole.OWNER,
+          ),
+        )
+        .map((workspace) =>
+          this.formatWorkspaceResponse(workspace, userId, userRole),
+        ),
+    );
+  }
+
+  async restore(
+    id: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceResponseDto> {
     const workspace = await this.workspaceRepository.findOne({
-      where: { id },
-      relations: ['owner', 'members'],
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
-    if (!workspace) {
-      throw new NotFoundException('Workspace not found');
+    if (!workspace?.deletedAt) {
+      throw new NotFoundException('Workspace not found in trash');
     }
 
-    const isOwner = workspace.owner.id === userId;
-    const isAdmin = userRole === UserRole.ADMIN;
-
-    if (!isOwner && !isAdmin) {
+    if (
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, userId, userRole),
+        WorkspaceRole.OWNER,
+      )
+    ) {
       throw new ForbiddenException(
-        'Only workspace owner or admin can delete workspace',
+        'Only workspace owners can restore workspace',
+      );
+    }
+    if (this.getPurgeDate(workspace.deletedAt).getTime() <= Date.now()) {
+      throw new BadRequestException(
+        'The retention window for this workspace has passed',
       );
     }
 
+    const deletedAt = workspace.deletedAt;
+    workspace.deletedAt = null;
+    workspace.deletedById = null;
+    await this.workspaceRepository.update(id, {
+      deletedAt: null,
+      deletedById: null,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_RESTORED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: id,
+      actorId: userId,
+      before: { deletedAt },
+    });
+
+    this.broadcastWorkspaceEvent('workspace_restored', workspace);
+
+    return await this.findOne(id, userId, userRole);
+  }
+
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    try {
+      const cutoff = new Date(
+        Date.now() - this.getTrashRetentionDays() * 24 * 60 * 60 * 1000,
+      );
+      const workspaces = await this.workspaceRepository.find({
+        where: { deletedAt: LessThan(cutoff) },
+        withDeleted: true,
+        relations: ['memberships'],
+      });
+
+      for (const workspace of workspaces) {
+        try {
+          await this.purge(workspace);
+          purged++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to purge workspace ${workspace.id}: ${(error as Error).message}`,
+          );
+        }
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : String(error ?? 'unknown error');
+      this.logger.warn(`Workspace trash purge failed: ${message}`);
+    }
+
+    return purged;
+  }
+
+  private async purge(workspace: Workspace): Promise<void> {
+    const id = workspace.id;
     const channels = await this.channelRepository.find({
       where: { workspaceId: id },
       select: ['id'],
@@ -237,17 +481,18 @@ export class WorkspaceService {
 
     await this.channelRepository.delete({ workspaceId: id });
 
-    const recipients = this.getWorkspaceRecipientIds(workspace);
-
     await this.workspaceRepository.remove(workspace);
-
-    if (recipients.length > 0) {
-      this.chatGateway.broadcastToUsers(
-        'workspace_deleted',
-        { workspaceId: id },
-        recipients,
-      );
-    }
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_PURGED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: id,
+      before: {
+        name: workspace.name,
+        ownerId: workspace.ownerId,
+        memberCount: workspace.memberships.length,
+        deletedAt: workspace.deletedAt,
+      },
+    });
   }
 
   async addMember(
@@ -255,22 +500,21 @@ export class WorkspaceService {
     userEmail: string,
     inviterId: string,
     userRole: UserRole,
+    role: WorkspaceRole = WorkspaceRole.MEMBER,
   ): Promise<void> {
     const workspace = await this.workspaceRepository.findOne({
       where: { id: workspaceId },
-      relations: ['owner', 'members'],
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
     if (!workspace) {
       throw new NotFoundException('Workspace not found');
     }
 
-    const isOwner = workspace.owner.id === inviterId;
-    const isAdmin = userRole === UserRole.ADMIN;
-
-    if (!isOwner && !isAdmin) {
+    const inviterRole = this.resolveRole(workspace, inviterId, userRole);
+    if (!hasWorkspaceRole(inviterRole, WorkspaceRole.ADMIN)) {
       throw new ForbiddenException(
-        'Only workspace owner or admin can add members',
+        'Only workspace owners or admins can add members',
       );
     }
 
@@ -281,23 +525,100 @@ export class WorkspaceService {
       throw new NotFoundException('User not found');
     }
 
-    const isAlreadyMember = workspace.members.some(
-      (member) => member.id === user.id,
-    );
+    if (user.role === UserRole.GUEST) {
+      role = WorkspaceRole.GUEST;
+    }
+    if (
+      hasWorkspaceRole(role, WorkspaceRole.ADMIN) &&
+      !hasWorkspaceRole(inviterRole, WorkspaceRole.OWNER)
+    ) {
+      throw new ForbiddenException(
+        'Only workspace owners can grant admin or owner roles',
+      );
+    }
+
+    const isAlreadyMember =
+      workspace.ownerId === user.id ||
+      workspace.memberships.some((membership) => membership.userId === user.id);
     if (isAlreadyMember) {
       throw new BadRequestException('User is already a member');
     }
 
-    workspace.members.push(user);
-    await this.workspaceRepository.save(workspace);
+    await this.admitMember(workspace, user, role);
+  }
 
-    const generalChannel = await this.channelRepository.findOne({
-      where: {
-        workspace: { id: workspaceId },
-        name: 'general',
-      },
-      relations: ['members'],
+  /**
+   * Adds a user who was authorised elsewhere (e.g. through an accepted
+   * invitation). Existing members are left untouched.
+   */
+  async joinWithRole(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole,
+  ): Promise<boolean> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (this.resolveRole(workspace, userId)) {
+      return false;
+    }
+
+    await this.admitMember(
+      workspace,
+      user,
+      user.role === UserRole.GUEST ? WorkspaceRole.GUEST : role,
+    );
+    return true;
+  }
+
+  private async admitMember(
+    workspace: Workspace,
+    user: User,
+    role: WorkspaceRole,
+  ): Promise<void> {
+    assertWorkspaceWritable(workspace);
+    // Every way into a workspace requires an address the user proved they own
+    if (!user.isEmailVerified) {
+      throw new BadRequestException(
+        'User has not verified their email address yet',
+      );
+    }
+
+    const workspaceId = workspace.id;
+    const membership = await this.workspaceMembersService.addMember(
+      workspaceId,
+      user.id,
+      role,
+    );
+    workspace.memberships.push(membership);
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_MEMBER_ADDED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      after: { userId: user.id, role },
+    });
+
+    // Guests only see the channels they are explicitly added to
+    const generalChannel =
+      role === WorkspaceRole.GUEST
+        ? null
+        : await this.channelRepository.findOne({
+            where: {
+              workspace: { id: workspaceId },
+              name: 'general',
+            },
+            relations: ['members'],
+          });
 
     if (generalChannel) {
       generalChannel.members.push(user);
@@ -313,6 +634,7 @@ export class WorkspaceService {
         firstName: user.firstName,
         lastName: user.lastName,
         email: user.email,
+        role,
       },
     });
 
@@ -331,31 +653,89 @@ export class WorkspaceService {
   ): Promise<void> {
     const workspace = await this.workspaceRepository.findOne({
       where: { id: workspaceId },
-      relations: ['owner', 'members'],
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
     if (!workspace) {
       throw new NotFoundException('Workspace not found');
     }
 
-    if (workspace.owner.id === userId) {
-      throw new BadRequestException('Workspace owner cannot be removed');
+    const ownerIds = this.getOwnerIds(workspace);
+    if (ownerIds.includes(userId) && ownerIds.length === 1) {
+      throw new BadRequestException(
+        'The last workspace owner cannot be removed',
+      );
     }
 
-    const isOwner = workspace.owner.id === removerId;
-    const isAdmin = userRole === UserRole.ADMIN;
     const isSelfRemoval = userId === removerId;
+    if (!isSelfRemoval) {
+      const removerRole = this.resolveRole(workspace, removerId, userRole);
+      const targetRole = this.resolveRole(workspace, userId);
+      if (
+        !hasWorkspaceRole(removerRole, WorkspaceRole.ADMIN) ||
+        (hasWorkspaceRole(targetRole, WorkspaceRole.ADMIN) &&
+          !hasWorkspaceRole(removerRole, WorkspaceRole.OWNER))
+      ) {
+        throw new ForbiddenException(
+          'Only workspace owners or admins can remove members',
+        );
+      }
+    }
+    assertWorkspaceWritable(workspace);
 
-    if (!isOwner && !isAdmin && !isSelfRemoval) {
-      throw new ForbiddenException(
-        'Only workspace owner or admin can remove members',
-      );
+    if (workspace.ownerId === userId) {
+      await this.handOverOwnership(workspace, userId, removerId);
+    }
+    await this.detachMember(workspace, userId);
+  }
+
+  /**
+   * Removes a member on behalf of an external system (e.g. SCIM
+   * deprovisioning). The owner and non-members are left untouched.
+   */
+  async dropMember(workspaceId: string, userId: string): Promise<boolean> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships', 'memberships.user'],
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    if (
+      workspace.ownerId === userId ||
+      !workspace.memberships.some((membership) => membership.userId === userId)
+    ) {
+      return false;
     }
 
-    workspace.members = workspace.members.filter(
-      (member) => member.id !== userId,
+    await this.detachMember(workspace, userId);
+    return true;
+  }
+
+  private async detachMember(
+    workspace: Workspace,
+    userId: string,
+  ): Promise<void> {
+    const workspaceId = workspace.id;
+    const previousRole = this.resolveRole(workspace, userId);
+    await this.workspaceMembersService.removeMember(workspaceId, userId);
+    if (workspace.pendingOwnerId === userId) {
+      await this.workspaceRepository.update(workspaceId, {
+        pendingOwnerId: null,
+        ownershipTransferRequestedById: null,
+        ownershipTransferExpiresAt: null,
+      });
+    }
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_MEMBER_REMOVED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      before: { userId, role: previousRole },
+    });
+    workspace.memberships = workspace.memberships.filter(
+      (membership) => membership.userId !== userId,
     );
-    await this.workspaceRepository.save(workspace);
 
     const channels = await this.channelRepository.find({
       where: { workspace: { id: workspaceId } },
@@ -390,27 +770,315 @@ export class WorkspaceService {
     });
   }
 
+  async updateMemberRole(
+    workspaceId: string,
+    memberId: string,
+    role: WorkspaceRole,
+    requesterId: string,
+    userRole: UserRole,
+  ): Promise<void> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships', 'memberships.user'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    const ownerIds = this.getOwnerIds(workspace);
+    if (
+      role !== WorkspaceRole.OWNER &&
+      ownerIds.includes(memberId) &&
+      ownerIds.length === 1
+    ) {
+      throw new BadRequestException(
+        'The last workspace owner cannot be demoted',
+      );
+    }
+
+    const membership = workspace.memberships.find(
+      (candidate) => candidate.userId === memberId,
+    );
+    if (!membership) {
+      throw new NotFoundException('Member not found');
+    }
+    if (
+      membership.user.role === UserRole.GUEST &&
+      role !== WorkspaceRole.GUEST
+    ) {
+      throw new BadRequestException('Guest accounts can only be guests');
+    }
+
+    const requesterRole = this.resolveRole(workspace, requesterId, userRole);
+    if (!hasWorkspaceRole(requesterRole, WorkspaceRole.ADMIN)) {
+      throw new ForbiddenException(
+        'Only workspace owners or admins can change member roles',
+      );
+    }
+    if (
+      (hasWorkspaceRole(role, WorkspaceRole.ADMIN) ||
+        hasWorkspaceRole(membership.role, WorkspaceRole.ADMIN)) &&
+      !hasWorkspaceRole(requesterRole, WorkspaceRole.OWNER)
+    ) {
+      throw new ForbiddenException(
+        'Only workspace owners can grant or revoke admin or owner roles',
+      );
+    }
+    assertWorkspaceWritable(workspace);
+
+    if (membership.role === role) {
+      return;
+    }
+
+    if (workspace.ownerId === memberId) {
+      await this.handOverOwnership(workspace, memberId, requesterId);
+    }
+    await this.workspaceMembersService.setRole(workspaceId, memberId, role);
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_MEMBER_ROLE_CHANGED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      actorId: requesterId,
+      before: { userId: memberId, role: membership.role },
+      after: { userId: memberId, role },
+    });
+
+    this.notifyWorkspaceMembers(workspace, 'workspace_member_role_changed', {
+      workspaceId,
+      memberId,
+      role,
+    });
+
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+  }
+
+  /**
+   * Offers ownership to an existing member. The current owner stays in
+   * charge until the recipient accepts.
+   */
+  async requestOwnershipTransfer(
+    workspaceId: string,
+    newOwnerId: string,
+    requesterId: string,
+    userRole: UserRole,
+  ): Promise<WorkspaceOwnershipTransferDto> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships', 'memberships.user'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    if (
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, requesterId, userRole),
+        WorkspaceRole.OWNER,
+      )
+    ) {
+      throw new ForbiddenException(
+        'Only workspace owners can transfer ownership',
+      );
+    }
+
+    if (workspace.ownerId === newOwnerId) {
+      throw new BadRequestException('User already owns this workspace');
+    }
+
+    const membership = workspace.memberships.find(
+      (candidate) => candidate.userId === newOwnerId,
+    );
+    if (!membership) {
+      throw new BadRequestException(
+        'Ownership can only be transferred to a workspace member',
+      );
+    }
+    if (
+      membership.role === WorkspaceRole.GUEST ||
+      membership.user?.role === UserRole.GUEST
+    ) {
+      throw new BadRequestException('Guests cannot own a workspace');
+    }
+
+    const expiresAt = new Date(Date.now() + OWNERSHIP_TRANSFER_TTL_MS);
+    await this.workspaceRepository.update(workspaceId, {
+      pendingOwnerId: newOwnerId,
+      ownershipTransferRequestedById: requesterId,
+      ownershipTransferExpiresAt: expiresAt,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_OWNERSHIP_TRANSFER_REQUESTED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      actorId: requesterId,
+      before: { ownerId: workspace.ownerId },
+      after: { pendingOwnerId: newOwnerId, expiresAt },
+    });
+
+    this.chatGateway.sendToUser(
+      newOwnerId,
+      'workspace_ownership_transfer_requested',
+      { workspaceId, requestedById: requesterId, expiresAt },
+    );
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+
+    return {
+      pendingOwnerId: newOwnerId,
+      requestedById: requesterId,
+      expiresAt,
+    };
+  }
+
+  async acceptOwnershipTransfer(
+    workspaceId: string,
+    userId: string,
+  ): Promise<void> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships', 'memberships.user'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    if (
+      workspace.pendingOwnerId !== userId ||
+      !workspace.ownershipTransferExpiresAt ||
+      workspace.ownershipTransferExpiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException(
+        'There is no pending ownership transfer for you',
+      );
+    }
+    if (!workspace.memberships.some((member) => member.userId === userId)) {
+      throw new BadRequestException('You are no longer a workspace member');
+    }
+    // The offer lapses once whoever made it stops being an owner
+    const requester = workspace.ownershipTransferRequestedById
+      ? await this.userRepository.findOne({
+          where: { id: workspace.ownershipTransferRequestedById },
+        })
+      : null;
+    if (
+      !requester ||
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, requester.id, requester.role),
+        WorkspaceRole.OWNER,
+      )
+    ) {
+      throw new BadRequestException(
+        'The ownership transfer was offered by someone who is no longer an owner',
+      );
+    }
+
+    const previousOwnerId = workspace.ownerId;
+    await this.workspaceRepository.update(workspaceId, {
+      ownerId: userId,
+      pendingOwnerId: null,
+      ownershipTransferRequestedById: null,
+      ownershipTransferExpiresAt: null,
+    });
+    await this.workspaceMembersService.setRole(
+      workspaceId,
+      userId,
+      WorkspaceRole.OWNER,
+    );
+
+    // The previous owner stays on as a co-owner and can step down later
+    if (
+      !workspace.memberships.some((member) => member.userId === previousOwnerId)
+    ) {
+      workspace.memberships.push(
+        await this.workspaceMembersService.addMember(
+          workspaceId,
+          previousOwnerId,
+          WorkspaceRole.OWNER,
+        ),
+      );
+    }
+
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_OWNERSHIP_TRANSFERRED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      actorId: userId,
+      before: { ownerId: previousOwnerId },
+      after: { ownerId: userId },
+    });
+
+    this.notifyWorkspaceMembers(workspace, 'workspace_ownership_transferred', {
+      workspaceId,
+      previousOwnerId,
+      ownerId: userId,
+    });
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+  }
+
+  /**
+   * Withdraws a pending transfer. Owners cancel it; the recipient declines.
+   */
+  async cancelOwnershipTransfer(
+    workspaceId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<void> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['owner', 'memberships'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+    if (!workspace.pendingOwnerId) {
+      throw new BadRequestException('There is no pending ownership transfer');
+    }
+    if (
+      workspace.pendingOwnerId !== userId &&
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, userId, userRole),
+        WorkspaceRole.OWNER,
+      )
+    ) {
+      throw new ForbiddenException(
+        'Only workspace owners or the recipient can cancel the transfer',
+      );
+    }
+
+    await this.workspaceRepository.update(workspaceId, {
+      pendingOwnerId: null,
+      ownershipTransferRequestedById: null,
+      ownershipTransferExpiresAt: null,
+    });
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_OWNERSHIP_TRANSFER_CANCELLED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspaceId,
+      actorId: userId,
+      before: { pendingOwnerId: workspace.pendingOwnerId },
+    });
+
+    this.broadcastWorkspaceEvent('workspace_updated', workspace);
+  }
+
   async getMembers(workspaceId: string, userId: string, userRole: UserRole) {
     const workspace = await this.workspaceRepository.findOne({
       where: { id: workspaceId },
-      relations: ['owner', 'members'],
+      relations: ['owner', 'memberships', 'memberships.user'],
     });
 
     if (!workspace) {
       throw new NotFoundException('Workspace not found');
     }
 
-    if (userRole !== UserRole.ADMIN) {
-      const isMember = workspace.members.some((member) => member.id === userId);
-      if (!isMember) {
-        throw new ForbiddenException('Access denied');
-      }
+    if (!this.resolveRole(workspace, userId, userRole)) {
+      throw new ForbiddenException('Access denied');
     }
 
-    const allMemberIds = [
-      workspace.owner.id,
-      ...workspace.members.map((member) => member.id),
-    ];
+    const allMemberIds = this.getWorkspaceRecipientIds(workspace);
 
     const presenceRecords = allMemberIds.length
       ? await this.presenceRepository.find({
@@ -444,16 +1112,19 @@ export class WorkspaceService {
         firstName: workspace.owner.firstName,
         lastName: workspace.owner.lastName,
         email: workspace.owner.email,
+        role: WorkspaceRole.OWNER,
         presence: serializePresence(workspace.owner.id),
       },
-      members: workspace.members
-        .filter((member) => member.id !== workspace.owner.id)
-        .map((member) => ({
-          id: member.id,
-          firstName: member.firstName,
-          lastName: member.lastName,
-          email: member.email,
-          presence: serializePresence(member.id),
+      members: workspace.memberships
+        .filter((membership) => membership.userId !== workspace.owner.id)
+        .map((membership) => ({
+          id: membership.user.id,
+          firstName: membership.user.firstName,
+          lastName: membership.user.lastName,
+          email: membership.user.email,
+          role: membership.role,
+          joinedAt: membership.joinedAt,
+          presence: serializePresence(membership.userId),
         })),
     };
   }
@@ -464,6 +1135,9 @@ export class WorkspaceService {
     viewerRole: UserRole,
   ): Promise<WorkspaceResponseDto> {
     const channels = (workspace.channels as Channel[] | undefined) || [];
+    const viewerWorkspaceRole = viewerId
+      ? this.resolveRole(workspace, viewerId, viewerRole)
+      : null;
 
     const visibleChannels = channels.filter((channel) => {
       if (channel.isArchived) {
@@ -476,7 +1150,10 @@ export class WorkspaceService {
       if (viewerRole === UserRole.ADMIN) {
         return true;
       }
-      if (channel.visibility !== ChannelVisibility.PRIVATE) {
+      if (
+        channel.visibility !== ChannelVisibility.PRIVATE &&
+        viewerWorkspaceRole !== WorkspaceRole.GUEST
+      ) {
         return true;
       }
 
@@ -560,6 +1237,7 @@ export class WorkspaceService {
       name: workspace.name,
       description: workspace.description,
       type: workspace.type,
+      joinPolicy: workspace.joinPolicy,
       createdAt: workspace.createdAt,
       updatedAt: workspace.updatedAt,
       owner: {
@@ -568,7 +1246,38 @@ export class WorkspaceService {
         lastName: workspace.owner.lastName,
         email: workspace.owner.email,
       },
-      memberCount: workspace.members?.length || 0,
+      coOwners: (workspace.memberships ?? [])
+        .filter(
+          (membership) =>
+            membership.role === WorkspaceRole.OWNER &&
+            membership.userId !== workspace.ownerId &&
+            membership.user,
+        )
+        .map((membership) => ({
+          id: membership.user.id,
+          firstName: membership.user.firstName,
+          lastName: membership.user.lastName,
+          email: membership.user.email,
+        })),
+      ownershipTransfer:
+        workspace.pendingOwnerId &&
+        workspace.ownershipTransferRequestedById &&
+        workspace.ownershipTransferExpiresAt &&
+        workspace.ownershipTransferExpiresAt.getTime() > Date.now()
+          ? {
+              pendingOwnerId: workspace.pendingOwnerId,
+              requestedById: workspace.ownershipTransferRequestedById,
+              expiresAt: workspace.ownershipTransferExpiresAt,
+            }
+          : null,
+      archivedAt: workspace.archivedAt ?? null,
+      ...(workspace.deletedAt
+        ? {
+            deletedAt: workspace.deletedAt,
+            purgeAt: this.getPurgeDate(workspace.deletedAt),
+          }
+        : {}),
+      memberCount: workspace.memberships?.length || 0,
       channelCount: workspace.channels?.length || 0,
       channels: channelSummaries,
     };
@@ -646,15 +1355,113 @@ export class WorkspaceService {
       recipients.add(workspace.owner.id);
     }
 
-    workspace.members?.forEach((member) => {
-      if (member?.id) {
-        recipients.add(member.id);
+    workspace.memberships?.forEach((membership) => {
+      if (membership?.userId) {
+        recipients.add(membership.userId);
       }
     });
 
     return Array.from(recipients);
   }
 
+  private async findForOwner(
+    id: string,
+    userId: string,
+    userRole: UserRole,
+    message: string,
+  ): Promise<Workspace> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id },
+      relations: ['owner', 'memberships', 'memberships.user'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    if (
+      !hasWorkspaceRole(
+        this.resolveRole(workspace, userId, userRole),
+        WorkspaceRole.OWNER,
+      )
+    ) {
+      throw new ForbiddenException(message);
+    }
+
+    return workspace;
+  }
+
+  private getTrashRetentionDays(): number {
+    return this.configService.get<number>('workspaces.trashRetentionDays', 30);
+  }
+
+  private getPurgeDate(deletedAt: Date): Date {
+    return new Date(
+      deletedAt.getTime() + this.getTrashRetentionDays() * 24 * 60 * 60 * 1000,
+    );
+  }
+
+  private getOwnerIds(workspace: Workspace): string[] {
+    return Array.from(
+      new Set([
+        workspace.ownerId,
+        ...workspace.memberships
+          .filter((membership) => membership.role === WorkspaceRole.OWNER)
+          .map((membership) => membership.userId),
+      ]),
+    );
+  }
+
+  /**
+   * Co-owners have the same rights as the primary owner, so the primary
+   * owner can be removed or demoted too. Another co-owner then becomes the
+   * primary owner.
+   */
+  private async handOverOwnership(
+    workspace: Workspace,
+    previousOwnerId: string,
+    actorId: string,
+  ): Promise<void> {
+    const nextOwnerId = this.getOwnerIds(workspace).find(
+      (ownerId) => ownerId !== previousOwnerId,
+    );
+    if (!nextOwnerId) {
+      throw new BadRequestException('The last workspace owner cannot leave');
+    }
+
+    await this.workspaceRepository.update(workspace.id, {
+      ownerId: nextOwnerId,
+    });
+    workspace.ownerId = nextOwnerId;
+    workspace.owner =
+      workspace.memberships.find(
+        (membership) => membership.userId === nextOwnerId,
+      )?.user ?? workspace.owner;
+    await this.auditLogsService.record({
+      action: AuditAction.WORKSPACE_OWNERSHIP_TRANSFERRED,
+      targetType: AuditTargetType.WORKSPACE,
+      targetId: workspace.id,
+      actorId,
+      before: { ownerId: previousOwnerId },
+      after: { ownerId: nextOwnerId },
+    });
+  }
+
+  private resolveRole(
+    workspace: Workspace,
+    userId: string,
+    userRole?: UserRole,
+  ): WorkspaceRole | null {
+    if (userRole === UserRole.ADMIN || workspace.ownerId === userId) {
+      return WorkspaceRole.OWNER;
+    }
+
+    return (
+      workspace.memberships?.find((membership) => membership.userId === userId)
+        ?.role ?? null
+    );
+  }
+
   private broadcastWorkspaceEvent(event: string, workspace: Workspace) {
     const recipients = this.getWorkspaceRecipientIds(workspace);
 
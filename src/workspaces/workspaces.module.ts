@@ -1,13 +1,46 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { DatabaseModule } from '../config/database.module';
-import { RealtimeModule } from 'src/realtime/realtime.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AuditModule } from '../audit/audit.module';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 import { WorkspaceController } from './workspace.controller';
+import { WorkspaceInvitationsController } from './workspace-invitations.controller';
+import { WorkspaceTemplatesController } from './workspace-templates.controller';
 import { WorkspaceService } from './workspace.service';
+import { WorkspaceMembersService } from './workspace-members.service';
+import { WorkspaceInvitationsService } from './workspace-invitations.service';
+import { WorkspaceTemplatesService } from './workspace-templates.service';
+import { WorkspaceAnalyticsService } from './workspace-analytics.service';
+import { WorkspaceDirectoryService } from './workspace-directory.service';
 
 @Module({
-  imports: [DatabaseModule, forwardRef(() => RealtimeModule)],
-  controllers: [WorkspaceController],
-  providers: [WorkspaceService],
-  exports: [WorkspaceService],
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    MailModule,
+    forwardRef(() => RealtimeModule),
+    forwardRef(() => UsersModule),
+    forwardRef(() => NotificationsModule),
+  ],
+  controllers: [
+    WorkspaceController,
+    WorkspaceInvitationsController,
+    WorkspaceTemplatesController,
+  ],
+  providers: [
+    WorkspaceService,
+    WorkspaceMembersService,
+    WorkspaceInvitationsService,
+    WorkspaceTemplatesService,
+    WorkspaceAnalyticsService,
+    WorkspaceDirectoryService,
+  ],
+  exports: [
+    WorkspaceService,
+    WorkspaceMembersService,
+    WorkspaceInvitationsService,
+  ],
 })
 export class WorkspacesModule {}
@@ -2,11 +2,34 @@ import {
   INestApplication,
   ValidationPipe,
   UnauthorizedException,
+  HttpStatus,
 } from '@nestjs/common';
 import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
 import request from 'supertest';
+import type { Request } from 'express';
 import { AuthController } from '../src/auth/auth.controller';
 import { AuthService } from '../src/auth/auth.service';
+import { LocalStrategy } from '../src/auth/local.strategy';
+import { LoginThrottleService } from '../src/auth/login-throttle.service';
+import { WorkspaceInvitationsService } from '../src/workspaces/workspace-invitations.service';
+import { AuditLogsService } from '../src/audit/audit-logs.service';
+import { SessionsService } from '../src/auth/sessions.service';
+import { TwoFactorService } from '../src/auth/two-factor.service';
+import { EmailVerificationService } from '../src/auth/email-verification.service';
+import { UsersService } from '../src/users/users.service';
+import { PresenceService } from '../src/presence/presence.service';
+import { ChatGateway } from '../src/realtime/chat.gateway';
+import { NotificationService } from '../src/notifications/notification.service';
+import {
+  LoginThrottle,
+  NotificationType,
+  User,
+  UserRole,
+  UserStatus,
+} from '../src/entities';
 
 describe('POST /api/auth/login (e2e)', () => {
   let app: INestApplication;
@@ -77,3 +100,207 @@ describe('POST /api/auth/login (e2e)', () => {
       .expect(401);
   });
 });
+
+describe('POST /api/auth/login lockout (e2e)', () => {
+  let app: INestApplication;
+  let authService: AuthService;
+  const throttles = new Map<string, LoginThrottle>();
+  const user = {
+    id: '7d1f7a7e-4a52-4c35-9a38-1f0ef7e5c0a1',
+    email: 'user@example.com',
+    firstName: 'Test',
+    lastName: 'User',
+    role: UserRole.TEAM_MEMBER,
+    status: UserStatus.ACTIVE,
+    twoFactorEnabled: false,
+  } as User;
+  const notificationService = { create: jest.fn() };
+
+  const throttleRepository = {
+    findOne: ({ where }: { where: { key: string } }) =>
+      Promise.resolve(throttles.get(where.key) ?? null),
+    findOneOrFail: ({ where }: { where: { key: string } }) =>
+      Promise.resolve({ ...throttles.get(where.key)! }),
+    insert: (data: Partial<LoginThrottle>) => {
+      throttles.set(data.key!, { lockedUntil: null, ...data } as LoginThrottle);
+      return Promise.resolve();
+    },
+    // Mirrors the conditional UPDATE statements of recordFailure
+    createQueryBuilder: () => {
+      let values: Record<string, unknown> = {};
+      const query = {
+        update: () => query,
+        set: (next: Record<string, unknown>) => {
+          values = next;
+          return query;
+        },
+        where: (criteria: { key: string; lockedUntil?: unknown }) => {
+          const record = throttles.get(criteria.key);
+          const matches =
+            !!record && (!('lockedUntil' in criteria) || !record.lockedUntil);
+          return {
+            execute: () => {
+              if (matches) {
+                for (const [column, value] of Object.entries(values)) {
+                  (record as unknown as Record<string, unknown>)[column] =
+                    typeof value === 'function'
+                      ? (record[column as keyof LoginThrottle] as number) + 1
+                      : value;
+                }
+              }
+              return Promise.resolve({ affected: matches ? 1 : 0 });
+            },
+          };
+        },
+      };
+      return query;
+    },
+    delete: ({ key }: { key: string }) =>
+      Promise.resolve({ affected: throttles.delete(key) ? 1 : 0 }),
+  };
+  const userRepository = {
+    find: () => Promise.resolve([{ id: 'admin-1' }]),
+  };
+
+  const throttleSettings = {
+    freeAttempts: 3,
+    baseDelaySeconds: 0,
+    maxDelaySeconds: 0,
+    lockoutThreshold: 4,
+    ipLockoutThreshold: 100,
+    lockoutMinutes: 15,
+  };
+
+  beforeAll(async () => {
+    user.password = await bcrypt.hash('secret', 4);
+
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        AuthService,
+        LoginThrottleService,
+        LocalStrategy,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              key === 'auth.loginThrottle' ? throttleSettings : defaultValue,
+          },
+        },
+        {
+          provide: 'DATA_SOURCE',
+          useValue: {
+            getRepository: (entity: unknown) =>
+              entity === LoginThrottle ? throttleRepository : userRepository,
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findByEmail: (email: string) =>
+              Promise.resolve(email === user.email ? user : null),
+            findById: (id: string) =>
+              Promise.resolve(id === user.id ? user : null),
+            updateLastLogin: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            create: () => Promise.resolve({ id: 'session-1' }),
+            storeRefreshToken: jest.fn(),
+          },
+        },
+        {
+          provide: PresenceService,
+          useValue: { setAutomaticStatus: jest.fn() },
+        },
+        { provide: ChatGateway, useValue: {} },
+        {
+          provide: TwoFactorService,
+          useValue: { isRequiredFor: () => Promise.resolve(false) },
+        },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: WorkspaceInvitationsService, useValue: {} },
+        { provide: AuditLogsService, useValue: { record: jest.fn() } },
+        { provide: NotificationService, useValue: notificationService },
+      ],
+    }).compile();
+
+    authService = moduleRef.get(AuthService);
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  beforeEach(() => {
+    throttles.clear();
+    notificationService.create.mockClear();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const attempt = (password: string) =>
+    request(app.getHttpServer())
+      .post('/api/auth/login')
+      .send({ email: user.email, password });
+
+  it('locks the account after repeated failures and notifies admins', async () => {
+    for (let i = 0; i < throttleSettings.lockoutThreshold; i++) {
+      await attempt('wrong').expect(401);
+    }
+
+    const res = await attempt('secret').expect(429);
+    expect(res.body.retryAfterSeconds).toBeGreaterThan(0);
+    expect(notificationService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: NotificationType.ACCOUNT_LOCKED,
+        userId: 'admin-1',
+        relatedEntityId: user.id,
+      }),
+    );
+  });
+
+  it('rejects a locked account through the local strategy', async () => {
+    const strategy = new LocalStrategy(authService);
+    for (let i = 0; i < throttleSettings.lockoutThreshold; i++) {
+      await expect(
+        strategy.validate({ ip: '10.0.0.1' } as Request, user.email, 'wrong'),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    }
+
+    await expect(
+      strategy.validate({ ip: '10.0.0.1' } as Request, user.email, 'secret'),
+    ).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+  });
+
+  it('accepts the correct password again after an early unlock', async () => {
+    for (let i = 0; i < throttleSettings.lockoutThreshold; i++) {
+      await attempt('wrong').expect(401);
+    }
+    await attempt('secret').expect(429);
+
+    await authService.unlockAccount(user.id);
+
+    await attempt('secret').expect(201);
+  });
+
+  it('resets the failure count after a successful login', async () => {
+    for (let i = 0; i < throttleSettings.lockoutThreshold - 1; i++) {
+      await attempt('wrong').expect(401);
+    }
+    await attempt('secret').expect(201);
+    await attempt('wrong').expect(401);
+    await attempt('secret').expect(201);
+  });
+});
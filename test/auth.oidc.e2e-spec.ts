@@ -0,0 +1,276 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import request from 'supertest';
+import { OidcController } from '../src/auth/oidc.controller';
+import { OidcService } from '../src/auth/oidc.service';
+import { AuthService } from '../src/auth/auth.service';
+import { UsersService } from '../src/users/users.service';
+import {
+  OidcAuthorizationRequest,
+  User,
+  UserRole,
+  UserStatus,
+} from '../src/entities';
+import {
+  MockOidcProvider,
+  startMockOidcProvider,
+} from './support/mock-oidc-provider';
+
+describe('OIDC single sign-on (e2e)', () => {
+  let app: INestApplication;
+  let provider: MockOidcProvider;
+  const redirectUri = 'http://localhost:3001/auth/callback';
+  const users: User[] = [];
+  const requests = new Map<string, OidcAuthorizationRequest>();
+
+  const requestRepository = {
+    create: (data: Partial<OidcAuthorizationRequest>) =>
+      ({
+        id: `request-${requests.size + 1}`,
+        ...data,
+      }) as OidcAuthorizationRequest,
+    save: (record: OidcAuthorizationRequest) => {
+      requests.set(record.id, record);
+      return Promise.resolve(record);
+    },
+    findOne: ({ where }: { where: { stateHash: string } }) =>
+      Promise.resolve(
+        [...requests.values()].find((r) => r.stateHash === where.stateHash) ??
+          null,
+      ),
+    delete: (id: string) => Promise.resolve(requests.delete(id)),
+  };
+
+  const usersService = {
+    findByOidcSubject: (subject: string) =>
+      Promise.resolve(users.find((u) => u.oidcSubject === subject) ?? null),
+    findByEmail: (email: string) =>
+      Promise.resolve(users.find((u) => u.email === email) ?? null),
+    create: (dto: Partial<User>, isEmailVerified: boolean) => {
+      const user = {
+        ...dto,
+        id: `user-${users.length + 1}`,
+        status: UserStatus.ACTIVE,
+        isEmailVerified,
+        oidcSubject: null,
+      } as User;
+      users.push(user);
+      return Promise.resolve(user);
+    },
+    linkOidcSubject: (id: string, subject: string) => {
+      users.find((u) => u.id === id)!.oidcSubject = subject;
+      return Promise.resolve();
+    },
+    setRole: (id: string, role: UserRole) => {
+      users.find((u) => u.id === id)!.role = role;
+      return Promise.resolve();
+    },
+  };
+
+  const authService = {
+    completeSsoLogin: (user: User) =>
+      Promise.resolve({
+        access_token: 'access-token',
+        refresh_token: 'refresh-token',
+        user: { id: user.id, email: user.email, role: user.role },
+      }),
+  };
+
+  const startLogin = async (): Promise<URL> => {
+    const res = await request(app.getHttpServer())
+      .get('/api/auth/oidc/authorize')
+      .expect(200);
+    const idpResponse = await axios.get(res.body.authorizationUrl, {
+      maxRedirects: 0,
+      validateStatus: (status) => status === 302,
+    });
+    return new URL(idpResponse.headers.location as string);
+  };
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider();
+
+    const oidcSettings = {
+      enabled: true,
+      issuer: provider.issuer,
+      clientId: 'crewdo',
+      clientSecret: '',
+      redirectUri,
+      scope: 'openid profile email groups',
+      groupsClaim: 'groups',
+      roleMapping: 'crewdo-admins=admin,crewdo-managers=project_manager',
+      stateTtlMinutes: 10,
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      controllers: [OidcController],
+      providers: [
+        OidcService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => (key === 'oidc' ? oidcSettings : undefined),
+          },
+        },
+        {
+          provide: 'DATA_SOURCE',
+          useValue: { getRepository: () => requestRepository },
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: AuthService, useValue: authService },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await provider.close();
+  });
+
+  it('sends the browser to the IdP with a PKCE challenge', async () => {
+    const res = await request(app.getHttpServer())
+      .get('/api/auth/oidc/authorize')
+      .expect(200);
+
+    const url = new URL(res.body.authorizationUrl);
+    expect(url.origin).toBe(provider.issuer);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe(redirectUri);
+    expect(url.searchParams.get('state')).toBeTruthy();
+  });
+
+  it('provisions a user on first login and maps groups to a role', async () => {
+    const callback = await startLogin();
+
+    const res = await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send({
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+      })
+      .expect(201);
+
+    expect(res.body.user).toEqual(
+      expect.objectContaining({
+        email: 'sso.user@example.com',
+        role: UserRole.PROJECT_MANAGER,
+      }),
+    );
+    expect(users).toHaveLength(1);
+    expect(users[0].oidcSubject).toBe('mock-user-1');
+  });
+
+  it('links an existing account by email and syncs its role', async () => {
+    users.push({
+      id: 'existing-1',
+      email: 'jane@example.com',
+      role: UserRole.TEAM_MEMBER,
+      status: UserStatus.ACTIVE,
+      isEmailVerified: true,
+      oidcSubject: null,
+    } as User);
+    provider.setIdentity({
+      sub: 'mock-jane',
+      email: 'jane@example.com',
+      email_verified: true,
+      groups: ['crewdo-admins', 'crewdo-managers'],
+    });
+
+    const callback = await startLogin();
+    const res = await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send({
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+      })
+      .expect(201);
+
+    expect(res.body.user).toEqual(
+      expect.objectContaining({ id: 'existing-1', role: UserRole.ADMIN }),
+    );
+    expect(users.find((u) => u.id === 'existing-1')?.oidcSubject).toBe(
+      'mock-jane',
+    );
+  });
+
+  it('rejects a replayed state', async () => {
+    const callback = await startLogin();
+    const body = {
+      code: callback.searchParams.get('code'),
+      state: callback.searchParams.get('state'),
+    };
+
+    await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send(body)
+      .expect(201);
+    await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send(body)
+      .expect(401);
+  });
+
+  it('refuses to link by an email the IdP has not verified', async () => {
+    provider.setIdentity({
+      sub: 'mock-unverified',
+      email: 'jane@example.com',
+    });
+
+    const callback = await startLogin();
+    await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send({
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+      })
+      .expect(401);
+
+    expect(users.find((u) => u.id === 'existing-1')?.oidcSubject).toBe(
+      'mock-jane',
+    );
+  });
+
+  it('does not adopt a local account whose email was never verified', async () => {
+    users.push({
+      id: 'squatted-1',
+      email: 'victim@example.com',
+      role: UserRole.TEAM_MEMBER,
+      status: UserStatus.ACTIVE,
+      isEmailVerified: false,
+      oidcSubject: null,
+    } as User);
+    provider.setIdentity({
+      sub: 'mock-victim',
+      email: 'victim@example.com',
+      email_verified: true,
+    });
+
+    const callback = await startLogin();
+    await request(app.getHttpServer())
+      .post('/api/auth/oidc/callback')
+      .send({
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+      })
+      .expect(401);
+
+    const squatted = users.find((u) => u.id === 'squatted-1');
+    expect(squatted?.oidcSubject).toBeNull();
+    expect(squatted?.isEmailVerified).toBe(false);
+  });
+});
@@ -33,6 +33,7 @@ describe('GET /api/messages/channel/:channelId (e2e)', () => {
               firstName: 'Test',
               lastName: 'User',
               email: 'user@example.com',
+              avatarUrl: null,
             },
             channel: {
               id: channelId,
@@ -0,0 +1,185 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+export interface MockOidcIdentity {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  groups?: string[];
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  server: Server;
+  setIdentity(identity: MockOidcIdentity): void;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  identity: MockOidcIdentity;
+}
+
+const readBody = (req: IncomingMessage): Promise<URLSearchParams> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+
+/**
+ * Minimal OpenID Connect provider for local development and e2e tests.
+ * `/authorize` signs the configured identity in without a login screen.
+ */
+export async function startMockOidcProvider(
+  port = 0,
+  identity: MockOidcIdentity = {
+    sub: 'mock-user-1',
+    email: 'sso.user@example.com',
+    email_verified: true,
+    given_name: 'Sso',
+    family_name: 'User',
+    groups: ['crewdo-managers'],
+  },
+): Promise<MockOidcProvider> {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const keyId = randomBytes(8).toString('hex');
+  const jwtService = new JwtService();
+  const codes = new Map<string, PendingCode>();
+  let currentIdentity = identity;
+  let issuer = '';
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (
+      req.method === 'GET' &&
+      url.pathname === '/.well-known/openid-configuration'
+    ) {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(200, {
+        keys: [
+          {
+            ...publicKey.export({ format: 'jwk' }),
+            kid: keyId,
+            alg: 'RS256',
+            use: 'sig',
+          },
+        ],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (
+        params.get('response_type') !== 'code' ||
+        params.get('code_challenge_method') !== 'S256' ||
+        !params.get('code_challenge') ||
+        !redirectUri
+      ) {
+        return sendJson(400, { error: 'invalid_request' });
+      }
+
+      const code = randomBytes(16).toString('hex');
+      codes.set(code, {
+        clientId: params.get('client_id') ?? '',
+        redirectUri,
+        codeChallenge: params.get('code_challenge') ?? '',
+        nonce: params.get('nonce') ?? undefined,
+        identity: currentIdentity,
+      });
+
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      location.searchParams.set('state', params.get('state') ?? '');
+      res.writeHead(302, { Location: location.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      void readBody(req).then((params) => {
+        const pending = codes.get(params.get('code') ?? '');
+        codes.delete(params.get('code') ?? '');
+        const challenge = createHash('sha256')
+          .update(params.get('code_verifier') ?? '')
+          .digest('base64url');
+
+        if (
+          !pending ||
+          pending.clientId !== params.get('client_id') ||
+          pending.redirectUri !== params.get('redirect_uri') ||
+          pending.codeChallenge !== challenge
+        ) {
+          return sendJson(400, { error: 'invalid_grant' });
+        }
+
+        const idToken = jwtService.sign(
+          { ...pending.identity, nonce: pending.nonce },
+          {
+            secret: privateKey
+              .export({ type: 'pkcs8', format: 'pem' })
+              .toString(),
+            algorithm: 'RS256',
+            keyid: keyId,
+            issuer,
+            audience: pending.clientId,
+            expiresIn: '5m',
+          },
+        );
+        sendJson(200, {
+          access_token: randomBytes(16).toString('hex'),
+          token_type: 'Bearer',
+          expires_in: 300,
+          id_token: idToken,
+        });
+      });
+      return;
+    }
+
+    sendJson(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    server,
+    setIdentity: (next) => (currentIdentity = next),
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+if (require.main === module) {
+  void startMockOidcProvider(
+    parseInt(process.env.MOCK_OIDC_PORT || '4010', 10),
+  ).then(({ issuer }) =>
+    console.log(`Mock OIDC provider listening on ${issuer}`),
+  );
+}